@@ -0,0 +1,21 @@
+import { MpesaCallbackService } from '@/lib/mpesa-callbacks';
+
+// Airtel Money callback URL (collections and disbursements): https://<host>/api/airtel/callback?token=<AIRTEL_CALLBACK_TOKEN>
+export async function POST(request: Request) {
+  // Security: Airtel callbacks are unauthenticated, so require the shared token embedded in the URL and stay
+  // closed until one is configured
+  const expectedToken = process.env.AIRTEL_CALLBACK_TOKEN;
+  if (!expectedToken || new URL(request.url).searchParams.get('token') !== expectedToken) {
+    return Response.json({ ResultCode: 1, ResultDesc: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return Response.json({ ResultCode: 1, ResultDesc: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const ack = await MpesaCallbackService.handleAirtelCallback(payload);
+  return Response.json(ack);
+}
@@ -0,0 +1,7 @@
+import { runChamaJob } from '@/lib/jobs-server';
+
+// Scheduled job (e.g. daily): POST https://<host>/api/jobs/contribution-schedule with
+// Authorization: Bearer <SCHEDULED_JOBS_TOKEN>; officers call it with their access token and { chamaId }
+export async function POST(request: Request) {
+  return runChamaJob(request, 'generate_contribution_schedule');
+}
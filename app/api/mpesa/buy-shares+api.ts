@@ -0,0 +1,30 @@
+import { MpesaServerService } from '@/lib/mpesa-server';
+import { getRequestUserId } from '@/lib/supabase-admin';
+
+// Called by the app: POST /api/mpesa/buy-shares with Authorization: Bearer <member's access token>
+export async function POST(request: Request) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return Response.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  let body: Record<string, any>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ success: false, error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await MpesaServerService.buyShares(
+      String(body.phoneNumber || ''),
+      Number(body.amount),
+      String(body.chamaId || ''),
+      userId,
+      body.idempotencyKey
+    );
+    return Response.json(result);
+  } catch (error: any) {
+    return Response.json({ success: false, error: error.message }, { status: 400 });
+  }
+}
@@ -0,0 +1,29 @@
+import { MpesaServerService } from '@/lib/mpesa-server';
+import { getRequestUserId } from '@/lib/supabase-admin';
+
+// Called by the app: POST /api/mpesa/pay-entry-fee with Authorization: Bearer <member's access token>
+export async function POST(request: Request) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return Response.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  let body: Record<string, any>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ success: false, error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await MpesaServerService.payEntryFee(
+      String(body.feeId || ''),
+      String(body.phoneNumber || ''),
+      userId,
+      body.idempotencyKey
+    );
+    return Response.json(result);
+  } catch (error: any) {
+    return Response.json({ success: false, error: error.message }, { status: 400 });
+  }
+}
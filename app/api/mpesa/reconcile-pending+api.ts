@@ -0,0 +1,14 @@
+import { MpesaServerService } from '@/lib/mpesa-server';
+
+// Scheduled job (e.g. every minute): POST https://<host>/api/mpesa/reconcile-pending with
+// Authorization: Bearer <STK_RECONCILE_TOKEN>
+export async function POST(request: Request) {
+  // Security: this endpoint calls the payment providers, so it is closed unless a token is configured
+  const expectedToken = process.env.STK_RECONCILE_TOKEN;
+  if (!expectedToken || request.headers.get('Authorization') !== `Bearer ${expectedToken}`) {
+    return Response.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await MpesaServerService.reconcilePendingSTKRequests();
+  return Response.json(result, { status: result.success ? 200 : 500 });
+}
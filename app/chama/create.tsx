@@ -1,27 +1,37 @@
-import { ChamaService } from '@/lib/chama';
+import { ChamaService, ChamaType, ContributionCycle, RotationOrderMethod } from '@/lib/chama';
 import { router } from 'expo-router';
 import { useState } from 'react';
 import { Alert, ScrollView, View } from 'react-native';
-import { Button, RadioButton, Text, TextInput } from 'react-native-paper';
+import { Button, Checkbox, RadioButton, Text, TextInput } from 'react-native-paper';
 
 export default function CreateChamaScreen() {
   const [formData, setFormData] = useState({
     name: '',
+    chama_type: 'savings' as ChamaType,
     savings_goal: '',
-    contribution_cycle: 'monthly' as 'weekly' | 'monthly',
+    order_method: 'manual' as RotationOrderMethod,
+    contribution_cycle: 'monthly' as ContributionCycle,
     contribution_amount: '',
+    requires_approval: false,
+    entry_fee: '',
   });
   const [loading, setLoading] = useState(false);
 
   const handleCreateChama = async () => {
-    if (!formData.name || !formData.savings_goal || !formData.contribution_amount) {
+    const isSavings = formData.chama_type === 'savings';
+    const isRotating = formData.chama_type === 'rotating';
+    if (!formData.name || (isSavings && !formData.savings_goal) || !formData.contribution_amount) {
       Alert.alert('Error', 'Please fill all required fields');
       return;
     }
 
     setLoading(true);
+    const { order_method, requires_approval, entry_fee, ...chamaFields } = formData;
     const result = await ChamaService.createChama({
-      ...formData,
+      ...chamaFields,
+      savings_goal: isSavings ? formData.savings_goal : undefined,
+      rotation: isRotating ? { order_method } : undefined,
+      membership: { requires_approval, entry_fee: entry_fee ? parseFloat(entry_fee) : 0 },
       contribution_amount: parseFloat(formData.contribution_amount),
     });
 
@@ -49,20 +59,68 @@ export default function CreateChamaScreen() {
         mode="outlined"
       />
       
-      <TextInput
-        label="Savings Goal *"
-        value={formData.savings_goal}
-        onChangeText={(text) => setFormData({ ...formData, savings_goal: text })}
-        className="mb-4"
-        mode="outlined"
-        placeholder="e.g., Land Purchase, Business Investment"
-      />
+      <Text variant="titleMedium" className="mb-2">Chama Type *</Text>
+      <RadioButton.Group
+        onValueChange={(value) => setFormData({ ...formData, chama_type: value as ChamaType })}
+        value={formData.chama_type}
+      >
+        <View className="flex-row items-center">
+          <RadioButton value="savings" />
+          <Text>Savings</Text>
+        </View>
+        <View className="flex-row items-center">
+          <RadioButton value="rotating" />
+          <Text>Merry-go-round</Text>
+        </View>
+        <View className="flex-row items-center mb-4">
+          <RadioButton value="table_banking" />
+          <Text>Table banking</Text>
+        </View>
+      </RadioButton.Group>
+
+      {formData.chama_type === 'savings' && (
+        <TextInput
+          label="Savings Goal *"
+          value={formData.savings_goal}
+          onChangeText={(text) => setFormData({ ...formData, savings_goal: text })}
+          className="mb-4"
+          mode="outlined"
+          placeholder="e.g., Land Purchase, Business Investment"
+        />
+      )}
+
+      {formData.chama_type === 'rotating' && (
+        <>
+          <Text variant="titleMedium" className="mb-2">Payout Order *</Text>
+          <RadioButton.Group
+            onValueChange={(value) => setFormData({ ...formData, order_method: value as RotationOrderMethod })}
+            value={formData.order_method}
+          >
+            <View className="flex-row items-center">
+              <RadioButton value="manual" />
+              <Text>Set by officers</Text>
+            </View>
+            <View className="flex-row items-center">
+              <RadioButton value="random" />
+              <Text>Random draw</Text>
+            </View>
+            <View className="flex-row items-center mb-4">
+              <RadioButton value="bid" />
+              <Text>Highest bid goes first</Text>
+            </View>
+          </RadioButton.Group>
+        </>
+      )}
       
       <Text variant="titleMedium" className="mb-2">Contribution Cycle *</Text>
       <RadioButton.Group
         onValueChange={(value) => setFormData({ ...formData, contribution_cycle: value as any })}
         value={formData.contribution_cycle}
       >
+        <View className="flex-row items-center">
+          <RadioButton value="daily" />
+          <Text>Daily</Text>
+        </View>
         <View className="flex-row items-center">
           <RadioButton value="weekly" />
           <Text>Weekly</Text>
@@ -71,6 +129,10 @@ export default function CreateChamaScreen() {
           <RadioButton value="monthly" />
           <Text>Monthly</Text>
         </View>
+        <View className="flex-row items-center">
+          <RadioButton value="quarterly" />
+          <Text>Quarterly</Text>
+        </View>
       </RadioButton.Group>
       
       <TextInput
@@ -78,8 +140,26 @@ export default function CreateChamaScreen() {
         value={formData.contribution_amount}
         onChangeText={(text) => setFormData({ ...formData, contribution_amount: text })}
         keyboardType="numeric"
-        className="mb-6 mt-4"
+        className="mb-4 mt-4"
+        mode="outlined"
+      />
+
+      <Checkbox.Item
+        label="Officers approve new members"
+        status={formData.requires_approval ? 'checked' : 'unchecked'}
+        onPress={() => setFormData({ ...formData, requires_approval: !formData.requires_approval })}
+        position="leading"
+        className="mb-2"
+      />
+
+      <TextInput
+        label="Entry Fee (KES)"
+        value={formData.entry_fee}
+        onChangeText={(text) => setFormData({ ...formData, entry_fee: text })}
+        keyboardType="numeric"
+        className="mb-6"
         mode="outlined"
+        placeholder="Leave blank for no entry fee"
       />
       
       <Button
@@ -0,0 +1,225 @@
+import { useChama } from '@/contexts/ChamaContext';
+import { ChamaInvite, getInviteLink, InviteService, isInviteOpen } from '@/lib/invites';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, Share, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Text, TextInput } from 'react-native-paper';
+import QRCode from 'react-native-qrcode-svg';
+
+export default function ChamaInvitesScreen() {
+  const { currentChama, refreshChamas } = useChama();
+  const [invites, setInvites] = useState<ChamaInvite[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('30');
+  const [maxUses, setMaxUses] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadInvites = useCallback(async () => {
+    if (!currentChama) return;
+
+    setLoading(true);
+    const result = await InviteService.getInvites(currentChama.id);
+    setLoading(false);
+
+    if (result.success) {
+      setInvites(result.invites || []);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  }, [currentChama]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const sharedInvite = invites.find(invite => invite.invite_type === 'shared' && !invite.revoked_at);
+  const personalInvites = invites.filter(invite => invite.invite_type === 'personal');
+
+  const shareInvite = async (invite: ChamaInvite) => {
+    await Share.share({
+      message: `Join ${currentChama?.name} on WealthCircle with invite code ${invite.code}: ${getInviteLink(invite.code)}`,
+    });
+  };
+
+  const rotateCode = async () => {
+    if (!currentChama) return;
+
+    setSaving(true);
+    const result = await InviteService.rotateInviteCode(
+      currentChama.id,
+      parseInt(expiresInDays, 10),
+      maxUses ? parseInt(maxUses, 10) : undefined
+    );
+    setSaving(false);
+
+    if (result.success) {
+      setMaxUses('');
+      await Promise.all([loadInvites(), refreshChamas()]);
+      Alert.alert('Code rotated', `The new invite code is ${result.invite?.code}. The old code no longer works.`);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const invitePhone = async () => {
+    if (!currentChama) return;
+
+    setSaving(true);
+    const result = await InviteService.createPersonalInvite(currentChama.id, phoneNumber);
+    setSaving(false);
+
+    if (result.success && result.invite) {
+      setPhoneNumber('');
+      await loadInvites();
+      await shareInvite(result.invite);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    const result = await InviteService.revokeInvite(inviteId);
+
+    if (result.success) {
+      await loadInvites();
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadInvites();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        <ActivityIndicator size="large" color="#6B21A8" />
+        <Text className="mt-4 text-gray-600">Loading invites...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      className="flex-1 p-4 bg-white"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Invite Members
+      </Text>
+
+      {sharedInvite ? (
+        <Card className="mb-6">
+          <Card.Content className="items-center">
+            <QRCode value={getInviteLink(sharedInvite.code)} size={180} />
+            <Text variant="headlineSmall" className="mt-4 tracking-widest">
+              {sharedInvite.code}
+            </Text>
+            <Text variant="bodySmall" className="text-gray-500 mt-1">
+              {isInviteOpen(sharedInvite)
+                ? `Expires ${new Date(sharedInvite.expires_at).toLocaleDateString()}`
+                : 'Expired or used up. Rotate the code to keep inviting members.'}
+              {sharedInvite.max_uses !== null && ` · Used ${sharedInvite.use_count} of ${sharedInvite.max_uses}`}
+            </Text>
+          </Card.Content>
+          <Card.Actions>
+            <Button onPress={() => shareInvite(sharedInvite)} disabled={!isInviteOpen(sharedInvite)}>
+              Share Link
+            </Button>
+          </Card.Actions>
+        </Card>
+      ) : (
+        <Text variant="bodyMedium" className="text-gray-500 text-center mb-6">
+          No shared code is active. Rotate the code to create one.
+        </Text>
+      )}
+
+      <View className="mb-6">
+        <Text variant="titleMedium" className="mb-2">Rotate the shared code</Text>
+        <TextInput
+          label="Expires in (days)"
+          value={expiresInDays}
+          onChangeText={setExpiresInDays}
+          keyboardType="numeric"
+          className="mb-2"
+          mode="outlined"
+        />
+        <TextInput
+          label="Maximum uses (blank for unlimited)"
+          value={maxUses}
+          onChangeText={setMaxUses}
+          keyboardType="numeric"
+          className="mb-4"
+          mode="outlined"
+        />
+        <Button
+          mode="contained"
+          onPress={rotateCode}
+          loading={saving}
+          disabled={saving || !expiresInDays}
+          className="bg-purple-600"
+        >
+          Rotate Code
+        </Button>
+      </View>
+
+      <View className="mb-6">
+        <Text variant="titleMedium" className="mb-2">Invite someone by phone</Text>
+        <Text variant="bodySmall" className="text-gray-500 mb-2">
+          Personal invites work once, for the account registered with this number, and expire after 7 days.
+        </Text>
+        <TextInput
+          label="Phone number"
+          value={phoneNumber}
+          onChangeText={setPhoneNumber}
+          keyboardType="phone-pad"
+          className="mb-4"
+          mode="outlined"
+        />
+        <Button
+          mode="contained"
+          onPress={invitePhone}
+          loading={saving}
+          disabled={saving || !phoneNumber}
+          className="bg-purple-600"
+        >
+          Send Invite
+        </Button>
+      </View>
+
+      {personalInvites.length > 0 && (
+        <View className="mb-8">
+          <Text variant="titleMedium" className="mb-2">Personal invites</Text>
+          {personalInvites.map((invite) => (
+            <Card key={invite.id} className="mb-3">
+              <Card.Content>
+                <Text variant="titleSmall">{invite.phone_number}</Text>
+                <Text variant="bodySmall" className="text-gray-500 mt-1">
+                  {invite.code} · {invite.use_count > 0
+                    ? 'Used'
+                    : invite.revoked_at
+                      ? 'Revoked'
+                      : isInviteOpen(invite)
+                        ? `Expires ${new Date(invite.expires_at).toLocaleDateString()}`
+                        : 'Expired'}
+                </Text>
+              </Card.Content>
+              {isInviteOpen(invite) && (
+                <Card.Actions>
+                  <Button onPress={() => shareInvite(invite)}>Share</Button>
+                  <Button onPress={() => revokeInvite(invite.id)}>Revoke</Button>
+                </Card.Actions>
+              )}
+            </Card>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
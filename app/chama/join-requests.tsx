@@ -0,0 +1,135 @@
+import { useChama } from '@/contexts/ChamaContext';
+import { JoinRequestService } from '@/lib/join-requests';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Text, TextInput } from 'react-native-paper';
+
+type JoinRequest = {
+  id: string;
+  status: string;
+  review_reason: string | null;
+  created_at: string;
+  applicant: { full_name: string; phone_number: string } | null;
+};
+
+export default function JoinRequestsScreen() {
+  const { currentChama, refreshChamas } = useChama();
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    if (!currentChama) return;
+
+    setLoading(true);
+    const result = await JoinRequestService.getChamaRequests(currentChama.id);
+    setLoading(false);
+
+    if (result.success) {
+      setRequests((result.requests || []) as JoinRequest[]);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  }, [currentChama]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const reviewRequest = async (requestId: string, approve: boolean) => {
+    setReviewing(requestId);
+    const result = await JoinRequestService.reviewRequest(requestId, approve, reasons[requestId]);
+    setReviewing(null);
+
+    if (result.success) {
+      await Promise.all([loadRequests(), approve ? refreshChamas() : Promise.resolve()]);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadRequests();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        <ActivityIndicator size="large" color="#6B21A8" />
+        <Text className="mt-4 text-gray-600">Loading join requests...</Text>
+      </View>
+    );
+  }
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const reviewed = requests.filter(request => request.status !== 'pending');
+
+  return (
+    <ScrollView
+      className="flex-1 p-4 bg-white"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Join Requests
+      </Text>
+
+      {pending.length === 0 && (
+        <Text variant="bodyLarge" className="text-gray-500 text-center py-8">
+          No one is waiting to join
+        </Text>
+      )}
+
+      {pending.map((request) => (
+        <Card key={request.id} className="mb-3">
+          <Card.Content>
+            <Text variant="titleMedium">{request.applicant?.full_name}</Text>
+            <Text variant="bodySmall" className="text-gray-500 mb-2">
+              {request.applicant?.phone_number} · Asked {new Date(request.created_at).toLocaleDateString()}
+            </Text>
+            <TextInput
+              label="Reason (required to reject)"
+              value={reasons[request.id] || ''}
+              onChangeText={(text) => setReasons({ ...reasons, [request.id]: text })}
+              mode="outlined"
+              dense
+            />
+          </Card.Content>
+          <Card.Actions>
+            <Button
+              onPress={() => reviewRequest(request.id, false)}
+              disabled={reviewing === request.id || !reasons[request.id]?.trim()}
+            >
+              Reject
+            </Button>
+            <Button
+              mode="contained"
+              onPress={() => reviewRequest(request.id, true)}
+              loading={reviewing === request.id}
+              disabled={reviewing === request.id}
+            >
+              Approve
+            </Button>
+          </Card.Actions>
+        </Card>
+      ))}
+
+      {reviewed.length > 0 && (
+        <View className="mt-6 mb-8">
+          <Text variant="titleMedium" className="mb-2">Reviewed</Text>
+          {reviewed.map((request) => (
+            <Text key={request.id} variant="bodySmall" className="text-gray-500 mb-1">
+              {request.applicant?.full_name} · <Text className="capitalize">{request.status}</Text>
+              {request.review_reason && ` · ${request.review_reason}`}
+            </Text>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
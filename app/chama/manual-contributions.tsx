@@ -0,0 +1,275 @@
+import { useAuth } from '@/contexts/auth_context';
+import { useChama } from '@/contexts/ChamaContext';
+import { ChamaService } from '@/lib/chama';
+import { ContributionService, formatReceiptNumber } from '@/lib/contributions';
+import { MpesaService } from '@/lib/mpesa';
+import * as ImagePicker from 'expo-image-picker';
+import { router } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, View } from 'react-native';
+import { ActivityIndicator, Button, Card, RadioButton, Text, TextInput } from 'react-native-paper';
+
+type ManualContribution = {
+  id: string;
+  amount: number;
+  payment_method: 'cash' | 'bank';
+  reference: string | null;
+  paid_on: string;
+  status: 'pending_confirmation' | 'confirmed' | 'rejected';
+  proof_path: string | null;
+  review_notes: string | null;
+  receipt_number: number | null;
+  member: { user_id: string; role: string; user: { full_name: string } | null } | null;
+};
+
+// Pick a photo of a bank slip or cash receipt and upload it under the chama's folder
+const pickProof = async (chamaId: string): Promise<string | null> => {
+  const picked = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], quality: 0.6 });
+  if (picked.canceled || !picked.assets[0]) return null;
+
+  const asset = picked.assets[0];
+  const upload = await ContributionService.uploadPaymentProof(chamaId, asset.uri, asset.mimeType || 'image/jpeg');
+  if (!upload.success) {
+    Alert.alert('Error', upload.error || 'Failed to upload photo');
+    return null;
+  }
+
+  return upload.path ?? null;
+};
+
+export default function ManualContributionsScreen() {
+  const { currentChama } = useChama();
+  const { user } = useAuth();
+  const [contributions, setContributions] = useState<ManualContribution[]>([]);
+  const [membership, setMembership] = useState<{ id: string; role: string | null } | null>(null);
+  const [form, setForm] = useState({ amount: '', payment_method: 'cash' as 'cash' | 'bank', reference: '' });
+  const [proofPath, setProofPath] = useState<string | null>(null);
+  const [paybill, setPaybill] = useState<{ paybillNumber: string; accountReference: string } | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadContributions = useCallback(async () => {
+    if (!currentChama || !user) return;
+
+    setLoading(true);
+    const [result, member, account] = await Promise.all([
+      ContributionService.getManualContributions(currentChama.id),
+      ChamaService.getMyMembership(currentChama.id),
+      MpesaService.getPaybillAccount(currentChama.id, user.id),
+    ]);
+    setLoading(false);
+
+    setMembership(member.membership || null);
+    setPaybill(account.success && account.paybillNumber && account.accountReference
+      ? { paybillNumber: account.paybillNumber, accountReference: account.accountReference }
+      : null);
+    if (result.success) {
+      setContributions((result.contributions || []) as ManualContribution[]);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  }, [currentChama, user]);
+
+  useEffect(() => {
+    loadContributions();
+  }, [loadContributions]);
+
+  const attachProof = async () => {
+    if (!currentChama) return;
+
+    const path = await pickProof(currentChama.id);
+    if (path) setProofPath(path);
+  };
+
+  const recordContribution = async () => {
+    if (!currentChama || !membership) return;
+
+    setSaving(true);
+    const result = await ContributionService.recordContribution({
+      chama_id: currentChama.id,
+      member_id: membership.id,
+      amount: parseFloat(form.amount),
+      payment_method: form.payment_method,
+      transaction_code: form.reference || undefined,
+      proof_path: proofPath || undefined,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      setForm({ amount: '', payment_method: 'cash', reference: '' });
+      setProofPath(null);
+      Alert.alert('Recorded', 'Your contribution will count once the treasurer confirms it');
+      await loadContributions();
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const confirmContribution = async (contributionId: string, confirm: boolean, withProof: boolean = false) => {
+    if (!currentChama) return;
+
+    const proof = withProof ? await pickProof(currentChama.id) : null;
+    if (withProof && !proof) return;
+
+    setSaving(true);
+    const result = await ContributionService.confirmContribution(
+      contributionId, confirm, notes[contributionId], proof || undefined
+    );
+    setSaving(false);
+
+    if (result.success) {
+      if (result.receiptNumber) {
+        Alert.alert('Confirmed', `Receipt ${formatReceiptNumber(result.receiptNumber)} issued`);
+      }
+      await loadContributions();
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadContributions();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        <ActivityIndicator size="large" color="#6B21A8" />
+        <Text className="mt-4 text-gray-600">Loading contributions...</Text>
+      </View>
+    );
+  }
+
+  // The treasurer confirms contributions; the chairperson confirms the treasurer's own
+  const confirmerRole = (payerRole?: string) => payerRole === 'treasurer' ? 'chairperson' : 'treasurer';
+
+  return (
+    <ScrollView
+      className="flex-1 p-4 bg-white"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Cash & Bank Contributions
+      </Text>
+
+      {paybill && (
+        <Card className="mb-6">
+          <Card.Content>
+            <Text variant="titleMedium">Pay with M-Pesa</Text>
+            <Text variant="bodyMedium" className="mt-1">
+              Paybill {paybill.paybillNumber} · Account {paybill.accountReference}
+            </Text>
+            <Text variant="bodySmall" className="text-gray-500 mt-1">
+              Payments to this account are recorded as your contribution automatically; no confirmation needed.
+            </Text>
+          </Card.Content>
+        </Card>
+      )}
+
+      <View className="mb-6">
+        <Text variant="titleMedium" className="mb-2">Record a contribution</Text>
+        <RadioButton.Group
+          onValueChange={(value) => setForm({ ...form, payment_method: value as 'cash' | 'bank' })}
+          value={form.payment_method}
+        >
+          <View className="flex-row items-center">
+            <RadioButton value="cash" />
+            <Text>Cash</Text>
+          </View>
+          <View className="flex-row items-center mb-2">
+            <RadioButton value="bank" />
+            <Text>Bank deposit</Text>
+          </View>
+        </RadioButton.Group>
+        <TextInput
+          label="Amount (KES)"
+          value={form.amount}
+          onChangeText={(text) => setForm({ ...form, amount: text })}
+          keyboardType="numeric"
+          className="mb-2"
+          mode="outlined"
+        />
+        <TextInput
+          label={form.payment_method === 'bank' ? 'Deposit reference *' : 'Reference (optional)'}
+          value={form.reference}
+          onChangeText={(text) => setForm({ ...form, reference: text })}
+          className="mb-2"
+          mode="outlined"
+        />
+        <Button onPress={attachProof} icon="camera" className="mb-2">
+          {proofPath ? 'Photo attached' : 'Attach slip or receipt photo'}
+        </Button>
+        <Button
+          mode="contained"
+          onPress={recordContribution}
+          loading={saving}
+          disabled={saving || !form.amount || !membership}
+          className="bg-purple-600"
+        >
+          Submit for Confirmation
+        </Button>
+      </View>
+
+      {contributions.map((contribution) => {
+        const isPending = contribution.status === 'pending_confirmation';
+        const canConfirm = isPending && membership?.role === confirmerRole(contribution.member?.role)
+          && contribution.member?.user_id !== user?.id;
+
+        return (
+          <Card key={contribution.id} className="mb-3">
+            <Card.Content>
+              <Text variant="titleMedium">
+                {contribution.member?.user?.full_name} · KES {contribution.amount}
+              </Text>
+              <Text variant="bodySmall" className="text-gray-500 mt-1">
+                <Text className="capitalize">{contribution.payment_method}</Text>
+                {contribution.reference && ` · ${contribution.reference}`}
+                {` · Paid ${new Date(contribution.paid_on).toLocaleDateString()}`}
+                {isPending && ' · Awaiting confirmation'}
+                {contribution.status === 'rejected' && ` · Rejected: ${contribution.review_notes}`}
+                {contribution.receipt_number && ` · ${formatReceiptNumber(contribution.receipt_number)}`}
+              </Text>
+              {canConfirm && (
+                <TextInput
+                  label="Notes (required to reject)"
+                  value={notes[contribution.id] || ''}
+                  onChangeText={(text) => setNotes({ ...notes, [contribution.id]: text })}
+                  mode="outlined"
+                  dense
+                  className="mt-2"
+                />
+              )}
+            </Card.Content>
+            {canConfirm && (
+              <Card.Actions>
+                <Button
+                  onPress={() => confirmContribution(contribution.id, false)}
+                  disabled={saving || !notes[contribution.id]?.trim()}
+                >
+                  Reject
+                </Button>
+                <Button onPress={() => confirmContribution(contribution.id, true, true)} disabled={saving}>
+                  Confirm with Photo
+                </Button>
+                <Button mode="contained" onPress={() => confirmContribution(contribution.id, true)} disabled={saving}>
+                  Confirm
+                </Button>
+              </Card.Actions>
+            )}
+            {contribution.status === 'confirmed' && (
+              <Card.Actions>
+                <Button onPress={() => router.push(`/chama/receipt/${contribution.id}`)}>View Receipt</Button>
+              </Card.Actions>
+            )}
+          </Card>
+        );
+      })}
+    </ScrollView>
+  );
+}
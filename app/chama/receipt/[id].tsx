@@ -0,0 +1,106 @@
+import { ContributionService, formatReceiptNumber } from '@/lib/contributions';
+import { Image } from 'expo-image';
+import { useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { Alert, ScrollView, Share, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Divider, Text } from 'react-native-paper';
+
+type Receipt = {
+  amount: number;
+  payment_method: 'cash' | 'bank';
+  reference: string | null;
+  paid_on: string;
+  reviewed_at: string;
+  receipt_number: number;
+  proof_path: string | null;
+  chama: { name: string } | null;
+  member: { user: { full_name: string; phone_number: string } | null } | null;
+  confirmer: { user: { full_name: string } | null } | null;
+};
+
+export default function ReceiptScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [proofUrl, setProofUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReceipt = async () => {
+      const result = await ContributionService.getReceipt(id);
+      setLoading(false);
+
+      if (!result.success) {
+        Alert.alert('Error', result.error);
+        return;
+      }
+
+      const loaded = result.receipt as Receipt;
+      setReceipt(loaded);
+
+      if (loaded.proof_path) {
+        const proof = await ContributionService.getPaymentProofUrl(loaded.proof_path);
+        if (proof.success) setProofUrl(proof.url);
+      }
+    };
+
+    loadReceipt();
+  }, [id]);
+
+  if (loading || !receipt) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        {loading ? <ActivityIndicator size="large" color="#6B21A8" /> : <Text>Receipt not found</Text>}
+      </View>
+    );
+  }
+
+  const receiptNumber = formatReceiptNumber(receipt.receipt_number);
+  const lines: [string, string][] = [
+    ['Receipt', receiptNumber],
+    ['Chama', receipt.chama?.name ?? ''],
+    ['Received from', receipt.member?.user?.full_name ?? ''],
+    ['Amount', `KES ${receipt.amount}`],
+    ['Method', receipt.payment_method === 'bank' ? 'Bank deposit' : 'Cash'],
+    ...(receipt.reference ? [['Reference', receipt.reference] as [string, string]] : []),
+    ['Paid on', new Date(receipt.paid_on).toLocaleDateString()],
+    ['Confirmed by', receipt.confirmer?.user?.full_name ?? ''],
+    ['Confirmed on', new Date(receipt.reviewed_at).toLocaleDateString()],
+  ];
+
+  const shareReceipt = async () => {
+    await Share.share({
+      title: `Receipt ${receiptNumber}`,
+      message: lines.map(([label, value]) => `${label}: ${value}`).join('\n'),
+    });
+  };
+
+  return (
+    <ScrollView className="flex-1 p-4 bg-white">
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Contribution Receipt
+      </Text>
+
+      <Card className="mb-6">
+        <Card.Content>
+          {lines.map(([label, value], index) => (
+            <View key={label}>
+              {index > 0 && <Divider className="my-2" />}
+              <View className="flex-row justify-between">
+                <Text variant="bodyMedium" className="text-gray-500">{label}</Text>
+                <Text variant="bodyMedium" className="font-medium">{value}</Text>
+              </View>
+            </View>
+          ))}
+        </Card.Content>
+      </Card>
+
+      {proofUrl && (
+        <Image source={{ uri: proofUrl }} style={{ width: '100%', height: 320 }} contentFit="contain" />
+      )}
+
+      <Button mode="contained" onPress={shareReceipt} className="bg-purple-600 mt-4 mb-8">
+        Share Receipt
+      </Button>
+    </ScrollView>
+  );
+}
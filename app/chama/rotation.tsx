@@ -0,0 +1,147 @@
+import { useChama } from '@/contexts/ChamaContext';
+import { RotationCalendarEntry, RotationService } from '@/lib/rotation';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Text, TextInput } from 'react-native-paper';
+
+export default function RotationCalendarScreen() {
+  const { currentChama } = useChama();
+  const [calendar, setCalendar] = useState<RotationCalendarEntry[]>([]);
+  const [bidAmount, setBidAmount] = useState('');
+  const [bidding, setBidding] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadCalendar = useCallback(async () => {
+    if (!currentChama) return;
+
+    setLoading(true);
+    const result = await RotationService.getCalendar(currentChama.id);
+    setLoading(false);
+
+    if (result.success) {
+      setCalendar(result.calendar || []);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  }, [currentChama]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const placeBid = async () => {
+    if (!currentChama) return;
+
+    setBidding(true);
+    const result = await RotationService.placeBid(currentChama.id, parseFloat(bidAmount));
+    setBidding(false);
+
+    if (result.success) {
+      setBidAmount('');
+      Alert.alert('Bid placed', `Your bid counts towards round ${result.round}`);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadCalendar();
+    setRefreshing(false);
+  };
+
+  const getStatusColor = (status: RotationCalendarEntry['status']) => {
+    switch (status) {
+      case 'paid': return '#10B981';
+      case 'next': return '#6B21A8';
+      case 'skipped': return '#9CA3AF';
+      default: return '#6B7280';
+    }
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        <ActivityIndicator size="large" color="#6B21A8" />
+        <Text className="mt-4 text-gray-600">Loading rotation...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      className="flex-1 p-4 bg-white"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Rotation Calendar
+      </Text>
+
+      {calendar.length === 0 ? (
+        <View className="items-center py-12">
+          <Text variant="bodyLarge" className="text-gray-500 text-center mb-4">
+            No rotation order yet
+          </Text>
+          <Text variant="bodyMedium" className="text-gray-400 text-center">
+            Your officers will set the payout order for the first round
+          </Text>
+        </View>
+      ) : (
+        calendar.map((entry) => (
+          <Card key={`${entry.round}-${entry.position}`} className="mb-3">
+            <Card.Content>
+              <View className="flex-row justify-between items-start">
+                <Text variant="titleMedium" className="flex-1">
+                  {entry.position}. {entry.full_name}
+                </Text>
+                <View
+                  className="px-2 py-1 rounded"
+                  style={{ backgroundColor: `${getStatusColor(entry.status)}20` }}
+                >
+                  <Text
+                    style={{ color: getStatusColor(entry.status) }}
+                    className="text-xs font-medium capitalize"
+                  >
+                    {entry.status}
+                  </Text>
+                </View>
+              </View>
+              <Text variant="bodySmall" className="text-gray-500 mt-1">
+                Round {entry.round}
+                {entry.expected_date && ` · ${entry.status === 'paid' ? 'Paid' : 'Expected'} ${new Date(entry.expected_date).toLocaleDateString()}`}
+                {entry.bid_amount > 0 && ` · Bid KSh ${entry.bid_amount}`}
+              </Text>
+            </Card.Content>
+          </Card>
+        ))
+      )}
+
+      <View className="mt-6 mb-8">
+        <Text variant="titleMedium" className="mb-2">Bid for the next round</Text>
+        <Text variant="bodySmall" className="text-gray-500 mb-2">
+          In chamas that order turns by bid, the highest bidders are paid first and their bid is kept back from their payout.
+        </Text>
+        <TextInput
+          label="Bid amount (KES)"
+          value={bidAmount}
+          onChangeText={setBidAmount}
+          keyboardType="numeric"
+          className="mb-4"
+          mode="outlined"
+        />
+        <Button
+          mode="contained"
+          onPress={placeBid}
+          loading={bidding}
+          disabled={bidding || !bidAmount}
+          className="bg-purple-600"
+        >
+          Place Bid
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,265 @@
+import { useChama } from '@/contexts/ChamaContext';
+import { MatchedStatementLine, StatementMember, StatementService, StatementSource } from '@/lib/statements';
+import * as DocumentPicker from 'expo-document-picker';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Chip, Menu, Text } from 'react-native-paper';
+
+type StatementImport = {
+  id: string;
+  source: StatementSource;
+  file_name: string | null;
+  line_count: number;
+  posted_count: number;
+  duplicate_count: number;
+  posted_amount: number;
+  created_at: string;
+};
+
+type PreparedImport = {
+  source: StatementSource;
+  fileName: string;
+  lines: MatchedStatementLine[];
+  members: StatementMember[];
+};
+
+const SOURCE_LABELS: Record<StatementSource, string> = {
+  mpesa_paybill: 'M-Pesa paybill',
+  mpesa_till: 'M-Pesa till',
+  bank: 'Bank',
+};
+
+const MATCH_LABELS: Record<MatchedStatementLine['match'], string> = {
+  exact: 'Matches an unpaid contribution',
+  member: 'Member matched, amount differs from what is due',
+  none: 'Not matched',
+};
+
+export default function StatementImportScreen() {
+  const { currentChama } = useChama();
+  const [imports, setImports] = useState<StatementImport[]>([]);
+  const [prepared, setPrepared] = useState<PreparedImport | null>(null);
+  // Member each line is allocated to, keyed by reference; null leaves the line out of the import
+  const [allocations, setAllocations] = useState<Record<string, string | null>>({});
+  const [menuFor, setMenuFor] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadImports = useCallback(async () => {
+    if (!currentChama) return;
+
+    setLoading(true);
+    const result = await StatementService.getImports(currentChama.id);
+    setLoading(false);
+
+    if (result.success) {
+      setImports((result.imports || []) as StatementImport[]);
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  }, [currentChama]);
+
+  useEffect(() => {
+    loadImports();
+  }, [loadImports]);
+
+  const chooseStatement = async () => {
+    if (!currentChama) return;
+
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || !picked.assets[0]) return;
+
+    setReading(true);
+    const file = picked.assets[0];
+    const text = await (await fetch(file.uri)).text();
+    const result = await StatementService.prepareImport(currentChama.id, text);
+    setReading(false);
+
+    if (!result.success || !result.lines || !result.source) {
+      Alert.alert('Error', result.error);
+      return;
+    }
+
+    setPrepared({ source: result.source, fileName: file.name, lines: result.lines, members: result.members || [] });
+    setAllocations(Object.fromEntries(result.lines.map(line => [line.reference, line.memberId])));
+  };
+
+  const postImport = async () => {
+    if (!currentChama || !prepared) return;
+
+    const allocated = prepared.lines
+      .filter(line => !line.alreadyPosted && allocations[line.reference])
+      .map(line => ({ line, memberId: allocations[line.reference]! }));
+
+    setPosting(true);
+    const result = await StatementService.postImport(
+      currentChama.id, prepared.source, prepared.fileName, prepared.lines.length, allocated
+    );
+    setPosting(false);
+
+    if (result.success && result.result) {
+      setPrepared(null);
+      setAllocations({});
+      await loadImports();
+      Alert.alert(
+        'Statement posted',
+        `${result.result.posted} contributions totalling KES ${result.result.posted_amount} were posted.` +
+          (result.result.duplicates > 0 ? ` ${result.result.duplicates} lines were already recorded and skipped.` : '')
+      );
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadImports();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        <ActivityIndicator size="large" color="#6B21A8" />
+        <Text className="mt-4 text-gray-600">Loading statement imports...</Text>
+      </View>
+    );
+  }
+
+  const openLines = prepared ? prepared.lines.filter(line => !line.alreadyPosted) : [];
+  const postedLines = prepared ? prepared.lines.filter(line => line.alreadyPosted) : [];
+  const allocatedLines = openLines.filter(line => allocations[line.reference]);
+  const allocatedTotal = allocatedLines.reduce((sum, line) => sum + line.amount, 0);
+  const memberName = (memberId: string | null) =>
+    prepared?.members.find(member => member.id === memberId)?.full_name;
+
+  return (
+    <ScrollView
+      className="flex-1 p-4 bg-white"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Import Statement
+      </Text>
+
+      {!prepared && (
+        <View className="mb-6">
+          <Text variant="bodyMedium" className="text-gray-500 mb-4">
+            Upload an M-Pesa paybill or till statement, or your bank statement, exported as CSV. Payments are matched
+            to members by phone number and account reference; you allocate the rest before anything is posted.
+          </Text>
+          <Button
+            mode="contained"
+            onPress={chooseStatement}
+            loading={reading}
+            disabled={reading}
+            icon="file-upload"
+            className="bg-purple-600"
+          >
+            Choose Statement File
+          </Button>
+        </View>
+      )}
+
+      {prepared && (
+        <View className="mb-6">
+          <Text variant="titleMedium">{prepared.fileName}</Text>
+          <Text variant="bodySmall" className="text-gray-500 mb-4">
+            {SOURCE_LABELS[prepared.source]} · {prepared.lines.length} payments received
+            {` · ${openLines.filter(line => line.match !== 'none').length} matched`}
+            {` · ${openLines.filter(line => line.match === 'none').length} to allocate`}
+            {postedLines.length > 0 && ` · ${postedLines.length} already recorded`}
+          </Text>
+
+          {openLines.map((line) => (
+            <Card key={line.reference} className="mb-3">
+              <Card.Content>
+                <Text variant="titleMedium">KES {line.amount}</Text>
+                <Text variant="bodySmall" className="text-gray-500 mt-1">
+                  {new Date(line.paidAt).toLocaleString()} · {line.reference}
+                  {line.payerName && ` · ${line.payerName}`}
+                  {line.phoneNumber && ` · ${line.phoneNumber}`}
+                  {line.accountReference && ` · Acc. ${line.accountReference}`}
+                </Text>
+                <Text variant="bodySmall" className={line.match === 'none' ? 'text-red-600 mt-1' : 'text-green-700 mt-1'}>
+                  {MATCH_LABELS[line.match]}
+                </Text>
+                <View className="flex-row items-center mt-2">
+                  <Menu
+                    visible={menuFor === line.reference}
+                    onDismiss={() => setMenuFor(null)}
+                    anchor={
+                      <Chip icon="account" onPress={() => setMenuFor(line.reference)}>
+                        {memberName(allocations[line.reference]) || 'Allocate to member'}
+                      </Chip>
+                    }
+                  >
+                    {prepared.members.map((member) => (
+                      <Menu.Item
+                        key={member.id}
+                        title={member.full_name}
+                        onPress={() => {
+                          setAllocations({ ...allocations, [line.reference]: member.id });
+                          setMenuFor(null);
+                        }}
+                      />
+                    ))}
+                  </Menu>
+                  {allocations[line.reference] && (
+                    <Button onPress={() => setAllocations({ ...allocations, [line.reference]: null })}>
+                      Skip
+                    </Button>
+                  )}
+                </View>
+              </Card.Content>
+            </Card>
+          ))}
+
+          {postedLines.length > 0 && (
+            <View className="mt-2 mb-4">
+              <Text variant="titleSmall" className="mb-1">Already recorded</Text>
+              {postedLines.map((line) => (
+                <Text key={line.reference} variant="bodySmall" className="text-gray-500">
+                  {line.reference} · KES {line.amount}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <Button
+            mode="contained"
+            onPress={postImport}
+            loading={posting}
+            disabled={posting || allocatedLines.length === 0}
+            className="bg-purple-600 mb-2"
+          >
+            {`Post ${allocatedLines.length} Contributions (KES ${allocatedTotal})`}
+          </Button>
+          <Button onPress={() => setPrepared(null)} disabled={posting}>
+            Cancel
+          </Button>
+        </View>
+      )}
+
+      {imports.length > 0 && (
+        <View className="mb-8">
+          <Text variant="titleMedium" className="mb-2">Past imports</Text>
+          {imports.map((statementImport) => (
+            <Text key={statementImport.id} variant="bodySmall" className="text-gray-500 mb-1">
+              {new Date(statementImport.created_at).toLocaleDateString()} · {SOURCE_LABELS[statementImport.source]}
+              {statementImport.file_name && ` · ${statementImport.file_name}`}
+              {` · ${statementImport.posted_count} of ${statementImport.line_count} posted, KES ${statementImport.posted_amount}`}
+            </Text>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,78 @@
+import { useAuth } from '@/contexts/auth_context';
+import { useChama } from '@/contexts/ChamaContext';
+import { ChamaService } from '@/lib/chama';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { Alert, ScrollView } from 'react-native';
+import { Button, Text, TextInput } from 'react-native-paper';
+
+// Opened directly or from an invite link (wealthcircle://join/CODE), which pre-fills the code
+export default function JoinChamaScreen() {
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const { user } = useAuth();
+  const { refreshChamas } = useChama();
+  const [inviteCode, setInviteCode] = useState((code || '').toUpperCase());
+  const [loading, setLoading] = useState(false);
+
+  const handleJoin = async () => {
+    setLoading(true);
+    const result = await ChamaService.joinChama(inviteCode);
+    setLoading(false);
+
+    if (result.success && result.chama?.status === 'pending') {
+      Alert.alert('Request sent', `The officers of ${result.chama.name} will review your request to join`);
+      router.replace('/dashboard');
+    } else if (result.success) {
+      await refreshChamas();
+      Alert.alert('Welcome', `You have joined ${result.chama?.name}`);
+      router.replace('/dashboard');
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  return (
+    <ScrollView className="flex-1 p-4 bg-white">
+      <Text variant="headlineMedium" className="text-center mb-6 text-purple-600">
+        Join a Chama
+      </Text>
+
+      <Text variant="bodyMedium" className="text-gray-500 mb-4">
+        Enter the invite code your chama officers shared with you. Personal invites only work for the phone number
+        they were sent to.
+      </Text>
+
+      <TextInput
+        label="Invite code"
+        value={inviteCode}
+        onChangeText={(text) => setInviteCode(text.toUpperCase())}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        maxLength={8}
+        className="mb-4"
+        mode="outlined"
+      />
+
+      {user ? (
+        <Button
+          mode="contained"
+          onPress={handleJoin}
+          loading={loading}
+          disabled={loading || inviteCode.trim().length !== 8}
+          className="bg-purple-600"
+        >
+          Join Chama
+        </Button>
+      ) : (
+        <>
+          <Text variant="bodySmall" className="text-gray-500 mb-2">
+            Log in or create an account first, then open the invite link again.
+          </Text>
+          <Button mode="contained" onPress={() => router.push('/login')} className="bg-purple-600">
+            Log In
+          </Button>
+        </>
+      )}
+    </ScrollView>
+  );
+}
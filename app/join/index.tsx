@@ -0,0 +1,2 @@
+// Manual entry uses the same screen as invite links, with an empty code
+export { default } from './[code]';
@@ -1,12 +1,13 @@
-import { ChamaService } from '@/lib/chama';
+import { ChamaService, ChamaType, ContributionCycle } from '@/lib/chama';
 import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
 
 interface Chama {
   id: string;
   name: string;
   description?: string;
+  chama_type: ChamaType;
   savings_goal: string;
-  contribution_cycle: 'weekly' | 'monthly';
+  contribution_cycle: ContributionCycle;
   contribution_amount: number;
   total_kitty: number;
   invite_code: string;
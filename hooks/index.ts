@@ -1,2 +1,3 @@
 export { useChama } from './useChama';
 export { useRealtimeChama } from './useRealtime';
+export { useTransactionStatus } from './useTransactionStatus';
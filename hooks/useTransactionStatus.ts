@@ -0,0 +1,81 @@
+import { useAuth } from '@/contexts/auth_context';
+import { MpesaService } from '@/lib/mpesa';
+import { useEffect, useState } from 'react';
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLL_MS = 3 * 60 * 1000; // STK prompts time out on the phone well before this
+
+const FINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+type TransactionStatus = {
+  status: string;
+  transaction_code: string | null;
+  amount: number;
+  result_desc: string | null;
+};
+
+/**
+ * Poll an STK push's status while the payment sheet is open; stops once it settles or the sheet closes
+ */
+export const useTransactionStatus = (requestId: string | null, enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [transaction, setTransaction] = useState<TransactionStatus | null>(null);
+  const [polling, setPolling] = useState(false);
+  const [timedOut, setTimedOut] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!requestId || !user || !enabled) return;
+
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const startedAt = Date.now();
+
+    setTransaction(null);
+    setTimedOut(false);
+    setError(null);
+    setPolling(true);
+
+    const poll = async () => {
+      const result = await MpesaService.checkTransactionStatus(requestId, user.id);
+      if (!active) return;
+
+      if (result.success && result.transaction) {
+        setTransaction(result.transaction);
+        if (FINAL_STATUSES.includes(result.transaction.status)) {
+          setPolling(false);
+          return;
+        }
+      } else {
+        setError(result.error || 'Failed to check transaction status');
+      }
+
+      if (Date.now() - startedAt > MAX_POLL_MS) {
+        setTimedOut(true);
+        setPolling(false);
+        return;
+      }
+
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+
+    return () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      setPolling(false);
+    };
+  }, [requestId, user, enabled]);
+
+  const status = transaction?.status;
+
+  return {
+    transaction,
+    polling,
+    timedOut,
+    error,
+    isComplete: status === 'completed',
+    isFailed: status === 'failed' || status === 'cancelled',
+  };
+};
@@ -0,0 +1,271 @@
+import {
+  AIRTEL_CALLBACK_FIXTURES,
+  B2C_RESULT_FIXTURES,
+  C2B_PAYMENT_FIXTURES,
+  STK_CALLBACK_FIXTURES,
+} from '@/lib/gateways/fixtures';
+import {
+  MpesaCallbackService,
+  parseAirtelCallback,
+  parseB2CResult,
+  parseC2BPayment,
+  parseSTKCallback,
+  STKCallbackStatus,
+} from '@/lib/mpesa-callbacks';
+
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase-admin', () => ({
+  getSupabaseAdmin: () => ({ rpc: mockRpc }),
+}));
+
+const ACK = { ResultCode: 0, ResultDesc: 'Accepted' };
+const REJECT = { ResultCode: 1, ResultDesc: 'Rejected' };
+
+beforeEach(() => {
+  mockRpc.mockReset();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseSTKCallback', () => {
+  it('flattens a successful callback', () => {
+    expect(parseSTKCallback(STK_CALLBACK_FIXTURES.success)).toEqual({
+      valid: true,
+      callback: {
+        merchantRequestId: '29115-34620561-1',
+        checkoutRequestId: 'ws_CO_191220191020363925',
+        resultCode: 0,
+        resultDesc: 'The service request is processed successfully.',
+        status: 'completed',
+        amount: 1,
+        mpesaReceiptNumber: 'NLJ7RT61SV',
+        transactionDate: '2019-12-19T07:21:15.000Z',
+        phoneNumber: '254708374149',
+      },
+    });
+  });
+
+  it.each<[keyof typeof STK_CALLBACK_FIXTURES, STKCallbackStatus, number]>([
+    ['cancelledByUser', 'cancelled', 1032],
+    ['insufficientFunds', 'failed', 1],
+    ['timeout', 'failed', 1037],
+  ])('maps %s to %s', (fixture, status, resultCode) => {
+    const parsed = parseSTKCallback(STK_CALLBACK_FIXTURES[fixture]);
+
+    expect(parsed.valid).toBe(true);
+    expect(parsed.callback).toMatchObject({ status, resultCode });
+    expect(parsed.callback?.mpesaReceiptNumber).toBeUndefined();
+  });
+
+  it('rejects a successful callback without a receipt', () => {
+    const { Body: { stkCallback } } = STK_CALLBACK_FIXTURES.success;
+    const payload = {
+      Body: {
+        stkCallback: {
+          ...stkCallback,
+          CallbackMetadata: { Item: stkCallback.CallbackMetadata.Item.filter(item => item.Name !== 'MpesaReceiptNumber') },
+        },
+      },
+    };
+
+    expect(parseSTKCallback(payload)).toEqual({ valid: false, error: 'Successful callback is missing amount or receipt' });
+  });
+
+  it('rejects bodies that are not STK callbacks', () => {
+    expect(parseSTKCallback({})).toEqual({ valid: false, error: 'Missing stkCallback body' });
+    expect(parseSTKCallback(null)).toEqual({ valid: false, error: 'Missing stkCallback body' });
+  });
+});
+
+describe('parseB2CResult', () => {
+  it('flattens a successful result', () => {
+    expect(parseB2CResult(B2C_RESULT_FIXTURES.success)).toEqual({
+      valid: true,
+      result: {
+        originatorConversationId: '10571-7910404-1',
+        conversationId: 'AG_20191219_00004e48cf7e3533f581',
+        resultCode: '0',
+        resultDesc: 'The service request is processed successfully.',
+        succeeded: true,
+        amount: 10,
+        transactionReceipt: 'NLJ41HAY6Q',
+        completedAt: '2019-12-19T08:45:50.000Z',
+      },
+    });
+  });
+
+  it.each<keyof typeof B2C_RESULT_FIXTURES>(['insufficientBalance', 'invalidInitiator', 'timeout'])('treats %s as a failure without a receipt', fixture => {
+    const parsed = parseB2CResult(B2C_RESULT_FIXTURES[fixture]);
+
+    expect(parsed.valid).toBe(true);
+    expect(parsed.result?.succeeded).toBe(false);
+    expect(parsed.result?.transactionReceipt).toBeUndefined();
+  });
+});
+
+describe('parseC2BPayment', () => {
+  it('drops the masked MSISDN Daraja sends on confirmations', () => {
+    expect(parseC2BPayment(C2B_PAYMENT_FIXTURES.matched)).toEqual({
+      valid: true,
+      payment: {
+        transId: 'RKTQDM7W6S',
+        accountReference: 'K7QX2M9A3',
+        amount: 500,
+        paidAt: '2024-06-10T12:22:33.000Z',
+        phoneNumber: undefined,
+      },
+    });
+  });
+
+  it('rejects payments without an amount', () => {
+    expect(parseC2BPayment({ ...C2B_PAYMENT_FIXTURES.matched, TransAmount: '0' }))
+      .toEqual({ valid: false, error: 'Invalid TransAmount' });
+  });
+});
+
+describe('parseAirtelCallback', () => {
+  it('requires an Airtel Money ID on success', () => {
+    expect(parseAirtelCallback(AIRTEL_CALLBACK_FIXTURES.success).callback)
+      .toMatchObject({ succeeded: true, airtelMoneyId: 'MP240610.1522.A12345' });
+
+    const { airtel_money_id: _, ...withoutId } = AIRTEL_CALLBACK_FIXTURES.success.transaction;
+    expect(parseAirtelCallback({ transaction: withoutId }))
+      .toEqual({ valid: false, error: 'Successful callback is missing airtel_money_id' });
+  });
+
+  it('accepts failures without an Airtel Money ID', () => {
+    expect(parseAirtelCallback(AIRTEL_CALLBACK_FIXTURES.failed).callback).toMatchObject({ succeeded: false });
+  });
+});
+
+describe('MpesaCallbackService.handleSTKCallback', () => {
+  it('reconciles a successful callback with its receipt', async () => {
+    mockRpc.mockResolvedValue({ data: 'completed', error: null });
+
+    await expect(MpesaCallbackService.handleSTKCallback(STK_CALLBACK_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_stk_callback', {
+      p_checkout_request_id: 'ws_CO_191220191020363925',
+      p_result_code: 0,
+      p_result_desc: 'The service request is processed successfully.',
+      p_amount: 1,
+      p_mpesa_receipt: 'NLJ7RT61SV',
+      p_phone_number: '254708374149',
+      p_transaction_date: '2019-12-19T07:21:15.000Z',
+    });
+  });
+
+  it('acknowledges a duplicate delivery so Daraja stops retrying', async () => {
+    mockRpc.mockResolvedValue({ data: 'duplicate', error: null });
+
+    await expect(MpesaCallbackService.handleSTKCallback(STK_CALLBACK_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('acknowledges a late callback for a request the reconciler already settled', async () => {
+    mockRpc.mockResolvedValue({ data: 'duplicate', error: null });
+
+    await expect(MpesaCallbackService.handleSTKCallback(STK_CALLBACK_FIXTURES.timeout)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_stk_callback', expect.objectContaining({
+      p_checkout_request_id: 'ws_CO_171220231140416748',
+      p_result_code: 1037,
+      p_amount: null,
+      p_mpesa_receipt: null,
+    }));
+  });
+
+  it('rejects when reconciliation fails so Daraja retries', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'could not serialize access' } });
+
+    await expect(MpesaCallbackService.handleSTKCallback(STK_CALLBACK_FIXTURES.success)).resolves.toEqual(REJECT);
+  });
+
+  it('rejects malformed callbacks without touching the database', async () => {
+    await expect(MpesaCallbackService.handleSTKCallback({ Body: {} })).resolves.toEqual(REJECT);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('MpesaCallbackService.handleB2CResult', () => {
+  it('acknowledges a result for a disbursement that was already settled', async () => {
+    mockRpc.mockResolvedValue({ data: 'duplicate', error: null });
+
+    await expect(MpesaCallbackService.handleB2CResult(B2C_RESULT_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_b2c_result', {
+      p_originator_conversation_id: '10571-7910404-1',
+      p_conversation_id: 'AG_20191219_00004e48cf7e3533f581',
+      p_result_code: '0',
+      p_result_desc: 'The service request is processed successfully.',
+      p_transaction_receipt: 'NLJ41HAY6Q',
+      p_amount: 10,
+      p_completed_at: '2019-12-19T08:45:50.000Z',
+    });
+  });
+
+  it('acknowledges a second payment against a settled request once it is booked and flagged', async () => {
+    mockRpc.mockResolvedValue({ data: 'duplicate_payment', error: null });
+
+    await expect(MpesaCallbackService.handleB2CResult(B2C_RESULT_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_b2c_result', expect.objectContaining({
+      p_result_code: '0',
+      p_transaction_receipt: 'NLJ41HAY6Q',
+      p_amount: 10,
+    }));
+    expect(console.error).toHaveBeenCalledWith('B2C paid a request that was already settled:', '10571-7910404-1');
+  });
+
+  it('records a queue timeout as a failure even if it carries a success code', async () => {
+    mockRpc.mockResolvedValue({ data: 'failed', error: null });
+
+    await expect(MpesaCallbackService.handleB2CTimeout(B2C_RESULT_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_b2c_result', expect.objectContaining({
+      p_result_code: 'TIMEOUT',
+      p_transaction_receipt: null,
+    }));
+  });
+});
+
+describe('MpesaCallbackService.handleC2BConfirmation', () => {
+  it.each<string>(['completed', 'duplicate', 'unmatched'])('acknowledges a %s paybill payment', async outcome => {
+    mockRpc.mockResolvedValue({ data: outcome, error: null });
+
+    await expect(MpesaCallbackService.handleC2BConfirmation(C2B_PAYMENT_FIXTURES.matched)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_c2b_payment', {
+      p_trans_id: 'RKTQDM7W6S',
+      p_account_reference: 'K7QX2M9A3',
+      p_amount: 500,
+      p_phone_number: null,
+      p_paid_at: '2024-06-10T12:22:33.000Z',
+    });
+  });
+});
+
+describe('MpesaCallbackService.handleAirtelCallback', () => {
+  it('settles a collection by its transaction ID', async () => {
+    mockRpc.mockResolvedValue({ data: 'completed', error: null });
+
+    await expect(MpesaCallbackService.handleAirtelCallback(AIRTEL_CALLBACK_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(mockRpc).toHaveBeenCalledWith('reconcile_stk_callback', expect.objectContaining({
+      p_checkout_request_id: 'WCA1718000000000ABC123',
+      p_mpesa_receipt: 'MP240610.1522.A12345',
+    }));
+  });
+
+  it('falls back to the disbursement when no collection matches', async () => {
+    mockRpc
+      .mockResolvedValueOnce({ data: 'not_found', error: null })
+      .mockResolvedValueOnce({ data: 'completed', error: null });
+
+    await expect(MpesaCallbackService.handleAirtelCallback(AIRTEL_CALLBACK_FIXTURES.success)).resolves.toEqual(ACK);
+    expect(mockRpc).toHaveBeenLastCalledWith('reconcile_b2c_result', expect.objectContaining({
+      p_originator_conversation_id: 'WCA1718000000000ABC123',
+      p_result_code: '0',
+      p_transaction_receipt: 'MP240610.1522.A12345',
+    }));
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  matchStatementLines,
+  MatchedStatementLine,
+  parseStatement,
+  parseStatementDate,
+  StatementLine,
+  StatementMember,
+  StatementObligation,
+} from '@/lib/statements';
+
+// The parser only needs phone normalization from the client module
+jest.mock('@/lib/supabase', () => ({
+  supabase: {},
+  isValidUUID: () => true,
+  KenyanPhoneUtils: {
+    normalizeToInternational: (phone: string) => phone.replace(/^0/, '+254').replace(/^(?=[17])/, '+254'),
+  },
+}));
+
+const PAYBILL_STATEMENT = [
+  '\uFEFFOrganization Name,WEALTHCIRCLE CHAMA',
+  'Time Period,01-06-2024 - 30-06-2024',
+  'Receipt No.,Completion Time,Details,Transaction Status,Paid In,Withdrawn,Balance,Other Party Info,A/C No.',
+  'RKT1AB2CD3,2024-06-10 12:22:33,"Pay Bill from 2547*****678 - JANE WANJIKU, Acc. K7QX2M9A3",Completed,"1,000.00",,"6,000.00",2547*****678 - JANE WANJIKU,K7QX2M9A3',
+  'RKT1AB2CD4,2024-06-10 13:05:00,Business charge,Completed,,(30.00),"5,970.00",,',
+  'RKT1AB2CD5,2024-06-11 08:00:00,Pay Bill from 254712345678 - JOHN KAMAU,Failed,500.00,,"5,970.00",254712345678 - JOHN KAMAU,K7QX2M9A4',
+].join('\r\n');
+
+const BANK_STATEMENT = [
+  'Transaction Date,Description,Amount',
+  '15/03/2024,CHEQUE 000123 RETURNED,"(1,000.00)"',
+  '15/03/2024,"CASH DEPOSIT JOHN KAMAU, BRANCH 042","2,500.00"',
+].join('\n');
+
+const MEMBERS: StatementMember[] = [
+  { id: 'member-jane', full_name: 'Jane Wanjiku', phone_number: '254712345678' },
+  { id: 'member-john', full_name: 'John Kamau', phone_number: '254798765678' },
+];
+
+const OBLIGATIONS: StatementObligation[] = [
+  { id: 'march', member_id: 'member-jane', amount: 500, amount_paid: 0, due_date: '2024-03-31' },
+  { id: 'april', member_id: 'member-jane', amount: 500, amount_paid: 0, due_date: '2024-04-30' },
+];
+
+const line = (overrides: Partial<StatementLine>): StatementLine => ({
+  lineNumber: 1,
+  reference: 'RKT1AB2CD3',
+  paidAt: '2024-06-10T09:22:33.000Z',
+  amount: 500,
+  phoneNumber: null,
+  payerName: null,
+  accountReference: null,
+  description: '',
+  ...overrides,
+});
+
+describe('parseStatementDate', () => {
+  it.each<[string, string | null]>([
+    ['2024-03-05 10:22:11', '2024-03-05T07:22:11.000Z'],
+    ['2024/03/05', '2024-03-04T21:00:00.000Z'],
+    ['05/03/2024', '2024-03-04T21:00:00.000Z'],
+    ['05-03-24 14:05', '2024-03-05T11:05:00.000Z'],
+    ['05/03/2024 2:30 PM', '2024-03-05T11:30:00.000Z'],
+    ['05-Mar-2024', '2024-03-04T21:00:00.000Z'],
+    ['03/15/2024', null],
+    ['yesterday', null],
+    ['', null],
+  ])('reads %p as %p', (value, expected) => {
+    expect(parseStatementDate(value)).toBe(expected);
+  });
+});
+
+describe('parseStatement', () => {
+  it('finds the header below the summary rows of a paybill export with a BOM', () => {
+    const parsed = parseStatement(PAYBILL_STATEMENT);
+
+    expect(parsed).toMatchObject({ success: true, source: 'mpesa_paybill' });
+    expect(parsed.lines).toEqual([{
+      lineNumber: 1,
+      reference: 'RKT1AB2CD3',
+      paidAt: '2024-06-10T09:22:33.000Z',
+      amount: 1000,
+      phoneNumber: '2547*****678',
+      payerName: 'JANE WANJIKU',
+      accountReference: 'K7QX2M9A3',
+      description: 'Pay Bill from 2547*****678 - JANE WANJIKU, Acc. K7QX2M9A3',
+    }]);
+  });
+
+  it('reads a till export without an account column', () => {
+    const till = PAYBILL_STATEMENT.replace(',A/C No.', '');
+
+    expect(parseStatement(till).source).toBe('mpesa_till');
+  });
+
+  it('keeps bank credits and drops bracketed negatives', () => {
+    const parsed = parseStatement(BANK_STATEMENT);
+
+    expect(parsed).toMatchObject({ success: true, source: 'bank' });
+    expect(parsed.lines).toHaveLength(1);
+    expect(parsed.lines?.[0]).toMatchObject({
+      lineNumber: 2,
+      paidAt: '2024-03-14T21:00:00.000Z',
+      amount: 2500,
+      accountReference: 'CASH DEPOSIT JOHN KAMAU, BRANCH 042',
+    });
+    expect(parsed.lines?.[0].reference).toMatch(/^BANK-20240314-250000-[0-9A-Z]+$/);
+  });
+
+  it('gives a bank line the same reference when it turns up on a later statement', () => {
+    const later = BANK_STATEMENT + '\n16/03/2024,MPESA DEPOSIT 0712345678,"1,500.00"';
+    const [first] = parseStatement(BANK_STATEMENT).lines ?? [];
+    const [again, next] = parseStatement(later).lines ?? [];
+
+    expect(again.reference).toBe(first.reference);
+    expect(next.reference).not.toBe(first.reference);
+    expect(next.phoneNumber).toBe('254712345678');
+  });
+
+  it.each<[string, string]>([
+    ['', 'The statement file is empty or too large'],
+    ['Name,Phone\nJane,0712345678', 'This does not look like an M-Pesa or bank statement export'],
+  ])('rejects %p', (text, error) => {
+    expect(parseStatement(text)).toEqual({ success: false, error });
+  });
+});
+
+describe('matchStatementLines', () => {
+  it.each<[string, Partial<StatementLine>, Pick<MatchedStatementLine, 'memberId' | 'match' | 'matchedBy'>]>([
+    ['a full phone number and an unpaid obligation', { phoneNumber: '254712345678' },
+      { memberId: 'member-jane', match: 'exact', matchedBy: 'phone' }],
+    ['a masked phone that fits one member', { phoneNumber: '25479****678' },
+      { memberId: 'member-john', match: 'member', matchedBy: 'phone' }],
+    ['a masked phone that fits two members', { phoneNumber: '2547*****678' },
+      { memberId: null, match: 'none', matchedBy: null }],
+    ['a masked phone that fits two members, with a name in the account reference',
+      { phoneNumber: '2547*****678', accountReference: 'CASH DEPOSIT JOHN KAMAU' },
+      { memberId: 'member-john', match: 'member', matchedBy: 'account_reference' }],
+    ['a phone number in the account reference', { accountReference: 'DEPOSIT FOR 0712345678' },
+      { memberId: 'member-jane', match: 'exact', matchedBy: 'account_reference' }],
+    ['an amount no obligation is waiting for', { phoneNumber: '254712345678', amount: 750 },
+      { memberId: 'member-jane', match: 'member', matchedBy: 'phone' }],
+  ])('matches %s', (_, overrides, expected) => {
+    const [matched] = matchStatementLines([line(overrides)], MEMBERS, OBLIGATIONS, new Set());
+
+    expect(matched).toMatchObject(expected);
+  });
+
+  it('settles the oldest obligation first and each obligation once', () => {
+    const matched = matchStatementLines(
+      [line({ reference: 'A', phoneNumber: '254712345678' }), line({ reference: 'B', phoneNumber: '254712345678' }),
+        line({ reference: 'C', phoneNumber: '254712345678' })],
+      MEMBERS,
+      OBLIGATIONS,
+      new Set()
+    );
+
+    expect(matched.map(m => m.obligationId)).toEqual(['march', 'april', null]);
+    expect(matched.map(m => m.match)).toEqual(['exact', 'exact', 'member']);
+  });
+
+  it('flags lines already posted when a statement is imported again', () => {
+    const { lines = [] } = parseStatement(PAYBILL_STATEMENT);
+    const posted = new Set(lines.map(l => l.reference));
+    const withNewLine = [...lines, line({ reference: 'RKT1AB2CD9', lineNumber: 2 })];
+
+    expect(matchStatementLines(withNewLine, MEMBERS, OBLIGATIONS, posted).map(m => m.alreadyPosted))
+      .toEqual([true, false]);
+  });
+});
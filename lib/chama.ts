@@ -1,4 +1,5 @@
-import { Database, supabase } from '@/lib/supabase';
+import { Json } from '@/lib/database.types';
+import { Database, isValidUUID, supabase } from '@/lib/supabase';
 
 // Security constants
 const SECURITY_CONFIG = {
@@ -8,6 +9,9 @@ const SECURITY_CONFIG = {
   MIN_CONTRIBUTION_AMOUNT: 100,
   MAX_CONTRIBUTION_AMOUNT: 100000,
   RATE_LIMIT_WINDOW: 60000, // 1 minute
+  MAX_GRACE_PERIOD_DAYS: 90,
+  MAX_FLAT_FINE: 100000,
+  MAX_ENTRY_FEE: 100000,
 } as const;
 
 // Type aliases for better readability
@@ -15,7 +19,52 @@ type Chama = Database['public']['Tables']['chamas']['Row'];
 type ChamaInsert = Database['public']['Tables']['chamas']['Insert'];
 type ChamaMember = Database['public']['Tables']['chama_members']['Row'];
 type ChamaMemberInsert = Database['public']['Tables']['chama_members']['Insert'];
-type ChamaMemberRole = Database['public']['Enums']['member_role'];
+type ChamaMemberRole = Database['public']['Enums']['user_role'];
+
+// Cycles supported by the contribution schedule engine
+export const CONTRIBUTION_CYCLES = ['daily', 'weekly', 'monthly', 'quarterly'] as const;
+export type ContributionCycle = typeof CONTRIBUTION_CYCLES[number];
+
+// Late-payment fine rules, stored under chamas.settings.fines
+export interface FineRules {
+  enabled: boolean;
+  grace_period_days: number;
+  penalty_type: 'flat' | 'percentage';
+  penalty_value: number;
+  max_penalty?: number;
+}
+
+// Loan amortization methods, stored under chamas.settings.loans
+export const INTEREST_METHODS = ['flat', 'reducing_balance'] as const;
+export type InterestMethod = typeof INTEREST_METHODS[number];
+
+export interface LoanSettings {
+  interest_method: InterestMethod;
+}
+
+// Savings chamas pool contributions; rotating chamas (merry-go-rounds) pay each cycle's pot to the next member;
+// table-banking chamas hold share capital, lend it out and share the income as dividends
+export const CHAMA_TYPES = ['savings', 'rotating', 'table_banking'] as const;
+export type ChamaType = typeof CHAMA_TYPES[number];
+
+// How a merry-go-round orders its members, stored under chamas.settings.rotation
+export const ROTATION_ORDER_METHODS = ['manual', 'random', 'bid'] as const;
+export type RotationOrderMethod = typeof ROTATION_ORDER_METHODS[number];
+
+export interface RotationSettings {
+  order_method: RotationOrderMethod;
+}
+
+// How new members are admitted, stored under chamas.settings.membership
+export interface MembershipSettings {
+  // Invite codes create a join request for officers to approve instead of an instant membership
+  requires_approval: boolean;
+  // Charged to each new member as a pending obligation; 0 for none
+  entry_fee: number;
+}
+
+// Joining either admits the member at once or leaves a request for the officers
+export type JoinResult = Pick<Chama, 'id' | 'name'> & { status: 'joined' | 'pending'; request_id?: string };
 
 // Rate limiting storage
 const chamaAttempts = new Map<string, { count: number; lastAttempt: number }>();
@@ -45,11 +94,27 @@ const generateSecureInviteCode = (): string => {
 interface ChamaCreateData {
   name: string;
   description?: string;
-  savings_goal: string;
-  contribution_cycle: 'weekly' | 'monthly';
+  chama_type?: ChamaType;
+  // Required for savings chamas only
+  savings_goal?: string;
+  rotation?: RotationSettings;
+  membership?: MembershipSettings;
+  contribution_cycle: ContributionCycle;
   contribution_amount: number;
 }
 
+const validateMembershipSettings = (settings: MembershipSettings): { valid: boolean; error?: string } => {
+  if (typeof settings.requires_approval !== 'boolean') {
+    return { valid: false, error: 'Invalid approval setting' };
+  }
+
+  if (!Number.isFinite(settings.entry_fee) || settings.entry_fee < 0 || settings.entry_fee > SECURITY_CONFIG.MAX_ENTRY_FEE) {
+    return { valid: false, error: `Entry fee must be between 0 and ${SECURITY_CONFIG.MAX_ENTRY_FEE}` };
+  }
+
+  return { valid: true };
+};
+
 const validateChamaData = (data: ChamaCreateData): { valid: boolean; error?: string } => {
   if (!data.name || data.name.trim().length < 2) {
     return { valid: false, error: 'Chama name must be at least 2 characters' };
@@ -63,11 +128,27 @@ const validateChamaData = (data: ChamaCreateData): { valid: boolean; error?: str
     return { valid: false, error: `Description too long (max ${SECURITY_CONFIG.MAX_DESCRIPTION_LENGTH} characters)` };
   }
 
-  if (!data.savings_goal || data.savings_goal.trim().length < 2) {
+  const chamaType = data.chama_type ?? 'savings';
+  if (!CHAMA_TYPES.includes(chamaType)) {
+    return { valid: false, error: 'Invalid chama type' };
+  }
+
+  if (chamaType === 'savings' && (!data.savings_goal || data.savings_goal.trim().length < 2)) {
     return { valid: false, error: 'Valid savings goal required' };
   }
 
-  if (!['weekly', 'monthly'].includes(data.contribution_cycle)) {
+  if (chamaType === 'rotating' && data.rotation && !ROTATION_ORDER_METHODS.includes(data.rotation.order_method)) {
+    return { valid: false, error: 'Invalid rotation order method' };
+  }
+
+  if (data.membership) {
+    const membershipValidation = validateMembershipSettings(data.membership);
+    if (!membershipValidation.valid) {
+      return membershipValidation;
+    }
+  }
+
+  if (!CONTRIBUTION_CYCLES.includes(data.contribution_cycle)) {
     return { valid: false, error: 'Invalid contribution cycle' };
   }
 
@@ -80,6 +161,27 @@ const validateChamaData = (data: ChamaCreateData): { valid: boolean; error?: str
   return { valid: true };
 };
 
+const validateFineRules = (rules: FineRules): { valid: boolean; error?: string } => {
+  if (!Number.isInteger(rules.grace_period_days) || rules.grace_period_days < 0 || rules.grace_period_days > SECURITY_CONFIG.MAX_GRACE_PERIOD_DAYS) {
+    return { valid: false, error: `Grace period must be between 0 and ${SECURITY_CONFIG.MAX_GRACE_PERIOD_DAYS} days` };
+  }
+
+  if (rules.penalty_type !== 'flat' && rules.penalty_type !== 'percentage') {
+    return { valid: false, error: 'Invalid penalty type' };
+  }
+
+  const maxValue = rules.penalty_type === 'percentage' ? 100 : SECURITY_CONFIG.MAX_FLAT_FINE;
+  if (!Number.isFinite(rules.penalty_value) || rules.penalty_value <= 0 || rules.penalty_value > maxValue) {
+    return { valid: false, error: `Penalty must be greater than 0 and at most ${maxValue}` };
+  }
+
+  if (rules.max_penalty !== undefined && (!Number.isFinite(rules.max_penalty) || rules.max_penalty < 1 || rules.max_penalty > SECURITY_CONFIG.MAX_FLAT_FINE)) {
+    return { valid: false, error: 'Invalid maximum penalty' };
+  }
+
+  return { valid: true };
+};
+
 const sanitizeInput = (input: string, type: 'text' | 'number' = 'text'): string => {
   let sanitized = input.trim();
   
@@ -98,12 +200,6 @@ const sanitizeInput = (input: string, type: 'text' | 'number' = 'text'): string
   return sanitized;
 };
 
-const isValidUUID = (id: string): boolean => {
-  if (!id) return false;
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(id);
-};
-
 const verifyChairperson = async (chamaId: string, userId: string): Promise<boolean> => {
   try {
     const { data, error } = await supabase
@@ -147,6 +243,36 @@ const checkRateLimit = (identifier: string): { limited: boolean; message?: strin
   return { limited: false };
 };
 
+// Replace one section of chamas.settings, preserving the others
+const updateSettingsSection = async (chamaId: string, section: string, value: Json): Promise<{ success: boolean; error?: string }> => {
+  const { data: chama, error: fetchError } = await supabase
+    .from('chamas')
+    .select('settings')
+    .eq('id', chamaId)
+    .single();
+
+  if (fetchError || !chama) {
+    return { success: false, error: 'Chama not found' };
+  }
+
+  const settings: Json = {
+    ...((chama.settings as { [key: string]: Json | undefined }) || {}),
+    [section]: value,
+  };
+
+  const { error } = await supabase
+    .from('chamas')
+    .update({ settings })
+    .eq('id', chamaId);
+
+  if (error) {
+    console.error(`Update ${section} settings error:`, error.message);
+    return { success: false, error: `Failed to update ${section} settings` };
+  }
+
+  return { success: true };
+};
+
 const addMemberWithVerification = async (chamaId: string, userId: string, role: ChamaMemberRole): Promise<{ success: boolean; error?: string }> => {
   try {
     const memberData: ChamaMemberInsert = {
@@ -198,11 +324,20 @@ export const ChamaService = {
       }
 
       // Sanitize inputs
+      const { rotation, membership, ...chamaFields } = chamaData;
+      const chamaType = chamaData.chama_type ?? 'savings';
       const sanitizedData = {
-        ...chamaData,
+        ...chamaFields,
+        chama_type: chamaType,
         name: sanitizeInput(chamaData.name, 'text'),
         description: chamaData.description ? sanitizeInput(chamaData.description, 'text') : undefined,
-        savings_goal: sanitizeInput(chamaData.savings_goal, 'text'),
+        savings_goal: chamaData.savings_goal ? sanitizeInput(chamaData.savings_goal, 'text') : undefined,
+        settings: {
+          ...(chamaType === 'rotating' && { rotation: { order_method: rotation?.order_method ?? 'manual' } }),
+          ...(membership && {
+            membership: { requires_approval: membership.requires_approval, entry_fee: membership.entry_fee },
+          }),
+        },
       };
 
       const inviteCode = generateSecureInviteCode();
@@ -294,6 +429,39 @@ export const ChamaService = {
     }
   },
 
+  /**
+   * Your membership (id and role) in a chama
+   */
+  async getMyMembership(chamaId: string): Promise<{ success: boolean; error?: string; membership?: Pick<ChamaMember, 'id' | 'role'> }> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid parameters' };
+      }
+
+      const { data, error } = await supabase
+        .from('chama_members')
+        .select('id, role')
+        .eq('chama_id', chamaId)
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .single();
+
+      if (error || !data) {
+        return { success: false, error: 'Not a member of this chama' };
+      }
+
+      return { success: true, membership: data };
+    } catch (error: any) {
+      console.error('Membership retrieval unexpected error:', error);
+      return { success: false, error: 'Failed to retrieve membership' };
+    }
+  },
+
   /**
    * Secure member addition with authorization
    */
@@ -351,9 +519,10 @@ export const ChamaService = {
   },
 
   /**
-   * Join chama using invite code
+   * Join chama using an invite code or a personal invite sent to your phone number.
+   * Chamas that vet new members return a pending request instead.
    */
-  async joinChama(inviteCode: string): Promise<ServiceResponse<Pick<Chama, 'id' | 'name'>>> {
+  async joinChama(inviteCode: string): Promise<ServiceResponse<JoinResult>> {
     try {
       const { data: { user }, error: authError } = await supabase.auth.getUser();
       if (authError || !user) {
@@ -373,54 +542,156 @@ export const ChamaService = {
         return { success: false, error: rateLimitCheck.message };
       }
 
-      // Find chama by invite code
-      const { data: chama, error: chamaError } = await supabase
-        .from('chamas')
-        .select('id, name, is_active')
-        .eq('invite_code', cleanInviteCode)
-        .eq('is_active', true)
-        .single();
+      // Expiry, use limits and personal invites are checked where the code is redeemed
+      const { data, error } = await supabase.rpc('join_chama_with_invite', { p_code: cleanInviteCode });
 
-      if (chamaError || !chama) {
-        return { success: false, error: 'Invalid or expired invite code' };
+      if (error || !data) {
+        console.error('Join chama error:', error?.message);
+        return { success: false, error: error?.message || 'Failed to join chama' };
       }
 
-      // Check if already a member
-      const { data: existingMember } = await supabase
-        .from('chama_members')
-        .select('id')
-        .eq('chama_id', chama.id)
-        .eq('user_id', user.id)
-        .single();
+      return { 
+        success: true, 
+        chama: data as unknown as JoinResult
+      };
+    } catch (error: any) {
+      console.error('Join chama unexpected error:', error);
+      return { success: false, error: 'Failed to join chama' };
+    }
+  },
 
-      if (existingMember) {
-        return { success: false, error: 'You are already a member of this chama' };
+  /**
+   * Configure automatic late-payment fines (chairperson only)
+   */
+  async updateFineRules(chamaId: string, rules: FineRules): Promise<ServiceResponse> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
       }
 
-      // Add as regular member
-      const memberData: ChamaMemberInsert = {
-        chama_id: chama.id,
-        user_id: user.id,
-        role: 'member',
-        joined_at: new Date().toISOString()
-      };
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid parameters' };
+      }
 
-      const { error: memberError } = await supabase
-        .from('chama_members')
-        .insert(memberData);
+      const isAuthorized = await verifyChairperson(chamaId, user.id);
+      if (!isAuthorized) {
+        return { success: false, error: 'Unauthorized action' };
+      }
 
-      if (memberError) {
-        console.error('Join chama error:', memberError.message);
-        return { success: false, error: 'Failed to join chama' };
+      const validation = validateFineRules(rules);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
       }
 
-      return { 
-        success: true, 
-        chama: { id: chama.id, name: chama.name } 
-      };
+      return await updateSettingsSection(chamaId, 'fines', {
+        enabled: rules.enabled,
+        grace_period_days: rules.grace_period_days,
+        penalty_type: rules.penalty_type,
+        penalty_value: rules.penalty_value,
+        ...(rules.max_penalty !== undefined && { max_penalty: rules.max_penalty }),
+      });
     } catch (error: any) {
-      console.error('Join chama unexpected error:', error);
-      return { success: false, error: 'Failed to join chama' };
+      console.error('Update fine rules unexpected error:', error);
+      return { success: false, error: 'Failed to update fine rules' };
+    }
+  },
+
+  /**
+   * Choose how loan interest is amortized for newly approved loans (chairperson only)
+   */
+  async updateLoanSettings(chamaId: string, loanSettings: LoanSettings): Promise<ServiceResponse> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid parameters' };
+      }
+
+      const isAuthorized = await verifyChairperson(chamaId, user.id);
+      if (!isAuthorized) {
+        return { success: false, error: 'Unauthorized action' };
+      }
+
+      if (!INTEREST_METHODS.includes(loanSettings.interest_method)) {
+        return { success: false, error: 'Invalid interest method' };
+      }
+
+      return await updateSettingsSection(chamaId, 'loans', {
+        interest_method: loanSettings.interest_method,
+      });
+    } catch (error: any) {
+      console.error('Update loan settings unexpected error:', error);
+      return { success: false, error: 'Failed to update loan settings' };
+    }
+  },
+
+  /**
+   * Choose how the next merry-go-round round is ordered (chairperson only)
+   */
+  async updateRotationSettings(chamaId: string, rotationSettings: RotationSettings): Promise<ServiceResponse> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid parameters' };
+      }
+
+      const isAuthorized = await verifyChairperson(chamaId, user.id);
+      if (!isAuthorized) {
+        return { success: false, error: 'Unauthorized action' };
+      }
+
+      if (!ROTATION_ORDER_METHODS.includes(rotationSettings.order_method)) {
+        return { success: false, error: 'Invalid rotation order method' };
+      }
+
+      return await updateSettingsSection(chamaId, 'rotation', {
+        order_method: rotationSettings.order_method,
+      });
+    } catch (error: any) {
+      console.error('Update rotation settings unexpected error:', error);
+      return { success: false, error: 'Failed to update rotation settings' };
+    }
+  },
+
+  /**
+   * Choose whether officers approve new members and set the entry fee (chairperson only)
+   */
+  async updateMembershipSettings(chamaId: string, membershipSettings: MembershipSettings): Promise<ServiceResponse> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid parameters' };
+      }
+
+      const isAuthorized = await verifyChairperson(chamaId, user.id);
+      if (!isAuthorized) {
+        return { success: false, error: 'Unauthorized action' };
+      }
+
+      const validation = validateMembershipSettings(membershipSettings);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      return await updateSettingsSection(chamaId, 'membership', {
+        requires_approval: membershipSettings.requires_approval,
+        entry_fee: membershipSettings.entry_fee,
+      });
+    } catch (error: any) {
+      console.error('Update membership settings unexpected error:', error);
+      return { success: false, error: 'Failed to update membership settings' };
     }
   }
 };
\ No newline at end of file
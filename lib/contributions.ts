@@ -1,37 +1,120 @@
-import { handleSupabaseError, supabase } from '@/utils/supabase';
+import { IdempotencyError, withIdempotency } from '@/lib/idempotency';
+import { callServerApi, handleDatabaseError, supabase } from '@/lib/supabase';
+import * as Crypto from 'expo-crypto';
+
+const PAYMENT_PROOF_BUCKET = 'payment-proofs';
+
+/**
+ * Receipt numbers are sequential per chama; shown as RCT-000042
+ */
+export const formatReceiptNumber = (receiptNumber: number): string =>
+  `RCT-${String(receiptNumber).padStart(6, '0')}`;
 
 export const ContributionService = {
+  /**
+   * Record a contribution. Cash and bank contributions wait in pending_confirmation until a treasurer other than
+   * the payer confirms them; proof_path is a photo uploaded with uploadPaymentProof.
+   */
   async recordContribution(contributionData: {
     chama_id: string;
     member_id: string;
     amount: number;
     transaction_code?: string;
     payment_method: 'mpesa' | 'cash' | 'bank';
-  }) {
+    paid_on?: string;
+    proof_path?: string;
+  }, idempotencyKey?: string): Promise<{ success: boolean; error?: string; manualContributionId?: string; status?: string }> {
+    try {
+      return await withIdempotency('contributions.record', idempotencyKey, contributionData, async () => {
+        if (contributionData.payment_method !== 'mpesa') {
+          const { data, error } = await supabase.rpc('record_manual_contribution', {
+            p_chama_id: contributionData.chama_id,
+            p_member_id: contributionData.member_id,
+            p_amount: contributionData.amount,
+            p_payment_method: contributionData.payment_method,
+            p_reference: contributionData.transaction_code ?? null,
+            p_paid_on: contributionData.paid_on ?? null,
+            p_proof_path: contributionData.proof_path ?? null,
+          });
+
+          if (error) {
+            return handleDatabaseError(error, 'recordContribution');
+          }
+
+          return { success: true, manualContributionId: data as string, status: 'pending_confirmation' };
+        }
+
+        // M-Pesa contributions settle against the schedule when the STK push completes
+        return { success: false, error: 'Pay M-Pesa contributions with an STK push from the contribute screen' };
+      });
+    } catch (error: any) {
+      if (error instanceof IdempotencyError) {
+        return { success: false, error: error.message };
+      }
+      return handleDatabaseError(error, 'recordContribution');
+    }
+  },
+
+  async getChamaContributions(chamaId: string) {
     try {
       const { data, error } = await supabase
         .from('contributions')
-        .insert([
-          {
-            ...contributionData,
-            status: 'completed',
-            contribution_date: new Date().toISOString(),
-          },
-        ])
-        .select()
-        .single();
+        .select(`
+          *,
+          member:chama_members(
+            user:users(full_name)
+          )
+        `)
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
 
       if (error) {
-        return handleSupabaseError(error, 'recordContribution');
+        return handleDatabaseError(error, 'getChamaContributions');
       }
 
-      return { success: true, contribution: data };
+      return { success: true, contributions: data };
     } catch (error: any) {
-      return handleSupabaseError(error, 'recordContribution');
+      return handleDatabaseError(error, 'getChamaContributions');
     }
   },
 
-  async getChamaContributions(chamaId: string) {
+  /**
+   * Create upcoming per-cycle obligations for every member and flag overdue ones (officers only)
+   */
+  async generateSchedule(chamaId: string) {
+    // Runs as a server job so the all-chamas form of the function stays out of clients' reach
+    return callServerApi<{ success: boolean; error?: string; summary?: { created: number; flagged_arrears: number } }>(
+      '/api/jobs/contribution-schedule',
+      { chamaId }
+    );
+  },
+
+  /**
+   * A member's obligations, oldest first
+   */
+  async getMemberSchedule(chamaId: string, memberId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('contributions')
+        .select('*')
+        .eq('chama_id', chamaId)
+        .eq('member_id', memberId)
+        .order('contribution_date', { ascending: true });
+
+      if (error) {
+        return handleDatabaseError(error, 'getMemberSchedule');
+      }
+
+      return { success: true, contributions: data };
+    } catch (error: any) {
+      return handleDatabaseError(error, 'getMemberSchedule');
+    }
+  },
+
+  /**
+   * Unpaid obligations past their due date
+   */
+  async getArrears(chamaId: string) {
     try {
       const { data, error } = await supabase
         .from('contributions')
@@ -42,15 +125,153 @@ export const ContributionService = {
           )
         `)
         .eq('chama_id', chamaId)
-        .order('created_at', { ascending: false });
+        .eq('is_paid', false)
+        .eq('in_arrears', true)
+        .order('due_date', { ascending: true });
+
+      if (error) {
+        return handleDatabaseError(error, 'getArrears');
+      }
+
+      return { success: true, contributions: data };
+    } catch (error: any) {
+      return handleDatabaseError(error, 'getArrears');
+    }
+  },
+
+  /**
+   * Upload a photo of a bank slip or cash receipt; returns the storage path to record or confirm with
+   */
+  async uploadPaymentProof(chamaId: string, imageUri: string, contentType: string = 'image/jpeg'): Promise<{ success: boolean; error?: string; path?: string }> {
+    try {
+      const extension = contentType === 'image/png' ? 'png' : 'jpg';
+      const path = `${chamaId}/${Crypto.randomUUID()}.${extension}`;
+      const image = await (await fetch(imageUri)).arrayBuffer();
+
+      const { error } = await supabase.storage
+        .from(PAYMENT_PROOF_BUCKET)
+        .upload(path, image, { contentType });
+
+      if (error) {
+        return handleDatabaseError(error, 'uploadPaymentProof');
+      }
+
+      return { success: true, path };
+    } catch (error: any) {
+      return handleDatabaseError(error, 'uploadPaymentProof');
+    }
+  },
+
+  /**
+   * Short-lived link to view a proof of payment
+   */
+  async getPaymentProofUrl(path: string) {
+    try {
+      const { data, error } = await supabase.storage
+        .from(PAYMENT_PROOF_BUCKET)
+        .createSignedUrl(path, 60 * 10);
+
+      if (error) {
+        return handleDatabaseError(error, 'getPaymentProofUrl');
+      }
+
+      return { success: true, url: data.signedUrl as string };
+    } catch (error: any) {
+      return handleDatabaseError(error, 'getPaymentProofUrl');
+    }
+  },
+
+  /**
+   * Confirm a cash or bank contribution and issue its receipt, or reject it with a reason
+   * (the treasurer, or the chairperson for the treasurer's own; never the payer)
+   */
+  async confirmContribution(manualContributionId: string, confirm: boolean, notes?: string, proofPath?: string) {
+    try {
+      if (!confirm && !notes?.trim()) {
+        return { success: false, error: 'Give a reason for rejecting the contribution' };
+      }
+
+      const { data, error } = await supabase.rpc('confirm_manual_contribution', {
+        p_manual_contribution_id: manualContributionId,
+        p_confirm: confirm,
+        p_notes: notes?.trim() || null,
+        p_proof_path: proofPath ?? null,
+      });
 
       if (error) {
-        return handleSupabaseError(error, 'getChamaContributions');
+        return handleDatabaseError(error, 'confirmContribution');
+      }
+
+      return { success: true, receiptNumber: data as number | null };
+    } catch (error: any) {
+      return handleDatabaseError(error, 'confirmContribution');
+    }
+  },
+
+  /**
+   * A chama's cash and bank contributions, newest first
+   */
+  async getManualContributions(
+    chamaId: string,
+    status?: 'pending_confirmation' | 'confirmed' | 'rejected'
+  ): Promise<{ success: boolean; error?: string; contributions?: unknown[] }> {
+    try {
+      let query = supabase
+        .from('manual_contributions')
+        .select(`
+          *,
+          member:chama_members!manual_contributions_member_id_fkey(
+            user_id,
+            role,
+            user:users(full_name)
+          )
+        `)
+        .eq('chama_id', chamaId);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        return handleDatabaseError(error, 'getManualContributions');
       }
 
       return { success: true, contributions: data };
     } catch (error: any) {
-      return handleSupabaseError(error, 'getChamaContributions');
+      return handleDatabaseError(error, 'getManualContributions');
+    }
+  },
+
+  /**
+   * A confirmed contribution's receipt
+   */
+  async getReceipt(manualContributionId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('manual_contributions')
+        .select(`
+          *,
+          chama:chamas(name),
+          member:chama_members!manual_contributions_member_id_fkey(
+            user:users(full_name, phone_number)
+          ),
+          confirmer:chama_members!manual_contributions_confirmed_by_fkey(
+            user:users(full_name)
+          )
+        `)
+        .eq('id', manualContributionId)
+        .eq('status', 'confirmed')
+        .single();
+
+      if (error || !data) {
+        return { success: false, error: 'Receipt not found' };
+      }
+
+      return { success: true, receipt: data };
+    } catch (error: any) {
+      return handleDatabaseError(error, 'getReceipt');
     }
   },
 };
\ No newline at end of file
@@ -19,31 +19,49 @@ export interface Database {
           id: string
           phone_number: string
           full_name: string
-          email: string | null
-          profile_data: Json | null
+          email: string
           risk_score: number | null
-          created_at: string
-          updated_at: string
+          profile_picture_url: string | null
+          id_number: string | null
+          date_of_birth: string | null
+          occupation: string | null
+          is_verified: boolean | null
+          is_active: boolean | null
+          last_login: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id: string
           phone_number: string
           full_name: string
-          email?: string | null
-          profile_data?: Json | null
+          email: string
           risk_score?: number | null
-          created_at?: string
-          updated_at?: string
+          profile_picture_url?: string | null
+          id_number?: string | null
+          date_of_birth?: string | null
+          occupation?: string | null
+          is_verified?: boolean | null
+          is_active?: boolean | null
+          last_login?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           phone_number?: string
           full_name?: string
-          email?: string | null
-          profile_data?: Json | null
+          email?: string
           risk_score?: number | null
-          created_at?: string
-          updated_at?: string
+          profile_picture_url?: string | null
+          id_number?: string | null
+          date_of_birth?: string | null
+          occupation?: string | null
+          is_verified?: boolean | null
+          is_active?: boolean | null
+          last_login?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -59,37 +77,58 @@ export interface Database {
           id: string
           name: string
           description: string | null
+          invite_code: string
+          paybill_code: string
+          total_kitty: number | null
           contribution_amount: number
-          contribution_cycle: string
+          contribution_cycle: Database['public']['Enums']['contribution_cycle']
           savings_goal: number | null
-          settings: Json | null
-          created_by: string | null
-          created_at: string
-          updated_at: string
+          max_loan_multiplier: number | null
+          min_approval_percentage: number | null
+          chama_type: string
+          settings: Json
+          is_active: boolean | null
+          created_by: string
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
           name: string
           description?: string | null
+          invite_code?: string
+          paybill_code?: string
+          total_kitty?: number | null
           contribution_amount: number
-          contribution_cycle: string
+          contribution_cycle?: Database['public']['Enums']['contribution_cycle']
           savings_goal?: number | null
-          settings?: Json | null
-          created_by?: string | null
-          created_at?: string
-          updated_at?: string
+          max_loan_multiplier?: number | null
+          min_approval_percentage?: number | null
+          chama_type?: string
+          settings?: Json
+          is_active?: boolean | null
+          created_by: string
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           name?: string
           description?: string | null
+          invite_code?: string
+          paybill_code?: string
+          total_kitty?: number | null
           contribution_amount?: number
-          contribution_cycle?: string
+          contribution_cycle?: Database['public']['Enums']['contribution_cycle']
           savings_goal?: number | null
-          settings?: Json | null
-          created_by?: string | null
-          created_at?: string
-          updated_at?: string
+          max_loan_multiplier?: number | null
+          min_approval_percentage?: number | null
+          chama_type?: string
+          settings?: Json
+          is_active?: boolean | null
+          created_by?: string
+          created_at?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -103,27 +142,30 @@ export interface Database {
       chama_members: {
         Row: {
           id: string
-          chama_id: string | null
-          user_id: string | null
-          role: string | null
-          join_date: string | null
-          status: string | null
+          chama_id: string
+          user_id: string
+          role: Database['public']['Enums']['user_role']
+          member_number: number
+          joined_at: string | null
+          is_active: boolean | null
         }
         Insert: {
           id?: string
-          chama_id?: string | null
-          user_id?: string | null
-          role?: string | null
-          join_date?: string | null
-          status?: string | null
+          chama_id: string
+          user_id: string
+          role?: Database['public']['Enums']['user_role']
+          member_number?: number
+          joined_at?: string | null
+          is_active?: boolean | null
         }
         Update: {
           id?: string
-          chama_id?: string | null
-          user_id?: string | null
-          role?: string | null
-          join_date?: string | null
-          status?: string | null
+          chama_id?: string
+          user_id?: string
+          role?: Database['public']['Enums']['user_role']
+          member_number?: number
+          joined_at?: string | null
+          is_active?: boolean | null
         }
         Relationships: [
           {
@@ -140,570 +182,1820 @@ export interface Database {
           }
         ]
       }
-      transactions: {
+      chama_invites: {
         Row: {
           id: string
-          chama_id: string | null
-          user_id: string | null
-          amount: number
-          transaction_type: string
-          mpesa_code: string | null
-          status: string | null
-          description: string | null
-          metadata: Json | null
-          created_at: string
-          updated_at: string
+          chama_id: string
+          code: string
+          invite_type: string
+          phone_number: string | null
+          expires_at: string
+          max_uses: number | null
+          use_count: number
+          created_by: string | null
+          revoked_at: string | null
+          created_at: string | null
         }
         Insert: {
           id?: string
-          chama_id?: string | null
-          user_id?: string | null
-          amount: number
-          transaction_type: string
-          mpesa_code?: string | null
-          status?: string | null
-          description?: string | null
-          metadata?: Json | null
-          created_at?: string
-          updated_at?: string
+          chama_id: string
+          code: string
+          invite_type?: string
+          phone_number?: string | null
+          expires_at: string
+          max_uses?: number | null
+          use_count?: number
+          created_by?: string | null
+          revoked_at?: string | null
+          created_at?: string | null
         }
         Update: {
           id?: string
-          chama_id?: string | null
-          user_id?: string | null
-          amount?: number
-          transaction_type?: string
-          mpesa_code?: string | null
-          status?: string | null
-          description?: string | null
-          metadata?: Json | null
-          created_at?: string
-          updated_at?: string
+          chama_id?: string
+          code?: string
+          invite_type?: string
+          phone_number?: string | null
+          expires_at?: string
+          max_uses?: number | null
+          use_count?: number
+          created_by?: string | null
+          revoked_at?: string | null
+          created_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "transactions_chama_id_fkey"
+            foreignKeyName: "chama_invites_chama_id_fkey"
             columns: ["chama_id"]
             referencedRelation: "chamas"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "transactions_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "chama_invites_created_by_fkey"
+            columns: ["created_by"]
             referencedRelation: "users"
             referencedColumns: ["id"]
           }
         ]
       }
-      loans: {
+      payout_requests: {
         Row: {
           id: string
-          chama_id: string | null
-          user_id: string | null
+          chama_id: string
+          member_id: string
           amount: number
+          request_type: string
+          purpose: string
           interest_rate: number | null
-          total_amount: number
-          purpose: string | null
-          status: string | null
-          due_date: string | null
+          repayment_period: number | null
+          interest_method: string | null
+          guarantee_required: number
+          status: Database['public']['Enums']['request_status']
+          voting_deadline: string | null
+          reminder_24h_sent_at: string | null
+          reminder_1h_sent_at: string | null
+          created_at: string | null
+          updated_at: string | null
+          approved_at: string | null
           approved_by: string | null
-          created_at: string
-          updated_at: string
         }
         Insert: {
           id?: string
-          chama_id?: string | null
-          user_id?: string | null
+          chama_id: string
+          member_id: string
           amount: number
+          request_type: string
+          purpose: string
           interest_rate?: number | null
-          total_amount: number
-          purpose?: string | null
-          status?: string | null
-          due_date?: string | null
+          repayment_period?: number | null
+          interest_method?: string | null
+          guarantee_required?: number
+          status?: Database['public']['Enums']['request_status']
+          voting_deadline?: string | null
+          reminder_24h_sent_at?: string | null
+          reminder_1h_sent_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          approved_at?: string | null
           approved_by?: string | null
-          created_at?: string
-          updated_at?: string
         }
         Update: {
           id?: string
-          chama_id?: string | null
-          user_id?: string | null
+          chama_id?: string
+          member_id?: string
           amount?: number
+          request_type?: string
+          purpose?: string
           interest_rate?: number | null
-          total_amount?: number
-          purpose?: string | null
-          status?: string | null
-          due_date?: string | null
+          repayment_period?: number | null
+          interest_method?: string | null
+          guarantee_required?: number
+          status?: Database['public']['Enums']['request_status']
+          voting_deadline?: string | null
+          reminder_24h_sent_at?: string | null
+          reminder_1h_sent_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          approved_at?: string | null
           approved_by?: string | null
-          created_at?: string
-          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "loans_chama_id_fkey"
+            foreignKeyName: "payout_requests_chama_id_fkey"
             columns: ["chama_id"]
             referencedRelation: "chamas"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_user_id_fkey"
-            columns: ["user_id"]
-            referencedRelation: "users"
+            foreignKeyName: "payout_requests_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_approved_by_fkey"
+            foreignKeyName: "payout_requests_approved_by_fkey"
             columns: ["approved_by"]
-            referencedRelation: "users"
+            referencedRelation: "chama_members"
             referencedColumns: ["id"]
           }
         ]
       }
-      investment_opportunities: {
+      payout_votes: {
         Row: {
           id: string
-          title: string
-          description: string | null
-          category: string | null
-          risk_level: string | null
-          expected_return: number | null
-          min_investment: number | null
-          opportunity_data: Json | null
-          is_active: boolean | null
-          created_at: string | null
+          payout_request_id: string
+          member_id: string
+          vote: Database['public']['Enums']['vote_type']
+          voted_at: string | null
+          comments: string | null
         }
         Insert: {
           id?: string
-          title: string
-          description?: string | null
-          category?: string | null
-          risk_level?: string | null
-          expected_return?: number | null
-          min_investment?: number | null
-          opportunity_data?: Json | null
-          is_active?: boolean | null
-          created_at?: string | null
+          payout_request_id: string
+          member_id: string
+          vote: Database['public']['Enums']['vote_type']
+          voted_at?: string | null
+          comments?: string | null
         }
         Update: {
           id?: string
-          title?: string
-          description?: string | null
-          category?: string | null
-          risk_level?: string | null
-          expected_return?: number | null
-          min_investment?: number | null
-          opportunity_data?: Json | null
-          is_active?: boolean | null
-          created_at?: string | null
+          payout_request_id?: string
+          member_id?: string
+          vote?: Database['public']['Enums']['vote_type']
+          voted_at?: string | null
+          comments?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payout_votes_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_votes_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
       }
-      chama_investment_interests: {
+      transactions: {
         Row: {
           id: string
-          chama_id: string | null
-          opportunity_id: string | null
-          interest_level: string | null
-          notes: string | null
+          chama_id: string
+          user_id: string
+          amount: number
+          transaction_type: Database['public']['Enums']['transaction_type']
+          status: Database['public']['Enums']['transaction_status']
+          transaction_code: string | null
+          phone_number: string
+          description: string | null
+          metadata: Json | null
           created_at: string | null
+          completed_at: string | null
         }
         Insert: {
           id?: string
-          chama_id?: string | null
-          opportunity_id?: string | null
-          interest_level?: string | null
-          notes?: string | null
+          chama_id: string
+          user_id: string
+          amount: number
+          transaction_type: Database['public']['Enums']['transaction_type']
+          status?: Database['public']['Enums']['transaction_status']
+          transaction_code?: string | null
+          phone_number: string
+          description?: string | null
+          metadata?: Json | null
           created_at?: string | null
+          completed_at?: string | null
         }
         Update: {
           id?: string
-          chama_id?: string | null
-          opportunity_id?: string | null
-          interest_level?: string | null
-          notes?: string | null
+          chama_id?: string
+          user_id?: string
+          amount?: number
+          transaction_type?: Database['public']['Enums']['transaction_type']
+          status?: Database['public']['Enums']['transaction_status']
+          transaction_code?: string | null
+          phone_number?: string
+          description?: string | null
+          metadata?: Json | null
           created_at?: string | null
+          completed_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "chama_investment_interests_chama_id_fkey"
+            foreignKeyName: "transactions_chama_id_fkey"
             columns: ["chama_id"]
             referencedRelation: "chamas"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "chama_investment_interests_opportunity_id_fkey"
-            columns: ["opportunity_id"]
-            referencedRelation: "investment_opportunities"
+            foreignKeyName: "transactions_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
             referencedColumns: ["id"]
           }
         ]
       }
-      audit_logs: {
+      contributions: {
         Row: {
           id: string
-          table_name: string
-          record_id: string
-          action: string
-          old_data: Json | null
-          new_data: Json | null
-          changed_by: string | null
-          changed_at: string | null
-          ip_address: string | null
-          user_agent: string | null
+          chama_id: string
+          member_id: string
+          amount: number
+          amount_paid: number
+          contribution_date: string
+          due_date: string | null
+          cycle_period: string
+          is_paid: boolean | null
+          in_arrears: boolean
+          paid_at: string | null
+          transaction_id: string | null
+          created_at: string | null
         }
         Insert: {
           id?: string
-          table_name: string
-          record_id: string
-          action: string
-          old_data?: Json | null
-          new_data?: Json | null
-          changed_by?: string | null
-          changed_at?: string | null
-          ip_address?: string | null
-          user_agent?: string | null
+          chama_id: string
+          member_id: string
+          amount: number
+          amount_paid?: number
+          contribution_date?: string
+          due_date?: string | null
+          cycle_period: string
+          is_paid?: boolean | null
+          in_arrears?: boolean
+          paid_at?: string | null
+          transaction_id?: string | null
+          created_at?: string | null
         }
         Update: {
           id?: string
-          table_name?: string
-          record_id?: string
-          action?: string
-          old_data?: Json | null
-          new_data?: Json | null
-          changed_by?: string | null
-          changed_at?: string | null
-          ip_address?: string | null
-          user_agent?: string | null
+          chama_id?: string
+          member_id?: string
+          amount?: number
+          amount_paid?: number
+          contribution_date?: string
+          due_date?: string | null
+          cycle_period?: string
+          is_paid?: boolean | null
+          in_arrears?: boolean
+          paid_at?: string | null
+          transaction_id?: string | null
+          created_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "audit_logs_changed_by_fkey"
-            columns: ["changed_by"]
-            referencedRelation: "users"
+            foreignKeyName: "contributions_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
             referencedColumns: ["id"]
-          }
-        ]
-      }
-      security_events: {
+          },
+          {
+            foreignKeyName: "contributions_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      contribution_credits: {
+        Row: {
+          member_id: string
+          chama_id: string
+          balance: number
+          updated_at: string | null
+        }
+        Insert: {
+          member_id: string
+          chama_id: string
+          balance?: number
+          updated_at?: string | null
+        }
+        Update: {
+          member_id?: string
+          chama_id?: string
+          balance?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contribution_credits_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contribution_credits_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      loan_repayments: {
+        Row: {
+          id: string
+          payout_request_id: string
+          installment_number: number
+          amount: number
+          principal_amount: number
+          interest_amount: number
+          due_date: string
+          paid_date: string | null
+          is_paid: boolean | null
+          penalty_amount: number | null
+          transaction_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          payout_request_id: string
+          installment_number: number
+          amount: number
+          principal_amount: number
+          interest_amount?: number
+          due_date: string
+          paid_date?: string | null
+          is_paid?: boolean | null
+          penalty_amount?: number | null
+          transaction_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          payout_request_id?: string
+          installment_number?: number
+          amount?: number
+          principal_amount?: number
+          interest_amount?: number
+          due_date?: string
+          paid_date?: string | null
+          is_paid?: boolean | null
+          penalty_amount?: number | null
+          transaction_id?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_repayments_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_repayments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      loan_guarantors: {
+        Row: {
+          id: string
+          payout_request_id: string
+          guarantor_member_id: string
+          pledged_amount: number
+          status: string
+          responded_at: string | null
+          released_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          payout_request_id: string
+          guarantor_member_id: string
+          pledged_amount: number
+          status?: string
+          responded_at?: string | null
+          released_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          payout_request_id?: string
+          guarantor_member_id?: string
+          pledged_amount?: number
+          status?: string
+          responded_at?: string | null
+          released_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_guarantors_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_guarantors_guarantor_member_id_fkey"
+            columns: ["guarantor_member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      resolutions: {
+        Row: {
+          id: string
+          chama_id: string
+          proposed_by: string
+          resolution_type: string
+          title: string
+          description: string | null
+          rules: Json
+          action: Json | null
+          status: string
+          voting_deadline: string
+          closed_at: string | null
+          executed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          proposed_by: string
+          resolution_type?: string
+          title: string
+          description?: string | null
+          rules: Json
+          action?: Json | null
+          status?: string
+          voting_deadline: string
+          closed_at?: string | null
+          executed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          proposed_by?: string
+          resolution_type?: string
+          title?: string
+          description?: string | null
+          rules?: Json
+          action?: Json | null
+          status?: string
+          voting_deadline?: string
+          closed_at?: string | null
+          executed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resolutions_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resolutions_proposed_by_fkey"
+            columns: ["proposed_by"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      resolution_options: {
+        Row: {
+          id: string
+          resolution_id: string
+          position: number
+          label: string
+          opportunity_id: string | null
+          action: Json | null
+          is_winner: boolean
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          resolution_id: string
+          position: number
+          label: string
+          opportunity_id?: string | null
+          action?: Json | null
+          is_winner?: boolean
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          resolution_id?: string
+          position?: number
+          label?: string
+          opportunity_id?: string | null
+          action?: Json | null
+          is_winner?: boolean
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resolution_options_resolution_id_fkey"
+            columns: ["resolution_id"]
+            referencedRelation: "resolutions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      resolution_votes: {
+        Row: {
+          id: string
+          resolution_id: string
+          member_id: string
+          vote: Database['public']['Enums']['vote_type'] | null
+          option_id: string | null
+          voted_at: string | null
+        }
+        Insert: {
+          id?: string
+          resolution_id: string
+          member_id: string
+          vote?: Database['public']['Enums']['vote_type'] | null
+          option_id?: string | null
+          voted_at?: string | null
+        }
+        Update: {
+          id?: string
+          resolution_id?: string
+          member_id?: string
+          vote?: Database['public']['Enums']['vote_type'] | null
+          option_id?: string | null
+          voted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resolution_votes_resolution_id_fkey"
+            columns: ["resolution_id"]
+            referencedRelation: "resolutions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resolution_votes_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resolution_votes_option_id_fkey"
+            columns: ["option_id"]
+            referencedRelation: "resolution_options"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      elections: {
+        Row: {
+          id: string
+          chama_id: string
+          role: Database['public']['Enums']['user_role']
+          status: string
+          called_by: string | null
+          nominations_close_at: string
+          voting_deadline: string
+          term_months: number
+          winner_member_id: string | null
+          closed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          role: Database['public']['Enums']['user_role']
+          status?: string
+          called_by?: string | null
+          nominations_close_at: string
+          voting_deadline: string
+          term_months: number
+          winner_member_id?: string | null
+          closed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          role?: Database['public']['Enums']['user_role']
+          status?: string
+          called_by?: string | null
+          nominations_close_at?: string
+          voting_deadline?: string
+          term_months?: number
+          winner_member_id?: string | null
+          closed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "elections_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "elections_called_by_fkey"
+            columns: ["called_by"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "elections_winner_member_id_fkey"
+            columns: ["winner_member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      election_candidates: {
+        Row: {
+          id: string
+          election_id: string
+          member_id: string
+          nominated_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          election_id: string
+          member_id: string
+          nominated_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          election_id?: string
+          member_id?: string
+          nominated_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_candidates_election_id_fkey"
+            columns: ["election_id"]
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "election_candidates_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "election_candidates_nominated_by_fkey"
+            columns: ["nominated_by"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      election_voters: {
+        Row: {
+          election_id: string
+          member_id: string
+          voted_at: string | null
+        }
+        Insert: {
+          election_id: string
+          member_id: string
+          voted_at?: string | null
+        }
+        Update: {
+          election_id?: string
+          member_id?: string
+          voted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_voters_election_id_fkey"
+            columns: ["election_id"]
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "election_voters_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      election_ballots: {
+        Row: {
+          id: string
+          election_id: string
+          candidate_id: string
+        }
+        Insert: {
+          id?: string
+          election_id: string
+          candidate_id: string
+        }
+        Update: {
+          id?: string
+          election_id?: string
+          candidate_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_ballots_election_id_fkey"
+            columns: ["election_id"]
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "election_ballots_candidate_id_fkey"
+            columns: ["candidate_id"]
+            referencedRelation: "election_candidates"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      officer_terms: {
+        Row: {
+          id: string
+          chama_id: string
+          member_id: string
+          role: Database['public']['Enums']['user_role']
+          election_id: string | null
+          started_at: string
+          ends_at: string
+          ended_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          member_id: string
+          role: Database['public']['Enums']['user_role']
+          election_id?: string | null
+          started_at?: string
+          ends_at: string
+          ended_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          member_id?: string
+          role?: Database['public']['Enums']['user_role']
+          election_id?: string | null
+          started_at?: string
+          ends_at?: string
+          ended_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "officer_terms_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "officer_terms_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "officer_terms_election_id_fkey"
+            columns: ["election_id"]
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rotation_slots: {
+        Row: {
+          id: string
+          chama_id: string
+          member_id: string
+          round: number
+          position: number
+          bid_amount: number
+          cycle_period: string | null
+          cycle_start: string | null
+          payout_request_id: string | null
+          assigned_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          member_id: string
+          round: number
+          position: number
+          bid_amount?: number
+          cycle_period?: string | null
+          cycle_start?: string | null
+          payout_request_id?: string | null
+          assigned_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          member_id?: string
+          round?: number
+          position?: number
+          bid_amount?: number
+          cycle_period?: string | null
+          cycle_start?: string | null
+          payout_request_id?: string | null
+          assigned_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rotation_slots_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rotation_slots_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rotation_slots_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rotation_bids: {
+        Row: {
+          id: string
+          chama_id: string
+          member_id: string
+          round: number
+          amount: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          member_id: string
+          round: number
+          amount: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          member_id?: string
+          round?: number
+          amount?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rotation_bids_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rotation_bids_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      transaction_logs: {
+        Row: {
+          id: string
+          user_id: string
+          chama_id: string
+          phone_number: string
+          amount: number
+          status: string
+          request_id: string
+          purpose: string
+          fine_transaction_id: string | null
+          checkout_request_id: string | null
+          merchant_request_id: string | null
+          transaction_code: string | null
+          result_code: number | null
+          result_desc: string | null
+          verified_at: string | null
+          provider: string
+          channel: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          chama_id: string
+          phone_number: string
+          amount: number
+          status?: string
+          request_id: string
+          purpose?: string
+          fine_transaction_id?: string | null
+          checkout_request_id?: string | null
+          merchant_request_id?: string | null
+          transaction_code?: string | null
+          result_code?: number | null
+          result_desc?: string | null
+          verified_at?: string | null
+          provider?: string
+          channel?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          chama_id?: string
+          phone_number?: string
+          amount?: number
+          status?: string
+          request_id?: string
+          purpose?: string
+          fine_transaction_id?: string | null
+          checkout_request_id?: string | null
+          merchant_request_id?: string | null
+          transaction_code?: string | null
+          result_code?: number | null
+          result_desc?: string | null
+          verified_at?: string | null
+          provider?: string
+          channel?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_logs_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_logs_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_logs_fine_transaction_id_fkey"
+            columns: ["fine_transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      disbursement_logs: {
+        Row: {
+          id: string
+          chama_id: string
+          payout_request_id: string | null
+          initiated_by: string
+          phone_number: string
+          amount: number
+          reference: string
+          status: string
+          attempt: number
+          request_id: string | null
+          conversation_id: string | null
+          transaction_code: string | null
+          result_code: string | null
+          result_desc: string | null
+          completed_at: string | null
+          provider: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          payout_request_id?: string | null
+          initiated_by: string
+          phone_number: string
+          amount: number
+          reference: string
+          status?: string
+          attempt?: number
+          request_id?: string | null
+          conversation_id?: string | null
+          transaction_code?: string | null
+          result_code?: string | null
+          result_desc?: string | null
+          completed_at?: string | null
+          provider?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          payout_request_id?: string | null
+          initiated_by?: string
+          phone_number?: string
+          amount?: number
+          reference?: string
+          status?: string
+          attempt?: number
+          request_id?: string | null
+          conversation_id?: string | null
+          transaction_code?: string | null
+          result_code?: string | null
+          result_desc?: string | null
+          completed_at?: string | null
+          provider?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disbursement_logs_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disbursement_logs_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disbursement_logs_initiated_by_fkey"
+            columns: ["initiated_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          id: string
+          user_id: string
+          scope: string
+          idempotency_key: string
+          request_hash: string
+          status: string
+          response: Json | null
+          expires_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          scope: string
+          idempotency_key: string
+          request_hash: string
+          status?: string
+          response?: Json | null
+          expires_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          scope?: string
+          idempotency_key?: string
+          request_hash?: string
+          status?: string
+          response?: Json | null
+          expires_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idempotency_keys_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          id: string
+          chama_id: string
+          member_id: string | null
+          account_type: string
+          normal_balance: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          member_id?: string | null
+          account_type: string
+          normal_balance: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          member_id?: string | null
+          account_type?: string
+          normal_balance?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_accounts_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      journal_entries: {
+        Row: {
+          id: string
+          chama_id: string
+          transaction_id: string | null
+          entry_type: string
+          description: string | null
+          posted_at: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          transaction_id?: string | null
+          entry_type: string
+          description?: string | null
+          posted_at?: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          transaction_id?: string | null
+          entry_type?: string
+          description?: string | null
+          posted_at?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      journal_lines: {
         Row: {
           id: string
-          user_id: string | null
-          event_type: string
-          severity: string
-          description: string
-          ip_address: string | null
-          user_agent: string | null
-          metadata: Json | null
-          created_at: string
+          journal_entry_id: string
+          account_id: string
+          debit: number
+          credit: number
+          created_at: string | null
         }
         Insert: {
           id?: string
-          user_id?: string | null
-          event_type: string
-          severity: string
-          description: string
-          ip_address?: string | null
-          user_agent?: string | null
-          metadata?: Json | null
-          created_at?: string
+          journal_entry_id: string
+          account_id: string
+          debit?: number
+          credit?: number
+          created_at?: string | null
         }
         Update: {
           id?: string
-          user_id?: string | null
-          event_type?: string
-          severity?: string
-          description?: string
-          ip_address?: string | null
-          user_agent?: string | null
-          metadata?: Json | null
-          created_at?: string
+          journal_entry_id?: string
+          account_id?: string
+          debit?: number
+          credit?: number
+          created_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "security_events_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "journal_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_account_id_fkey"
+            columns: ["account_id"]
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      dividend_declarations: {
+        Row: {
+          id: string
+          chama_id: string
+          period_start: string
+          period_end: string
+          interest_income: number
+          fine_income: number
+          total_distributed: number
+          total_share_days: number
+          declared_by: string
+          declared_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          period_start: string
+          period_end: string
+          interest_income?: number
+          fine_income?: number
+          total_distributed?: number
+          total_share_days?: number
+          declared_by: string
+          declared_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          period_start?: string
+          period_end?: string
+          interest_income?: number
+          fine_income?: number
+          total_distributed?: number
+          total_share_days?: number
+          declared_by?: string
+          declared_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dividend_declarations_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dividend_declarations_declared_by_fkey"
+            columns: ["declared_by"]
             referencedRelation: "users"
             referencedColumns: ["id"]
           }
         ]
       }
-      failed_login_attempts: {
+      dividend_allocations: {
         Row: {
           id: string
-          phone_number: string
-          ip_address: string
-          user_agent: string | null
-          attempted_at: string | null
-          is_blocked: boolean | null
+          declaration_id: string
+          member_id: string
+          shares_at_period_end: number
+          share_days: number
+          amount: number
+          transaction_id: string | null
+          created_at: string | null
         }
         Insert: {
           id?: string
-          phone_number: string
-          ip_address: string
-          user_agent?: string | null
-          attempted_at?: string | null
-          is_blocked?: boolean | null
+          declaration_id: string
+          member_id: string
+          shares_at_period_end?: number
+          share_days: number
+          amount: number
+          transaction_id?: string | null
+          created_at?: string | null
         }
         Update: {
           id?: string
-          phone_number?: string
-          ip_address?: string
-          user_agent?: string | null
-          attempted_at?: string | null
-          is_blocked?: boolean | null
+          declaration_id?: string
+          member_id?: string
+          shares_at_period_end?: number
+          share_days?: number
+          amount?: number
+          transaction_id?: string | null
+          created_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "dividend_allocations_declaration_id_fkey"
+            columns: ["declaration_id"]
+            referencedRelation: "dividend_declarations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dividend_allocations_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dividend_allocations_transaction_id_fkey"
+            columns: ["transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
       }
-      payout_requests: {
+      member_exits: {
         Row: {
           id: string
           chama_id: string
           member_id: string
-          amount: number
-          request_type: string
-          purpose: string
-          interest_rate: number | null
-          repayment_period: number | null
+          reason: string | null
           status: string
-          created_at: string
-          updated_at: string
-          approved_at: string | null
-          approved_by: string | null
+          settlement: Json
+          payout_amount: number | null
+          withheld_amount: number | null
+          payout_request_id: string | null
+          reviewed_by: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
           chama_id: string
           member_id: string
-          amount: number
-          request_type: string
-          purpose: string
-          interest_rate?: number | null
-          repayment_period?: number | null
+          reason?: string | null
           status?: string
-          created_at?: string
-          updated_at?: string
-          approved_at?: string | null
-          approved_by?: string | null
+          settlement: Json
+          payout_amount?: number | null
+          withheld_amount?: number | null
+          payout_request_id?: string | null
+          reviewed_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           chama_id?: string
           member_id?: string
-          amount?: number
-          request_type?: string
-          purpose?: string
-          interest_rate?: number | null
-          repayment_period?: number | null
+          reason?: string | null
           status?: string
-          created_at?: string
-          updated_at?: string
-          approved_at?: string | null
-          approved_by?: string | null
+          settlement?: Json
+          payout_amount?: number | null
+          withheld_amount?: number | null
+          payout_request_id?: string | null
+          reviewed_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payout_requests_chama_id_fkey"
+            foreignKeyName: "member_exits_chama_id_fkey"
             columns: ["chama_id"]
             referencedRelation: "chamas"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payout_requests_member_id_fkey"
+            foreignKeyName: "member_exits_member_id_fkey"
             columns: ["member_id"]
             referencedRelation: "chama_members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payout_requests_approved_by_fkey"
-            columns: ["approved_by"]
+            foreignKeyName: "member_exits_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_exits_reviewed_by_fkey"
+            columns: ["reviewed_by"]
             referencedRelation: "chama_members"
             referencedColumns: ["id"]
           }
         ]
       }
-      payout_votes: {
+      join_requests: {
         Row: {
           id: string
-          payout_request_id: string
-          member_id: string
-          vote: string
-          voted_at: string | null
-          comments: string | null
+          chama_id: string
+          user_id: string
+          invite_id: string | null
+          status: string
+          member_id: string | null
+          entry_fee_transaction_id: string | null
+          reviewed_by: string | null
+          review_reason: string | null
+          reviewed_at: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
-          payout_request_id: string
-          member_id: string
-          vote: string
-          voted_at?: string | null
-          comments?: string | null
+          chama_id: string
+          user_id: string
+          invite_id?: string | null
+          status?: string
+          member_id?: string | null
+          entry_fee_transaction_id?: string | null
+          reviewed_by?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
-          payout_request_id?: string
-          member_id?: string
-          vote?: string
-          voted_at?: string | null
-          comments?: string | null
+          chama_id?: string
+          user_id?: string
+          invite_id?: string | null
+          status?: string
+          member_id?: string | null
+          entry_fee_transaction_id?: string | null
+          reviewed_by?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payout_votes_member_id_fkey"
+            foreignKeyName: "join_requests_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "join_requests_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "join_requests_invite_id_fkey"
+            columns: ["invite_id"]
+            referencedRelation: "chama_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "join_requests_member_id_fkey"
             columns: ["member_id"]
             referencedRelation: "chama_members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payout_votes_payout_request_id_fkey"
-            columns: ["payout_request_id"]
-            referencedRelation: "payout_requests"
+            foreignKeyName: "join_requests_entry_fee_transaction_id_fkey"
+            columns: ["entry_fee_transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "join_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            referencedRelation: "chama_members"
             referencedColumns: ["id"]
           }
         ]
       }
-      contributions: {
+      manual_contributions: {
         Row: {
           id: string
           chama_id: string
           member_id: string
           amount: number
-          contribution_date: string
-          cycle_period: string
-          is_paid: boolean | null
-          paid_at: string | null
+          payment_method: string
+          reference: string | null
+          paid_on: string
+          status: string
+          proof_path: string | null
+          recorded_by: string
+          confirmed_by: string | null
+          review_notes: string | null
+          reviewed_at: string | null
           transaction_id: string | null
+          receipt_number: number | null
           created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
           chama_id: string
           member_id: string
           amount: number
-          contribution_date?: string
-          cycle_period: string
-          is_paid?: boolean | null
-          paid_at?: string | null
+          payment_method: string
+          reference?: string | null
+          paid_on?: string
+          status?: string
+          proof_path?: string | null
+          recorded_by: string
+          confirmed_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          transaction_id?: string | null
+          receipt_number?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          chama_id?: string
+          member_id?: string
+          amount?: number
+          payment_method?: string
+          reference?: string | null
+          paid_on?: string
+          status?: string
+          proof_path?: string | null
+          recorded_by?: string
+          confirmed_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
           transaction_id?: string | null
+          receipt_number?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manual_contributions_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manual_contributions_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manual_contributions_recorded_by_fkey"
+            columns: ["recorded_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manual_contributions_confirmed_by_fkey"
+            columns: ["confirmed_by"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manual_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      statement_imports: {
+        Row: {
+          id: string
+          chama_id: string
+          source: string
+          file_name: string | null
+          line_count: number
+          posted_count: number
+          duplicate_count: number
+          posted_amount: number
+          imported_by: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          chama_id: string
+          source: string
+          file_name?: string | null
+          line_count?: number
+          posted_count?: number
+          duplicate_count?: number
+          posted_amount?: number
+          imported_by: string
           created_at?: string | null
         }
         Update: {
           id?: string
           chama_id?: string
-          member_id?: string
-          amount?: number
-          contribution_date?: string
-          cycle_period?: string
-          is_paid?: boolean | null
-          paid_at?: string | null
-          transaction_id?: string | null
+          source?: string
+          file_name?: string | null
+          line_count?: number
+          posted_count?: number
+          duplicate_count?: number
+          posted_amount?: number
+          imported_by?: string
           created_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "contributions_chama_id_fkey"
+            foreignKeyName: "statement_imports_chama_id_fkey"
             columns: ["chama_id"]
             referencedRelation: "chamas"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "contributions_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "statement_imports_imported_by_fkey"
+            columns: ["imported_by"]
             referencedRelation: "chama_members"
             referencedColumns: ["id"]
-          },
+          }
+        ]
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          table_name: string
+          record_id: string
+          action: string
+          old_data: Json | null
+          new_data: Json | null
+          changed_by: string | null
+          changed_at: string | null
+          ip_address: unknown | null
+          user_agent: string | null
+        }
+        Insert: {
+          id?: string
+          table_name: string
+          record_id: string
+          action: string
+          old_data?: Json | null
+          new_data?: Json | null
+          changed_by?: string | null
+          changed_at?: string | null
+          ip_address?: unknown | null
+          user_agent?: string | null
+        }
+        Update: {
+          id?: string
+          table_name?: string
+          record_id?: string
+          action?: string
+          old_data?: Json | null
+          new_data?: Json | null
+          changed_by?: string | null
+          changed_at?: string | null
+          ip_address?: unknown | null
+          user_agent?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "contributions_transaction_id_fkey"
-            columns: ["transaction_id"]
-            referencedRelation: "transactions"
+            foreignKeyName: "audit_logs_changed_by_fkey"
+            columns: ["changed_by"]
+            referencedRelation: "users"
             referencedColumns: ["id"]
           }
         ]
       }
-      loan_repayments: {
+      security_events: {
         Row: {
           id: string
-          payout_request_id: string
-          amount: number
-          due_date: string
-          paid_date: string | null
-          is_paid: boolean | null
-          penalty_amount: number | null
-          transaction_id: string | null
+          user_id: string | null
+          event_type: string
+          severity: string
+          description: string
+          ip_address: unknown | null
+          user_agent: string | null
+          metadata: Json | null
           created_at: string | null
         }
         Insert: {
           id?: string
-          payout_request_id: string
-          amount: number
-          due_date: string
-          paid_date?: string | null
-          is_paid?: boolean | null
-          penalty_amount?: number | null
-          transaction_id?: string | null
+          user_id?: string | null
+          event_type: string
+          severity: string
+          description: string
+          ip_address?: unknown | null
+          user_agent?: string | null
+          metadata?: Json | null
           created_at?: string | null
         }
         Update: {
           id?: string
-          payout_request_id?: string
-          amount?: number
-          due_date?: string
-          paid_date?: string | null
-          is_paid?: boolean | null
-          penalty_amount?: number | null
-          transaction_id?: string | null
+          user_id?: string | null
+          event_type?: string
+          severity?: string
+          description?: string
+          ip_address?: unknown | null
+          user_agent?: string | null
+          metadata?: Json | null
           created_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "loan_repayments_payout_request_id_fkey"
-            columns: ["payout_request_id"]
-            referencedRelation: "payout_requests"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "loan_repayments_transaction_id_fkey"
-            columns: ["transaction_id"]
-            referencedRelation: "transactions"
+            foreignKeyName: "security_events_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
             referencedColumns: ["id"]
           }
         ]
       }
+      failed_login_attempts: {
+        Row: {
+          id: string
+          phone_number: string
+          ip_address: unknown
+          user_agent: string | null
+          attempted_at: string | null
+          is_blocked: boolean | null
+        }
+        Insert: {
+          id?: string
+          phone_number: string
+          ip_address: unknown
+          user_agent?: string | null
+          attempted_at?: string | null
+          is_blocked?: boolean | null
+        }
+        Update: {
+          id?: string
+          phone_number?: string
+          ip_address?: unknown
+          user_agent?: string | null
+          attempted_at?: string | null
+          is_blocked?: boolean | null
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           id: string
           user_id: string
           title: string
           message: string
-          notification_type: string
+          notification_type: Database['public']['Enums']['notification_type']
           is_read: boolean | null
           related_entity_type: string | null
           related_entity_id: string | null
           action_url: string | null
-          created_at: string
+          created_at: string | null
         }
         Insert: {
           id?: string
           user_id: string
           title: string
           message: string
-          notification_type?: string
+          notification_type?: Database['public']['Enums']['notification_type']
           is_read?: boolean | null
           related_entity_type?: string | null
           related_entity_id?: string | null
           action_url?: string | null
-          created_at?: string
+          created_at?: string | null
         }
         Update: {
           id?: string
           user_id?: string
           title?: string
           message?: string
-          notification_type?: string
+          notification_type?: Database['public']['Enums']['notification_type']
           is_read?: boolean | null
           related_entity_type?: string | null
           related_entity_id?: string | null
           action_url?: string | null
-          created_at?: string
+          created_at?: string | null
         }
         Relationships: [
           {
@@ -814,11 +2106,39 @@ export interface Database {
       }
     }
     Views: {
+      ledger_account_balances: {
+        Row: {
+          account_id: string | null
+          chama_id: string | null
+          member_id: string | null
+          account_type: string | null
+          normal_balance: string | null
+          balance: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_chama_id_fkey"
+            columns: ["chama_id"]
+            referencedRelation: "chamas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_accounts_member_id_fkey"
+            columns: ["member_id"]
+            referencedRelation: "chama_members"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       member_dashboard: {
         Row: {
           user_id: string | null
           full_name: string | null
           phone_number: string | null
+          total_chamas: number | null
+          pending_requests: number | null
+          unread_notifications: number | null
+          total_contributions: number | null
         }
         Relationships: [
           {
@@ -840,12 +2160,110 @@ export interface Database {
           active_loans: number
         }[]
       }
-      calculate_member_risk_score: {
-        Args: { member_id: string }
+      assess_late_fines: {
+        Args: { p_chama_id?: string | null }
+        Returns: Json
+      }
+      call_election: {
+        Args: { p_chama_id: string; p_role: Database['public']['Enums']['user_role'] }
+        Returns: string
+      }
+      cancel_join_request: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      cast_election_vote: {
+        Args: { p_election_id: string; p_candidate_id: string }
+        Returns: string
+      }
+      cast_payout_vote: {
+        Args: {
+          p_payout_request_id: string
+          p_vote: Database['public']['Enums']['vote_type']
+          p_comments?: string | null
+        }
+        Returns: string
+      }
+      cast_resolution_vote: {
+        Args: {
+          p_resolution_id: string
+          p_vote?: Database['public']['Enums']['vote_type'] | null
+          p_option_id?: string | null
+        }
+        Returns: string
+      }
+      chama_voting_rules: {
+        Args: { p_chama_id: string }
+        Returns: Json
+      }
+      complete_resolution_action: {
+        Args: { p_resolution_id: string }
+        Returns: string
+      }
+      confirm_manual_contribution: {
+        Args: {
+          p_manual_contribution_id: string
+          p_confirm: boolean
+          p_notes?: string | null
+          p_proof_path?: string | null
+        }
+        Returns: number | null
+      }
+      create_personal_invite: {
+        Args: {
+          p_chama_id: string
+          p_phone_number: string
+          p_expires_in_days?: number
+        }
+        Returns: Json
+      }
+      current_rotation_round: {
+        Args: { p_chama_id: string }
+        Returns: number | null
+      }
+      declare_dividends: {
+        Args: { p_chama_id: string; p_period_end?: string | null }
+        Returns: string
+      }
+      election_results: {
+        Args: { p_election_id: string }
+        Returns: {
+          candidate_id: string
+          member_id: string
+          votes: number
+        }[]
+      }
+      generate_contribution_schedule: {
+        Args: { p_chama_id?: string | null }
+        Returns: Json
+      }
+      generate_loan_schedule: {
+        Args: { p_payout_request_id: string }
         Returns: number
       }
-      get_comprehensive_chama_stats: {
+      get_loan_eligibility: {
+        Args: {
+          p_chama_id: string
+          p_member_id?: string | null
+        }
+        Returns: Json
+      }
+      get_rotation_calendar: {
         Args: { p_chama_id: string }
+        Returns: {
+          round: number
+          position: number
+          member_id: string
+          full_name: string
+          bid_amount: number
+          cycle_period: string | null
+          expected_date: string | null
+          status: string
+          payout_request_id: string | null
+        }[]
+      }
+      join_chama_with_invite: {
+        Args: { p_code: string }
         Returns: Json
       }
       log_security_event: {
@@ -860,15 +2278,175 @@ export interface Database {
         }
         Returns: undefined
       }
+      member_exit_settlement: {
+        Args: { p_member_id: string }
+        Returns: Json
+      }
+      nominate_candidate: {
+        Args: { p_election_id: string; p_member_id?: string | null }
+        Returns: string
+      }
+      nominate_loan_guarantors: {
+        Args: {
+          p_payout_request_id: string
+          p_guarantors: Json
+        }
+        Returns: number
+      }
+      place_rotation_bid: {
+        Args: { p_chama_id: string; p_amount: number }
+        Returns: number
+      }
+      post_statement_import: {
+        Args: {
+          p_chama_id: string
+          p_source: string
+          p_file_name: string
+          p_line_count: number
+          p_allocations: Json
+        }
+        Returns: Json
+      }
+      process_elections: {
+        Args: { p_chama_id?: string | null }
+        Returns: Json
+      }
       process_payout_votes: {
-        Args: { request_id: string }
+        Args: { request_id: string; p_final?: boolean }
+        Returns: string
+      }
+      process_voting_deadlines: {
+        Args: { p_chama_id?: string | null }
+        Returns: Json
+      }
+      propose_resolution: {
+        Args: {
+          p_chama_id: string
+          p_resolution_type: string
+          p_title: string
+          p_description?: string | null
+          p_options?: Json | null
+          p_action?: Json | null
+          p_rules?: Json | null
+        }
+        Returns: string
+      }
+      reconcile_b2c_result: {
+        Args: {
+          p_originator_conversation_id: string
+          p_conversation_id: string | null
+          p_result_code: string
+          p_result_desc: string
+          p_transaction_receipt?: string | null
+          p_amount?: number | null
+          p_completed_at?: string | null
+        }
+        Returns: string
+      }
+      reconcile_c2b_payment: {
+        Args: {
+          p_trans_id: string
+          p_account_reference: string
+          p_amount: number
+          p_phone_number?: string | null
+          p_paid_at?: string | null
+        }
+        Returns: string
+      }
+      reconcile_stk_callback: {
+        Args: {
+          p_checkout_request_id: string
+          p_result_code: number
+          p_result_desc: string
+          p_amount?: number | null
+          p_mpesa_receipt?: string | null
+          p_phone_number?: string | null
+          p_transaction_date?: string | null
+        }
+        Returns: string
+      }
+      record_manual_contribution: {
+        Args: {
+          p_chama_id: string
+          p_member_id: string
+          p_amount: number
+          p_payment_method: string
+          p_reference?: string | null
+          p_paid_on?: string | null
+          p_proof_path?: string | null
+        }
+        Returns: string
+      }
+      record_loan_repayment: {
+        Args: {
+          p_payout_request_id: string
+          p_installments?: number
+          p_reference?: string | null
+        }
+        Returns: string
+      }
+      request_member_exit: {
+        Args: { p_chama_id: string; p_reason?: string | null }
+        Returns: string
+      }
+      resolve_paybill_reference: {
+        Args: { p_account_reference: string }
+        Returns: string | null
+      }
+      respond_to_guarantee: {
+        Args: {
+          p_guarantee_id: string
+          p_accept: boolean
+        }
+        Returns: string
+      }
+      review_join_request: {
+        Args: {
+          p_request_id: string
+          p_approve: boolean
+          p_reason?: string | null
+        }
+        Returns: string
+      }
+      review_member_exit: {
+        Args: {
+          p_exit_id: string
+          p_approve: boolean
+          p_notes?: string | null
+        }
+        Returns: string
+      }
+      revoke_chama_invite: {
+        Args: { p_invite_id: string }
         Returns: undefined
       }
+      rotate_invite_code: {
+        Args: {
+          p_chama_id: string
+          p_expires_in_days?: number
+          p_max_uses?: number | null
+        }
+        Returns: Json
+      }
+      stale_stk_requests: {
+        Args: { p_older_than_seconds?: number; p_limit?: number }
+        Returns: {
+          request_id: string
+          checkout_request_id: string
+          amount: number
+          provider: string
+          created_at: string
+        }[]
+      }
+      start_rotation: {
+        Args: { p_chama_id: string; p_order?: string[] | null }
+        Returns: number
+      }
     }
     Enums: {
       user_role: 'member' | 'treasurer' | 'chairperson' | 'secretary'
-      request_status: 'pending' | 'approved' | 'rejected' | 'paid' | 'defaulted'
-      transaction_type: 'contribution' | 'payout' | 'loan' | 'fine' | 'dividend'
+      request_status: 'pending' | 'approved' | 'rejected' | 'paid' | 'defaulted' | 'expired'
+      transaction_type: 'contribution' | 'payout' | 'loan' | 'loan_repayment' | 'fine' | 'dividend' | 'share_purchase' | 'entry_fee'
       transaction_status: 'pending' | 'completed' | 'failed' | 'cancelled'
       vote_type: 'approve' | 'reject'
       contribution_cycle: 'daily' | 'weekly' | 'monthly' | 'quarterly'
@@ -0,0 +1,171 @@
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+export interface DividendStatementLine {
+  declaration_id: string;
+  period_start: string;
+  period_end: string;
+  shares_at_period_end: number;
+  share_days: number;
+  amount: number;
+}
+
+export interface ShareStatement {
+  memberId: string;
+  shareCapital: number;
+  purchases: { id: string; amount: number; transaction_code: string | null; completed_at: string | null }[];
+  dividends: DividendStatementLine[];
+  totalDividends: number;
+}
+
+// Internal helper functions
+const isValidDate = (date: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(new Date(date).getTime());
+
+export const DividendService = {
+  /**
+   * Share a closed period's interest and fine income by time-weighted share capital (officers only).
+   * The period runs from the previous declaration to periodEnd, the last 31 December by default.
+   */
+  async declareDividends(chamaId: string, periodEnd?: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (periodEnd && !isValidDate(periodEnd)) {
+        return { success: false, error: 'Invalid period end date' };
+      }
+
+      const { data, error } = await supabase.rpc('declare_dividends', {
+        p_chama_id: chamaId,
+        p_period_end: periodEnd ?? null,
+      });
+
+      if (error) {
+        console.error('Dividend declaration error:', error);
+        return { success: false, error: error.message || 'Failed to declare dividends' };
+      }
+
+      return { success: true, declarationId: data as string };
+    } catch (error: any) {
+      console.error('Dividend declaration unexpected error:', error);
+      return { success: false, error: 'Failed to declare dividends' };
+    }
+  },
+
+  /**
+   * A chama's dividend declarations with each member's allocation, newest first
+   */
+  async getDeclarations(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('dividend_declarations')
+        .select(`
+          *,
+          allocations:dividend_allocations(
+            member_id,
+            shares_at_period_end,
+            share_days,
+            amount,
+            member:chama_members(
+              user:users(full_name)
+            )
+          )
+        `)
+        .eq('chama_id', chamaId)
+        .order('period_end', { ascending: false });
+
+      if (error) {
+        console.error('Dividend declarations fetch error:', error);
+        return { success: false, error: 'Failed to fetch dividend declarations' };
+      }
+
+      return { success: true, declarations: data || [] };
+    } catch (error: any) {
+      console.error('Dividend declarations fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch dividend declarations' };
+    }
+  },
+
+  /**
+   * A member's share capital, share purchases and dividends
+   */
+  async getMemberStatement(chamaId: string, memberId: string) {
+    try {
+      if (!isValidUUID(chamaId) || !isValidUUID(memberId)) {
+        return { success: false, error: 'Invalid request parameters' };
+      }
+
+      const { data: member, error: memberError } = await supabase
+        .from('chama_members')
+        .select('user_id')
+        .eq('id', memberId)
+        .eq('chama_id', chamaId)
+        .single();
+
+      if (memberError || !member?.user_id) {
+        return { success: false, error: 'Member not found' };
+      }
+
+      const [balance, purchases, allocations] = await Promise.all([
+        supabase
+          .from('ledger_account_balances')
+          .select('balance')
+          .eq('chama_id', chamaId)
+          .eq('member_id', memberId)
+          .eq('account_type', 'share_capital'),
+        supabase
+          .from('transactions')
+          .select('id, amount, transaction_code, completed_at')
+          .eq('chama_id', chamaId)
+          .eq('user_id', member.user_id)
+          .eq('transaction_type', 'share_purchase')
+          .eq('status', 'completed')
+          .order('completed_at', { ascending: false }),
+        supabase
+          .from('dividend_allocations')
+          .select(`
+            shares_at_period_end,
+            share_days,
+            amount,
+            declaration:dividend_declarations(id, period_start, period_end)
+          `)
+          .eq('member_id', memberId),
+      ]);
+
+      if (balance.error || purchases.error || allocations.error) {
+        console.error('Share statement fetch error:', balance.error || purchases.error || allocations.error);
+        return { success: false, error: 'Failed to fetch share statement' };
+      }
+
+      const dividends: DividendStatementLine[] = (allocations.data || [])
+        .filter(allocation => allocation.declaration)
+        .map(allocation => ({
+          declaration_id: allocation.declaration!.id,
+          period_start: allocation.declaration!.period_start,
+          period_end: allocation.declaration!.period_end,
+          shares_at_period_end: Number(allocation.shares_at_period_end),
+          share_days: Number(allocation.share_days),
+          amount: Number(allocation.amount),
+        }))
+        .sort((a, b) => b.period_end.localeCompare(a.period_end));
+
+      const statement: ShareStatement = {
+        memberId,
+        shareCapital: (balance.data || []).reduce((total, row) => total + Number(row.balance || 0), 0),
+        purchases: (purchases.data || []).map(purchase => ({ ...purchase, amount: Number(purchase.amount) })),
+        dividends,
+        totalDividends: dividends.reduce((total, line) => total + line.amount, 0),
+      };
+
+      return { success: true, statement };
+    } catch (error: any) {
+      console.error('Share statement unexpected error:', error);
+      return { success: false, error: 'Failed to fetch share statement' };
+    }
+  },
+};
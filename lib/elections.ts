@@ -0,0 +1,210 @@
+import { callServerApi, isValidUUID, supabase } from '@/lib/supabase';
+
+const OFFICER_ROLES = ['chairperson', 'treasurer', 'secretary'] as const;
+export type OfficerRole = typeof OFFICER_ROLES[number];
+
+export interface ElectionResult {
+  candidate_id: string;
+  member_id: string;
+  votes: number;
+}
+
+export const ElectionService = {
+  /**
+   * Open nominations for an office (officers only)
+   */
+  async callElection(chamaId: string, role: OfficerRole) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (!OFFICER_ROLES.includes(role)) {
+        return { success: false, error: 'Elections are for officer roles only' };
+      }
+
+      const { data, error } = await supabase.rpc('call_election', { p_chama_id: chamaId, p_role: role });
+
+      if (error) {
+        console.error('Call election error:', error);
+        return { success: false, error: error.message || 'Failed to call election' };
+      }
+
+      return { success: true, electionId: data as string };
+    } catch (error: any) {
+      console.error('Call election unexpected error:', error);
+      return { success: false, error: 'Failed to call election' };
+    }
+  },
+
+  /**
+   * Nominate a member, or yourself when no member is given, while nominations are open
+   */
+  async nominateCandidate(electionId: string, memberId?: string) {
+    try {
+      if (!isValidUUID(electionId) || (memberId && !isValidUUID(memberId))) {
+        return { success: false, error: 'Invalid parameters' };
+      }
+
+      const { data, error } = await supabase.rpc('nominate_candidate', {
+        p_election_id: electionId,
+        p_member_id: memberId ?? null,
+      });
+
+      if (error) {
+        console.error('Nomination error:', error);
+        return { success: false, error: error.message || 'Failed to nominate candidate' };
+      }
+
+      return { success: true, candidateId: data as string };
+    } catch (error: any) {
+      console.error('Nomination unexpected error:', error);
+      return { success: false, error: 'Failed to nominate candidate' };
+    }
+  },
+
+  /**
+   * Cast a secret ballot; only turnout is visible until the election closes
+   */
+  async castBallot(electionId: string, candidateId: string) {
+    try {
+      if (!isValidUUID(electionId) || !isValidUUID(candidateId)) {
+        return { success: false, error: 'Invalid parameters' };
+      }
+
+      const { error } = await supabase.rpc('cast_election_vote', {
+        p_election_id: electionId,
+        p_candidate_id: candidateId,
+      });
+
+      if (error) {
+        console.error('Ballot error:', error);
+        return { success: false, error: error.message || 'Failed to cast ballot' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Ballot unexpected error:', error);
+      return { success: false, error: 'Failed to cast ballot' };
+    }
+  },
+
+  /**
+   * A chama's elections with candidates and turnout, newest first
+   */
+  async getChamaElections(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('elections')
+        .select(`
+          *,
+          candidates:election_candidates(
+            id,
+            member_id,
+            member:chama_members!election_candidates_member_id_fkey(
+              user:users(full_name)
+            )
+          ),
+          voters:election_voters(count)
+        `)
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Elections fetch error:', error);
+        return { success: false, error: 'Failed to fetch elections' };
+      }
+
+      return { success: true, elections: data || [] };
+    } catch (error: any) {
+      console.error('Elections fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch elections' };
+    }
+  },
+
+  /**
+   * Vote counts per candidate, available once the election has closed
+   */
+  async getResults(electionId: string) {
+    try {
+      if (!isValidUUID(electionId)) {
+        return { success: false, error: 'Invalid election ID' };
+      }
+
+      const { data, error } = await supabase.rpc('election_results', { p_election_id: electionId });
+
+      if (error) {
+        console.error('Election results error:', error);
+        return { success: false, error: error.message || 'Failed to fetch results' };
+      }
+
+      return { success: true, results: (data || []) as ElectionResult[] };
+    } catch (error: any) {
+      console.error('Election results unexpected error:', error);
+      return { success: false, error: 'Failed to fetch results' };
+    }
+  },
+
+  /**
+   * Current officers and when their terms end
+   */
+  async getOfficerTerms(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('officer_terms')
+        .select(`
+          *,
+          member:chama_members(
+            user:users(full_name)
+          )
+        `)
+        .eq('chama_id', chamaId)
+        .is('ended_at', null)
+        .order('role', { ascending: true });
+
+      if (error) {
+        console.error('Officer terms fetch error:', error);
+        return { success: false, error: 'Failed to fetch officer terms' };
+      }
+
+      return { success: true, terms: data || [] };
+    } catch (error: any) {
+      console.error('Officer terms fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch officer terms' };
+    }
+  },
+
+  /**
+   * Close due nomination and voting windows and call elections for expiring terms (officers only)
+   */
+  async processElections(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const result = await callServerApi<{ success: boolean; error?: string; summary?: { advanced: number; called: number } }>(
+        '/api/jobs/elections',
+        { chamaId }
+      );
+
+      if (!result.success) {
+        console.error('Process elections error:', result.error);
+        return { success: false, error: 'Failed to process elections' };
+      }
+
+      return { success: true, summary: result.summary };
+    } catch (error: any) {
+      console.error('Process elections unexpected error:', error);
+      return { success: false, error: 'Failed to process elections' };
+    }
+  },
+};
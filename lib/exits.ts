@@ -0,0 +1,171 @@
+import { MpesaService } from '@/lib/mpesa';
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_REASON_LENGTH: 500,
+} as const;
+
+export interface ExitSettlement {
+  savings: number;
+  share_capital: number;
+  dividend_share: number;
+  dividend_fine_share: number;
+  loans_outstanding: number;
+  fines_outstanding: number;
+  guarantee_exposure: number;
+  // Savings + share capital + dividend share - loans - fines; negative when the member owes the chama
+  net_settlement: number;
+  payout_amount: number;
+  // Held back while the member still guarantees other members' loans
+  withheld_amount: number;
+}
+
+export const MemberExitService = {
+  /**
+   * What a member would be paid if they left today (the member or officers)
+   */
+  async getSettlement(memberId: string) {
+    try {
+      if (!isValidUUID(memberId)) {
+        return { success: false, error: 'Invalid member ID' };
+      }
+
+      const { data, error } = await supabase.rpc('member_exit_settlement', { p_member_id: memberId });
+
+      if (error || !data) {
+        console.error('Exit settlement error:', error);
+        return { success: false, error: error?.message || 'Failed to calculate settlement' };
+      }
+
+      return { success: true, settlement: data as unknown as ExitSettlement };
+    } catch (error: any) {
+      console.error('Exit settlement unexpected error:', error);
+      return { success: false, error: 'Failed to calculate settlement' };
+    }
+  },
+
+  /**
+   * Ask to leave a chama. Chairpersons wait for an election to hand over the chair before officers review the exit.
+   */
+  async requestExit(chamaId: string, reason?: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (reason && reason.length > SECURITY_CONFIG.MAX_REASON_LENGTH) {
+        return { success: false, error: `Reason must be at most ${SECURITY_CONFIG.MAX_REASON_LENGTH} characters` };
+      }
+
+      const { data, error } = await supabase.rpc('request_member_exit', {
+        p_chama_id: chamaId,
+        p_reason: reason?.trim() || null,
+      });
+
+      if (error) {
+        console.error('Exit request error:', error);
+        return { success: false, error: error.message || 'Failed to request exit' };
+      }
+
+      return { success: true, exitId: data as string };
+    } catch (error: any) {
+      console.error('Exit request unexpected error:', error);
+      return { success: false, error: 'Failed to request exit' };
+    }
+  },
+
+  /**
+   * Approve or reject a pending exit (officers other than the leaving member)
+   */
+  async reviewExit(exitId: string, approve: boolean, notes?: string) {
+    try {
+      if (!isValidUUID(exitId)) {
+        return { success: false, error: 'Invalid exit ID' };
+      }
+
+      if (notes && notes.length > SECURITY_CONFIG.MAX_REASON_LENGTH) {
+        return { success: false, error: `Notes must be at most ${SECURITY_CONFIG.MAX_REASON_LENGTH} characters` };
+      }
+
+      const { data, error } = await supabase.rpc('review_member_exit', {
+        p_exit_id: exitId,
+        p_approve: approve,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (error) {
+        console.error('Exit review error:', error);
+        return { success: false, error: error.message || 'Failed to review exit' };
+      }
+
+      return { success: true, status: data as string };
+    } catch (error: any) {
+      console.error('Exit review unexpected error:', error);
+      return { success: false, error: 'Failed to review exit' };
+    }
+  },
+
+  /**
+   * Send an approved exit's settlement to the member by M-Pesa B2C; the membership closes once it is paid
+   */
+  async disburseSettlement(exitId: string, idempotencyKey?: string) {
+    try {
+      if (!isValidUUID(exitId)) {
+        return { success: false, error: 'Invalid exit ID' };
+      }
+
+      const { data: exit, error: fetchError } = await supabase
+        .from('member_exits')
+        .select('status, payout_request_id')
+        .eq('id', exitId)
+        .single();
+
+      if (fetchError || !exit) {
+        return { success: false, error: 'Exit request not found' };
+      }
+
+      if (exit.status !== 'approved' || !exit.payout_request_id) {
+        return { success: false, error: 'This exit has no settlement awaiting payment' };
+      }
+
+      return await MpesaService.disbursePayout(exit.payout_request_id, idempotencyKey);
+    } catch (error: any) {
+      console.error('Exit settlement disbursement error:', error);
+      return { success: false, error: error.message || 'Failed to disburse settlement' };
+    }
+  },
+
+  /**
+   * A chama's exit requests, newest first
+   */
+  async getChamaExits(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('member_exits')
+        .select(`
+          *,
+          member:chama_members!member_exits_member_id_fkey(
+            role,
+            user:users(full_name)
+          )
+        `)
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Exits fetch error:', error);
+        return { success: false, error: 'Failed to fetch exit requests' };
+      }
+
+      return { success: true, exits: data || [] };
+    } catch (error: any) {
+      console.error('Exits fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch exit requests' };
+    }
+  },
+};
@@ -0,0 +1,136 @@
+import { callServerApi, isValidUUID, supabase } from '@/lib/supabase';
+
+// Internal helper functions
+const verifyOfficer = async (chamaId: string): Promise<{ isOfficer: boolean; error?: string }> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { isOfficer: false, error: 'Authentication required' };
+    }
+
+    const { data, error } = await supabase
+      .from('chama_members')
+      .select('id')
+      .eq('chama_id', chamaId)
+      .eq('user_id', user.id)
+      .in('role', ['chairperson', 'treasurer'])
+      .eq('is_active', true)
+      .single();
+
+    if (error || !data) {
+      return { isOfficer: false, error: 'Only chama officers can manage fines' };
+    }
+
+    return { isOfficer: true };
+  } catch (error) {
+    return { isOfficer: false, error: 'Authorization check failed' };
+  }
+};
+
+export const FineService = {
+  /**
+   * Fine every obligation in the chama that is overdue past its grace period (officers only)
+   */
+  async assessFines(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const officer = await verifyOfficer(chamaId);
+      if (!officer.isOfficer) {
+        return { success: false, error: officer.error };
+      }
+
+      const result = await callServerApi<{ success: boolean; error?: string; summary?: { assessed: number } }>(
+        '/api/jobs/late-fines',
+        { chamaId }
+      );
+
+      if (!result.success) {
+        console.error('Fine assessment error:', result.error);
+        return { success: false, error: 'Failed to assess fines' };
+      }
+
+      return { success: true, summary: result.summary };
+    } catch (error: any) {
+      console.error('Fine assessment unexpected error:', error);
+      return { success: false, error: 'Failed to assess fines' };
+    }
+  },
+
+  /**
+   * The signed-in member's fines, newest first
+   */
+  async getMyFines(chamaId?: string) {
+    try {
+      if (chamaId && !isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      let query = supabase
+        .from('transactions')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('transaction_type', 'fine')
+        .order('created_at', { ascending: false });
+
+      if (chamaId) {
+        query = query.eq('chama_id', chamaId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Fines fetch error:', error);
+        return { success: false, error: 'Failed to fetch fines' };
+      }
+
+      return { success: true, fines: data || [] };
+    } catch (error: any) {
+      console.error('Fines fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch fines' };
+    }
+  },
+
+  /**
+   * Every fine in a chama with the member it was charged to (officers only)
+   */
+  async getChamaFines(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const officer = await verifyOfficer(chamaId);
+      if (!officer.isOfficer) {
+        return { success: false, error: officer.error };
+      }
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .select(`
+          *,
+          user:users(full_name)
+        `)
+        .eq('chama_id', chamaId)
+        .eq('transaction_type', 'fine')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Chama fines fetch error:', error);
+        return { success: false, error: 'Failed to fetch fines' };
+      }
+
+      return { success: true, fines: data || [] };
+    } catch (error: any) {
+      console.error('Chama fines fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch fines' };
+    }
+  },
+};
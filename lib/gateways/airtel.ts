@@ -0,0 +1,276 @@
+import {
+  B2CRequest,
+  B2CResult,
+  GatewayFetch,
+  PaymentGateway,
+  PaymentGatewayError,
+  STKPushRequest,
+  STKPushResult,
+  STKQueryResult,
+} from './types';
+
+// Airtel Africa Open API configuration
+const AIRTEL_CONFIG = {
+  SANDBOX_URL: 'https://openapiuat.airtel.africa',
+  PRODUCTION_URL: 'https://openapi.airtel.africa',
+  COUNTRY: 'KE',
+  CURRENCY: 'KES',
+  TOKEN_EXPIRY_BUFFER: 30000, // Airtel tokens are short-lived; refresh 30 seconds early
+  REQUEST_TIMEOUT: 30000, // 30 seconds
+  MAX_REFERENCE_LENGTH: 64,
+  SUCCESS_STATUS: '200',
+} as const;
+
+// Airtel transaction statuses: TS (success), TF (failed), TA (ambiguous) and TIP (in progress)
+const AIRTEL_TRANSACTION_STATUS = {
+  SUCCESS: 'TS',
+  FAILED: 'TF',
+} as const;
+
+export interface AirtelCredentials {
+  environment: 'sandbox' | 'production';
+  clientId: string;
+  clientSecret: string;
+  disbursementPin?: string; // Disbursement PIN encrypted with Airtel's public key
+}
+
+/**
+ * Read Airtel Money credentials from the environment
+ */
+export const getAirtelCredentials = (): AirtelCredentials => {
+  const credentials = {
+    environment: process.env.AIRTEL_ENV === 'production' ? 'production' : 'sandbox',
+    clientId: process.env.AIRTEL_CLIENT_ID || '',
+    clientSecret: process.env.AIRTEL_CLIENT_SECRET || '',
+  } as const;
+
+  const missing = Object.entries(credentials)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new PaymentGatewayError(`Airtel Money is not configured (missing: ${missing.join(', ')})`, 'CONFIGURATION');
+  }
+
+  // Disbursements are optional; only payouts need the PIN configured
+  return { ...credentials, disbursementPin: process.env.AIRTEL_DISBURSEMENT_PIN || undefined };
+};
+
+// Airtel addresses subscribers by the national number without the country code (7XXXXXXXX)
+const toAirtelMsisdn = (phoneNumber: string): string => phoneNumber.replace(/\D/g, '').replace(/^254/, '');
+
+// Airtel needs a unique transaction ID per request; the callback echoes it back
+const generateTransactionId = (): string => {
+  const random = Math.random().toString(36).substring(2, 8);
+  return `WCA${Date.now()}${random}`.toUpperCase();
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new PaymentGatewayError('Payment gateway timed out', 'TIMEOUT')), ms)
+    ),
+  ]);
+};
+
+// Airtel wraps every response in { status: { code, success, result_code, message } }
+const extractError = (body: any, fallback: string): { code: string; message: string } => {
+  if (body?.status && body.status.success === false) {
+    return { code: String(body.status.result_code || body.status.code), message: body.status.message || fallback };
+  }
+  if (body?.error) {
+    return { code: String(body.error), message: body.error_description || fallback };
+  }
+  return { code: 'UNKNOWN', message: fallback };
+};
+
+/**
+ * Build an Airtel Money gateway over any fetch-compatible transport
+ */
+export const createAirtelGateway = (
+  loadCredentials: () => AirtelCredentials,
+  transport: GatewayFetch
+): PaymentGateway => {
+  let cachedToken: { value: string; expiresAt: number } | null = null;
+  let pendingToken: Promise<string> | null = null;
+
+  const baseUrl = (credentials: AirtelCredentials) =>
+    credentials.environment === 'production' ? AIRTEL_CONFIG.PRODUCTION_URL : AIRTEL_CONFIG.SANDBOX_URL;
+
+  const request = async (url: string, init: Parameters<GatewayFetch>[1]) => {
+    let response;
+    try {
+      response = await withTimeout(transport(url, init), AIRTEL_CONFIG.REQUEST_TIMEOUT);
+    } catch (error: any) {
+      if (error instanceof PaymentGatewayError) throw error;
+      throw new PaymentGatewayError('Unable to reach payment gateway', 'NETWORK');
+    }
+
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      body = null;
+    }
+
+    return { response, body };
+  };
+
+  const fetchAccessToken = async (credentials: AirtelCredentials): Promise<string> => {
+    const { response, body } = await request(`${baseUrl(credentials)}/auth/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: '*/*' },
+      body: JSON.stringify({
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        grant_type: 'client_credentials',
+      }),
+    });
+
+    if (!response.ok || !body?.access_token) {
+      const { code, message } = extractError(body, 'Failed to authenticate with payment gateway');
+      throw new PaymentGatewayError(message, code, response.status);
+    }
+
+    const expiresInMs = (parseInt(body.expires_in, 10) || 180) * 1000;
+    cachedToken = {
+      value: body.access_token,
+      expiresAt: Date.now() + expiresInMs - AIRTEL_CONFIG.TOKEN_EXPIRY_BUFFER,
+    };
+
+    return cachedToken.value;
+  };
+
+  const getAccessToken = async (credentials: AirtelCredentials): Promise<string> => {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+      return cachedToken.value;
+    }
+
+    // Share one in-flight token request between concurrent callers
+    if (!pendingToken) {
+      pendingToken = fetchAccessToken(credentials).finally(() => {
+        pendingToken = null;
+      });
+    }
+
+    return pendingToken;
+  };
+
+  // Send a request with a bearer token and the country/currency headers, surfacing rejections as errors
+  const authorizedRequest = async (
+    credentials: AirtelCredentials,
+    path: string,
+    payload: object | null,
+    fallbackError: string
+  ) => {
+    const token = await getAccessToken(credentials);
+
+    const { response, body } = await request(`${baseUrl(credentials)}${path}`, {
+      method: payload ? 'POST' : 'GET',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        Accept: '*/*',
+        'X-Country': AIRTEL_CONFIG.COUNTRY,
+        'X-Currency': AIRTEL_CONFIG.CURRENCY,
+      },
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    // Drop a token Airtel no longer accepts so the next call re-authenticates
+    if (response.status === 401) {
+      cachedToken = null;
+    }
+
+    if (!response.ok || body?.status?.success !== true) {
+      const { code, message } = extractError(body, fallbackError);
+      throw new PaymentGatewayError(message, code, response.status);
+    }
+
+    return body;
+  };
+
+  return {
+    name: 'airtel',
+    provider: 'airtel_money',
+
+    async initiateSTKPush(stkRequest: STKPushRequest): Promise<STKPushResult> {
+      const credentials = loadCredentials();
+      const transactionId = generateTransactionId();
+
+      const body = await authorizedRequest(credentials, '/merchant/v1/payments/', {
+        reference: `${stkRequest.accountReference} ${stkRequest.transactionDesc}`.substring(0, AIRTEL_CONFIG.MAX_REFERENCE_LENGTH),
+        subscriber: {
+          country: AIRTEL_CONFIG.COUNTRY,
+          currency: AIRTEL_CONFIG.CURRENCY,
+          msisdn: toAirtelMsisdn(stkRequest.phoneNumber),
+        },
+        transaction: {
+          amount: Math.round(stkRequest.amount),
+          country: AIRTEL_CONFIG.COUNTRY,
+          currency: AIRTEL_CONFIG.CURRENCY,
+          id: transactionId,
+        },
+      }, 'Payment request was rejected');
+
+      // The callback identifies the payment by our transaction ID, so it stands in for Daraja's CheckoutRequestID
+      return {
+        merchantRequestId: body.data?.transaction?.id || transactionId,
+        checkoutRequestId: transactionId,
+        responseCode: String(body.status.code || AIRTEL_CONFIG.SUCCESS_STATUS),
+        responseDescription: body.status.message || 'Success',
+        customerMessage: 'Enter your Airtel Money PIN on your phone to complete the payment',
+      };
+    },
+
+    async querySTKPush(checkoutRequestId: string): Promise<STKQueryResult> {
+      const credentials = loadCredentials();
+
+      const body = await authorizedRequest(
+        credentials,
+        `/standard/v1/payments/${encodeURIComponent(checkoutRequestId)}`,
+        null,
+        'Status query was rejected'
+      );
+
+      const transaction = body.data?.transaction || {};
+      const resultDesc = transaction.message || '';
+
+      // Airtel has no separate cancellation status; a declined prompt is reported as TF
+      if (transaction.status === AIRTEL_TRANSACTION_STATUS.SUCCESS) {
+        return { status: 'completed', resultCode: 0, resultDesc, receipt: transaction.airtel_money_id };
+      }
+      if (transaction.status === AIRTEL_TRANSACTION_STATUS.FAILED) {
+        return { status: 'failed', resultCode: 1, resultDesc };
+      }
+      return { status: 'pending', resultCode: null, resultDesc };
+    },
+
+    async initiateB2C(b2cRequest: B2CRequest): Promise<B2CResult> {
+      const credentials = loadCredentials();
+      if (!credentials.disbursementPin) {
+        throw new PaymentGatewayError('Airtel Money disbursements are not configured', 'CONFIGURATION');
+      }
+
+      const body = await authorizedRequest(credentials, '/standard/v1/disbursements/', {
+        payee: { msisdn: toAirtelMsisdn(b2cRequest.phoneNumber) },
+        reference: b2cRequest.remarks.substring(0, AIRTEL_CONFIG.MAX_REFERENCE_LENGTH),
+        pin: credentials.disbursementPin,
+        transaction: {
+          amount: Math.round(b2cRequest.amount),
+          id: b2cRequest.originatorConversationId,
+        },
+      }, 'Disbursement request was rejected');
+
+      return {
+        conversationId: body.data?.transaction?.reference_id || body.data?.transaction?.id || b2cRequest.originatorConversationId,
+        originatorConversationId: b2cRequest.originatorConversationId,
+        responseCode: String(body.status.code || AIRTEL_CONFIG.SUCCESS_STATUS),
+        responseDescription: body.status.message || 'Success',
+      };
+    },
+  };
+};
+
+export const AirtelGateway = createAirtelGateway(getAirtelCredentials, (url, init) => fetch(url, init));
@@ -0,0 +1,322 @@
+import {
+  B2CRequest,
+  B2CResult,
+  GatewayFetch,
+  PaymentGateway,
+  PaymentGatewayError,
+  STKPushRequest,
+  STKPushResult,
+  STKQueryResult,
+  STKQueryStatus,
+} from './types';
+
+// Daraja API configuration
+const DARAJA_CONFIG = {
+  SANDBOX_URL: 'https://sandbox.safaricom.co.ke',
+  PRODUCTION_URL: 'https://api.safaricom.co.ke',
+  TOKEN_EXPIRY_BUFFER: 60000, // Refresh token 1 minute before it expires
+  REQUEST_TIMEOUT: 30000, // 30 seconds
+  MAX_ACCOUNT_REFERENCE_LENGTH: 12,
+  MAX_TRANSACTION_DESC_LENGTH: 13,
+  MAX_REMARKS_LENGTH: 100,
+  EAT_OFFSET_MS: 3 * 60 * 60 * 1000, // Daraja timestamps are in Nairobi time (UTC+3)
+} as const;
+
+// Codes the STK query answers with until the customer has responded to the prompt
+const STK_QUERY_PENDING_CODES = new Set(['500.001.1001', '4999']);
+
+export interface DarajaCredentials {
+  environment: 'sandbox' | 'production';
+  consumerKey: string;
+  consumerSecret: string;
+  shortCode: string;
+  passkey: string;
+  callbackUrl: string;
+  b2c?: DarajaB2CCredentials;
+}
+
+export interface DarajaB2CCredentials {
+  shortCode: string;
+  initiatorName: string;
+  securityCredential: string; // Initiator password encrypted with the Daraja certificate
+  resultUrl: string;
+  timeoutUrl: string;
+}
+
+// B2C is optional; only disbursements need it configured
+const getDarajaB2CCredentials = (): DarajaB2CCredentials | undefined => {
+  const b2c = {
+    shortCode: process.env.DARAJA_B2C_SHORTCODE || '',
+    initiatorName: process.env.DARAJA_B2C_INITIATOR_NAME || '',
+    securityCredential: process.env.DARAJA_B2C_SECURITY_CREDENTIAL || '',
+    resultUrl: process.env.DARAJA_B2C_RESULT_URL || '',
+    timeoutUrl: process.env.DARAJA_B2C_TIMEOUT_URL || '',
+  };
+
+  return Object.values(b2c).every(Boolean) ? b2c : undefined;
+};
+
+/**
+ * Read Daraja credentials from the environment
+ */
+export const getDarajaCredentials = (): DarajaCredentials => {
+  const credentials = {
+    environment: process.env.DARAJA_ENV === 'production' ? 'production' : 'sandbox',
+    consumerKey: process.env.DARAJA_CONSUMER_KEY || '',
+    consumerSecret: process.env.DARAJA_CONSUMER_SECRET || '',
+    shortCode: process.env.DARAJA_SHORTCODE || '',
+    passkey: process.env.DARAJA_PASSKEY || '',
+    callbackUrl: process.env.DARAJA_CALLBACK_URL || '',
+  } as const;
+
+  const missing = Object.entries(credentials)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new PaymentGatewayError(`Daraja is not configured (missing: ${missing.join(', ')})`, 'CONFIGURATION');
+  }
+
+  if (!credentials.callbackUrl.startsWith('https://')) {
+    throw new PaymentGatewayError('Daraja callback URL must use HTTPS', 'CONFIGURATION');
+  }
+
+  return { ...credentials, b2c: getDarajaB2CCredentials() };
+};
+
+/**
+ * Format a date as the YYYYMMDDHHmmss timestamp Daraja expects
+ */
+export const generateTimestamp = (date: Date = new Date()): string => {
+  const nairobi = new Date(date.getTime() + DARAJA_CONFIG.EAT_OFFSET_MS);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return [
+    nairobi.getUTCFullYear(),
+    pad(nairobi.getUTCMonth() + 1),
+    pad(nairobi.getUTCDate()),
+    pad(nairobi.getUTCHours()),
+    pad(nairobi.getUTCMinutes()),
+    pad(nairobi.getUTCSeconds()),
+  ].join('');
+};
+
+/**
+ * Lipa Na M-Pesa password: base64(shortcode + passkey + timestamp)
+ */
+export const generatePassword = (shortCode: string, passkey: string, timestamp: string): string => {
+  return btoa(`${shortCode}${passkey}${timestamp}`);
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new PaymentGatewayError('Payment gateway timed out', 'TIMEOUT')), ms)
+    ),
+  ]);
+};
+
+// Daraja returns { errorCode, errorMessage } on failures and ResponseCode !== '0' on rejections
+const extractError = (body: any, fallback: string): { code: string; message: string } => {
+  if (body?.errorCode) {
+    return { code: String(body.errorCode), message: body.errorMessage || fallback };
+  }
+  if (body?.ResponseCode && body.ResponseCode !== '0') {
+    return { code: String(body.ResponseCode), message: body.ResponseDescription || fallback };
+  }
+  return { code: 'UNKNOWN', message: fallback };
+};
+
+const stkQueryStatus = (resultCode: number): STKQueryStatus => {
+  if (Number.isNaN(resultCode) || STK_QUERY_PENDING_CODES.has(String(resultCode))) return 'pending';
+  if (resultCode === 0) return 'completed';
+  if (resultCode === 1032) return 'cancelled';
+  return 'failed';
+};
+
+/**
+ * Build a Daraja gateway over any fetch-compatible transport
+ */
+export const createDarajaGateway = (
+  loadCredentials: () => DarajaCredentials,
+  transport: GatewayFetch
+): PaymentGateway => {
+  let cachedToken: { value: string; expiresAt: number } | null = null;
+  let pendingToken: Promise<string> | null = null;
+
+  const baseUrl = (credentials: DarajaCredentials) =>
+    credentials.environment === 'production' ? DARAJA_CONFIG.PRODUCTION_URL : DARAJA_CONFIG.SANDBOX_URL;
+
+  const request = async (url: string, init: Parameters<GatewayFetch>[1]) => {
+    let response;
+    try {
+      response = await withTimeout(transport(url, init), DARAJA_CONFIG.REQUEST_TIMEOUT);
+    } catch (error: any) {
+      if (error instanceof PaymentGatewayError) throw error;
+      throw new PaymentGatewayError('Unable to reach payment gateway', 'NETWORK');
+    }
+
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      body = null;
+    }
+
+    return { response, body };
+  };
+
+  const fetchAccessToken = async (credentials: DarajaCredentials): Promise<string> => {
+    const basicAuth = btoa(`${credentials.consumerKey}:${credentials.consumerSecret}`);
+    const { response, body } = await request(
+      `${baseUrl(credentials)}/oauth/v1/generate?grant_type=client_credentials`,
+      { method: 'GET', headers: { Authorization: `Basic ${basicAuth}` } }
+    );
+
+    if (!response.ok || !body?.access_token) {
+      const { code, message } = extractError(body, 'Failed to authenticate with payment gateway');
+      throw new PaymentGatewayError(message, code, response.status);
+    }
+
+    const expiresInMs = (parseInt(body.expires_in, 10) || 3599) * 1000;
+    cachedToken = {
+      value: body.access_token,
+      expiresAt: Date.now() + expiresInMs - DARAJA_CONFIG.TOKEN_EXPIRY_BUFFER,
+    };
+
+    return cachedToken.value;
+  };
+
+  const getAccessToken = async (credentials: DarajaCredentials): Promise<string> => {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+      return cachedToken.value;
+    }
+
+    // Share one in-flight token request between concurrent callers
+    if (!pendingToken) {
+      pendingToken = fetchAccessToken(credentials).finally(() => {
+        pendingToken = null;
+      });
+    }
+
+    return pendingToken;
+  };
+
+  // POST a JSON payload with a bearer token and surface Daraja rejections as errors
+  const authorizedPost = async (credentials: DarajaCredentials, path: string, payload: object, fallbackError: string) => {
+    const token = await getAccessToken(credentials);
+
+    const { response, body } = await request(`${baseUrl(credentials)}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    // Drop a token Daraja no longer accepts so the next call re-authenticates
+    if (response.status === 401) {
+      cachedToken = null;
+    }
+
+    if (!response.ok || body?.ResponseCode !== '0') {
+      const { code, message } = extractError(body, fallbackError);
+      throw new PaymentGatewayError(message, code, response.status);
+    }
+
+    return body;
+  };
+
+  return {
+    name: 'daraja',
+    provider: 'mpesa',
+
+    async initiateSTKPush(stkRequest: STKPushRequest): Promise<STKPushResult> {
+      const credentials = loadCredentials();
+      const timestamp = generateTimestamp();
+
+      const body = await authorizedPost(credentials, '/mpesa/stkpush/v1/processrequest', {
+        BusinessShortCode: credentials.shortCode,
+        Password: generatePassword(credentials.shortCode, credentials.passkey, timestamp),
+        Timestamp: timestamp,
+        TransactionType: 'CustomerPayBillOnline',
+        Amount: Math.round(stkRequest.amount),
+        PartyA: stkRequest.phoneNumber,
+        PartyB: credentials.shortCode,
+        PhoneNumber: stkRequest.phoneNumber,
+        CallBackURL: credentials.callbackUrl,
+        AccountReference: stkRequest.accountReference.substring(0, DARAJA_CONFIG.MAX_ACCOUNT_REFERENCE_LENGTH),
+        TransactionDesc: stkRequest.transactionDesc.substring(0, DARAJA_CONFIG.MAX_TRANSACTION_DESC_LENGTH),
+      }, 'Payment request was rejected');
+
+      return {
+        merchantRequestId: body.MerchantRequestID,
+        checkoutRequestId: body.CheckoutRequestID,
+        responseCode: body.ResponseCode,
+        responseDescription: body.ResponseDescription,
+        customerMessage: body.CustomerMessage,
+      };
+    },
+
+    async querySTKPush(checkoutRequestId: string): Promise<STKQueryResult> {
+      const credentials = loadCredentials();
+      const timestamp = generateTimestamp();
+
+      let body;
+      try {
+        body = await authorizedPost(credentials, '/mpesa/stkpushquery/v1/query', {
+          BusinessShortCode: credentials.shortCode,
+          Password: generatePassword(credentials.shortCode, credentials.passkey, timestamp),
+          Timestamp: timestamp,
+          CheckoutRequestID: checkoutRequestId,
+        }, 'Status query was rejected');
+      } catch (error: any) {
+        if (error instanceof PaymentGatewayError && STK_QUERY_PENDING_CODES.has(error.code)) {
+          return { status: 'pending', resultCode: null, resultDesc: error.message };
+        }
+        throw error;
+      }
+
+      const resultCode = Number(body.ResultCode);
+      const status = stkQueryStatus(resultCode);
+
+      return {
+        status,
+        resultCode: status === 'pending' ? null : resultCode,
+        resultDesc: body.ResultDesc || '',
+      };
+    },
+
+    async initiateB2C(b2cRequest: B2CRequest): Promise<B2CResult> {
+      const credentials = loadCredentials();
+      if (!credentials.b2c) {
+        throw new PaymentGatewayError('Daraja B2C is not configured', 'CONFIGURATION');
+      }
+
+      const body = await authorizedPost(credentials, '/mpesa/b2c/v3/paymentrequest', {
+        OriginatorConversationID: b2cRequest.originatorConversationId,
+        InitiatorName: credentials.b2c.initiatorName,
+        SecurityCredential: credentials.b2c.securityCredential,
+        CommandID: 'BusinessPayment',
+        Amount: Math.round(b2cRequest.amount),
+        PartyA: credentials.b2c.shortCode,
+        PartyB: b2cRequest.phoneNumber,
+        Remarks: b2cRequest.remarks.substring(0, DARAJA_CONFIG.MAX_REMARKS_LENGTH),
+        QueueTimeOutURL: credentials.b2c.timeoutUrl,
+        ResultURL: credentials.b2c.resultUrl,
+        Occasion: (b2cRequest.occasion || '').substring(0, DARAJA_CONFIG.MAX_REMARKS_LENGTH),
+      }, 'Disbursement request was rejected');
+
+      return {
+        conversationId: body.ConversationID,
+        originatorConversationId: body.OriginatorConversationID || b2cRequest.originatorConversationId,
+        responseCode: body.ResponseCode,
+        responseDescription: body.ResponseDescription,
+      };
+    },
+  };
+};
+
+export const DarajaGateway = createDarajaGateway(getDarajaCredentials, (url, init) => fetch(url, init));
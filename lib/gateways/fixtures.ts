@@ -0,0 +1,174 @@
+// Daraja STK callback payloads as delivered to the CallBackURL (sandbox captures)
+
+export const STK_CALLBACK_FIXTURES = {
+  success: {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: '29115-34620561-1',
+        CheckoutRequestID: 'ws_CO_191220191020363925',
+        ResultCode: 0,
+        ResultDesc: 'The service request is processed successfully.',
+        CallbackMetadata: {
+          Item: [
+            { Name: 'Amount', Value: 1.0 },
+            { Name: 'MpesaReceiptNumber', Value: 'NLJ7RT61SV' },
+            { Name: 'Balance' },
+            { Name: 'TransactionDate', Value: 20191219102115 },
+            { Name: 'PhoneNumber', Value: 254708374149 },
+          ],
+        },
+      },
+    },
+  },
+
+  cancelledByUser: {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: '8555-67195-1',
+        CheckoutRequestID: 'ws_CO_27072017151044001',
+        ResultCode: 1032,
+        ResultDesc: 'Request cancelled by user',
+      },
+    },
+  },
+
+  insufficientFunds: {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: '16813-1590513-1',
+        CheckoutRequestID: 'ws_CO_050520231612163525',
+        ResultCode: 1,
+        ResultDesc: 'The balance is insufficient for the transaction',
+      },
+    },
+  },
+
+  timeout: {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: '92643-47073138-2',
+        CheckoutRequestID: 'ws_CO_171220231140416748',
+        ResultCode: 1037,
+        ResultDesc: 'DS timeout user cannot be reached',
+      },
+    },
+  },
+} as const;
+
+export type STKCallbackFixture = keyof typeof STK_CALLBACK_FIXTURES;
+
+// Daraja B2C payloads as delivered to the ResultURL / QueueTimeOutURL
+export const B2C_RESULT_FIXTURES = {
+  success: {
+    Result: {
+      ResultType: 0,
+      ResultCode: 0,
+      ResultDesc: 'The service request is processed successfully.',
+      OriginatorConversationID: '10571-7910404-1',
+      ConversationID: 'AG_20191219_00004e48cf7e3533f581',
+      TransactionID: 'NLJ41HAY6Q',
+      ResultParameters: {
+        ResultParameter: [
+          { Key: 'TransactionAmount', Value: 10 },
+          { Key: 'TransactionReceipt', Value: 'NLJ41HAY6Q' },
+          { Key: 'B2CRecipientIsRegisteredCustomer', Value: 'Y' },
+          { Key: 'B2CChargesPaidAccountAvailableFunds', Value: -4510.0 },
+          { Key: 'ReceiverPartyPublicName', Value: '254708374149 - John Doe' },
+          { Key: 'TransactionCompletedDateTime', Value: '19.12.2019 11:45:50' },
+          { Key: 'B2CUtilityAccountAvailableFunds', Value: 10116.0 },
+          { Key: 'B2CWorkingAccountAvailableFunds', Value: 900000.0 },
+        ],
+      },
+    },
+  },
+
+  insufficientBalance: {
+    Result: {
+      ResultType: 0,
+      ResultCode: 1,
+      ResultDesc: 'The balance is insufficient for the transaction.',
+      OriginatorConversationID: '29112-34801843-1',
+      ConversationID: 'AG_20191219_00006c6fddb15123addf',
+      TransactionID: 'NLJ0000000',
+    },
+  },
+
+  invalidInitiator: {
+    Result: {
+      ResultType: 0,
+      ResultCode: 2001,
+      ResultDesc: 'The initiator information is invalid.',
+      OriginatorConversationID: '29112-34801843-2',
+      ConversationID: 'AG_20191219_00005797af5d7d75f652',
+      TransactionID: 'NLJ0000000',
+    },
+  },
+
+  timeout: {
+    Result: {
+      ResultType: 1,
+      ResultCode: 'SVC0403',
+      ResultDesc: 'Request timed out in queue.',
+      OriginatorConversationID: '29112-34801843-3',
+      ConversationID: 'AG_20191219_000041b0c5d2b5d7cd59',
+      TransactionID: 'NLJ0000000',
+    },
+  },
+} as const;
+
+export type B2CResultFixture = keyof typeof B2C_RESULT_FIXTURES;
+
+// Daraja C2B paybill payloads as delivered to the ValidationURL / ConfirmationURL
+export const C2B_PAYMENT_FIXTURES = {
+  matched: {
+    TransactionType: 'Pay Bill',
+    TransID: 'RKTQDM7W6S',
+    TransTime: '20240610152233',
+    TransAmount: '500.00',
+    BusinessShortCode: '600638',
+    BillRefNumber: 'K7QX2M9A3',
+    InvoiceNumber: '',
+    OrgAccountBalance: '49197.00',
+    ThirdPartyTransID: '',
+    MSISDN: '2547 ***** 149',
+    FirstName: 'JOHN',
+  },
+
+  unknownReference: {
+    TransactionType: 'Pay Bill',
+    TransID: 'RKTQDM7W6T',
+    TransTime: '20240610152410',
+    TransAmount: '500.00',
+    BusinessShortCode: '600638',
+    BillRefNumber: 'MYCHAMA',
+    InvoiceNumber: '',
+    OrgAccountBalance: '49697.00',
+    ThirdPartyTransID: '',
+    MSISDN: '2547 ***** 149',
+    FirstName: 'JOHN',
+  },
+} as const;
+
+export type C2BPaymentFixture = keyof typeof C2B_PAYMENT_FIXTURES;
+
+// Airtel Money callback payloads (collections and disbursements share the shape)
+export const AIRTEL_CALLBACK_FIXTURES = {
+  success: {
+    transaction: {
+      id: 'WCA1718000000000ABC123',
+      message: 'Paid KES 500 to WEALTHCIRCLE, Trans ID MP240610.1522.A12345.',
+      status_code: 'TS',
+      airtel_money_id: 'MP240610.1522.A12345',
+    },
+  },
+
+  failed: {
+    transaction: {
+      id: 'WCA1718000000000ABC124',
+      message: 'Transaction failed. Insufficient funds.',
+      status_code: 'TF',
+    },
+  },
+} as const;
+
+export type AirtelCallbackFixture = keyof typeof AIRTEL_CALLBACK_FIXTURES;
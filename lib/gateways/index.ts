@@ -0,0 +1,75 @@
+import { AirtelGateway } from './airtel';
+import { DarajaGateway } from './daraja';
+import { MockAirtelGateway, MockGateway, MockTkashGateway } from './mock';
+import { TkashGateway } from './tkash';
+import { MobileMoneyProvider, PaymentGateway } from './types';
+
+export { AirtelGateway, createAirtelGateway } from './airtel';
+export { createDarajaGateway, DarajaGateway, generatePassword, generateTimestamp } from './daraja';
+export {
+  buildMockAirtelCallback,
+  buildMockB2CResult,
+  buildMockSTKCallback,
+  MockAirtelGateway,
+  mockAirtelFetch,
+  mockDarajaFetch,
+  MockGateway,
+  MockTkashGateway,
+  setMockPaymentScenario,
+  setMockSTKQueryOutcome,
+} from './mock';
+export type { MockPaymentScenario } from './mock';
+export { CARRIER_PROVIDERS, PROVIDER_LIMITS, PROVIDER_NAMES } from './providers';
+export { TkashGateway } from './tkash';
+export { PaymentGatewayError } from './types';
+export type {
+  AirtelCallbackPayload,
+  AmountLimits,
+  B2CRequest,
+  B2CResult,
+  B2CResultPayload,
+  C2BPaymentPayload,
+  GatewayFetch,
+  MobileMoneyProvider,
+  PaymentGateway,
+  ProviderLimits,
+  STKCallbackPayload,
+  STKPushRequest,
+  STKPushResult,
+  STKQueryResult,
+  STKQueryStatus,
+} from './types';
+
+const LIVE_GATEWAYS: Record<MobileMoneyProvider, PaymentGateway> = {
+  mpesa: DarajaGateway,
+  airtel_money: AirtelGateway,
+  tkash: TkashGateway,
+};
+
+const MOCK_GATEWAYS: Record<MobileMoneyProvider, PaymentGateway> = {
+  mpesa: MockGateway,
+  airtel_money: MockAirtelGateway,
+  tkash: MockTkashGateway,
+};
+
+const activeGateways: Partial<Record<MobileMoneyProvider, PaymentGateway>> = {};
+
+/**
+ * Gateway used for a provider's payments; EXPO_PUBLIC_PAYMENT_GATEWAY=mock selects the mocks for every provider
+ */
+export const getPaymentGateway = (provider: MobileMoneyProvider = 'mpesa'): PaymentGateway => {
+  let gateway = activeGateways[provider];
+  if (!gateway) {
+    const selected = process.env.EXPO_PUBLIC_PAYMENT_GATEWAY || (__DEV__ ? 'mock' : 'live');
+    gateway = selected === 'mock' ? MOCK_GATEWAYS[provider] : LIVE_GATEWAYS[provider];
+    activeGateways[provider] = gateway;
+  }
+  return gateway;
+};
+
+/**
+ * Override the gateway for the provider it serves (e.g. to inject a mock outside development)
+ */
+export const setPaymentGateway = (gateway: PaymentGateway): void => {
+  activeGateways[gateway.provider] = gateway;
+};
@@ -0,0 +1,465 @@
+import { AirtelCredentials, createAirtelGateway } from './airtel';
+import { createDarajaGateway, DarajaCredentials, generateTimestamp } from './daraja';
+import {
+  AIRTEL_CALLBACK_FIXTURES,
+  AirtelCallbackFixture,
+  B2C_RESULT_FIXTURES,
+  B2CResultFixture,
+  STK_CALLBACK_FIXTURES,
+  STKCallbackFixture,
+} from './fixtures';
+import {
+  AirtelCallbackPayload,
+  B2CResultPayload,
+  GatewayFetch,
+  GatewayResponse,
+  PaymentGateway,
+  PaymentGatewayError,
+  STKCallbackPayload,
+  STKQueryStatus,
+} from './types';
+
+// Outcomes the mock provider APIs can be told to produce
+export type MockPaymentScenario =
+  | 'success'
+  | 'invalid_credentials'
+  | 'invalid_access_token'
+  | 'invalid_phone'
+  | 'system_busy';
+
+const MOCK_CREDENTIALS: DarajaCredentials = {
+  environment: 'sandbox',
+  consumerKey: 'mock-consumer-key',
+  consumerSecret: 'mock-consumer-secret',
+  shortCode: '174379',
+  passkey: 'mock-passkey',
+  callbackUrl: 'https://mock.wealthcircle.local/mpesa/callback',
+  b2c: {
+    shortCode: '600996',
+    initiatorName: 'testapi',
+    securityCredential: 'mock-security-credential',
+    resultUrl: 'https://mock.wealthcircle.local/mpesa/b2c-result',
+    timeoutUrl: 'https://mock.wealthcircle.local/mpesa/b2c-timeout',
+  },
+};
+
+const MOCK_AIRTEL_CREDENTIALS: AirtelCredentials = {
+  environment: 'sandbox',
+  clientId: 'mock-client-id',
+  clientSecret: 'mock-client-secret',
+  disbursementPin: 'mock-encrypted-pin',
+};
+
+const MOCK_CONFIG = {
+  LATENCY_MS: 300,
+} as const;
+
+let scenario: MockPaymentScenario = 'success';
+let stkQueryOutcome: STKQueryStatus = 'completed';
+let requestCounter = 0;
+
+const jsonResponse = (status: number, body: any): GatewayResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+const nextId = (prefix: string): string => {
+  requestCounter += 1;
+  return `${prefix}-${Date.now()}-${requestCounter}`;
+};
+
+// Response bodies mirror the shapes returned by the Daraja sandbox
+const handleOAuth = (): GatewayResponse => {
+  if (scenario === 'invalid_credentials') {
+    return jsonResponse(400, {
+      requestId: nextId('oauth'),
+      errorCode: '400.008.01',
+      errorMessage: 'Invalid Authentication passed',
+    });
+  }
+
+  return jsonResponse(200, {
+    access_token: `mock-token-${Date.now()}`,
+    expires_in: '3599',
+  });
+};
+
+const rejectUnauthorized = (headers: Record<string, string>, prefix: string): GatewayResponse | null => {
+  if (scenario === 'invalid_access_token' || !headers.Authorization?.startsWith('Bearer ')) {
+    return jsonResponse(401, {
+      requestId: nextId(prefix),
+      errorCode: '404.001.03',
+      errorMessage: 'Invalid Access Token',
+    });
+  }
+  return null;
+};
+
+const isValidMsisdn = (value: unknown): boolean => /^2547\d{8}$|^2541\d{8}$/.test(String(value));
+
+const handleSTKPush = (headers: Record<string, string>, rawBody?: string): GatewayResponse => {
+  const unauthorized = rejectUnauthorized(headers, 'stk');
+  if (unauthorized) return unauthorized;
+
+  const body = rawBody ? JSON.parse(rawBody) : {};
+
+  if (scenario === 'invalid_phone' || !isValidMsisdn(body.PhoneNumber)) {
+    return jsonResponse(400, {
+      requestId: nextId('stk'),
+      errorCode: '400.002.02',
+      errorMessage: 'Bad Request - Invalid PhoneNumber',
+    });
+  }
+
+  if (scenario === 'system_busy') {
+    return jsonResponse(500, {
+      requestId: nextId('stk'),
+      errorCode: '500.001.1001',
+      errorMessage: 'Unable to lock subscriber, a transaction is already in process for the current subscriber',
+    });
+  }
+
+  return jsonResponse(200, {
+    MerchantRequestID: nextId('29115'),
+    CheckoutRequestID: `ws_CO_${nextId('mock')}`,
+    ResponseCode: '0',
+    ResponseDescription: 'Success. Request accepted for processing',
+    CustomerMessage: 'Success. Request accepted for processing',
+  });
+};
+
+// Daraja keeps answering "being processed" until the customer responds, then reports the callback's ResultCode
+const handleSTKQuery = (headers: Record<string, string>, rawBody?: string): GatewayResponse => {
+  const unauthorized = rejectUnauthorized(headers, 'stkquery');
+  if (unauthorized) return unauthorized;
+
+  const body = rawBody ? JSON.parse(rawBody) : {};
+
+  if (stkQueryOutcome === 'pending') {
+    return jsonResponse(500, {
+      requestId: nextId('stkquery'),
+      errorCode: '500.001.1001',
+      errorMessage: 'The transaction is being processed',
+    });
+  }
+
+  const results: Record<Exclude<STKQueryStatus, 'pending'>, { code: string; desc: string }> = {
+    completed: { code: '0', desc: 'The service request is processed successfully.' },
+    cancelled: { code: '1032', desc: 'Request cancelled by user' },
+    failed: { code: '1037', desc: 'DS timeout user cannot be reached' },
+  };
+
+  return jsonResponse(200, {
+    ResponseCode: '0',
+    ResponseDescription: 'The service request has been accepted successfully',
+    MerchantRequestID: nextId('29115'),
+    CheckoutRequestID: body.CheckoutRequestID,
+    ResultCode: results[stkQueryOutcome].code,
+    ResultDesc: results[stkQueryOutcome].desc,
+  });
+};
+
+const handleB2C = (headers: Record<string, string>, rawBody?: string): GatewayResponse => {
+  const unauthorized = rejectUnauthorized(headers, 'b2c');
+  if (unauthorized) return unauthorized;
+
+  const body = rawBody ? JSON.parse(rawBody) : {};
+
+  if (scenario === 'invalid_phone' || !isValidMsisdn(body.PartyB)) {
+    return jsonResponse(400, {
+      requestId: nextId('b2c'),
+      errorCode: '400.002.02',
+      errorMessage: 'Bad Request - Invalid PartyB',
+    });
+  }
+
+  if (scenario === 'system_busy') {
+    return jsonResponse(500, {
+      requestId: nextId('b2c'),
+      errorCode: '500.003.1001',
+      errorMessage: 'Internal Server Error',
+    });
+  }
+
+  return jsonResponse(200, {
+    ConversationID: `AG_${nextId('mock')}`,
+    OriginatorConversationID: body.OriginatorConversationID,
+    ResponseCode: '0',
+    ResponseDescription: 'Accept the service request successfully.',
+  });
+};
+
+/**
+ * Local stand-in for the Daraja HTTP API
+ */
+export const mockDarajaFetch: GatewayFetch = async (url, init) => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_CONFIG.LATENCY_MS));
+
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+
+  switch (path) {
+    case '/oauth/v1/generate':
+      return handleOAuth();
+    case '/mpesa/stkpush/v1/processrequest':
+      return handleSTKPush(init.headers, init.body);
+    case '/mpesa/stkpushquery/v1/query':
+      return handleSTKQuery(init.headers, init.body);
+    case '/mpesa/b2c/v3/paymentrequest':
+      return handleB2C(init.headers, init.body);
+    default:
+      return jsonResponse(404, {
+        requestId: nextId('unknown'),
+        errorCode: '404.001.01',
+        errorMessage: 'Resource not found',
+      });
+  }
+};
+
+// Airtel failures come back as { status: { success: false, result_code, message } }
+const airtelFailure = (status: number, resultCode: string, message: string): GatewayResponse =>
+  jsonResponse(status, {
+    data: {},
+    status: { code: String(status), success: false, result_code: resultCode, message },
+  });
+
+const isValidAirtelMsisdn = (value: unknown): boolean => /^[17]\d{8}$/.test(String(value));
+
+const handleAirtelRequest = (path: string, headers: Record<string, string>, rawBody?: string): GatewayResponse => {
+  if (scenario === 'invalid_access_token' || !headers.Authorization?.startsWith('Bearer ')) {
+    return jsonResponse(401, { error: 'invalid_token', error_description: 'Access token is invalid or expired' });
+  }
+
+  const body = rawBody ? JSON.parse(rawBody) : {};
+  const msisdn = path === '/merchant/v1/payments/' ? body.subscriber?.msisdn : body.payee?.msisdn;
+
+  if (scenario === 'invalid_phone' || !isValidAirtelMsisdn(msisdn)) {
+    return airtelFailure(400, 'ESB000014', 'Invalid MSISDN');
+  }
+
+  if (scenario === 'system_busy') {
+    return airtelFailure(500, 'ESB000001', 'Something went wrong');
+  }
+
+  return jsonResponse(200, {
+    data: {
+      transaction: path === '/merchant/v1/payments/'
+        ? { id: body.transaction?.id, status: 'Success.' }
+        : { id: body.transaction?.id, reference_id: nextId('airtel'), status: 'TIP' },
+    },
+    status: { code: '200', success: true, result_code: 'ESB000010', message: 'SUCCESS' },
+  });
+};
+
+const AIRTEL_QUERY_STATUSES: Record<STKQueryStatus, string> = {
+  pending: 'TIP',
+  completed: 'TS',
+  failed: 'TF',
+  cancelled: 'TF',
+};
+
+const handleAirtelQuery = (path: string, headers: Record<string, string>): GatewayResponse => {
+  if (scenario === 'invalid_access_token' || !headers.Authorization?.startsWith('Bearer ')) {
+    return jsonResponse(401, { error: 'invalid_token', error_description: 'Access token is invalid or expired' });
+  }
+
+  const status = AIRTEL_QUERY_STATUSES[stkQueryOutcome];
+
+  return jsonResponse(200, {
+    data: {
+      transaction: {
+        id: decodeURIComponent(path.split('/').pop() || ''),
+        status,
+        message: status === 'TS' ? 'Transaction is successful' : status === 'TF' ? 'Transaction failed' : 'Transaction in progress',
+        airtel_money_id: status === 'TS' ? `MP${Date.now().toString(36).toUpperCase()}` : undefined,
+      },
+    },
+    status: { code: '200', success: true, result_code: 'ESB000010', message: 'SUCCESS' },
+  });
+};
+
+/**
+ * Local stand-in for the Airtel Money Open API
+ */
+export const mockAirtelFetch: GatewayFetch = async (url, init) => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_CONFIG.LATENCY_MS));
+
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+
+  if (init.method === 'GET' && path.startsWith('/standard/v1/payments/')) {
+    return handleAirtelQuery(path, init.headers);
+  }
+
+  switch (path) {
+    case '/auth/oauth2/token':
+      return scenario === 'invalid_credentials'
+        ? jsonResponse(401, { error: 'invalid_client', error_description: 'Client authentication failed' })
+        : jsonResponse(200, { access_token: `mock-airtel-token-${Date.now()}`, expires_in: '180', token_type: 'bearer' });
+    case '/merchant/v1/payments/':
+    case '/standard/v1/disbursements/':
+      return handleAirtelRequest(path, init.headers, init.body);
+    default:
+      return airtelFailure(404, 'ESB000008', 'Resource not found');
+  }
+};
+
+/**
+ * Choose the outcome every mock provider produces
+ */
+export const setMockPaymentScenario = (next: MockPaymentScenario): void => {
+  scenario = next;
+};
+
+/**
+ * Choose what status queries report for mock STK pushes, e.g. 'pending' to imitate a missing callback
+ */
+export const setMockSTKQueryOutcome = (next: STKQueryStatus): void => {
+  stkQueryOutcome = next;
+};
+
+/**
+ * Build the callback Daraja would send for a mock STK push
+ */
+export const buildMockSTKCallback = (
+  outcome: STKCallbackFixture,
+  push: { merchantRequestId: string; checkoutRequestId: string; amount: number; phoneNumber: string; receipt?: string }
+): STKCallbackPayload => {
+  const fixture = STK_CALLBACK_FIXTURES[outcome].Body.stkCallback;
+
+  const callback: STKCallbackPayload['Body']['stkCallback'] = {
+    MerchantRequestID: push.merchantRequestId,
+    CheckoutRequestID: push.checkoutRequestId,
+    ResultCode: fixture.ResultCode,
+    ResultDesc: fixture.ResultDesc,
+  };
+
+  if (outcome === 'success') {
+    callback.CallbackMetadata = {
+      Item: [
+        { Name: 'Amount', Value: push.amount },
+        { Name: 'MpesaReceiptNumber', Value: push.receipt || `MCK${Date.now().toString(36).toUpperCase()}` },
+        { Name: 'Balance' },
+        { Name: 'TransactionDate', Value: Number(generateTimestamp()) },
+        { Name: 'PhoneNumber', Value: Number(push.phoneNumber.replace(/\D/g, '')) },
+      ],
+    };
+  }
+
+  return { Body: { stkCallback: callback } };
+};
+
+/**
+ * Build the result Daraja would send for a mock B2C disbursement
+ */
+export const buildMockB2CResult = (
+  outcome: B2CResultFixture,
+  disbursement: { originatorConversationId: string; conversationId: string; amount: number; phoneNumber: string; receipt?: string }
+): B2CResultPayload => {
+  const fixture = B2C_RESULT_FIXTURES[outcome].Result;
+  const receipt = disbursement.receipt || `MCB${Date.now().toString(36).toUpperCase()}`;
+
+  const result: B2CResultPayload['Result'] = {
+    ResultType: fixture.ResultType,
+    ResultCode: fixture.ResultCode,
+    ResultDesc: fixture.ResultDesc,
+    OriginatorConversationID: disbursement.originatorConversationId,
+    ConversationID: disbursement.conversationId,
+    TransactionID: outcome === 'success' ? receipt : fixture.TransactionID,
+  };
+
+  if (outcome === 'success') {
+    // Daraja reports completion time as DD.MM.YYYY HH:mm:ss (Nairobi time)
+    const ts = generateTimestamp();
+    const completedAt = `${ts.slice(6, 8)}.${ts.slice(4, 6)}.${ts.slice(0, 4)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}:${ts.slice(12, 14)}`;
+
+    result.ResultParameters = {
+      ResultParameter: [
+        { Key: 'TransactionAmount', Value: disbursement.amount },
+        { Key: 'TransactionReceipt', Value: receipt },
+        { Key: 'ReceiverPartyPublicName', Value: `${disbursement.phoneNumber.replace(/\D/g, '')} - Mock Member` },
+        { Key: 'TransactionCompletedDateTime', Value: completedAt },
+      ],
+    };
+  }
+
+  return { Result: result };
+};
+
+/**
+ * Build the callback Airtel Money would send for a mock collection or disbursement
+ */
+export const buildMockAirtelCallback = (
+  outcome: AirtelCallbackFixture,
+  transaction: { id: string; amount: number; receipt?: string }
+): AirtelCallbackPayload => {
+  const fixture = AIRTEL_CALLBACK_FIXTURES[outcome].transaction;
+  const receipt = transaction.receipt || `MP${Date.now().toString(36).toUpperCase()}`;
+
+  return {
+    transaction: {
+      id: transaction.id,
+      message: outcome === 'success' ? `Paid KES ${transaction.amount}, Trans ID ${receipt}.` : fixture.message,
+      status_code: fixture.status_code,
+      airtel_money_id: outcome === 'success' ? receipt : undefined,
+    },
+  };
+};
+
+export const MockGateway: PaymentGateway = {
+  ...createDarajaGateway(() => MOCK_CREDENTIALS, mockDarajaFetch),
+  name: 'mock',
+};
+
+export const MockAirtelGateway: PaymentGateway = {
+  ...createAirtelGateway(() => MOCK_AIRTEL_CREDENTIALS, mockAirtelFetch),
+  name: 'mock',
+};
+
+// T-Kash has no public API to imitate, so its mock answers directly
+const mockTkashResponse = async (): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_CONFIG.LATENCY_MS));
+
+  if (scenario === 'invalid_phone') {
+    throw new PaymentGatewayError('Invalid T-Kash number', 'INVALID_PHONE', 400);
+  }
+  if (scenario !== 'success') {
+    throw new PaymentGatewayError('T-Kash is temporarily unavailable', 'SYSTEM_BUSY', 500);
+  }
+};
+
+export const MockTkashGateway: PaymentGateway = {
+  name: 'mock',
+  provider: 'tkash',
+
+  async initiateSTKPush() {
+    await mockTkashResponse();
+    const id = nextId('tkash');
+    return {
+      merchantRequestId: id,
+      checkoutRequestId: id,
+      responseCode: '0',
+      responseDescription: 'Accepted',
+      customerMessage: 'Enter your T-Kash PIN on your phone to complete the payment',
+    };
+  },
+
+  async querySTKPush() {
+    await mockTkashResponse();
+    return {
+      status: stkQueryOutcome,
+      resultCode: { pending: null, completed: 0, cancelled: 1032, failed: 1 }[stkQueryOutcome],
+      resultDesc: stkQueryOutcome === 'pending' ? 'Awaiting customer' : `Payment ${stkQueryOutcome}`,
+      receipt: stkQueryOutcome === 'completed' ? `TK${Date.now().toString(36).toUpperCase()}` : undefined,
+    };
+  },
+
+  async initiateB2C(request) {
+    await mockTkashResponse();
+    return {
+      conversationId: nextId('tkash'),
+      originatorConversationId: request.originatorConversationId,
+      responseCode: '0',
+      responseDescription: 'Accepted',
+    };
+  },
+};
@@ -0,0 +1,32 @@
+import type { MobileMoneyProvider, ProviderLimits } from './types';
+
+// Client-safe: provider constants only, so the app can import this without bundling the gateways
+
+export const PROVIDER_NAMES: Record<MobileMoneyProvider, string> = {
+  mpesa: 'M-Pesa',
+  airtel_money: 'Airtel Money',
+  tkash: 'T-Kash',
+};
+
+// Published per-transaction limits (KES); disbursement minimums are the lowest B2C amount each network accepts
+export const PROVIDER_LIMITS: Record<MobileMoneyProvider, ProviderLimits> = {
+  mpesa: {
+    collection: { min: 1, max: 150000 },
+    disbursement: { min: 10, max: 150000 },
+  },
+  airtel_money: {
+    collection: { min: 10, max: 150000 },
+    disbursement: { min: 10, max: 150000 },
+  },
+  tkash: {
+    collection: { min: 10, max: 70000 },
+    disbursement: { min: 10, max: 70000 },
+  },
+};
+
+// Mobile network operators (as named by KenyanPhoneUtils.getCarrier) and the wallet each one runs
+export const CARRIER_PROVIDERS: Record<string, MobileMoneyProvider> = {
+  Safaricom: 'mpesa',
+  Airtel: 'airtel_money',
+  Telkom: 'tkash',
+};
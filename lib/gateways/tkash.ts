@@ -0,0 +1,15 @@
+import { PaymentGateway, PaymentGatewayError } from './types';
+
+// Telkom does not offer a public T-Kash merchant API yet, so live T-Kash payments fail clearly until one is
+// registered with setPaymentGateway
+const unavailable = async (): Promise<never> => {
+  throw new PaymentGatewayError('T-Kash payments are not available yet', 'UNSUPPORTED_PROVIDER');
+};
+
+export const TkashGateway: PaymentGateway = {
+  name: 'tkash',
+  provider: 'tkash',
+  initiateSTKPush: unavailable,
+  querySTKPush: unavailable,
+  initiateB2C: unavailable,
+};
@@ -0,0 +1,143 @@
+// Shared contract for mobile money gateways (Daraja, Airtel Money, mock, ...)
+
+export type MobileMoneyProvider = 'mpesa' | 'airtel_money' | 'tkash';
+
+export interface AmountLimits {
+  min: number;
+  max: number;
+}
+
+// Per-transaction wallet limits for money coming in (collections) and going out (disbursements)
+export interface ProviderLimits {
+  collection: AmountLimits;
+  disbursement: AmountLimits;
+}
+
+export interface STKPushRequest {
+  phoneNumber: string; // MSISDN in 2547XXXXXXXX format
+  amount: number;
+  accountReference: string;
+  transactionDesc: string;
+}
+
+export interface STKPushResult {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  responseCode: string;
+  responseDescription: string;
+  customerMessage: string;
+}
+
+export type STKQueryStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+// What the provider's status query reports for an STK push whose callback has not arrived
+export interface STKQueryResult {
+  status: STKQueryStatus;
+  resultCode: number | null; // Daraja-style ResultCode (0 success, 1032 cancelled); null while pending
+  resultDesc: string;
+  receipt?: string; // Airtel reports its transaction ID; Daraja's query carries no receipt
+}
+
+// Payload Daraja POSTs to the CallBackURL once the customer responds
+export interface STKCallbackPayload {
+  Body: {
+    stkCallback: {
+      MerchantRequestID: string;
+      CheckoutRequestID: string;
+      ResultCode: number;
+      ResultDesc: string;
+      CallbackMetadata?: {
+        Item: { Name: string; Value?: string | number }[];
+      };
+    };
+  };
+}
+
+export interface B2CRequest {
+  originatorConversationId: string; // Our disbursement request ID, echoed back in the result
+  phoneNumber: string; // MSISDN in 2547XXXXXXXX format
+  amount: number;
+  remarks: string;
+  occasion?: string;
+}
+
+export interface B2CResult {
+  conversationId: string;
+  originatorConversationId: string;
+  responseCode: string;
+  responseDescription: string;
+}
+
+// Payload Daraja POSTs to the B2C ResultURL (and, with a failure code, the QueueTimeOutURL)
+export interface B2CResultPayload {
+  Result: {
+    ResultType: number;
+    ResultCode: number | string;
+    ResultDesc: string;
+    OriginatorConversationID: string;
+    ConversationID: string;
+    TransactionID?: string;
+    ResultParameters?: {
+      ResultParameter: { Key: string; Value?: string | number }[];
+    };
+  };
+}
+
+// Payload Daraja POSTs to the C2B ValidationURL and ConfirmationURL when someone pays the paybill directly
+export interface C2BPaymentPayload {
+  TransactionType: string;
+  TransID: string;
+  TransTime: string; // YYYYMMDDHHmmss in Nairobi time
+  TransAmount: string | number;
+  BusinessShortCode: string;
+  BillRefNumber: string; // Account reference the payer typed
+  InvoiceNumber?: string;
+  OrgAccountBalance?: string;
+  ThirdPartyTransID?: string;
+  MSISDN: string; // Masked or hashed on confirmations
+  FirstName?: string;
+  MiddleName?: string;
+  LastName?: string;
+}
+
+// Payload Airtel Money POSTs to the registered callback URL for collections and disbursements alike
+export interface AirtelCallbackPayload {
+  transaction: {
+    id: string; // Our transaction ID from the original request
+    message: string;
+    status_code: 'TS' | 'TF' | string; // TS: success, TF: failed
+    airtel_money_id?: string;
+  };
+}
+
+// An STK push is any prompt the customer approves on their phone; B2C is any payment to a wallet
+export interface PaymentGateway {
+  readonly name: string;
+  readonly provider: MobileMoneyProvider;
+  initiateSTKPush(request: STKPushRequest): Promise<STKPushResult>;
+  querySTKPush(checkoutRequestId: string): Promise<STKQueryResult>;
+  initiateB2C(request: B2CRequest): Promise<B2CResult>;
+}
+
+// Minimal fetch signature so gateways can run against a mocked transport
+export interface GatewayResponse {
+  ok: boolean;
+  status: number;
+  json(): Promise<any>;
+}
+
+export type GatewayFetch = (
+  url: string,
+  init: { method: 'GET' | 'POST'; headers: Record<string, string>; body?: string }
+) => Promise<GatewayResponse>;
+
+export class PaymentGatewayError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'UNKNOWN',
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
@@ -0,0 +1,303 @@
+import { Json } from '@/lib/database.types';
+import { callServerApi, isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MIN_APPROVAL_THRESHOLD: 51,
+  MAX_VOTING_PERIOD_HOURS: 24 * 30,
+  MAX_ROLE_WEIGHT: 10,
+  MAX_COSIGN_AMOUNT: 1000000,
+  MAX_TERM_MONTHS: 60,
+  MAX_CONSECUTIVE_TERMS: 10,
+  MAX_ELECTION_WINDOW_HOURS: 24 * 14,
+} as const;
+
+const MEMBER_ROLES = ['member', 'treasurer', 'chairperson', 'secretary'] as const;
+export type MemberRole = typeof MEMBER_ROLES[number];
+
+export interface VotingRules {
+  approval_threshold: number;
+  quorum_percentage: number;
+  voting_period_hours: number;
+  allow_requester_vote: boolean;
+  allow_guarantor_vote: boolean;
+  // Requests above this amount also need every eligible chairperson and treasurer to approve
+  cosign_above_amount: number | null;
+  // Vote weight per role; roles left out weigh 1, null counts every vote equally
+  role_weights: Partial<Record<MemberRole, number>> | null;
+  // A single officer rejection rejects the request
+  officer_veto: boolean;
+}
+
+export interface ElectionRules {
+  term_months: number;
+  max_consecutive_terms: number;
+  nomination_hours: number;
+  voting_hours: number;
+}
+
+// Internal helper functions
+const isWholeNumberInRange = (value: number, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const verifyChairperson = async (chamaId: string): Promise<{ isChairperson: boolean; error?: string }> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { isChairperson: false, error: 'Authentication required' };
+    }
+
+    const { data, error } = await supabase
+      .from('chama_members')
+      .select('id')
+      .eq('chama_id', chamaId)
+      .eq('user_id', user.id)
+      .eq('role', 'chairperson')
+      .eq('is_active', true)
+      .single();
+
+    if (error || !data) {
+      return { isChairperson: false, error: 'Only the chairperson can change governance rules' };
+    }
+
+    return { isChairperson: true };
+  } catch (error) {
+    return { isChairperson: false, error: 'Authorization check failed' };
+  }
+};
+
+/**
+ * Validate voting rules before they reach the database
+ */
+export const validateVotingRules = (rules: VotingRules): { valid: boolean; error?: string } => {
+  if (!isWholeNumberInRange(rules.approval_threshold, SECURITY_CONFIG.MIN_APPROVAL_THRESHOLD, 100)) {
+    return { valid: false, error: `Approval threshold must be between ${SECURITY_CONFIG.MIN_APPROVAL_THRESHOLD}% and 100%` };
+  }
+
+  if (!isWholeNumberInRange(rules.quorum_percentage, 1, 100)) {
+    return { valid: false, error: 'Quorum must be between 1% and 100%' };
+  }
+
+  if (!isWholeNumberInRange(rules.voting_period_hours, 1, SECURITY_CONFIG.MAX_VOTING_PERIOD_HOURS)) {
+    return { valid: false, error: `Voting period must be between 1 and ${SECURITY_CONFIG.MAX_VOTING_PERIOD_HOURS} hours` };
+  }
+
+  if (typeof rules.allow_requester_vote !== 'boolean' || typeof rules.allow_guarantor_vote !== 'boolean') {
+    return { valid: false, error: 'Invalid voter eligibility settings' };
+  }
+
+  if (rules.cosign_above_amount !== null
+    && !isWholeNumberInRange(rules.cosign_above_amount, 0, SECURITY_CONFIG.MAX_COSIGN_AMOUNT)) {
+    return { valid: false, error: 'Invalid co-signature amount' };
+  }
+
+  if (rules.role_weights !== null) {
+    if (typeof rules.role_weights !== 'object') {
+      return { valid: false, error: 'Invalid role weights' };
+    }
+
+    for (const [role, weight] of Object.entries(rules.role_weights)) {
+      if (!MEMBER_ROLES.includes(role as MemberRole)) {
+        return { valid: false, error: `Unknown role: ${role}` };
+      }
+
+      if (!isWholeNumberInRange(weight, 1, SECURITY_CONFIG.MAX_ROLE_WEIGHT)) {
+        return { valid: false, error: `Role weights must be between 1 and ${SECURITY_CONFIG.MAX_ROLE_WEIGHT}` };
+      }
+    }
+  }
+
+  if (typeof rules.officer_veto !== 'boolean') {
+    return { valid: false, error: 'Invalid officer veto setting' };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Validate election rules before they reach the database
+ */
+export const validateElectionRules = (rules: ElectionRules): { valid: boolean; error?: string } => {
+  if (!isWholeNumberInRange(rules.term_months, 1, SECURITY_CONFIG.MAX_TERM_MONTHS)) {
+    return { valid: false, error: `Terms must be between 1 and ${SECURITY_CONFIG.MAX_TERM_MONTHS} months` };
+  }
+
+  if (!isWholeNumberInRange(rules.max_consecutive_terms, 1, SECURITY_CONFIG.MAX_CONSECUTIVE_TERMS)) {
+    return { valid: false, error: `Term limit must be between 1 and ${SECURITY_CONFIG.MAX_CONSECUTIVE_TERMS}` };
+  }
+
+  if (!isWholeNumberInRange(rules.nomination_hours, 1, SECURITY_CONFIG.MAX_ELECTION_WINDOW_HOURS)
+    || !isWholeNumberInRange(rules.voting_hours, 1, SECURITY_CONFIG.MAX_ELECTION_WINDOW_HOURS)) {
+    return { valid: false, error: `Nomination and voting windows must be between 1 and ${SECURITY_CONFIG.MAX_ELECTION_WINDOW_HOURS} hours` };
+  }
+
+  return { valid: true };
+};
+
+export const GovernanceService = {
+  /**
+   * A chama's voting rules with defaults filled in
+   */
+  async getVotingRules(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase.rpc('chama_voting_rules', { p_chama_id: chamaId });
+
+      if (error || !data) {
+        console.error('Voting rules fetch error:', error);
+        return { success: false, error: 'Failed to fetch voting rules' };
+      }
+
+      return { success: true, rules: data as unknown as VotingRules };
+    } catch (error: any) {
+      console.error('Voting rules fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch voting rules' };
+    }
+  },
+
+  /**
+   * Set the approval threshold, quorum, voting period and who may vote (chairperson only)
+   */
+  async updateVotingRules(chamaId: string, rules: VotingRules) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const chairperson = await verifyChairperson(chamaId);
+      if (!chairperson.isChairperson) {
+        return { success: false, error: chairperson.error };
+      }
+
+      const validation = validateVotingRules(rules);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const { data: chama, error: fetchError } = await supabase
+        .from('chamas')
+        .select('settings')
+        .eq('id', chamaId)
+        .single();
+
+      if (fetchError || !chama) {
+        return { success: false, error: 'Chama not found' };
+      }
+
+      // The threshold keeps living in its own column; everything else goes in settings.voting
+      const settings: Json = {
+        ...((chama.settings as { [key: string]: Json | undefined }) || {}),
+        voting: {
+          quorum_percentage: rules.quorum_percentage,
+          voting_period_hours: rules.voting_period_hours,
+          allow_requester_vote: rules.allow_requester_vote,
+          allow_guarantor_vote: rules.allow_guarantor_vote,
+          cosign_above_amount: rules.cosign_above_amount,
+          role_weights: rules.role_weights,
+          officer_veto: rules.officer_veto,
+        },
+      };
+
+      const { error } = await supabase
+        .from('chamas')
+        .update({ min_approval_percentage: rules.approval_threshold, settings })
+        .eq('id', chamaId);
+
+      if (error) {
+        console.error('Voting rules update error:', error);
+        return { success: false, error: 'Failed to update voting rules' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Voting rules update unexpected error:', error);
+      return { success: false, error: 'Failed to update voting rules' };
+    }
+  },
+
+  /**
+   * Set officer term length, term limit and election windows (chairperson only)
+   */
+  async updateElectionRules(chamaId: string, rules: ElectionRules) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const chairperson = await verifyChairperson(chamaId);
+      if (!chairperson.isChairperson) {
+        return { success: false, error: chairperson.error };
+      }
+
+      const validation = validateElectionRules(rules);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const { data: chama, error: fetchError } = await supabase
+        .from('chamas')
+        .select('settings')
+        .eq('id', chamaId)
+        .single();
+
+      if (fetchError || !chama) {
+        return { success: false, error: 'Chama not found' };
+      }
+
+      const settings: Json = {
+        ...((chama.settings as { [key: string]: Json | undefined }) || {}),
+        elections: {
+          term_months: rules.term_months,
+          max_consecutive_terms: rules.max_consecutive_terms,
+          nomination_hours: rules.nomination_hours,
+          voting_hours: rules.voting_hours,
+        },
+      };
+
+      const { error } = await supabase
+        .from('chamas')
+        .update({ settings })
+        .eq('id', chamaId);
+
+      if (error) {
+        console.error('Election rules update error:', error);
+        return { success: false, error: 'Failed to update election rules' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Election rules update unexpected error:', error);
+      return { success: false, error: 'Failed to update election rules' };
+    }
+  },
+
+  /**
+   * Close votes past their deadline and remind members who have not voted (officers only)
+   */
+  async processVotingDeadlines(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const result = await callServerApi<{
+        success: boolean;
+        error?: string;
+        summary?: { closed: { approved: number; rejected: number; expired: number }; reminded: number };
+      }>('/api/jobs/voting-deadlines', { chamaId });
+
+      if (!result.success) {
+        console.error('Voting deadlines error:', result.error);
+        return { success: false, error: 'Failed to process voting deadlines' };
+      }
+
+      return { success: true, summary: result.summary };
+    } catch (error: any) {
+      console.error('Voting deadlines unexpected error:', error);
+      return { success: false, error: 'Failed to process voting deadlines' };
+    }
+  },
+};
@@ -0,0 +1,246 @@
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_GUARANTORS: 10,
+  MAX_PLEDGE: 1000000,
+} as const;
+
+export interface GuarantorNomination {
+  member_id: string;
+  pledged_amount: number;
+}
+
+// Internal helper functions
+/**
+ * Validate a borrower's guarantor list before it reaches the database
+ */
+export const validateGuarantors = (guarantors: GuarantorNomination[]): { valid: boolean; error?: string } => {
+  if (!Array.isArray(guarantors) || guarantors.length === 0) {
+    return { valid: false, error: 'At least one guarantor is required' };
+  }
+
+  if (guarantors.length > SECURITY_CONFIG.MAX_GUARANTORS) {
+    return { valid: false, error: `No more than ${SECURITY_CONFIG.MAX_GUARANTORS} guarantors allowed` };
+  }
+
+  const memberIds = new Set<string>();
+  for (const guarantor of guarantors) {
+    if (!isValidUUID(guarantor.member_id)) {
+      return { valid: false, error: 'Invalid guarantor' };
+    }
+
+    if (memberIds.has(guarantor.member_id)) {
+      return { valid: false, error: 'Each guarantor can only be nominated once' };
+    }
+    memberIds.add(guarantor.member_id);
+
+    if (typeof guarantor.pledged_amount !== 'number' || isNaN(guarantor.pledged_amount)
+      || guarantor.pledged_amount <= 0 || guarantor.pledged_amount > SECURITY_CONFIG.MAX_PLEDGE) {
+      return { valid: false, error: 'Pledged amounts must be greater than zero' };
+    }
+  }
+
+  return { valid: true };
+};
+
+export const GuarantorService = {
+  /**
+   * Nominate guarantors for a pending loan; declined nominees may be asked again
+   */
+  async nominateGuarantors(payoutRequestId: string, guarantors: GuarantorNomination[]) {
+    try {
+      if (!isValidUUID(payoutRequestId)) {
+        return { success: false, error: 'Invalid loan ID' };
+      }
+
+      const validation = validateGuarantors(guarantors);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const { data, error } = await supabase.rpc('nominate_loan_guarantors', {
+        p_payout_request_id: payoutRequestId,
+        p_guarantors: guarantors.map(({ member_id, pledged_amount }) => ({ member_id, pledged_amount })),
+      });
+
+      if (error) {
+        console.error('Guarantor nomination error:', error);
+        return { success: false, error: error.message || 'Failed to nominate guarantors' };
+      }
+
+      return { success: true, nominated: data as number };
+    } catch (error: any) {
+      console.error('Guarantor nomination unexpected error:', error);
+      return { success: false, error: 'Failed to nominate guarantors' };
+    }
+  },
+
+  /**
+   * Accept or decline a guarantee you were asked to give
+   */
+  async respondToGuarantee(guaranteeId: string, accept: boolean) {
+    try {
+      if (!isValidUUID(guaranteeId)) {
+        return { success: false, error: 'Invalid guarantee ID' };
+      }
+
+      const { data, error } = await supabase.rpc('respond_to_guarantee', {
+        p_guarantee_id: guaranteeId,
+        p_accept: accept,
+      });
+
+      if (error) {
+        console.error('Guarantee response error:', error);
+        return { success: false, error: error.message || 'Failed to respond to guarantee' };
+      }
+
+      return { success: true, status: data as string };
+    } catch (error: any) {
+      console.error('Guarantee response unexpected error:', error);
+      return { success: false, error: 'Failed to respond to guarantee' };
+    }
+  },
+
+  /**
+   * Guarantors behind a loan and how much of the required guarantee they cover
+   */
+  async getLoanGuarantors(payoutRequestId: string) {
+    try {
+      if (!isValidUUID(payoutRequestId)) {
+        return { success: false, error: 'Invalid loan ID' };
+      }
+
+      const { data: loan, error: loanError } = await supabase
+        .from('payout_requests')
+        .select('guarantee_required')
+        .eq('id', payoutRequestId)
+        .single();
+
+      if (loanError || !loan) {
+        return { success: false, error: 'Loan not found' };
+      }
+
+      const { data, error } = await supabase
+        .from('loan_guarantors')
+        .select(`
+          *,
+          member:chama_members(
+            user:users(full_name)
+          )
+        `)
+        .eq('payout_request_id', payoutRequestId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Loan guarantors fetch error:', error);
+        return { success: false, error: 'Failed to fetch guarantors' };
+      }
+
+      const guarantors = data || [];
+      const covered = guarantors
+        .filter(guarantor => guarantor.status === 'accepted')
+        .reduce((total, guarantor) => total + Number(guarantor.pledged_amount), 0);
+
+      return {
+        success: true,
+        guarantors,
+        coverage: { required: Number(loan.guarantee_required), covered },
+      };
+    } catch (error: any) {
+      console.error('Loan guarantors fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch guarantors' };
+    }
+  },
+
+  /**
+   * Guarantee requests awaiting the signed-in member's answer
+   */
+  async getPendingGuaranteeRequests(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      const { data: membership } = await supabase
+        .from('chama_members')
+        .select('id')
+        .eq('chama_id', chamaId)
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .single();
+
+      if (!membership) {
+        return { success: false, error: 'Not a member of this chama' };
+      }
+
+      const { data, error } = await supabase
+        .from('loan_guarantors')
+        .select(`
+          *,
+          loan:payout_requests(
+            amount,
+            purpose,
+            repayment_period,
+            member:chama_members!payout_requests_member_id_fkey(
+              user:users(full_name)
+            )
+          )
+        `)
+        .eq('guarantor_member_id', membership.id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Guarantee requests fetch error:', error);
+        return { success: false, error: 'Failed to fetch guarantee requests' };
+      }
+
+      return { success: true, requests: data || [] };
+    } catch (error: any) {
+      console.error('Guarantee requests fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch guarantee requests' };
+    }
+  },
+
+  /**
+   * Active co-members who can be nominated as guarantors
+   */
+  async getNominees(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      const { data, error } = await supabase
+        .from('chama_members')
+        .select(`
+          id,
+          user:users(full_name)
+        `)
+        .eq('chama_id', chamaId)
+        .eq('is_active', true)
+        .neq('user_id', user.id);
+
+      if (error) {
+        console.error('Guarantor nominees fetch error:', error);
+        return { success: false, error: 'Failed to fetch members' };
+      }
+
+      return { success: true, members: data || [] };
+    } catch (error: any) {
+      console.error('Guarantor nominees fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch members' };
+    }
+  },
+};
@@ -0,0 +1,218 @@
+import { Database, Json } from '@/lib/database.types';
+import { supabase } from '@/lib/supabase';
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as Crypto from 'expo-crypto';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  KEY_PATTERN: /^[A-Za-z0-9_-]{8,100}$/,
+  KEY_TTL_MS: 24 * 60 * 60 * 1000, // Keys are honoured for 24 hours
+  CLAIM_TTL_MS: 5 * 60 * 1000, // An in-progress claim left by an interrupted request is reclaimable after 5 minutes
+} as const;
+
+type IdempotencyKey = Database['public']['Tables']['idempotency_keys']['Row'];
+
+// API routes act for the member they authenticated, through their own (service-role) client
+export interface IdempotencyOwner {
+  userId: string;
+  client: SupabaseClient<Database>;
+}
+
+export type IdempotencyScope =
+  | 'mpesa.stk_push'
+  | 'mpesa.pay_fine'
+  | 'mpesa.pay_entry_fee'
+  | 'mpesa.buy_shares'
+  | 'mpesa.disburse_funds'
+  | 'mpesa.disburse_payout'
+  | 'contributions.record'
+  | 'loans.repay'
+  | 'payouts.request';
+
+export class IdempotencyError extends Error {
+  constructor(message: string, public code: 'INVALID_KEY' | 'KEY_REUSED' | 'IN_PROGRESS' | 'UNAVAILABLE') {
+    super(message);
+    this.name = 'IdempotencyError';
+  }
+}
+
+/**
+ * Thrown by an operation once its request reached the provider but the result is not known yet, e.g. a timeout.
+ * The key stays in progress for its full lifetime so a retry cannot move the money twice.
+ */
+export class OutcomeUnknownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutcomeUnknownError';
+  }
+}
+
+// Stable JSON so the same parameters always hash the same regardless of key order
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const hashRequest = (params: unknown): Promise<string> =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, canonicalize(params));
+
+const expiresAt = (ttlMs: number = SECURITY_CONFIG.KEY_TTL_MS): string => new Date(Date.now() + ttlMs).toISOString();
+
+// Results with success: false are not stored so the caller can retry with the same key
+const isStorable = (result: unknown): boolean =>
+  !(result && typeof result === 'object' && (result as { success?: unknown }).success === false);
+
+/**
+ * Generate a client-side idempotency key; reuse it for every retry of the same action
+ */
+export const generateIdempotencyKey = (): string => Crypto.randomUUID();
+
+// The member signed in to the app, using the app's own client
+const signedInOwner = async (): Promise<IdempotencyOwner> => {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    throw new IdempotencyError('Authentication required', 'UNAVAILABLE');
+  }
+  return { userId: user.id, client: supabase };
+};
+
+// Take ownership of a key row, or return the existing row when it cannot be claimed
+const claimKey = async (
+  db: SupabaseClient<Database>,
+  userId: string,
+  scope: IdempotencyScope,
+  key: string,
+  requestHash: string
+): Promise<{ claimed: true; id: string } | { claimed: false; existing: IdempotencyKey }> => {
+  const { data: inserted, error: insertError } = await db
+    .from('idempotency_keys')
+    .insert({
+      user_id: userId,
+      scope,
+      idempotency_key: key,
+      request_hash: requestHash,
+      expires_at: expiresAt(SECURITY_CONFIG.CLAIM_TTL_MS),
+    })
+    .select('id')
+    .single();
+
+  if (inserted) {
+    return { claimed: true, id: inserted.id };
+  }
+
+  // 23505: the key already exists for this user and scope
+  if (insertError?.code !== '23505') {
+    console.error('Idempotency key insert error:', insertError);
+    throw new IdempotencyError('Unable to verify request. Please try again.', 'UNAVAILABLE');
+  }
+
+  const { data: existing, error: fetchError } = await db
+    .from('idempotency_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('scope', scope)
+    .eq('idempotency_key', key)
+    .single();
+
+  if (fetchError || !existing) {
+    console.error('Idempotency key fetch error:', fetchError);
+    throw new IdempotencyError('Unable to verify request. Please try again.', 'UNAVAILABLE');
+  }
+
+  const expired = new Date(existing.expires_at).getTime() <= Date.now();
+  if (existing.status !== 'failed' && !expired) {
+    return { claimed: false, existing };
+  }
+
+  // Failed, expired or abandoned keys may be reused; the updated_at guard makes the takeover atomic
+  const { data: reclaimed } = await db
+    .from('idempotency_keys')
+    .update({
+      status: 'in_progress',
+      request_hash: requestHash,
+      response: null,
+      expires_at: expiresAt(SECURITY_CONFIG.CLAIM_TTL_MS),
+    })
+    .eq('id', existing.id)
+    .eq('updated_at', existing.updated_at)
+    .select('id')
+    .maybeSingle();
+
+  if (!reclaimed) {
+    throw new IdempotencyError('This request is already being processed', 'IN_PROGRESS');
+  }
+
+  return { claimed: true, id: reclaimed.id };
+};
+
+/**
+ * Run a money-moving operation at most once per idempotency key, replaying the stored result on retries
+ */
+export const withIdempotency = async <T>(
+  scope: IdempotencyScope,
+  key: string | undefined,
+  params: unknown,
+  operation: () => Promise<T>,
+  owner?: IdempotencyOwner
+): Promise<T> => {
+  // Keys are opt-in so existing callers keep working
+  if (!key) {
+    return operation();
+  }
+
+  if (!SECURITY_CONFIG.KEY_PATTERN.test(key)) {
+    throw new IdempotencyError('Invalid idempotency key', 'INVALID_KEY');
+  }
+
+  const { userId, client: db } = owner ?? await signedInOwner();
+
+  const requestHash = await hashRequest(params);
+  const claim = await claimKey(db, userId, scope, key, requestHash);
+
+  if (!claim.claimed) {
+    // Security: a key is bound to the parameters it was first used with
+    if (claim.existing.request_hash !== requestHash) {
+      throw new IdempotencyError('Idempotency key was already used for a different request', 'KEY_REUSED');
+    }
+
+    if (claim.existing.status === 'in_progress') {
+      throw new IdempotencyError('This request is already being processed', 'IN_PROGRESS');
+    }
+
+    return claim.existing.response as T;
+  }
+
+  let result: T;
+  try {
+    result = await operation();
+  } catch (error) {
+    // Security: only an error before the provider was reached frees the key for a retry
+    await db
+      .from('idempotency_keys')
+      .update(error instanceof OutcomeUnknownError ? { expires_at: expiresAt() } : { status: 'failed' })
+      .eq('id', claim.id);
+    throw error;
+  }
+
+  const { error: storeError } = await db
+    .from('idempotency_keys')
+    .update(isStorable(result)
+      ? { status: 'completed', response: (result ?? null) as Json, expires_at: expiresAt() }
+      : { status: 'failed' })
+    .eq('id', claim.id);
+
+  if (storeError) {
+    console.error('Failed to store idempotent result:', storeError);
+  }
+
+  return result;
+};
@@ -2,6 +2,19 @@ export { supabase } from '../lib/supabase';
 export { AuthService } from './auth';
 export { ChamaService } from './chama';
 export { ContributionService } from './contributions';
+export { DividendService } from './dividends';
+export { ElectionService } from './elections';
+export { MemberExitService } from './exits';
+export { FineService } from './fines';
+export { GovernanceService } from './governance';
+export { GuarantorService } from './guarantors';
+export { InviteService } from './invites';
+export { JoinRequestService } from './join-requests';
+export { LedgerService } from './ledger';
+export { LoanService } from './loans';
 export { MpesaService } from './mpesa';
 export { PayoutService } from './payouts';
+export { ResolutionService } from './resolutions';
+export { RotationService } from './rotation';
+export { StatementService } from './statements';
 
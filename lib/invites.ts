@@ -0,0 +1,167 @@
+import { isValidUUID, KenyanPhoneUtils, supabase } from '@/lib/supabase';
+import * as Linking from 'expo-linking';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_EXPIRY_DAYS: 90,
+  MAX_USES: 500,
+} as const;
+
+export interface ChamaInvite {
+  id: string;
+  chama_id: string;
+  code: string;
+  // Shared codes can be handed to anyone; personal invites are single-use and tied to one phone number
+  invite_type: 'shared' | 'personal';
+  phone_number: string | null;
+  expires_at: string;
+  max_uses: number | null;
+  use_count: number;
+  created_by: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Internal helper functions
+const isWholeNumberInRange = (value: number, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Deep link that opens the join screen with the code filled in (wealthcircle://join/CODE in a release build)
+ */
+export const getInviteLink = (code: string): string => Linking.createURL(`join/${encodeURIComponent(code)}`);
+
+/**
+ * Whether an invite can still be redeemed
+ */
+export const isInviteOpen = (invite: ChamaInvite): boolean =>
+  !invite.revoked_at
+  && new Date(invite.expires_at).getTime() > Date.now()
+  && (invite.max_uses === null || invite.use_count < invite.max_uses);
+
+export const InviteService = {
+  /**
+   * A chama's invites, newest first (officers only)
+   */
+  async getInvites(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('chama_invites')
+        .select('*')
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Invites fetch error:', error);
+        return { success: false, error: 'Failed to fetch invites' };
+      }
+
+      return { success: true, invites: (data || []) as ChamaInvite[] };
+    } catch (error: any) {
+      console.error('Invites fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch invites' };
+    }
+  },
+
+  /**
+   * Replace the chama's shared code; the old code stops working at once (officers only).
+   * Leave maxUses out for a code anyone can use until it expires.
+   */
+  async rotateInviteCode(chamaId: string, expiresInDays: number = 30, maxUses?: number) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (!isWholeNumberInRange(expiresInDays, 1, SECURITY_CONFIG.MAX_EXPIRY_DAYS)) {
+        return { success: false, error: `Invites must expire within 1 to ${SECURITY_CONFIG.MAX_EXPIRY_DAYS} days` };
+      }
+
+      if (maxUses !== undefined && !isWholeNumberInRange(maxUses, 1, SECURITY_CONFIG.MAX_USES)) {
+        return { success: false, error: `An invite can be used between 1 and ${SECURITY_CONFIG.MAX_USES} times` };
+      }
+
+      const { data, error } = await supabase.rpc('rotate_invite_code', {
+        p_chama_id: chamaId,
+        p_expires_in_days: expiresInDays,
+        p_max_uses: maxUses ?? null,
+      });
+
+      if (error || !data) {
+        console.error('Invite rotation error:', error);
+        return { success: false, error: error?.message || 'Failed to rotate invite code' };
+      }
+
+      return { success: true, invite: data as unknown as ChamaInvite };
+    } catch (error: any) {
+      console.error('Invite rotation unexpected error:', error);
+      return { success: false, error: 'Failed to rotate invite code' };
+    }
+  },
+
+  /**
+   * Invite one person by phone number; only the account registered with that number can use the code,
+   * and only once (officers only)
+   */
+  async createPersonalInvite(chamaId: string, phoneNumber: string, expiresInDays: number = 7) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (!KenyanPhoneUtils.validate(phoneNumber)) {
+        return { success: false, error: 'Invalid phone number' };
+      }
+
+      if (!isWholeNumberInRange(expiresInDays, 1, SECURITY_CONFIG.MAX_EXPIRY_DAYS)) {
+        return { success: false, error: `Invites must expire within 1 to ${SECURITY_CONFIG.MAX_EXPIRY_DAYS} days` };
+      }
+
+      // Users are stored as 2547XXXXXXXX
+      const normalizedPhone = KenyanPhoneUtils.normalizeToInternational(phoneNumber).replace(/^\+/, '');
+
+      const { data, error } = await supabase.rpc('create_personal_invite', {
+        p_chama_id: chamaId,
+        p_phone_number: normalizedPhone,
+        p_expires_in_days: expiresInDays,
+      });
+
+      if (error || !data) {
+        console.error('Personal invite error:', error);
+        return { success: false, error: error?.message || 'Failed to create invite' };
+      }
+
+      return { success: true, invite: data as unknown as ChamaInvite };
+    } catch (error: any) {
+      console.error('Personal invite unexpected error:', error);
+      return { success: false, error: 'Failed to create invite' };
+    }
+  },
+
+  /**
+   * Stop an invite from being used (officers only)
+   */
+  async revokeInvite(inviteId: string) {
+    try {
+      if (!isValidUUID(inviteId)) {
+        return { success: false, error: 'Invalid invite ID' };
+      }
+
+      const { error } = await supabase.rpc('revoke_chama_invite', { p_invite_id: inviteId });
+
+      if (error) {
+        console.error('Invite revoke error:', error);
+        return { success: false, error: error.message || 'Failed to revoke invite' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Invite revoke unexpected error:', error);
+      return { success: false, error: 'Failed to revoke invite' };
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { Database } from '@/lib/database.types';
+import { isValidUUID } from '@/lib/supabase';
+import { getRequestUserId, getSupabaseAdmin } from '@/lib/supabase-admin';
+
+// Server-only: scheduled chama jobs run through the service-role client, so API routes are their only callers.
+// A job runs for every chama when called with the scheduler's token, or for one chama when an officer asks.
+
+/**
+ * Database functions that roll a chama forward on a schedule
+ */
+export type ChamaJob = Extract<keyof Database['public']['Functions'],
+  'generate_contribution_schedule' | 'assess_late_fines' | 'process_voting_deadlines' | 'process_elections'
+>;
+
+const isSchedulerRequest = (request: Request): boolean => {
+  // Security: the all-chamas run stays closed until a token is configured
+  const expectedToken = process.env.SCHEDULED_JOBS_TOKEN;
+  return !!expectedToken && request.headers.get('Authorization') === `Bearer ${expectedToken}`;
+};
+
+const isChamaOfficer = async (userId: string, chamaId: string): Promise<boolean> => {
+  const { data, error } = await getSupabaseAdmin()
+    .from('chama_members')
+    .select('id')
+    .eq('chama_id', chamaId)
+    .eq('user_id', userId)
+    .in('role', ['chairperson', 'treasurer'])
+    .eq('is_active', true)
+    .maybeSingle();
+
+  return !error && !!data;
+};
+
+/**
+ * Run a scheduled job for the scheduler (all chamas) or an officer (their chama, `{ chamaId }` in the body)
+ */
+export const runChamaJob = async (request: Request, job: ChamaJob): Promise<Response> => {
+  let chamaId: string | null = null;
+
+  if (!isSchedulerRequest(request)) {
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+      return Response.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+
+    let body: Record<string, any>;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json({ success: false, error: 'Invalid JSON payload' }, { status: 400 });
+    }
+
+    chamaId = String(body.chamaId || '');
+    if (!isValidUUID(chamaId)) {
+      return Response.json({ success: false, error: 'Invalid chama ID' }, { status: 400 });
+    }
+
+    if (!(await isChamaOfficer(userId, chamaId))) {
+      return Response.json({ success: false, error: 'Only chama officers can run this job' }, { status: 403 });
+    }
+  }
+
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc(job, { p_chama_id: chamaId });
+
+    if (error) {
+      console.error(`Scheduled job ${job} error:`, error);
+      return Response.json({ success: false, error: 'Job failed' }, { status: 500 });
+    }
+
+    return Response.json({ success: true, summary: data });
+  } catch (error) {
+    console.error(`Scheduled job ${job} unexpected error:`, error);
+    return Response.json({ success: false, error: 'Job failed' }, { status: 500 });
+  }
+};
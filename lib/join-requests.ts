@@ -0,0 +1,127 @@
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_REASON_LENGTH: 500,
+} as const;
+
+export const JoinRequestService = {
+  /**
+   * A chama's join requests with the applicant, newest first (officers only)
+   */
+  async getChamaRequests(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('join_requests')
+        .select(`
+          *,
+          applicant:users!join_requests_user_id_fkey(full_name, phone_number)
+        `)
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Join requests fetch error:', error);
+        return { success: false, error: 'Failed to fetch join requests' };
+      }
+
+      return { success: true, requests: data || [] };
+    } catch (error: any) {
+      console.error('Join requests fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch join requests' };
+    }
+  },
+
+  /**
+   * Your own join requests, with the entry fee to pay once approved
+   */
+  async getMyRequests() {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        return { success: false, error: 'Authentication required' };
+      }
+
+      const { data, error } = await supabase
+        .from('join_requests')
+        .select(`
+          *,
+          chama:chamas(name)
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('My join requests fetch error:', error);
+        return { success: false, error: 'Failed to fetch join requests' };
+      }
+
+      return { success: true, requests: data || [] };
+    } catch (error: any) {
+      console.error('My join requests fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch join requests' };
+    }
+  },
+
+  /**
+   * Approve or reject a pending join request (officers only). Rejections need a reason, which the applicant sees.
+   */
+  async reviewRequest(requestId: string, approve: boolean, reason?: string) {
+    try {
+      if (!isValidUUID(requestId)) {
+        return { success: false, error: 'Invalid request ID' };
+      }
+
+      if (!approve && !reason?.trim()) {
+        return { success: false, error: 'Give a reason for rejecting the request' };
+      }
+
+      if (reason && reason.length > SECURITY_CONFIG.MAX_REASON_LENGTH) {
+        return { success: false, error: `Reason must be at most ${SECURITY_CONFIG.MAX_REASON_LENGTH} characters` };
+      }
+
+      const { data, error } = await supabase.rpc('review_join_request', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_reason: reason?.trim() || null,
+      });
+
+      if (error) {
+        console.error('Join request review error:', error);
+        return { success: false, error: error.message || 'Failed to review join request' };
+      }
+
+      return { success: true, status: data as string };
+    } catch (error: any) {
+      console.error('Join request review unexpected error:', error);
+      return { success: false, error: 'Failed to review join request' };
+    }
+  },
+
+  /**
+   * Withdraw your own pending join request
+   */
+  async cancelRequest(requestId: string) {
+    try {
+      if (!isValidUUID(requestId)) {
+        return { success: false, error: 'Invalid request ID' };
+      }
+
+      const { error } = await supabase.rpc('cancel_join_request', { p_request_id: requestId });
+
+      if (error) {
+        console.error('Join request cancel error:', error);
+        return { success: false, error: error.message || 'Failed to cancel join request' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Join request cancel unexpected error:', error);
+      return { success: false, error: 'Failed to cancel join request' };
+    }
+  },
+};
@@ -0,0 +1,202 @@
+import { Database } from '@/lib/database.types';
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  DEFAULT_JOURNAL_LIMIT: 20,
+  MAX_JOURNAL_LIMIT: 100,
+} as const;
+
+// Type aliases for better readability
+type AccountBalance = Database['public']['Views']['ledger_account_balances']['Row'];
+
+export type LedgerAccountType = 'kitty' | 'member_savings' | 'loans_receivable' | 'interest_income' | 'fines' | 'share_capital' | 'entry_fees';
+
+export interface MemberLedgerBalance {
+  memberId: string;
+  savings: number;
+  loansOutstanding: number;
+  shareCapital: number;
+}
+
+// Internal helper functions
+const verifyChamaMembership = async (chamaId: string): Promise<{ isMember: boolean; error?: string }> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { isMember: false, error: 'Authentication required' };
+    }
+
+    const { data, error } = await supabase
+      .from('chama_members')
+      .select('id')
+      .eq('chama_id', chamaId)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .single();
+
+    if (error || !data) {
+      return { isMember: false, error: 'Not a member of this chama' };
+    }
+
+    return { isMember: true };
+  } catch (error) {
+    return { isMember: false, error: 'Authorization check failed' };
+  }
+};
+
+const sumBalances = (rows: AccountBalance[], accountType: LedgerAccountType): number =>
+  rows
+    .filter(row => row.account_type === accountType)
+    .reduce((total, row) => total + Number(row.balance || 0), 0);
+
+export const LedgerService = {
+  /**
+   * Balance of every ledger account type in a chama
+   */
+  async getChamaBalances(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const membership = await verifyChamaMembership(chamaId);
+      if (!membership.isMember) {
+        return { success: false, error: membership.error };
+      }
+
+      const { data, error } = await supabase
+        .from('ledger_account_balances')
+        .select('*')
+        .eq('chama_id', chamaId);
+
+      if (error) {
+        console.error('Ledger balances fetch error:', error);
+        return { success: false, error: 'Failed to fetch ledger balances' };
+      }
+
+      const rows = data || [];
+      const balances: Record<LedgerAccountType, number> = {
+        kitty: sumBalances(rows, 'kitty'),
+        member_savings: sumBalances(rows, 'member_savings'),
+        loans_receivable: sumBalances(rows, 'loans_receivable'),
+        interest_income: sumBalances(rows, 'interest_income'),
+        fines: sumBalances(rows, 'fines'),
+        share_capital: sumBalances(rows, 'share_capital'),
+        entry_fees: sumBalances(rows, 'entry_fees'),
+      };
+
+      return { success: true, balances };
+    } catch (error: any) {
+      console.error('Ledger balances unexpected error:', error);
+      return { success: false, error: 'Failed to fetch ledger balances' };
+    }
+  },
+
+  /**
+   * Kitty (cash) balance of a chama
+   */
+  async getKittyBalance(chamaId: string) {
+    const result = await LedgerService.getChamaBalances(chamaId);
+    if (!result.success || !result.balances) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, balance: result.balances.kitty };
+  },
+
+  /**
+   * Savings, outstanding loan and share capital balances per member
+   */
+  async getMemberBalances(chamaId: string, memberId?: string) {
+    try {
+      if (!isValidUUID(chamaId) || (memberId && !isValidUUID(memberId))) {
+        return { success: false, error: 'Invalid request parameters' };
+      }
+
+      const membership = await verifyChamaMembership(chamaId);
+      if (!membership.isMember) {
+        return { success: false, error: membership.error };
+      }
+
+      let query = supabase
+        .from('ledger_account_balances')
+        .select('*')
+        .eq('chama_id', chamaId)
+        .in('account_type', ['member_savings', 'loans_receivable', 'share_capital'])
+        .not('member_id', 'is', null);
+
+      if (memberId) {
+        query = query.eq('member_id', memberId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Member balances fetch error:', error);
+        return { success: false, error: 'Failed to fetch member balances' };
+      }
+
+      const byMember = new Map<string, MemberLedgerBalance>();
+      for (const row of data || []) {
+        const id = row.member_id!;
+        const entry = byMember.get(id) || { memberId: id, savings: 0, loansOutstanding: 0, shareCapital: 0 };
+        if (row.account_type === 'member_savings') {
+          entry.savings += Number(row.balance || 0);
+        } else if (row.account_type === 'share_capital') {
+          entry.shareCapital += Number(row.balance || 0);
+        } else {
+          entry.loansOutstanding += Number(row.balance || 0);
+        }
+        byMember.set(id, entry);
+      }
+
+      return { success: true, members: Array.from(byMember.values()) };
+    } catch (error: any) {
+      console.error('Member balances unexpected error:', error);
+      return { success: false, error: 'Failed to fetch member balances' };
+    }
+  },
+
+  /**
+   * Recent journal entries with their debit and credit lines
+   */
+  async getJournal(chamaId: string, limit: number = SECURITY_CONFIG.DEFAULT_JOURNAL_LIMIT) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const membership = await verifyChamaMembership(chamaId);
+      if (!membership.isMember) {
+        return { success: false, error: membership.error };
+      }
+
+      const safeLimit = Math.min(Math.max(1, limit), SECURITY_CONFIG.MAX_JOURNAL_LIMIT);
+
+      const { data, error } = await supabase
+        .from('journal_entries')
+        .select(`
+          *,
+          lines:journal_lines(
+            debit,
+            credit,
+            account:ledger_accounts(account_type, member_id)
+          )
+        `)
+        .eq('chama_id', chamaId)
+        .order('posted_at', { ascending: false })
+        .limit(safeLimit);
+
+      if (error) {
+        console.error('Journal fetch error:', error);
+        return { success: false, error: 'Failed to fetch journal' };
+      }
+
+      return { success: true, entries: data || [] };
+    } catch (error: any) {
+      console.error('Journal fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch journal' };
+    }
+  },
+};
@@ -0,0 +1,180 @@
+import { Database } from '@/lib/database.types';
+import { IdempotencyError, withIdempotency } from '@/lib/idempotency';
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+// Type aliases for better readability
+type LoanRepayment = Database['public']['Tables']['loan_repayments']['Row'];
+
+export interface LoanSummary {
+  payoutRequestId: string;
+  interestMethod: string | null;
+  outstandingBalance: number;
+  outstandingPrincipal: number;
+  nextDue: { installmentNumber: number; dueDate: string; amount: number } | null;
+  overdueInstallments: number;
+  payoffQuote: number;
+}
+
+// Internal helper functions
+// Today in Nairobi as YYYY-MM-DD, matching how due dates are stored
+const nairobiToday = (): string =>
+  new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const installmentDue = (row: LoanRepayment): number =>
+  Number(row.amount) + Number(row.penalty_amount || 0);
+
+// Early payoff: remaining principal, the current period's interest and any penalties
+const summarize = (payoutRequestId: string, interestMethod: string | null, rows: LoanRepayment[]): LoanSummary => {
+  const unpaid = rows.filter(row => !row.is_paid);
+  const next = unpaid[0];
+  const today = nairobiToday();
+
+  const outstandingPrincipal = unpaid.reduce((total, row) => total + Number(row.principal_amount), 0);
+  const penalties = unpaid.reduce((total, row) => total + Number(row.penalty_amount || 0), 0);
+  const overdue = unpaid.filter(row => row.due_date < today);
+  const accruedInterest = (overdue.length > 0 ? overdue : next ? [next] : [])
+    .reduce((total, row) => total + Number(row.interest_amount), 0);
+
+  return {
+    payoutRequestId,
+    interestMethod,
+    outstandingBalance: unpaid.reduce((total, row) => total + installmentDue(row), 0),
+    outstandingPrincipal,
+    nextDue: next
+      ? { installmentNumber: next.installment_number, dueDate: next.due_date, amount: installmentDue(next) }
+      : null,
+    overdueInstallments: overdue.length,
+    payoffQuote: outstandingPrincipal + accruedInterest + penalties,
+  };
+};
+
+export const LoanService = {
+  /**
+   * Write the amortization schedule for an approved loan; a no-op when one already exists (officers only)
+   */
+  async generateSchedule(payoutRequestId: string) {
+    try {
+      if (!isValidUUID(payoutRequestId)) {
+        return { success: false, error: 'Invalid loan ID' };
+      }
+
+      const { data, error } = await supabase.rpc('generate_loan_schedule', {
+        p_payout_request_id: payoutRequestId,
+      });
+
+      if (error) {
+        console.error('Loan schedule generation error:', error);
+        return { success: false, error: 'Failed to generate repayment schedule' };
+      }
+
+      return { success: true, installmentsCreated: data as number };
+    } catch (error: any) {
+      console.error('Loan schedule generation unexpected error:', error);
+      return { success: false, error: 'Failed to generate repayment schedule' };
+    }
+  },
+
+  /**
+   * Record a repayment received by the treasurer: settles the oldest unpaid installments through the ledger, and
+   * settling the last one releases the loan's guarantors (treasurer only)
+   */
+  async recordRepayment(
+    payoutRequestId: string,
+    installments: number = 1,
+    reference?: string,
+    idempotencyKey?: string
+  ): Promise<{ success: boolean; error?: string; transactionId?: string }> {
+    try {
+      if (!isValidUUID(payoutRequestId)) {
+        return { success: false, error: 'Invalid loan ID' };
+      }
+
+      if (!Number.isInteger(installments) || installments < 1) {
+        return { success: false, error: 'Record at least one installment' };
+      }
+
+      return await withIdempotency('loans.repay', idempotencyKey, { payoutRequestId, installments, reference }, async () => {
+        const { data, error } = await supabase.rpc('record_loan_repayment', {
+          p_payout_request_id: payoutRequestId,
+          p_installments: installments,
+          p_reference: reference ?? null,
+        });
+
+        if (error) {
+          console.error('Loan repayment error:', error);
+          return { success: false, error: error.message || 'Failed to record loan repayment' };
+        }
+
+        return { success: true, transactionId: data as string };
+      });
+    } catch (error: any) {
+      if (error instanceof IdempotencyError) {
+        return { success: false, error: error.message };
+      }
+      console.error('Loan repayment unexpected error:', error);
+      return { success: false, error: 'Failed to record loan repayment' };
+    }
+  },
+
+  /**
+   * Installments for a loan, in order
+   */
+  async getSchedule(payoutRequestId: string) {
+    try {
+      if (!isValidUUID(payoutRequestId)) {
+        return { success: false, error: 'Invalid loan ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('loan_repayments')
+        .select('*')
+        .eq('payout_request_id', payoutRequestId)
+        .order('installment_number', { ascending: true });
+
+      if (error) {
+        console.error('Loan schedule fetch error:', error);
+        return { success: false, error: 'Failed to fetch repayment schedule' };
+      }
+
+      return { success: true, installments: data || [] };
+    } catch (error: any) {
+      console.error('Loan schedule fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch repayment schedule' };
+    }
+  },
+
+  /**
+   * Outstanding balance, next installment and early payoff quote for a loan
+   */
+  async getLoanSummary(payoutRequestId: string) {
+    try {
+      if (!isValidUUID(payoutRequestId)) {
+        return { success: false, error: 'Invalid loan ID' };
+      }
+
+      const { data: loan, error: loanError } = await supabase
+        .from('payout_requests')
+        .select('id, request_type, interest_method')
+        .eq('id', payoutRequestId)
+        .single();
+
+      if (loanError || !loan || loan.request_type !== 'loan') {
+        return { success: false, error: 'Loan not found' };
+      }
+
+      const schedule = await LoanService.getSchedule(payoutRequestId);
+      if (!schedule.success || !schedule.installments) {
+        return { success: false, error: schedule.error };
+      }
+
+      if (schedule.installments.length === 0) {
+        return { success: false, error: 'This loan has no repayment schedule yet' };
+      }
+
+      return { success: true, summary: summarize(loan.id, loan.interest_method, schedule.installments) };
+    } catch (error: any) {
+      console.error('Loan summary unexpected error:', error);
+      return { success: false, error: 'Failed to compute loan summary' };
+    }
+  },
+};
@@ -0,0 +1,507 @@
+import { AirtelCallbackPayload, B2CResultPayload, C2BPaymentPayload, PROVIDER_LIMITS, STKCallbackPayload } from '@/lib/gateways';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+
+// Server-only: these handlers run in the provider callback API routes and reconcile through the service-role client
+
+// Daraja result codes we handle explicitly
+const STK_RESULT_CODES = {
+  SUCCESS: 0,
+  FAILED: 1, // Any non-success code settles as failed; Airtel failures are recorded under this one
+  CANCELLED_BY_USER: 1032,
+} as const;
+
+// Daraja only needs an acknowledgement; anything else triggers retries
+const CALLBACK_ACK = { ResultCode: 0, ResultDesc: 'Accepted' } as const;
+const CALLBACK_REJECT = { ResultCode: 1, ResultDesc: 'Rejected' } as const;
+
+// Daraja C2B validation replies; any other ResultCode rejects the payment before the payer is charged
+const C2B_ACCEPT = { ResultCode: '0', ResultDesc: 'Accepted' } as const;
+const C2B_REJECT_ACCOUNT = { ResultCode: 'C2B00012', ResultDesc: 'Invalid Account Number' } as const;
+const C2B_REJECT_AMOUNT = { ResultCode: 'C2B00013', ResultDesc: 'Invalid Amount' } as const;
+const C2B_REJECT_OTHER = { ResultCode: 'C2B00016', ResultDesc: 'Other Error' } as const;
+
+// Code recorded when Daraja reports a queue timeout without its own ResultCode
+const B2C_TIMEOUT_RESULT_CODE = 'TIMEOUT';
+
+// Airtel Money final statuses: TS (success) and TF (failed)
+const AIRTEL_STATUS = {
+  SUCCESS: 'TS',
+  FAILED: 'TF',
+} as const;
+
+export type STKCallbackStatus = 'completed' | 'cancelled' | 'failed';
+
+export interface ParsedSTKCallback {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  resultCode: number;
+  resultDesc: string;
+  status: STKCallbackStatus;
+  amount?: number;
+  mpesaReceiptNumber?: string;
+  transactionDate?: string;
+  phoneNumber?: string;
+}
+
+// Daraja sends TransactionDate as a YYYYMMDDHHmmss number in Nairobi time (UTC+3)
+const parseDarajaTimestamp = (value: string | number | undefined): string | undefined => {
+  const raw = value?.toString();
+  if (!raw || !/^\d{14}$/.test(raw)) return undefined;
+
+  const iso = `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}T${raw.slice(8, 10)}:${raw.slice(10, 12)}:${raw.slice(12, 14)}+03:00`;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+export interface ParsedB2CResult {
+  originatorConversationId: string;
+  conversationId: string;
+  resultCode: string;
+  resultDesc: string;
+  succeeded: boolean;
+  amount?: number;
+  transactionReceipt?: string;
+  completedAt?: string;
+}
+
+// B2C results report completion as DD.MM.YYYY HH:mm:ss in Nairobi time
+const parseB2CCompletedAt = (value: string | number | undefined): string | undefined => {
+  const match = value?.toString().match(/^(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+
+  const [, day, month, year, hours, minutes, seconds] = match;
+  const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}+03:00`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const statusForResultCode = (resultCode: number): STKCallbackStatus => {
+  if (resultCode === STK_RESULT_CODES.SUCCESS) return 'completed';
+  if (resultCode === STK_RESULT_CODES.CANCELLED_BY_USER) return 'cancelled';
+  return 'failed';
+};
+
+/**
+ * Validate and flatten a raw STK callback body
+ */
+export const parseSTKCallback = (payload: unknown): { valid: boolean; callback?: ParsedSTKCallback; error?: string } => {
+  const stkCallback = (payload as STKCallbackPayload)?.Body?.stkCallback;
+
+  if (!stkCallback || typeof stkCallback !== 'object') {
+    return { valid: false, error: 'Missing stkCallback body' };
+  }
+
+  const { MerchantRequestID, CheckoutRequestID, ResultCode, ResultDesc, CallbackMetadata } = stkCallback;
+
+  if (typeof CheckoutRequestID !== 'string' || !CheckoutRequestID) {
+    return { valid: false, error: 'Missing CheckoutRequestID' };
+  }
+
+  const resultCode = Number(ResultCode);
+  if (!Number.isInteger(resultCode)) {
+    return { valid: false, error: 'Invalid ResultCode' };
+  }
+
+  const callback: ParsedSTKCallback = {
+    merchantRequestId: String(MerchantRequestID || ''),
+    checkoutRequestId: CheckoutRequestID,
+    resultCode,
+    resultDesc: String(ResultDesc || ''),
+    status: statusForResultCode(resultCode),
+  };
+
+  if (callback.status !== 'completed') {
+    return { valid: true, callback };
+  }
+
+  const items = new Map((CallbackMetadata?.Item || []).map(item => [item.Name, item.Value]));
+  const amount = Number(items.get('Amount'));
+  const receipt = items.get('MpesaReceiptNumber')?.toString();
+
+  if (!amount || amount <= 0 || !receipt) {
+    return { valid: false, error: 'Successful callback is missing amount or receipt' };
+  }
+
+  callback.amount = amount;
+  callback.mpesaReceiptNumber = receipt;
+  callback.transactionDate = parseDarajaTimestamp(items.get('TransactionDate'));
+  callback.phoneNumber = items.get('PhoneNumber')?.toString();
+
+  return { valid: true, callback };
+};
+
+/**
+ * Validate and flatten a raw B2C result or timeout body
+ */
+export const parseB2CResult = (payload: unknown): { valid: boolean; result?: ParsedB2CResult; error?: string } => {
+  const result = (payload as B2CResultPayload)?.Result;
+
+  if (!result || typeof result !== 'object') {
+    return { valid: false, error: 'Missing Result body' };
+  }
+
+  const { OriginatorConversationID, ConversationID, ResultCode, ResultDesc, TransactionID, ResultParameters } = result;
+
+  if (typeof OriginatorConversationID !== 'string' || !OriginatorConversationID) {
+    return { valid: false, error: 'Missing OriginatorConversationID' };
+  }
+
+  const resultCode = ResultCode === undefined || ResultCode === null ? '' : String(ResultCode);
+
+  const parsed: ParsedB2CResult = {
+    originatorConversationId: OriginatorConversationID,
+    conversationId: String(ConversationID || ''),
+    resultCode: resultCode || B2C_TIMEOUT_RESULT_CODE,
+    resultDesc: String(ResultDesc || ''),
+    succeeded: resultCode === '0',
+  };
+
+  if (!parsed.succeeded) {
+    return { valid: true, result: parsed };
+  }
+
+  const parameters = new Map((ResultParameters?.ResultParameter || []).map(item => [item.Key, item.Value]));
+  const receipt = (parameters.get('TransactionReceipt') || TransactionID)?.toString();
+
+  if (!receipt) {
+    return { valid: false, error: 'Successful result is missing the transaction receipt' };
+  }
+
+  const amount = Number(parameters.get('TransactionAmount'));
+  parsed.transactionReceipt = receipt;
+  parsed.amount = amount > 0 ? amount : undefined;
+  parsed.completedAt = parseB2CCompletedAt(parameters.get('TransactionCompletedDateTime'));
+
+  return { valid: true, result: parsed };
+};
+
+export interface ParsedAirtelCallback {
+  transactionId: string;
+  statusCode: string;
+  message: string;
+  succeeded: boolean;
+  airtelMoneyId?: string;
+}
+
+/**
+ * Validate and flatten a raw Airtel Money callback, which is shared by collections and disbursements
+ */
+export const parseAirtelCallback = (payload: unknown): { valid: boolean; callback?: ParsedAirtelCallback; error?: string } => {
+  const transaction = (payload as AirtelCallbackPayload)?.transaction;
+
+  if (!transaction || typeof transaction !== 'object') {
+    return { valid: false, error: 'Missing transaction body' };
+  }
+
+  if (typeof transaction.id !== 'string' || !transaction.id) {
+    return { valid: false, error: 'Missing transaction id' };
+  }
+
+  const statusCode = String(transaction.status_code || '');
+  if (statusCode !== AIRTEL_STATUS.SUCCESS && statusCode !== AIRTEL_STATUS.FAILED) {
+    return { valid: false, error: 'Invalid status_code' };
+  }
+
+  const callback: ParsedAirtelCallback = {
+    transactionId: transaction.id,
+    statusCode,
+    message: String(transaction.message || ''),
+    succeeded: statusCode === AIRTEL_STATUS.SUCCESS,
+  };
+
+  if (!callback.succeeded) {
+    return { valid: true, callback };
+  }
+
+  if (!transaction.airtel_money_id) {
+    return { valid: false, error: 'Successful callback is missing airtel_money_id' };
+  }
+
+  callback.airtelMoneyId = transaction.airtel_money_id;
+  return { valid: true, callback };
+};
+
+export interface ParsedC2BPayment {
+  transId: string;
+  accountReference: string;
+  amount: number;
+  paidAt?: string;
+  phoneNumber?: string;
+}
+
+/**
+ * Validate and flatten a raw C2B validation or confirmation body
+ */
+export const parseC2BPayment = (payload: unknown): { valid: boolean; payment?: ParsedC2BPayment; error?: string } => {
+  const body = payload as C2BPaymentPayload;
+
+  if (!body || typeof body !== 'object' || typeof body.TransID !== 'string' || !body.TransID) {
+    return { valid: false, error: 'Missing TransID' };
+  }
+
+  const amount = Number(body.TransAmount);
+  if (!amount || amount <= 0) {
+    return { valid: false, error: 'Invalid TransAmount' };
+  }
+
+  // Daraja masks or hashes MSISDN, so only a full number is passed on
+  const msisdn = String(body.MSISDN || '');
+
+  return {
+    valid: true,
+    payment: {
+      transId: body.TransID,
+      accountReference: String(body.BillRefNumber || '').trim(),
+      amount,
+      paidAt: parseDarajaTimestamp(body.TransTime),
+      phoneNumber: /^254\d{9}$/.test(msisdn) ? msisdn : undefined,
+    },
+  };
+};
+
+// Apply a parsed B2C outcome to its disbursement log, payout request and kitty
+const reconcileB2C = async (result: ParsedB2CResult) => {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('reconcile_b2c_result', {
+      p_originator_conversation_id: result.originatorConversationId,
+      p_conversation_id: result.conversationId || null,
+      p_result_code: result.resultCode,
+      p_result_desc: result.resultDesc,
+      p_transaction_receipt: result.transactionReceipt ?? null,
+      p_amount: result.amount ?? null,
+      p_completed_at: result.completedAt ?? null,
+    });
+
+    if (error) {
+      console.error('B2C result reconciliation error:', error);
+      // Let Daraja retry; reconciliation is idempotent on OriginatorConversationID
+      return CALLBACK_REJECT;
+    }
+
+    if (data === 'duplicate_payment') {
+      // Booked against the kitty and flagged in its metadata; the treasurer is notified to recover it
+      console.error('B2C paid a request that was already settled:', result.originatorConversationId);
+    }
+
+    console.log('B2C result reconciled:', {
+      originatorConversationId: result.originatorConversationId,
+      succeeded: result.succeeded,
+      outcome: data,
+    });
+
+    return CALLBACK_ACK;
+  } catch (error: any) {
+    console.error('B2C result unexpected error:', error);
+    return CALLBACK_REJECT;
+  }
+};
+
+export const MpesaCallbackService = {
+  /**
+   * Reconcile an STK push result against its transaction log and contribution
+   */
+  async handleSTKCallback(payload: unknown) {
+    const parsed = parseSTKCallback(payload);
+
+    if (!parsed.valid || !parsed.callback) {
+      console.error('Rejected STK callback:', parsed.error);
+      return CALLBACK_REJECT;
+    }
+
+    const callback = parsed.callback;
+
+    try {
+      // Single database transaction: log, transaction row, contribution and kitty
+      const { data, error } = await getSupabaseAdmin().rpc('reconcile_stk_callback', {
+        p_checkout_request_id: callback.checkoutRequestId,
+        p_result_code: callback.resultCode,
+        p_result_desc: callback.resultDesc,
+        p_amount: callback.amount ?? null,
+        p_mpesa_receipt: callback.mpesaReceiptNumber ?? null,
+        p_phone_number: callback.phoneNumber ?? null,
+        p_transaction_date: callback.transactionDate ?? null,
+      });
+
+      if (error) {
+        console.error('STK callback reconciliation error:', error);
+        // Let Daraja retry; reconciliation is idempotent on CheckoutRequestID
+        return CALLBACK_REJECT;
+      }
+
+      console.log('STK callback reconciled:', {
+        checkoutRequestId: callback.checkoutRequestId,
+        status: callback.status,
+        outcome: data,
+      });
+
+      return CALLBACK_ACK;
+    } catch (error: any) {
+      console.error('STK callback unexpected error:', error);
+      return CALLBACK_REJECT;
+    }
+  },
+
+  /**
+   * Accept a paybill payment only when its account reference names an active member
+   */
+  async handleC2BValidation(payload: unknown) {
+    const parsed = parseC2BPayment(payload);
+
+    if (!parsed.valid || !parsed.payment) {
+      console.error('Rejected C2B validation:', parsed.error);
+      return C2B_REJECT_OTHER;
+    }
+
+    const { min, max } = PROVIDER_LIMITS.mpesa.collection;
+    if (parsed.payment.amount < min || parsed.payment.amount > max) {
+      return C2B_REJECT_AMOUNT;
+    }
+
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('resolve_paybill_reference', {
+        p_account_reference: parsed.payment.accountReference,
+      });
+
+      if (error) {
+        console.error('C2B validation error:', error);
+        return C2B_REJECT_OTHER;
+      }
+
+      return data ? C2B_ACCEPT : C2B_REJECT_ACCOUNT;
+    } catch (error: any) {
+      console.error('C2B validation unexpected error:', error);
+      return C2B_REJECT_OTHER;
+    }
+  },
+
+  /**
+   * Record a confirmed paybill payment as the member's contribution
+   */
+  async handleC2BConfirmation(payload: unknown) {
+    const parsed = parseC2BPayment(payload);
+
+    if (!parsed.valid || !parsed.payment) {
+      console.error('Rejected C2B confirmation:', parsed.error);
+      return CALLBACK_REJECT;
+    }
+
+    const payment = parsed.payment;
+
+    try {
+      // Same single-transaction reconciliation as STK callbacks, keyed on TransID
+      const { data, error } = await getSupabaseAdmin().rpc('reconcile_c2b_payment', {
+        p_trans_id: payment.transId,
+        p_account_reference: payment.accountReference,
+        p_amount: payment.amount,
+        p_phone_number: payment.phoneNumber ?? null,
+        p_paid_at: payment.paidAt ?? null,
+      });
+
+      if (error) {
+        console.error('C2B confirmation reconciliation error:', error);
+        return CALLBACK_REJECT;
+      }
+
+      if (data === 'unmatched') {
+        console.error('C2B payment with unknown account reference:', {
+          transId: payment.transId,
+          accountReference: payment.accountReference,
+        });
+      }
+
+      console.log('C2B payment reconciled:', { transId: payment.transId, outcome: data });
+
+      return CALLBACK_ACK;
+    } catch (error: any) {
+      console.error('C2B confirmation unexpected error:', error);
+      return CALLBACK_REJECT;
+    }
+  },
+
+  /**
+   * Reconcile an Airtel Money callback against the collection or disbursement it belongs to
+   */
+  async handleAirtelCallback(payload: unknown) {
+    const parsed = parseAirtelCallback(payload);
+
+    if (!parsed.valid || !parsed.callback) {
+      console.error('Rejected Airtel callback:', parsed.error);
+      return CALLBACK_REJECT;
+    }
+
+    const callback = parsed.callback;
+
+    try {
+      // Collections are logged under our transaction ID; Airtel sends no amount, so the requested amount is used
+      const { data, error } = await getSupabaseAdmin().rpc('reconcile_stk_callback', {
+        p_checkout_request_id: callback.transactionId,
+        p_result_code: callback.succeeded ? STK_RESULT_CODES.SUCCESS : STK_RESULT_CODES.FAILED,
+        p_result_desc: callback.message,
+        p_amount: null,
+        p_mpesa_receipt: callback.airtelMoneyId ?? null,
+        p_phone_number: null,
+        p_transaction_date: null,
+      });
+
+      if (error) {
+        console.error('Airtel callback reconciliation error:', error);
+        return CALLBACK_REJECT;
+      }
+
+      if (data !== 'not_found') {
+        console.log('Airtel callback reconciled:', {
+          transactionId: callback.transactionId,
+          succeeded: callback.succeeded,
+          outcome: data,
+        });
+        return CALLBACK_ACK;
+      }
+    } catch (error: any) {
+      console.error('Airtel callback unexpected error:', error);
+      return CALLBACK_REJECT;
+    }
+
+    // Not a collection, so the ID is a disbursement's OriginatorConversationID
+    return reconcileB2C({
+      originatorConversationId: callback.transactionId,
+      conversationId: '',
+      resultCode: callback.succeeded ? '0' : callback.statusCode,
+      resultDesc: callback.message,
+      succeeded: callback.succeeded,
+      transactionReceipt: callback.airtelMoneyId,
+    });
+  },
+
+  /**
+   * Reconcile a B2C disbursement result
+   */
+  async handleB2CResult(payload: unknown) {
+    const parsed = parseB2CResult(payload);
+
+    if (!parsed.valid || !parsed.result) {
+      console.error('Rejected B2C result:', parsed.error);
+      return CALLBACK_REJECT;
+    }
+
+    return reconcileB2C(parsed.result);
+  },
+
+  /**
+   * A queue timeout means Daraja never processed the payment, so the attempt fails and can be retried
+   */
+  async handleB2CTimeout(payload: unknown) {
+    const parsed = parseB2CResult(payload);
+
+    if (!parsed.valid || !parsed.result) {
+      console.error('Rejected B2C timeout:', parsed.error);
+      return CALLBACK_REJECT;
+    }
+
+    return reconcileB2C({
+      ...parsed.result,
+      resultCode: parsed.result.succeeded ? B2C_TIMEOUT_RESULT_CODE : parsed.result.resultCode,
+      resultDesc: parsed.result.resultDesc || 'Request timed out in queue',
+      succeeded: false,
+      transactionReceipt: undefined,
+    });
+  },
+};
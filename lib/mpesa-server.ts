@@ -0,0 +1,857 @@
+import { Database } from '@/lib/database.types';
+import {
+  B2CResult,
+  CARRIER_PROVIDERS,
+  getPaymentGateway,
+  MobileMoneyProvider,
+  PaymentGatewayError,
+  PROVIDER_LIMITS,
+  PROVIDER_NAMES,
+  STKPushResult,
+  STKQueryResult,
+} from '@/lib/gateways';
+import { IdempotencyOwner, OutcomeUnknownError, withIdempotency } from '@/lib/idempotency';
+import { isValidUUID, KenyanPhoneUtils } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+
+// Server-only: everything here talks to the payment providers with credentials that must not ship with the app.
+// API routes under app/api/mpesa call these after authenticating the member; lib/mpesa.ts is the app's client.
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_REFERENCE_LENGTH: 50,
+  RATE_LIMIT_WINDOW: 60000, // 1 minute
+  STK_ACCOUNT_REFERENCE: 'WealthCircle',
+  STK_TRANSACTION_DESC: 'Contribution',
+  STK_FINE_DESC: 'Fine',
+  STK_SHARES_DESC: 'Shares',
+  STK_ENTRY_FEE_DESC: 'Entry fee',
+  B2C_OCCASION: 'Chama payout',
+  STK_QUERY_AFTER_MS: 60000, // Ask the provider once a callback is a minute late
+  STK_RECONCILE_BATCH: 50,
+} as const;
+
+type TransactionLogInsert = Database['public']['Tables']['transaction_logs']['Insert'];
+type DisbursementLogInsert = Database['public']['Tables']['disbursement_logs']['Insert'];
+
+export interface STKPushResponse {
+  success: true;
+  message: string;
+  requestId: string;
+  checkoutRequestId: string;
+  provider: MobileMoneyProvider;
+}
+
+export interface DisbursementResponse {
+  success: true;
+  message: string;
+  disbursementId: string;
+  provider: MobileMoneyProvider;
+  reference?: string;
+  attempt?: number;
+}
+
+// Rate limiting storage
+const transactionAttempts = new Map<string, { count: number; lastAttempt: number }>();
+
+// Security utilities
+const SecurityUtils = {
+  // Any Kenyan mobile number on a network whose wallet we can collect from and pay out to
+  async validatePhoneNumber(phoneNumber: string): Promise<boolean> {
+    try {
+      const msisdn = toMsisdn(phoneNumber);
+      return /^254[17]\d{8}$/.test(msisdn) && resolveProvider(msisdn) !== null;
+    } catch (error) {
+      return false;
+    }
+  },
+
+  sanitizeInput(input: string, type: 'text' | 'reference' = 'text'): string {
+    const sanitized = input.trim().replace(/[<>"'`;\\/&|$#{}[\]=]/g, '');
+    return sanitized.substring(0, type === 'reference' ? SECURITY_CONFIG.MAX_REFERENCE_LENGTH : 100);
+  },
+
+  validateAmount(
+    amount: number,
+    provider: MobileMoneyProvider,
+    direction: 'collection' | 'disbursement'
+  ): { valid: boolean; error?: string } {
+    if (typeof amount !== 'number' || isNaN(amount)) {
+      return { valid: false, error: 'Invalid amount format' };
+    }
+
+    const limits = PROVIDER_LIMITS[provider][direction];
+
+    if (amount < limits.min) {
+      return { valid: false, error: `${PROVIDER_NAMES[provider]} amount must be at least ${limits.min} KES` };
+    }
+
+    if (amount > limits.max) {
+      return { valid: false, error: `${PROVIDER_NAMES[provider]} amount cannot exceed ${limits.max} KES` };
+    }
+
+    return { valid: true };
+  }
+};
+
+// Internal helper functions
+const cleanPhoneNumber = (phone: string): string => {
+  return KenyanPhoneUtils.normalizeToInternational(phone.replace(/\s+/g, ''));
+};
+
+// Gateways expect MSISDNs without the leading '+' (2547XXXXXXXX)
+const toMsisdn = (phone: string): string => {
+  return cleanPhoneNumber(phone).replace(/^\+/, '');
+};
+
+// Payments are routed to the wallet of the network the number belongs to
+const resolveProvider = (phone: string): MobileMoneyProvider | null => {
+  return CARRIER_PROVIDERS[KenyanPhoneUtils.getCarrier(phone)] ?? null;
+};
+
+// Callers validate the number first, so a provider is always found
+const requireProvider = (phone: string): MobileMoneyProvider => {
+  const provider = resolveProvider(phone);
+  if (!provider) {
+    throw new Error('Payments to this number are not supported');
+  }
+  return provider;
+};
+
+// Idempotency keys belong to the authenticated member, written through the service-role client
+const asOwner = (userId: string): IdempotencyOwner => ({ userId, client: getSupabaseAdmin() });
+
+const generateRequestId = (): string => {
+  const timestamp = Date.now().toString();
+  const random = Math.random().toString(36).substring(2, 8);
+  return `WC${timestamp}${random}`.toUpperCase();
+};
+
+const checkRateLimit = (identifier: string): { limited: boolean; message?: string } => {
+  const now = Date.now();
+  const attempt = transactionAttempts.get(identifier);
+
+  if (!attempt || now - attempt.lastAttempt > SECURITY_CONFIG.RATE_LIMIT_WINDOW) {
+    transactionAttempts.set(identifier, { count: 1, lastAttempt: now });
+    return { limited: false };
+  }
+
+  // Check attempts (max 5 per minute)
+  if (attempt.count >= 5) {
+    return { limited: true, message: 'Too many attempts. Please try again later.' };
+  }
+
+  transactionAttempts.set(identifier, { count: attempt.count + 1, lastAttempt: now });
+  return { limited: false };
+};
+
+const verifyChamaMembership = async (chamaId: string, userId: string): Promise<{ isMember: boolean; role?: string }> => {
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .from('chama_members')
+      .select('role')
+      .eq('chama_id', chamaId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single();
+
+    if (error || !data) {
+      return { isMember: false };
+    }
+
+    return { isMember: true, role: data.role ?? undefined };
+  } catch (error) {
+    return { isMember: false };
+  }
+};
+
+const verifyDisbursementAuthorization = async (chamaId: string, userId: string): Promise<{ authorized: boolean; error?: string }> => {
+  try {
+    const membership = await verifyChamaMembership(chamaId, userId);
+
+    if (!membership.isMember) {
+      return { authorized: false, error: 'Not a member of this chama' };
+    }
+
+    if (!['chairperson', 'treasurer'].includes(membership.role || '')) {
+      return { authorized: false, error: 'Only chairpersons and treasurers can disburse funds' };
+    }
+
+    return { authorized: true };
+  } catch (error) {
+    return { authorized: false, error: 'Authorization check failed' };
+  }
+};
+
+// Send a logged STK push through the log's provider and link the log to the gateway's identifiers so the
+// callback can be matched
+const sendSTKPush = async (
+  log: TransactionLogInsert & { provider: MobileMoneyProvider },
+  transactionDesc: string
+): Promise<STKPushResult> => {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error: logError } = await supabaseAdmin
+    .from('transaction_logs')
+    .insert(log);
+
+  if (logError) {
+    console.error('Failed to log transaction attempt:', logError);
+    throw new Error('Transaction logging failed');
+  }
+
+  const gateway = getPaymentGateway(log.provider);
+  let stkResult: STKPushResult;
+
+  try {
+    stkResult = await gateway.initiateSTKPush({
+      phoneNumber: toMsisdn(log.phone_number),
+      amount: log.amount,
+      accountReference: SECURITY_CONFIG.STK_ACCOUNT_REFERENCE,
+      transactionDesc,
+    });
+  } catch (gatewayError: any) {
+    console.error(`STK Push rejected by ${gateway.name} gateway:`, gatewayError);
+
+    await supabaseAdmin
+      .from('transaction_logs')
+      .update({ status: 'failed' })
+      .eq('request_id', log.request_id);
+
+    throw new Error(
+      gatewayError instanceof PaymentGatewayError
+        ? gatewayError.message
+        : 'Network error occurred. Please try again.'
+    );
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('transaction_logs')
+    .update({
+      status: 'sent',
+      checkout_request_id: stkResult.checkoutRequestId,
+      merchant_request_id: stkResult.merchantRequestId,
+    })
+    .eq('request_id', log.request_id);
+
+  if (updateError) {
+    console.error('Failed to record checkout request ID:', updateError);
+  }
+
+  return stkResult;
+};
+
+// Move a request the provider has not answered for to the back of the reconciliation queue
+const deferStatusQuery = async (requestId: string) => {
+  const { error } = await getSupabaseAdmin()
+    .from('transaction_logs')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('request_id', requestId);
+
+  if (error) {
+    console.error('STK status query deferral error:', error);
+  }
+};
+
+// Ask the provider how a late STK push ended and settle it through the same reconciliation as its callback.
+// Only a result code from the provider settles it; a query that fails or is still processing leaves it pending.
+const settleFromStatusQuery = async (
+  log: { request_id: string; checkout_request_id: string | null; amount: number; provider: string }
+): Promise<string> => {
+  if (!log.checkout_request_id) {
+    return 'not_sent';
+  }
+
+  let result: STKQueryResult;
+  try {
+    result = await getPaymentGateway(log.provider as MobileMoneyProvider).querySTKPush(log.checkout_request_id);
+  } catch (gatewayError) {
+    await deferStatusQuery(log.request_id);
+    throw gatewayError;
+  }
+
+  if (result.status === 'pending' || result.resultCode === null) {
+    await deferStatusQuery(log.request_id);
+    return 'pending';
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('reconcile_stk_callback', {
+    p_checkout_request_id: log.checkout_request_id,
+    p_result_code: result.resultCode,
+    p_result_desc: result.resultDesc,
+    p_amount: log.amount,
+    // Daraja's query has no receipt, so the payment is recorded under its CheckoutRequestID until a late callback
+    p_mpesa_receipt: result.receipt || log.checkout_request_id,
+    p_phone_number: null,
+    p_transaction_date: null,
+  });
+
+  if (error) {
+    console.error('STK status reconciliation error:', error);
+    throw new Error('Failed to settle transaction');
+  }
+
+  return data;
+};
+
+// Send a logged B2C payment through the log's provider; the provider's result callback settles the log
+const sendDisbursement = async (
+  log: DisbursementLogInsert & { request_id: string; provider: MobileMoneyProvider }
+): Promise<B2CResult> => {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error: logError } = await supabaseAdmin
+    .from('disbursement_logs')
+    .insert(log);
+
+  if (logError) {
+    // 23505: the one-active-disbursement-per-request index rejected a concurrent attempt
+    if (logError.code === '23505') {
+      throw new Error('A disbursement for this request is already in progress');
+    }
+    console.error('Failed to log disbursement attempt:', logError);
+    throw new Error('Disbursement logging failed');
+  }
+
+  const gateway = getPaymentGateway(log.provider);
+
+  try {
+    const b2cResult = await gateway.initiateB2C({
+      originatorConversationId: log.request_id,
+      phoneNumber: toMsisdn(log.phone_number),
+      amount: log.amount,
+      remarks: log.reference,
+      occasion: SECURITY_CONFIG.B2C_OCCASION,
+    });
+
+    const { error: updateError } = await supabaseAdmin
+      .from('disbursement_logs')
+      .update({ status: 'sent', conversation_id: b2cResult.conversationId })
+      .eq('request_id', log.request_id);
+
+    if (updateError) {
+      console.error('Failed to record B2C conversation ID:', updateError);
+    }
+
+    return b2cResult;
+  } catch (gatewayError: any) {
+    console.error(`B2C rejected by ${gateway.name} gateway:`, gatewayError);
+
+    // Security: only a definite rejection means no money moved. A timeout, a dropped connection or a provider 5xx
+    // may still be paid, so the log stays 'sent' for the result callback to settle.
+    const outcomeUnknown = !(gatewayError instanceof PaymentGatewayError)
+      || gatewayError.code === 'TIMEOUT'
+      || gatewayError.code === 'NETWORK'
+      || (gatewayError.status !== undefined && gatewayError.status >= 500);
+
+    await supabaseAdmin
+      .from('disbursement_logs')
+      .update(outcomeUnknown
+        ? { status: 'sent' }
+        : { status: 'failed', result_desc: gatewayError?.message || null })
+      .eq('request_id', log.request_id);
+
+    if (outcomeUnknown) {
+      throw new OutcomeUnknownError(`Disbursement is awaiting confirmation from ${PROVIDER_NAMES[log.provider]}`);
+    }
+    throw new Error(gatewayError.message);
+  }
+};
+
+// Pending charges members pay through the STK flow; the callback settles the charge itself
+const CHARGE_LABELS = {
+  fine: { name: 'fine', notFound: 'Fine not found', description: SECURITY_CONFIG.STK_FINE_DESC },
+  entry_fee: { name: 'entry fee', notFound: 'Entry fee not found', description: SECURITY_CONFIG.STK_ENTRY_FEE_DESC },
+} as const;
+
+const sendChargePayment = async (
+  chargeType: keyof typeof CHARGE_LABELS,
+  chargeId: string,
+  phoneNumber: string,
+  userId: string
+): Promise<STKPushResponse> => {
+  const label = CHARGE_LABELS[chargeType];
+
+  if (!isValidUUID(chargeId) || !isValidUUID(userId)) {
+    throw new Error('Invalid request parameters');
+  }
+
+  // Rate limiting
+  const rateLimitCheck = checkRateLimit(`stkpush:${userId}`);
+  if (rateLimitCheck.limited) {
+    throw new Error(rateLimitCheck.message);
+  }
+
+  if (!phoneNumber || !await SecurityUtils.validatePhoneNumber(phoneNumber)) {
+    throw new Error('Invalid Kenyan phone number format');
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: charge, error: chargeError } = await supabaseAdmin
+    .from('transactions')
+    .select('id, chama_id, user_id, amount, status')
+    .eq('id', chargeId)
+    .eq('transaction_type', chargeType)
+    .single();
+
+  // Security: members can only pay their own charges
+  if (chargeError || !charge || !charge.chama_id || charge.user_id !== userId) {
+    throw new Error(label.notFound);
+  }
+
+  if (charge.status !== 'pending') {
+    throw new Error(`This ${label.name} is no longer outstanding`);
+  }
+
+  const provider = requireProvider(phoneNumber);
+  const amountValidation = SecurityUtils.validateAmount(charge.amount, provider, 'collection');
+  if (!amountValidation.valid) {
+    throw new Error(amountValidation.error);
+  }
+
+  // Security: one payment in flight per charge
+  const { data: inFlight } = await supabaseAdmin
+    .from('transaction_logs')
+    .select('id')
+    .eq('fine_transaction_id', chargeId)
+    .in('status', ['pending', 'sent'])
+    .limit(1);
+
+  if (inFlight && inFlight.length > 0) {
+    throw new Error(`A payment for this ${label.name} is already in progress`);
+  }
+
+  const requestId = generateRequestId();
+  const stkResult = await sendSTKPush({
+    user_id: userId,
+    chama_id: charge.chama_id,
+    phone_number: cleanPhoneNumber(phoneNumber),
+    amount: charge.amount,
+    status: 'pending',
+    request_id: requestId,
+    purpose: chargeType,
+    fine_transaction_id: charge.id,
+    provider,
+    created_at: new Date().toISOString()
+  }, label.description);
+
+  return {
+    success: true,
+    message: stkResult.customerMessage || 'Payment request sent successfully',
+    requestId: requestId,
+    checkoutRequestId: stkResult.checkoutRequestId,
+    provider,
+  };
+};
+
+export const MpesaServerService = {
+  /**
+   * Prompt a member's phone for a contribution; userId comes from the authenticated request
+   */
+  async initiateSTKPush(
+    phoneNumber: string,
+    amount: number,
+    chamaId: string,
+    userId: string,
+    idempotencyKey?: string
+  ): Promise<STKPushResponse> {
+    try {
+      return await withIdempotency('mpesa.stk_push', idempotencyKey, { phoneNumber, amount, chamaId, userId }, async () => {
+        // Input validation
+        if (!phoneNumber || !chamaId || !userId) {
+          throw new Error('Phone number, chama ID, and user ID are required');
+        }
+
+        // Rate limiting
+        const rateLimitCheck = checkRateLimit(`stkpush:${userId}`);
+        if (rateLimitCheck.limited) {
+          throw new Error(rateLimitCheck.message);
+        }
+
+        // Phone number validation
+        if (!await SecurityUtils.validatePhoneNumber(phoneNumber)) {
+          throw new Error('Invalid Kenyan phone number format');
+        }
+
+        // Amount validation against the payer's wallet limits
+        const provider = requireProvider(phoneNumber);
+        const amountValidation = SecurityUtils.validateAmount(amount, provider, 'collection');
+        if (!amountValidation.valid) {
+          throw new Error(amountValidation.error);
+        }
+
+        // UUID validation
+        if (!isValidUUID(chamaId) || !isValidUUID(userId)) {
+          throw new Error('Invalid request parameters');
+        }
+
+        const sanitizedChamaId = SecurityUtils.sanitizeInput(chamaId, 'text');
+
+        // Verify user is member of the chama
+        const membership = await verifyChamaMembership(sanitizedChamaId, userId);
+        if (!membership.isMember) {
+          throw new Error('Unauthorized: Not a member of this chama');
+        }
+
+        // Log transaction attempt for audit trail
+        const requestId = generateRequestId();
+        const stkResult = await sendSTKPush({
+          user_id: userId,
+          chama_id: sanitizedChamaId,
+          phone_number: cleanPhoneNumber(phoneNumber),
+          amount: amount,
+          status: 'pending',
+          request_id: requestId,
+          provider,
+          created_at: new Date().toISOString()
+        }, SECURITY_CONFIG.STK_TRANSACTION_DESC);
+
+        return {
+          success: true,
+          message: stkResult.customerMessage || 'Payment request sent successfully',
+          requestId: requestId,
+          checkoutRequestId: stkResult.checkoutRequestId,
+          provider,
+        };
+      }, asOwner(userId));
+    } catch (error: any) {
+      console.error('STK Push initiation error:', error);
+      throw new Error(`Payment initiation failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Pay an outstanding fine through the STK flow
+   */
+  async payFine(fineId: string, phoneNumber: string, userId: string, idempotencyKey?: string): Promise<STKPushResponse> {
+    try {
+      return await withIdempotency('mpesa.pay_fine', idempotencyKey, { fineId, phoneNumber, userId }, async () => {
+        return await sendChargePayment('fine', fineId, phoneNumber, userId);
+      }, asOwner(userId));
+    } catch (error: any) {
+      console.error('Fine payment initiation error:', error);
+      throw new Error(`Payment initiation failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Pay the entry fee charged on joining a chama through the STK flow
+   */
+  async payEntryFee(feeId: string, phoneNumber: string, userId: string, idempotencyKey?: string): Promise<STKPushResponse> {
+    try {
+      return await withIdempotency('mpesa.pay_entry_fee', idempotencyKey, { feeId, phoneNumber, userId }, async () => {
+        return await sendChargePayment('entry_fee', feeId, phoneNumber, userId);
+      }, asOwner(userId));
+    } catch (error: any) {
+      console.error('Entry fee payment initiation error:', error);
+      throw new Error(`Payment initiation failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Buy share capital in a table-banking chama through the STK flow
+   */
+  async buyShares(
+    phoneNumber: string,
+    amount: number,
+    chamaId: string,
+    userId: string,
+    idempotencyKey?: string
+  ): Promise<STKPushResponse> {
+    try {
+      return await withIdempotency('mpesa.buy_shares', idempotencyKey, { phoneNumber, amount, chamaId, userId }, async () => {
+        if (!isValidUUID(chamaId) || !isValidUUID(userId)) {
+          throw new Error('Invalid request parameters');
+        }
+
+        // Rate limiting
+        const rateLimitCheck = checkRateLimit(`stkpush:${userId}`);
+        if (rateLimitCheck.limited) {
+          throw new Error(rateLimitCheck.message);
+        }
+
+        if (!phoneNumber || !await SecurityUtils.validatePhoneNumber(phoneNumber)) {
+          throw new Error('Invalid Kenyan phone number format');
+        }
+
+        const provider = requireProvider(phoneNumber);
+        const amountValidation = SecurityUtils.validateAmount(amount, provider, 'collection');
+        if (!amountValidation.valid) {
+          throw new Error(amountValidation.error);
+        }
+
+        const membership = await verifyChamaMembership(chamaId, userId);
+        if (!membership.isMember) {
+          throw new Error('Unauthorized: Not a member of this chama');
+        }
+
+        const { data: chama, error: chamaError } = await getSupabaseAdmin()
+          .from('chamas')
+          .select('chama_type')
+          .eq('id', chamaId)
+          .single();
+
+        if (chamaError || !chama || chama.chama_type !== 'table_banking') {
+          throw new Error('Shares are only sold by table-banking chamas');
+        }
+
+        const requestId = generateRequestId();
+        const stkResult = await sendSTKPush({
+          user_id: userId,
+          chama_id: chamaId,
+          phone_number: cleanPhoneNumber(phoneNumber),
+          amount: amount,
+          status: 'pending',
+          request_id: requestId,
+          purpose: 'share_purchase',
+          provider,
+          created_at: new Date().toISOString()
+        }, SECURITY_CONFIG.STK_SHARES_DESC);
+
+        return {
+          success: true,
+          message: stkResult.customerMessage || 'Payment request sent successfully',
+          requestId: requestId,
+          checkoutRequestId: stkResult.checkoutRequestId,
+          provider,
+        };
+      }, asOwner(userId));
+    } catch (error: any) {
+      console.error('Share purchase initiation error:', error);
+      throw new Error(`Payment initiation failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Send money from the chama to a phone number (chairpersons and treasurers only)
+   */
+  async disburseFunds(
+    phoneNumber: string,
+    amount: number,
+    reference: string,
+    userId: string,
+    chamaId: string,
+    idempotencyKey?: string
+  ): Promise<DisbursementResponse> {
+    try {
+      return await withIdempotency('mpesa.disburse_funds', idempotencyKey, { phoneNumber, amount, reference, userId, chamaId }, async () => {
+        // Input validation
+        if (!phoneNumber || !reference || !userId || !chamaId) {
+          throw new Error('All fields are required');
+        }
+
+        // Rate limiting
+        const rateLimitCheck = checkRateLimit(`disburse:${userId}`);
+        if (rateLimitCheck.limited) {
+          throw new Error(rateLimitCheck.message);
+        }
+
+        // Phone number validation
+        if (!await SecurityUtils.validatePhoneNumber(phoneNumber)) {
+          throw new Error('Invalid Kenyan phone number format');
+        }
+
+        // Amount validation against the recipient's wallet limits
+        const provider = requireProvider(phoneNumber);
+        const amountValidation = SecurityUtils.validateAmount(amount, provider, 'disbursement');
+        if (!amountValidation.valid) {
+          throw new Error(amountValidation.error);
+        }
+
+        // Reference validation
+        if (reference.length < 3 || reference.length > SECURITY_CONFIG.MAX_REFERENCE_LENGTH) {
+          throw new Error('Reference must be between 3 and 50 characters');
+        }
+
+        // UUID validation
+        if (!isValidUUID(userId) || !isValidUUID(chamaId)) {
+          throw new Error('Invalid request parameters');
+        }
+
+        // Authorization check
+        const authorization = await verifyDisbursementAuthorization(chamaId, userId);
+        if (!authorization.authorized) {
+          throw new Error(authorization.error || 'Unauthorized action');
+        }
+
+        const sanitizedReference = SecurityUtils.sanitizeInput(reference, 'reference');
+
+        const requestId = generateRequestId();
+        await sendDisbursement({
+          chama_id: chamaId,
+          initiated_by: userId,
+          phone_number: cleanPhoneNumber(phoneNumber),
+          amount: amount,
+          reference: sanitizedReference,
+          status: 'pending',
+          request_id: requestId,
+          provider,
+          created_at: new Date().toISOString()
+        });
+
+        return {
+          success: true,
+          message: 'Disbursement initiated successfully',
+          reference: sanitizedReference,
+          disbursementId: requestId,
+          provider
+        };
+      }, asOwner(userId));
+    } catch (error: any) {
+      console.error('Funds disbursement error:', error);
+      throw new Error(`Disbursement failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Pay out an approved payout request via B2C; failed attempts can be retried
+   */
+  async disbursePayout(payoutRequestId: string, userId: string, idempotencyKey?: string): Promise<DisbursementResponse> {
+    try {
+      return await withIdempotency('mpesa.disburse_payout', idempotencyKey, { payoutRequestId, userId }, async () => {
+        if (!isValidUUID(payoutRequestId) || !isValidUUID(userId)) {
+          throw new Error('Invalid request parameters');
+        }
+
+        // Rate limiting
+        const rateLimitCheck = checkRateLimit(`disburse:${userId}`);
+        if (rateLimitCheck.limited) {
+          throw new Error(rateLimitCheck.message);
+        }
+
+        const supabaseAdmin = getSupabaseAdmin();
+        const { data: request, error: requestError } = await supabaseAdmin
+          .from('payout_requests')
+          .select(`
+            id, chama_id, amount, request_type, status,
+            member:chama_members!payout_requests_member_id_fkey(
+              user:users(phone_number)
+            )
+          `)
+          .eq('id', payoutRequestId)
+          .single();
+
+        if (requestError || !request) {
+          throw new Error('Payout request not found');
+        }
+
+        // Authorization check
+        const authorization = await verifyDisbursementAuthorization(request.chama_id, userId);
+        if (!authorization.authorized) {
+          throw new Error(authorization.error || 'Unauthorized action');
+        }
+
+        if (request.status === 'paid') {
+          throw new Error('This request has already been paid');
+        }
+
+        if (request.status !== 'approved') {
+          throw new Error('Only approved requests can be disbursed');
+        }
+
+        // Security: retry only when every earlier attempt has definitively failed
+        const { data: attempts, error: attemptsError } = await supabaseAdmin
+          .from('disbursement_logs')
+          .select('status, attempt')
+          .eq('payout_request_id', payoutRequestId)
+          .order('attempt', { ascending: false });
+
+        if (attemptsError) {
+          console.error('Disbursement attempts query error:', attemptsError);
+          throw new Error('Failed to check previous disbursements');
+        }
+
+        if (attempts?.some(a => a.status !== 'failed')) {
+          throw new Error('A disbursement for this request is already in progress');
+        }
+
+        const recipientPhone = (request.member as any)?.user?.phone_number;
+        if (!recipientPhone || !await SecurityUtils.validatePhoneNumber(recipientPhone)) {
+          throw new Error('Recipient has no valid mobile money phone number');
+        }
+
+        const provider = requireProvider(recipientPhone);
+        const amountValidation = SecurityUtils.validateAmount(request.amount, provider, 'disbursement');
+        if (!amountValidation.valid) {
+          throw new Error(amountValidation.error);
+        }
+
+        const { data: chama, error: chamaError } = await supabaseAdmin
+          .from('chamas')
+          .select('total_kitty')
+          .eq('id', request.chama_id)
+          .single();
+
+        if (chamaError || !chama) {
+          throw new Error('Chama not found');
+        }
+
+        if ((chama.total_kitty || 0) < request.amount) {
+          throw new Error('Insufficient funds in the chama kitty');
+        }
+
+        const attempt = (attempts?.[0]?.attempt || 0) + 1;
+        const requestId = generateRequestId();
+
+        await sendDisbursement({
+          chama_id: request.chama_id,
+          payout_request_id: request.id,
+          initiated_by: userId,
+          phone_number: cleanPhoneNumber(recipientPhone),
+          amount: request.amount,
+          reference: `${request.request_type.toUpperCase()}-${request.id.substring(0, 8)}`,
+          status: 'pending',
+          attempt,
+          request_id: requestId,
+          provider,
+          created_at: new Date().toISOString()
+        });
+
+        return {
+          success: true,
+          message: `Disbursement sent. The request will be marked paid once ${PROVIDER_NAMES[provider]} confirms.`,
+          disbursementId: requestId,
+          attempt,
+          provider
+        };
+      }, asOwner(userId));
+    } catch (error: any) {
+      console.error('Payout disbursement error:', error);
+      throw new Error(`Disbursement failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Settle STK pushes whose callback never arrived by querying their provider (run on a schedule)
+   */
+  async reconcilePendingSTKRequests(olderThanMs: number = SECURITY_CONFIG.STK_QUERY_AFTER_MS) {
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('stale_stk_requests', {
+        p_older_than_seconds: Math.floor(olderThanMs / 1000),
+        p_limit: SECURITY_CONFIG.STK_RECONCILE_BATCH,
+      });
+
+      if (error) {
+        console.error('Stale STK request lookup error:', error);
+        throw new Error('Failed to load pending transactions');
+      }
+
+      const outcomes: Record<string, number> = {};
+
+      // One at a time so a large backlog stays within the providers' rate limits
+      for (const log of data || []) {
+        let outcome: string;
+        try {
+          outcome = await settleFromStatusQuery(log);
+        } catch (queryError: any) {
+          console.error(`STK status query error for ${log.request_id}:`, queryError);
+          outcome = 'error';
+        }
+        outcomes[outcome] = (outcomes[outcome] || 0) + 1;
+      }
+
+      return { success: true, checked: (data || []).length, outcomes };
+    } catch (error: any) {
+      console.error('STK reconciliation error:', error);
+      return { success: false, error: error.message };
+    }
+  },
+};
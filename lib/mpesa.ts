@@ -1,65 +1,24 @@
 import { Database } from '@/lib/database.types';
-import { supabase } from '@/lib/supabase';
+import type { DisbursementResponse, STKPushResponse } from '@/lib/mpesa-server';
+import { isValidUUID, supabase } from '@/lib/supabase';
 
 // Security Configuration
 const SECURITY_CONFIG = {
-  MAX_AMOUNT: 150000, // M-Pesa limit
-  MIN_AMOUNT: 1,
   MAX_PHONE_LENGTH: 16,
   MAX_REFERENCE_LENGTH: 50,
   MAX_TRANSACTION_CODE_LENGTH: 20,
-  RATE_LIMIT_WINDOW: 60000, // 1 minute
 } as const;
 
 // Type definitions based on database schema
 type Transaction = Database['public']['Tables']['transactions']['Row'];
-type TransactionInsert = Database['public']['Tables']['transactions']['Insert'];
 type TransactionLog = Database['public']['Tables']['transaction_logs']['Row'];
 type TransactionLogInsert = Database['public']['Tables']['transaction_logs']['Insert'];
 type DisbursementLog = Database['public']['Tables']['disbursement_logs']['Row'];
 type DisbursementLogInsert = Database['public']['Tables']['disbursement_logs']['Insert'];
 type ChamaMember = Database['public']['Tables']['chama_members']['Row'];
 
-// Rate limiting storage
-const transactionAttempts = new Map<string, { count: number; lastAttempt: number }>();
-
 // Security utilities
 const SecurityUtils = {
-  async validatePhoneNumber(phoneNumber: string): Promise<boolean> {
-    try {
-      const cleanPhone = phoneNumber.replace(/\s/g, '');
-      const phoneRegex = /^(\+254|254|0)?(1[0-1]|7\d)(\d{7})$/;
-      
-      if (!phoneRegex.test(cleanPhone)) {
-        return false;
-      }
-      
-      const digitsOnly = cleanPhone.replace(/\D/g, '');
-      let normalizedDigits = digitsOnly;
-      
-      if (digitsOnly.startsWith('0')) {
-        normalizedDigits = '254' + digitsOnly.substring(1);
-      } else if (digitsOnly.length === 9) {
-        normalizedDigits = '254' + digitsOnly;
-      }
-      
-      // Security: Check for suspicious patterns
-      const sequentialRegex = /(0123|1234|2345|3456|4567|5678|6789|7890)/;
-      if (sequentialRegex.test(normalizedDigits)) {
-        return false;
-      }
-      
-      const repeatedRegex = /(\d)\1{4,}/;
-      if (repeatedRegex.test(normalizedDigits)) {
-        return false;
-      }
-      
-      return normalizedDigits.length === 12;
-    } catch (error) {
-      return false;
-    }
-  },
-
   sanitizeInput(input: string, type: 'text' | 'phone' | 'number' | 'reference' = 'text'): string {
     let sanitized = input.trim();
     
@@ -84,417 +43,87 @@ const SecurityUtils = {
     }
     
     return sanitized;
-  },
-
-  validateAmount(amount: number): { valid: boolean; error?: string } {
-    if (typeof amount !== 'number' || isNaN(amount)) {
-      return { valid: false, error: 'Invalid amount format' };
-    }
-
-    if (amount < SECURITY_CONFIG.MIN_AMOUNT) {
-      return { valid: false, error: `Amount must be at least ${SECURITY_CONFIG.MIN_AMOUNT} KES` };
-    }
-
-    if (amount > SECURITY_CONFIG.MAX_AMOUNT) {
-      return { valid: false, error: `Amount cannot exceed ${SECURITY_CONFIG.MAX_AMOUNT} KES` };
-    }
-
-    return { valid: true };
   }
 };
 
-// Internal helper functions
-const cleanPhoneNumber = (phone: string): string => {
-  let clean = phone.replace(/\s+/g, '');
-  if (clean.startsWith('0')) {
-    clean = '+254' + clean.substring(1);
-  } else if (!clean.startsWith('+')) {
-    clean = '+254' + clean;
+// Payment actions run in API routes so provider credentials never ship with the app; failures throw like the
+// server-side service does
+const callPaymentApi = async <T>(path: string, body: Record<string, unknown>): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Authentication required');
   }
-  return clean;
-};
-
-const generateRequestId = (): string => {
-  const timestamp = Date.now().toString();
-  const random = Math.random().toString(36).substring(2, 8);
-  return `WC${timestamp}${random}`.toUpperCase();
-};
 
-const isValidUUID = (id: string): boolean => {
-  if (!id) return false;
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(id);
-};
-
-const checkRateLimit = (identifier: string): { limited: boolean; message?: string } => {
-  const now = Date.now();
-  const attempt = transactionAttempts.get(identifier);
-  
-  if (!attempt) {
-    transactionAttempts.set(identifier, { count: 1, lastAttempt: now });
-    return { limited: false };
-  }
-
-  // Reset counter if more than time window has passed
-  if (now - attempt.lastAttempt > SECURITY_CONFIG.RATE_LIMIT_WINDOW) {
-    transactionAttempts.set(identifier, { count: 1, lastAttempt: now });
-    return { limited: false };
-  }
-
-  // Check attempts (max 5 per minute)
-  if (attempt.count >= 5) {
-    return { limited: true, message: 'Too many attempts. Please try again later.' };
-  }
-
-  transactionAttempts.set(identifier, { 
-    count: attempt.count + 1, 
-    lastAttempt: now 
-  });
-  
-  return { limited: false };
-};
-
-const validateTransaction = async (transactionCode: string, amount: number, phoneNumber: string): Promise<{ valid: boolean; error?: string; amount?: number; phoneNumber?: string; transactionDate?: string }> => {
+  let response: Response;
   try {
-    // Security: Check for duplicate transaction
-    const { data: existingTransaction, error: queryError } = await supabase
-      .from('transactions')
-      .select('id')
-      .eq('transaction_code', transactionCode)
-      .single();
-
-    if (queryError && queryError.code !== 'PGRST116') { // PGRST116 is "not found"
-      console.error('Transaction query error:', queryError);
-      return { valid: false, error: 'Transaction verification service unavailable' };
-    }
-
-    if (existingTransaction) {
-      return { valid: false, error: 'This transaction has already been processed' };
-    }
-
-    // TODO: Implement actual M-Pesa verification logic here
-    // For now, simulate successful verification with security checks
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Simulate verification failure for testing (10% failure rate)
-    if (Math.random() < 0.1) {
-      return { valid: false, error: 'Transaction verification failed' };
-    }
-
-    return { 
-      valid: true, 
-      amount, 
-      phoneNumber,
-      transactionDate: new Date().toISOString()
-    };
+    response = await fetch(`${process.env.EXPO_PUBLIC_API_URL || ''}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    });
   } catch (error) {
-    console.error('Transaction validation error:', error);
-    return { valid: false, error: 'Transaction verification service unavailable' };
+    throw new Error('Network error occurred. Please try again.');
   }
-};
-
-const verifyChamaMembership = async (chamaId: string, userId: string): Promise<{ isMember: boolean; role?: string }> => {
-  try {
-    const { data, error } = await supabase
-      .from('chama_members')
-      .select('role')
-      .eq('chama_id', chamaId)
-      .eq('user_id', userId)
-      .single();
-
-    if (error || !data) {
-      return { isMember: false };
-    }
 
-    return { isMember: true, role: data.role };
-  } catch (error) {
-    return { isMember: false };
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || 'Payment service unavailable. Please try again.');
   }
+  return result as T;
 };
 
-const verifyDisbursementAuthorization = async (chamaId: string, userId: string): Promise<{ authorized: boolean; error?: string }> => {
-  try {
-    const membership = await verifyChamaMembership(chamaId, userId);
-    
-    if (!membership.isMember) {
-      return { authorized: false, error: 'Not a member of this chama' };
-    }
-
-    if (!['chairperson', 'treasurer'].includes(membership.role || '')) {
-      return { authorized: false, error: 'Only chairpersons and treasurers can disburse funds' };
-    }
-
-    return { authorized: true };
-  } catch (error) {
-    return { authorized: false, error: 'Authorization check failed' };
-  }
-};
+/**
+ * Account reference for paying a chama's paybill: its paybill code followed by the member number
+ */
+export const formatPaybillReference = (paybillCode: string, memberNumber: number): string =>
+  `${paybillCode}${memberNumber}`;
 
 export const MpesaService = {
   /**
-   * Initiate STK Push with enhanced security
+   * Prompt the member's phone for a contribution; the server sends the push and the callback records it
    */
-  async initiateSTKPush(phoneNumber: string, amount: number, chamaId: string, userId: string) {
-    try {
-      // Input validation
-      if (!phoneNumber || !chamaId || !userId) {
-        throw new Error('Phone number, chama ID, and user ID are required');
-      }
-
-      // Rate limiting
-      const rateLimitCheck = checkRateLimit(`stkpush:${userId}`);
-      if (rateLimitCheck.limited) {
-        throw new Error(rateLimitCheck.message);
-      }
-
-      // Phone number validation
-      if (!await SecurityUtils.validatePhoneNumber(phoneNumber)) {
-        throw new Error('Invalid Kenyan phone number format');
-      }
-
-      // Amount validation
-      const amountValidation = SecurityUtils.validateAmount(amount);
-      if (!amountValidation.valid) {
-        throw new Error(amountValidation.error);
-      }
-
-      // UUID validation
-      if (!isValidUUID(chamaId) || !isValidUUID(userId)) {
-        throw new Error('Invalid request parameters');
-      }
-
-      const cleanPhone = cleanPhoneNumber(phoneNumber);
-      const sanitizedChamaId = SecurityUtils.sanitizeInput(chamaId, 'text');
-
-      // Verify user is member of the chama
-      const membership = await verifyChamaMembership(sanitizedChamaId, userId);
-      if (!membership.isMember) {
-        throw new Error('Unauthorized: Not a member of this chama');
-      }
-
-      // Log transaction attempt for audit trail
-      const requestId = generateRequestId();
-      const transactionLogData: TransactionLogInsert = {
-        user_id: userId,
-        chama_id: sanitizedChamaId,
-        phone_number: cleanPhone,
-        amount: amount,
-        status: 'pending',
-        request_id: requestId,
-        created_at: new Date().toISOString()
-      };
-
-      const { error: logError } = await supabase
-        .from('transaction_logs')
-        .insert(transactionLogData);
-
-      if (logError) {
-        console.error('Failed to log transaction attempt:', logError);
-        throw new Error('Transaction logging failed');
-      }
-
-      // TODO: Integrate with Africa's Talking or Daraja API
-      console.log('Initiating STK Push:', { 
-        phoneNumber: cleanPhone, 
-        amount, 
-        chamaId: sanitizedChamaId,
-        userId,
-        requestId
-      });
-      
-      // Simulate API call with timeout and security
-      return await new Promise((resolve, reject) => {
-        setTimeout(() => {
-          // Simulate random failures for testing
-          if (Math.random() < 0.1) {
-            reject(new Error('Network error occurred. Please try again.'));
-          } else {
-            resolve({ 
-              success: true, 
-              message: 'Payment request sent successfully',
-              requestId: requestId
-            });
-          }
-        }, 2000);
-      });
-    } catch (error: any) {
-      console.error('STK Push initiation error:', error);
-      throw new Error(`Payment initiation failed: ${error.message}`);
-    }
+  async initiateSTKPush(phoneNumber: string, amount: number, chamaId: string, idempotencyKey?: string) {
+    return callPaymentApi<STKPushResponse>('/api/mpesa/stk-push', { phoneNumber, amount, chamaId, idempotencyKey });
   },
 
   /**
-   * Verify transaction with enhanced security
+   * Pay an outstanding fine through the STK flow
    */
-  async verifyTransaction(transactionCode: string, amount: number, phoneNumber: string, userId: string) {
-    try {
-      if (!transactionCode || transactionCode.length < 5) {
-        return { valid: false, error: 'Invalid transaction code' };
-      }
-
-      // Rate limiting
-      const rateLimitCheck = checkRateLimit(`verify:${userId}`);
-      if (rateLimitCheck.limited) {
-        return { valid: false, error: rateLimitCheck.message };
-      }
-
-      const sanitizedCode = SecurityUtils.sanitizeInput(transactionCode, 'text');
-      const cleanPhone = cleanPhoneNumber(phoneNumber);
-
-      // Validate phone number
-      if (!await SecurityUtils.validatePhoneNumber(cleanPhone)) {
-        return { valid: false, error: 'Invalid phone number' };
-      }
-
-      // Validate amount
-      const amountValidation = SecurityUtils.validateAmount(amount);
-      if (!amountValidation.valid) {
-        return { valid: false, error: amountValidation.error };
-      }
-
-      // UUID validation
-      if (!isValidUUID(userId)) {
-        return { valid: false, error: 'Invalid user ID' };
-      }
-
-      // Verify transaction
-      const verificationResult = await validateTransaction(sanitizedCode, amount, cleanPhone);
-      
-      if (verificationResult.valid) {
-        try {
-          // Log successful verification
-          const { error: updateError } = await supabase
-            .from('transaction_logs')
-            .update({
-              status: 'verified',
-              transaction_code: sanitizedCode,
-              verified_at: new Date().toISOString()
-            })
-            .eq('phone_number', cleanPhone)
-            .eq('amount', amount)
-            .eq('status', 'pending');
-
-          if (updateError) {
-            console.error('Failed to update transaction log:', updateError);
-          }
-
-          // Create actual transaction record
-          const transactionData: TransactionInsert = {
-            user_id: userId,
-            phone_number: cleanPhone,
-            amount: amount,
-            transaction_code: sanitizedCode,
-            status: 'completed',
-            created_at: new Date().toISOString()
-          };
-
-          const { error: transactionError } = await supabase
-            .from('transactions')
-            .insert(transactionData);
-
-          if (transactionError) {
-            console.error('Failed to create transaction record:', transactionError);
-          }
-        } catch (logError) {
-          console.error('Transaction logging error:', logError);
-          // Don't fail verification if logging fails
-        }
-      }
-
-      return verificationResult;
-    } catch (error: any) {
-      console.error('Transaction verification error:', error);
-      return { valid: false, error: 'Verification failed. Please try again.' };
-    }
+  async payFine(fineId: string, phoneNumber: string, idempotencyKey?: string) {
+    return callPaymentApi<STKPushResponse>('/api/mpesa/pay-fine', { fineId, phoneNumber, idempotencyKey });
   },
 
   /**
-   * Disburse funds with enhanced security
+   * Pay the entry fee charged on joining a chama through the STK flow
    */
-  async disburseFunds(phoneNumber: string, amount: number, reference: string, userId: string, chamaId: string) {
-    try {
-      // Input validation
-      if (!phoneNumber || !reference || !userId || !chamaId) {
-        throw new Error('All fields are required');
-      }
-
-      // Rate limiting
-      const rateLimitCheck = checkRateLimit(`disburse:${userId}`);
-      if (rateLimitCheck.limited) {
-        throw new Error(rateLimitCheck.message);
-      }
-
-      // Phone number validation
-      if (!await SecurityUtils.validatePhoneNumber(phoneNumber)) {
-        throw new Error('Invalid Kenyan phone number format');
-      }
-
-      // Amount validation
-      const amountValidation = SecurityUtils.validateAmount(amount);
-      if (!amountValidation.valid) {
-        throw new Error(amountValidation.error);
-      }
-
-      // Reference validation
-      if (reference.length < 3 || reference.length > SECURITY_CONFIG.MAX_REFERENCE_LENGTH) {
-        throw new Error('Reference must be between 3 and 50 characters');
-      }
-
-      // UUID validation
-      if (!isValidUUID(userId) || !isValidUUID(chamaId)) {
-        throw new Error('Invalid request parameters');
-      }
-
-      // Authorization check
-      const authorization = await verifyDisbursementAuthorization(chamaId, userId);
-      if (!authorization.authorized) {
-        throw new Error(authorization.error || 'Unauthorized action');
-      }
-
-      const cleanPhone = cleanPhoneNumber(phoneNumber);
-      const sanitizedReference = SecurityUtils.sanitizeInput(reference, 'reference');
-
-      // Log disbursement attempt
-      const disbursementData: DisbursementLogInsert = {
-        chama_id: chamaId,
-        initiated_by: userId,
-        phone_number: cleanPhone,
-        amount: amount,
-        reference: sanitizedReference,
-        status: 'pending',
-        created_at: new Date().toISOString()
-      };
-
-      const { error: logError } = await supabase
-        .from('disbursement_logs')
-        .insert(disbursementData);
+  async payEntryFee(feeId: string, phoneNumber: string, idempotencyKey?: string) {
+    return callPaymentApi<STKPushResponse>('/api/mpesa/pay-entry-fee', { feeId, phoneNumber, idempotencyKey });
+  },
 
-      if (logError) {
-        console.error('Failed to log disbursement attempt:', logError);
-        throw new Error('Disbursement logging failed');
-      }
+  /**
+   * Buy share capital in a table-banking chama through the STK flow
+   */
+  async buyShares(phoneNumber: string, amount: number, chamaId: string, idempotencyKey?: string) {
+    return callPaymentApi<STKPushResponse>('/api/mpesa/buy-shares', { phoneNumber, amount, chamaId, idempotencyKey });
+  },
 
-      // TODO: Implement B2C M-Pesa API for disbursements
-      console.log('Disbursing funds:', {
-        phoneNumber: cleanPhone,
-        amount,
-        reference: sanitizedReference,
-        chamaId,
-        initiatedBy: userId
-      });
+  /**
+   * Send money from the chama to a phone number (chairpersons and treasurers only)
+   */
+  async disburseFunds(phoneNumber: string, amount: number, reference: string, chamaId: string, idempotencyKey?: string) {
+    return callPaymentApi<DisbursementResponse>('/api/mpesa/disburse-funds', {
+      phoneNumber, amount, reference, chamaId, idempotencyKey,
+    });
+  },
 
-      return { 
-        success: true, 
-        message: 'Disbursement initiated successfully',
-        reference: sanitizedReference,
-        disbursementId: generateRequestId()
-      };
-    } catch (error: any) {
-      console.error('Funds disbursement error:', error);
-      throw new Error(`Disbursement failed: ${error.message}`);
-    }
+  /**
+   * Pay out an approved payout request via B2C; failed attempts can be retried
+   */
+  async disbursePayout(payoutRequestId: string, idempotencyKey?: string) {
+    return callPaymentApi<DisbursementResponse>('/api/mpesa/disburse-payout', { payoutRequestId, idempotencyKey });
   },
 
   /**
@@ -534,7 +163,44 @@ export const MpesaService = {
   },
 
   /**
-   * Check transaction status
+   * Paybill number and account reference a member uses to pay the chama without an STK prompt
+   */
+  async getPaybillAccount(chamaId: string, userId: string) {
+    try {
+      if (!isValidUUID(chamaId) || !isValidUUID(userId)) {
+        return { success: false, error: 'Invalid chama or user ID' };
+      }
+
+      const paybillNumber = process.env.EXPO_PUBLIC_MPESA_PAYBILL;
+      if (!paybillNumber) {
+        return { success: false, error: 'Paybill payments are not set up' };
+      }
+
+      const { data, error } = await supabase
+        .from('chama_members')
+        .select('member_number, chamas(paybill_code)')
+        .eq('chama_id', chamaId)
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .single();
+
+      if (error || !data?.chamas) {
+        return { success: false, error: 'You are not an active member of this chama' };
+      }
+
+      return {
+        success: true,
+        paybillNumber,
+        accountReference: formatPaybillReference(data.chamas.paybill_code, data.member_number),
+      };
+    } catch (error: any) {
+      console.error('Paybill account error:', error);
+      return { success: false, error: 'Failed to load paybill details' };
+    }
+  },
+
+  /**
+   * Check transaction status; late callbacks are settled on the server by the scheduled reconciler
    */
   async checkTransactionStatus(requestId: string, userId: string) {
     try {
@@ -551,12 +217,12 @@ export const MpesaService = {
 
       const { data, error } = await supabase
         .from('transaction_logs')
-        .select('status, transaction_code, verified_at, amount, phone_number')
+        .select('status, transaction_code, verified_at, amount, phone_number, result_desc')
         .eq('request_id', sanitizedRequestId)
         .eq('user_id', userId)
         .single();
 
-      if (error) {
+      if (error || !data) {
         return { success: false, error: 'Transaction not found' };
       }
 
@@ -566,4 +232,4 @@ export const MpesaService = {
       return { success: false, error: 'Failed to check transaction status' };
     }
   }
-};
\ No newline at end of file
+};
@@ -1,4 +1,6 @@
-import { supabase } from '@/lib/supabase';
+import { GuarantorNomination, GuarantorService, validateGuarantors } from '@/lib/guarantors';
+import { IdempotencyError, withIdempotency } from '@/lib/idempotency';
+import { isValidUUID, supabase } from '@/lib/supabase';
 import { Database } from '@/types/database.types';
 
 // Security Configuration
@@ -14,7 +16,6 @@ const SECURITY_CONFIG = {
 type PayoutRequest = Database['public']['Tables']['payout_requests']['Row'];
 type PayoutRequestInsert = Database['public']['Tables']['payout_requests']['Insert'];
 type PayoutVote = Database['public']['Tables']['payout_votes']['Row'];
-type PayoutVoteInsert = Database['public']['Tables']['payout_votes']['Insert'];
 type ChamaMember = Database['public']['Tables']['chama_members']['Row'];
 type Chama = Database['public']['Tables']['chamas']['Row'];
 
@@ -88,12 +89,6 @@ const checkRateLimit = (identifier: string): { limited: boolean; message?: strin
   return { limited: false };
 };
 
-const isValidUUID = (id: string): boolean => {
-  if (!id) return false;
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(id);
-};
-
 const verifyChamaMembership = async (chamaId: string, userId: string): Promise<{ isMember: boolean; membershipId?: string; role?: string }> => {
   try {
     const { data, error } = await supabase
@@ -113,53 +108,16 @@ const verifyChamaMembership = async (chamaId: string, userId: string): Promise<{
   }
 };
 
-const checkVoteStatus = async (requestId: string): Promise<void> => {
-  try {
-    const { data: votes, error } = await supabase
-      .from('payout_votes')
-      .select('*')
-      .eq('payout_request_id', requestId);
-
-    if (error) throw error;
-
-    const totalVotes = votes.length;
-    const approveVotes = votes.filter(vote => vote.vote === 'approve').length;
-
-    // Get total members in chama for quorum calculation
-    const { data: request } = await supabase
-      .from('payout_requests')
-      .select('chama_id')
-      .eq('id', requestId)
-      .single();
-
-    if (request) {
-      const { data: members } = await supabase
-        .from('chama_members')
-        .select('id')
-        .eq('chama_id', request.chama_id);
-
-      const totalMembers = members?.length || 1;
-      
-      // Require majority of votes AND at least 50% member participation
-      const participationRate = totalVotes / totalMembers;
-      
-      if (approveVotes > totalVotes / 2 && participationRate >= 0.5) {
-        await supabase
-          .from('payout_requests')
-          .update({ status: 'approved' })
-          .eq('id', requestId);
-      } else if (totalVotes >= totalMembers) {
-        // All members voted but didn't reach majority
-        await supabase
-          .from('payout_requests')
-          .update({ status: 'rejected' })
-          .eq('id', requestId);
-      }
-    }
-  } catch (error) {
-    console.error('Vote status check error:', error);
-  }
-};
+// Borrowing capacity as computed by get_loan_eligibility
+export interface LoanEligibility {
+  savings: number;
+  pledged_savings: number;
+  available_savings: number;
+  multiplier: number;
+  savings_limit: number;
+  outstanding_loans: number;
+  max_loan: number;
+}
 
 interface PayoutRequestData {
   chama_id: string;
@@ -168,6 +126,7 @@ interface PayoutRequestData {
   purpose: string;
   interest_rate?: number;
   repayment_period?: number;
+  guarantors?: GuarantorNomination[];
 }
 
 const validatePayoutRequest = (requestData: PayoutRequestData): { valid: boolean; error?: string } => {
@@ -201,6 +160,15 @@ const validatePayoutRequest = (requestData: PayoutRequestData): { valid: boolean
     if (!requestData.repayment_period || requestData.repayment_period < 1 || requestData.repayment_period > 36) {
       return { valid: false, error: 'Valid repayment period required (1-36 months)' };
     }
+
+    if (requestData.guarantors && requestData.guarantors.length > 0) {
+      const guarantorValidation = validateGuarantors(requestData.guarantors);
+      if (!guarantorValidation.valid) {
+        return { valid: false, error: guarantorValidation.error };
+      }
+    }
+  } else if (requestData.guarantors && requestData.guarantors.length > 0) {
+    return { valid: false, error: 'Only loans can have guarantors' };
   }
 
   return { valid: true };
@@ -210,84 +178,138 @@ export const PayoutService = {
   /**
    * Request payout with enhanced security
    */
-  async requestPayout(requestData: PayoutRequestData) {
+  async requestPayout(requestData: PayoutRequestData, idempotencyKey?: string) {
     try {
-      const { data: { user }, error: authError } = await supabase.auth.getUser();
-      if (authError || !user) {
-        return { success: false, error: 'Authentication required' };
-      }
-
-      // Rate limiting
-      const rateLimitCheck = checkRateLimit(`payoutRequest:${user.id}`);
-      if (rateLimitCheck.limited) {
-        return { success: false, error: rateLimitCheck.message };
-      }
-
-      // Input validation
-      const validation = validatePayoutRequest(requestData);
-      if (!validation.valid) {
-        return { success: false, error: validation.error };
-      }
-
-      // Verify user is member of this chama
-      const membership = await verifyChamaMembership(requestData.chama_id, user.id);
-      if (!membership.isMember) {
-        return { success: false, error: 'Not a member of this chama' };
-      }
-
-      // Check if chama has sufficient funds
-      const { data: chama, error: chamaError } = await supabase
-        .from('chamas')
-        .select('total_kitty, contribution_amount')
-        .eq('id', requestData.chama_id)
-        .single();
-
-      if (chamaError || !chama) {
-        return { success: false, error: 'Chama not found' };
-      }
-
-      if (chama.total_kitty < requestData.amount) {
-        return { success: false, error: 'Insufficient chama funds' };
+      return await withIdempotency('payouts.request', idempotencyKey, requestData, async () => {
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+          return { success: false, error: 'Authentication required' };
+        }
+
+        // Rate limiting
+        const rateLimitCheck = checkRateLimit(`payoutRequest:${user.id}`);
+        if (rateLimitCheck.limited) {
+          return { success: false, error: rateLimitCheck.message };
+        }
+
+        // Input validation
+        const validation = validatePayoutRequest(requestData);
+        if (!validation.valid) {
+          return { success: false, error: validation.error };
+        }
+
+        // Verify user is member of this chama
+        const membership = await verifyChamaMembership(requestData.chama_id, user.id);
+        if (!membership.isMember) {
+          return { success: false, error: 'Not a member of this chama' };
+        }
+
+        // Check if chama has sufficient funds
+        const { data: chama, error: chamaError } = await supabase
+          .from('chamas')
+          .select('total_kitty, contribution_amount')
+          .eq('id', requestData.chama_id)
+          .single();
+
+        if (chamaError || !chama) {
+          return { success: false, error: 'Chama not found' };
+        }
+
+        if (chama.total_kitty < requestData.amount) {
+          return { success: false, error: 'Insufficient chama funds' };
+        }
+
+        if (requestData.request_type === 'loan') {
+          // Security: Loans are capped by the borrower's savings (also enforced by the database)
+          const eligibility = await PayoutService.getLoanEligibility(requestData.chama_id);
+          if (!eligibility.success || !eligibility.eligibility) {
+            return { success: false, error: eligibility.error };
+          }
+
+          // Anything above the borrower's own limit has to be pledged by guarantors
+          const shortfall = requestData.amount - eligibility.eligibility.max_loan;
+          const pledged = (requestData.guarantors || []).reduce((total, g) => total + g.pledged_amount, 0);
+          if (shortfall > 0 && pledged < shortfall) {
+            return {
+              success: false,
+              error: `Loan amount exceeds your limit of KES ${eligibility.eligibility.max_loan}. Nominate guarantors pledging at least KES ${shortfall}.`
+            };
+          }
+        } else {
+          // Security: Limit payout amount to reasonable multiple of contribution
+          const maxPayout = chama.contribution_amount * 10; // Max 10x monthly contribution
+          if (requestData.amount > maxPayout) {
+            return { success: false, error: 'Payout amount exceeds maximum allowed' };
+          }
+        }
+
+        const sanitizedPurpose = SecurityUtils.sanitizeInput(requestData.purpose, 'text');
+
+        const payoutRequestData: PayoutRequestInsert = {
+          chama_id: requestData.chama_id,
+          amount: requestData.amount,
+          request_type: requestData.request_type,
+          purpose: sanitizedPurpose,
+          interest_rate: requestData.interest_rate,
+          repayment_period: requestData.repayment_period,
+          member_id: membership.membershipId!,
+          status: 'pending',
+          created_at: new Date().toISOString()
+        };
+
+        const { data, error } = await supabase
+          .from('payout_requests')
+          .insert(payoutRequestData)
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Payout request error:', error);
+          return { success: false, error: 'Failed to create payout request' };
+        }
+
+        // Reset rate limit on success
+        payoutAttempts.delete(`payoutRequest:${user.id}`);
+
+        // The request stands even if nomination fails; the borrower can nominate again from the request
+        if (requestData.guarantors && requestData.guarantors.length > 0) {
+          const nomination = await GuarantorService.nominateGuarantors(data.id, requestData.guarantors);
+          if (!nomination.success) {
+            return { success: true, request: data, guarantorError: nomination.error };
+          }
+        }
+
+        return { success: true, request: data };
+      });
+    } catch (error: any) {
+      if (error instanceof IdempotencyError) {
+        return { success: false, error: error.message };
       }
+      console.error('Payout request unexpected error:', error);
+      return { success: false, error: 'Failed to create payout request' };
+    }
+  },
 
-      // Security: Limit payout amount to reasonable multiple of contribution
-      const maxPayout = chama.contribution_amount * 10; // Max 10x monthly contribution
-      if (requestData.amount > maxPayout) {
-        return { success: false, error: 'Payout amount exceeds maximum allowed' };
+  /**
+   * How much the signed-in member can borrow right now
+   */
+  async getLoanEligibility(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
       }
 
-      const sanitizedPurpose = SecurityUtils.sanitizeInput(requestData.purpose, 'text');
-
-      const payoutRequestData: PayoutRequestInsert = {
-        chama_id: requestData.chama_id,
-        amount: requestData.amount,
-        request_type: requestData.request_type,
-        purpose: sanitizedPurpose,
-        interest_rate: requestData.interest_rate,
-        repayment_period: requestData.repayment_period,
-        member_id: membership.membershipId!,
-        status: 'pending',
-        created_at: new Date().toISOString()
-      };
-
-      const { data, error } = await supabase
-        .from('payout_requests')
-        .insert(payoutRequestData)
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc('get_loan_eligibility', { p_chama_id: chamaId });
 
       if (error) {
-        console.error('Payout request error:', error);
-        return { success: false, error: 'Failed to create payout request' };
+        console.error('Loan eligibility error:', error);
+        return { success: false, error: 'Failed to check loan eligibility' };
       }
 
-      // Reset rate limit on success
-      payoutAttempts.delete(`payoutRequest:${user.id}`);
-
-      return { success: true, request: data };
+      return { success: true, eligibility: data as unknown as LoanEligibility };
     } catch (error: any) {
-      console.error('Payout request unexpected error:', error);
-      return { success: false, error: 'Failed to create payout request' };
+      console.error('Loan eligibility unexpected error:', error);
+      return { success: false, error: 'Failed to check loan eligibility' };
     }
   },
 
@@ -319,7 +341,7 @@ export const PayoutService = {
       // Get payout request details
       const { data: payoutRequest, error: requestError } = await supabase
         .from('payout_requests')
-        .select('chama_id, status')
+        .select('chama_id, status, guarantee_required, voting_deadline')
         .eq('id', requestId)
         .single();
 
@@ -328,51 +350,34 @@ export const PayoutService = {
       }
 
       // Check if request is still open for voting
-      if (payoutRequest.status !== 'pending') {
+      if (payoutRequest.status !== 'pending'
+        || (payoutRequest.voting_deadline && new Date(payoutRequest.voting_deadline) <= new Date())) {
         return { success: false, error: 'Voting is closed for this request' };
       }
 
-      // Verify user is member of this chama
-      const membership = await verifyChamaMembership(payoutRequest.chama_id, user.id);
-      if (!membership.isMember) {
-        return { success: false, error: 'Not authorized to vote' };
-      }
-
-      // Check if user already voted
-      const { data: existingVote } = await supabase
-        .from('payout_votes')
-        .select('id')
-        .eq('payout_request_id', requestId)
-        .eq('member_id', membership.membershipId)
-        .single();
-
-      if (existingVote) {
-        return { success: false, error: 'Already voted on this request' };
+      // Loans above the borrower's own limit wait for guarantors (also enforced by the database)
+      if (payoutRequest.guarantee_required > 0) {
+        const guarantors = await GuarantorService.getLoanGuarantors(requestId);
+        if (!guarantors.success || !guarantors.coverage || guarantors.coverage.covered < guarantors.coverage.required) {
+          return { success: false, error: 'Voting opens once guarantors have accepted enough of this loan' };
+        }
       }
 
-      const voteData: PayoutVoteInsert = {
-        payout_request_id: requestId,
-        member_id: membership.membershipId!,
-        vote: vote,
-        voted_at: new Date().toISOString()
-      };
-
-      const { error } = await supabase
-        .from('payout_votes')
-        .insert(voteData);
+      // Eligibility, the vote and the threshold check run in one transaction under the chama's voting rules
+      const { data: outcome, error } = await supabase.rpc('cast_payout_vote', {
+        p_payout_request_id: requestId,
+        p_vote: vote,
+      });
 
       if (error) {
         console.error('Vote recording error:', error);
-        return { success: false, error: 'Failed to record vote' };
+        return { success: false, error: error.message || 'Failed to record vote' };
       }
 
-      // Check if request reached voting threshold
-      await checkVoteStatus(requestId);
-
       // Reset rate limit on success
       payoutAttempts.delete(`vote:${user.id}`);
 
-      return { success: true };
+      return { success: true, outcome: outcome as string };
     } catch (error: any) {
       console.error('Vote unexpected error:', error);
       return { success: false, error: 'Failed to process vote' };
@@ -404,7 +409,7 @@ export const PayoutService = {
         .from('payout_requests')
         .select(`
           *,
-          member:chama_members(
+          member:chama_members!payout_requests_member_id_fkey(
             user:users(full_name, phone_number)
           ),
           votes:payout_votes(
@@ -413,6 +418,13 @@ export const PayoutService = {
             member:chama_members(
               user:users(full_name)
             )
+          ),
+          guarantors:loan_guarantors(
+            pledged_amount,
+            status,
+            member:chama_members(
+              user:users(full_name)
+            )
           )
         `)
         .eq('chama_id', chamaId)
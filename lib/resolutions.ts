@@ -0,0 +1,258 @@
+import { Json } from '@/lib/database.types';
+import { DatabaseOperations, isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MIN_TITLE_LENGTH: 5,
+  MAX_TITLE_LENGTH: 200,
+  MAX_DESCRIPTION_LENGTH: 2000,
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 10,
+} as const;
+
+const RESOLUTION_TYPES = ['general', 'constitution', 'officer_change', 'investment', 'expel_member'] as const;
+export type ResolutionType = typeof RESOLUTION_TYPES[number];
+
+export type ResolutionAction =
+  | { type: 'update_role'; member_id: string; role: 'member' | 'treasurer' | 'chairperson' | 'secretary' }
+  | { type: 'expel_member'; member_id: string };
+
+export interface ResolutionOption {
+  label: string;
+  opportunity_id?: string;
+  action?: ResolutionAction;
+}
+
+export interface ResolutionProposal {
+  chama_id: string;
+  resolution_type: ResolutionType;
+  title: string;
+  description?: string;
+  // Polls list their choices; resolutions without options are approve/reject
+  options?: ResolutionOption[];
+  action?: ResolutionAction;
+  // Raise the chama's threshold or quorum, or change the voting period, for this resolution only
+  rules?: { approval_threshold?: number; quorum_percentage?: number; voting_period_hours?: number };
+}
+
+// Internal helper functions
+const isValidAction = (action: ResolutionAction): boolean =>
+  (action.type === 'update_role' || action.type === 'expel_member') && isValidUUID(action.member_id);
+
+/**
+ * Validate a proposal before it reaches the database
+ */
+export const validateResolutionProposal = (proposal: ResolutionProposal): { valid: boolean; error?: string } => {
+  if (!isValidUUID(proposal.chama_id)) {
+    return { valid: false, error: 'Invalid chama ID' };
+  }
+
+  if (!RESOLUTION_TYPES.includes(proposal.resolution_type)) {
+    return { valid: false, error: 'Invalid resolution type' };
+  }
+
+  const title = proposal.title?.trim() || '';
+  if (title.length < SECURITY_CONFIG.MIN_TITLE_LENGTH || title.length > SECURITY_CONFIG.MAX_TITLE_LENGTH) {
+    return { valid: false, error: `Title must be ${SECURITY_CONFIG.MIN_TITLE_LENGTH}-${SECURITY_CONFIG.MAX_TITLE_LENGTH} characters` };
+  }
+
+  if (proposal.description && proposal.description.length > SECURITY_CONFIG.MAX_DESCRIPTION_LENGTH) {
+    return { valid: false, error: 'Description is too long' };
+  }
+
+  if (proposal.options) {
+    if (proposal.options.length < SECURITY_CONFIG.MIN_OPTIONS || proposal.options.length > SECURITY_CONFIG.MAX_OPTIONS) {
+      return { valid: false, error: `Polls need between ${SECURITY_CONFIG.MIN_OPTIONS} and ${SECURITY_CONFIG.MAX_OPTIONS} options` };
+    }
+
+    if (proposal.action) {
+      return { valid: false, error: 'Poll actions belong on their options' };
+    }
+
+    for (const option of proposal.options) {
+      if (!option.label?.trim()) {
+        return { valid: false, error: 'Every option needs a label' };
+      }
+
+      if (option.opportunity_id && !isValidUUID(option.opportunity_id)) {
+        return { valid: false, error: 'Invalid investment opportunity' };
+      }
+
+      if (option.action && !isValidAction(option.action)) {
+        return { valid: false, error: 'Invalid option action' };
+      }
+    }
+  }
+
+  if (proposal.action && !isValidAction(proposal.action)) {
+    return { valid: false, error: 'Invalid resolution action' };
+  }
+
+  return { valid: true };
+};
+
+export const ResolutionService = {
+  /**
+   * Open a resolution or poll for the chama to vote on
+   */
+  async proposeResolution(proposal: ResolutionProposal) {
+    try {
+      const validation = validateResolutionProposal(proposal);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const { data, error } = await supabase.rpc('propose_resolution', {
+        p_chama_id: proposal.chama_id,
+        p_resolution_type: proposal.resolution_type,
+        p_title: proposal.title.trim(),
+        p_description: proposal.description?.trim() || null,
+        p_options: proposal.options
+          ? proposal.options.map(option => ({
+            label: option.label.trim(),
+            opportunity_id: option.opportunity_id ?? null,
+            action: option.action ?? null,
+          })) as Json
+          : null,
+        p_action: (proposal.action ?? null) as Json,
+        p_rules: (proposal.rules ?? null) as Json,
+      });
+
+      if (error) {
+        console.error('Resolution proposal error:', error);
+        return { success: false, error: error.message || 'Failed to propose resolution' };
+      }
+
+      return { success: true, resolutionId: data as string };
+    } catch (error: any) {
+      console.error('Resolution proposal unexpected error:', error);
+      return { success: false, error: 'Failed to propose resolution' };
+    }
+  },
+
+  /**
+   * Vote on a resolution (approve/reject) or pick a poll option; returns the resolution's status afterwards
+   */
+  async voteOnResolution(resolutionId: string, choice: { vote: 'approve' | 'reject' } | { optionId: string }) {
+    try {
+      if (!isValidUUID(resolutionId)) {
+        return { success: false, error: 'Invalid resolution ID' };
+      }
+
+      if ('optionId' in choice && !isValidUUID(choice.optionId)) {
+        return { success: false, error: 'Invalid option' };
+      }
+
+      if ('vote' in choice && !['approve', 'reject'].includes(choice.vote)) {
+        return { success: false, error: 'Invalid vote' };
+      }
+
+      const { data, error } = await supabase.rpc('cast_resolution_vote', {
+        p_resolution_id: resolutionId,
+        p_vote: 'vote' in choice ? choice.vote : null,
+        p_option_id: 'optionId' in choice ? choice.optionId : null,
+      });
+
+      if (error) {
+        console.error('Resolution vote error:', error);
+        return { success: false, error: error.message || 'Failed to record vote' };
+      }
+
+      return { success: true, outcome: data as string };
+    } catch (error: any) {
+      console.error('Resolution vote unexpected error:', error);
+      return { success: false, error: 'Failed to record vote' };
+    }
+  },
+
+  /**
+   * A chama's resolutions with their options and votes, newest first
+   */
+  async getChamaResolutions(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('resolutions')
+        .select(`
+          *,
+          proposer:chama_members!resolutions_proposed_by_fkey(
+            user:users(full_name)
+          ),
+          options:resolution_options(*),
+          votes:resolution_votes(
+            vote,
+            option_id,
+            member:chama_members(
+              user:users(full_name)
+            )
+          )
+        `)
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Resolutions fetch error:', error);
+        return { success: false, error: 'Failed to fetch resolutions' };
+      }
+
+      return { success: true, resolutions: data || [] };
+    } catch (error: any) {
+      console.error('Resolutions fetch unexpected error:', error);
+      return { success: false, error: 'Failed to fetch resolutions' };
+    }
+  },
+
+  /**
+   * Carry out a passed resolution's action and mark it executed (proposer or officers)
+   */
+  async executeResolution(resolutionId: string) {
+    try {
+      if (!isValidUUID(resolutionId)) {
+        return { success: false, error: 'Invalid resolution ID' };
+      }
+
+      const { data: resolution, error: fetchError } = await supabase
+        .from('resolutions')
+        .select('status, action')
+        .eq('id', resolutionId)
+        .single();
+
+      if (fetchError || !resolution) {
+        return { success: false, error: 'Resolution not found' };
+      }
+
+      if (resolution.status !== 'passed') {
+        return { success: false, error: 'Only passed resolutions can be executed' };
+      }
+
+      // The database only lets these updates through when they match the passed resolution
+      const action = resolution.action as ResolutionAction | null;
+      if (action?.type === 'update_role') {
+        const result = await DatabaseOperations.members.updateRole(action.member_id, action.role);
+        if (!result.success) {
+          return { success: false, error: result.error || 'Failed to change member role' };
+        }
+      } else if (action?.type === 'expel_member') {
+        const result = await DatabaseOperations.members.deactivate(action.member_id);
+        if (!result.success) {
+          return { success: false, error: result.error || 'Failed to remove member' };
+        }
+      }
+
+      const { error } = await supabase.rpc('complete_resolution_action', { p_resolution_id: resolutionId });
+
+      if (error) {
+        console.error('Resolution execution error:', error);
+        return { success: false, error: error.message || 'Failed to execute resolution' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Resolution execution unexpected error:', error);
+      return { success: false, error: 'Failed to execute resolution' };
+    }
+  },
+};
@@ -0,0 +1,105 @@
+import { isValidUUID, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_BID_AMOUNT: 100000,
+} as const;
+
+export interface RotationCalendarEntry {
+  round: number;
+  position: number;
+  member_id: string;
+  full_name: string;
+  bid_amount: number;
+  cycle_period: string | null;
+  expected_date: string | null;
+  // Members who left before their turn are skipped
+  status: 'paid' | 'next' | 'upcoming' | 'skipped';
+  payout_request_id: string | null;
+}
+
+export const RotationService = {
+  /**
+   * Set the order for a new round (officers only). Manual chamas pass every active member in payout order;
+   * random and bid chamas let the database draw or rank the order.
+   */
+  async startRotation(chamaId: string, memberOrder?: string[]) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (memberOrder && (!memberOrder.every(isValidUUID) || new Set(memberOrder).size !== memberOrder.length)) {
+        return { success: false, error: 'The order must list each member once' };
+      }
+
+      const { data, error } = await supabase.rpc('start_rotation', {
+        p_chama_id: chamaId,
+        p_order: memberOrder ?? null,
+      });
+
+      if (error) {
+        console.error('Start rotation error:', error);
+        return { success: false, error: error.message || 'Failed to set rotation order' };
+      }
+
+      return { success: true, round: data as number };
+    } catch (error: any) {
+      console.error('Start rotation unexpected error:', error);
+      return { success: false, error: 'Failed to set rotation order' };
+    }
+  },
+
+  /**
+   * Bid for an earlier turn in the next round; the bid is kept back from your payout
+   */
+  async placeBid(chamaId: string, amount: number) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (!Number.isFinite(amount) || amount < 0 || amount > SECURITY_CONFIG.MAX_BID_AMOUNT) {
+        return { success: false, error: 'Invalid bid amount' };
+      }
+
+      const { data, error } = await supabase.rpc('place_rotation_bid', {
+        p_chama_id: chamaId,
+        p_amount: amount,
+      });
+
+      if (error) {
+        console.error('Rotation bid error:', error);
+        return { success: false, error: error.message || 'Failed to place bid' };
+      }
+
+      return { success: true, round: data as number };
+    } catch (error: any) {
+      console.error('Rotation bid unexpected error:', error);
+      return { success: false, error: 'Failed to place bid' };
+    }
+  },
+
+  /**
+   * Every turn in the rotation with its expected payout date
+   */
+  async getCalendar(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase.rpc('get_rotation_calendar', { p_chama_id: chamaId });
+
+      if (error) {
+        console.error('Rotation calendar error:', error);
+        return { success: false, error: 'Failed to fetch rotation calendar' };
+      }
+
+      return { success: true, calendar: (data || []) as RotationCalendarEntry[] };
+    } catch (error: any) {
+      console.error('Rotation calendar unexpected error:', error);
+      return { success: false, error: 'Failed to fetch rotation calendar' };
+    }
+  },
+};
@@ -0,0 +1,531 @@
+import { isValidUUID, KenyanPhoneUtils, supabase } from '@/lib/supabase';
+
+// Security Configuration
+const SECURITY_CONFIG = {
+  MAX_FILE_LENGTH: 2 * 1024 * 1024, // 2 MB of CSV text
+  MAX_LINES: 1000,
+  MAX_REFERENCE_LENGTH: 50,
+  REFERENCE_LOOKUP_BATCH: 200,
+} as const;
+
+export type StatementSource = 'mpesa_paybill' | 'mpesa_till' | 'bank';
+
+export interface StatementLine {
+  lineNumber: number;
+  // M-Pesa receipt number or bank reference; the same payment always gets the same reference
+  reference: string;
+  paidAt: string;
+  amount: number;
+  // 2547XXXXXXXX, or masked (2547*****678) as M-Pesa statements often show it
+  phoneNumber: string | null;
+  payerName: string | null;
+  accountReference: string | null;
+  description: string;
+}
+
+export interface MatchedStatementLine extends StatementLine {
+  memberId: string | null;
+  memberName: string | null;
+  // exact: a member and one of their unpaid obligations of the same amount; member: the member only;
+  // none: the treasurer has to allocate the line by hand
+  match: 'exact' | 'member' | 'none';
+  matchedBy: 'phone' | 'account_reference' | null;
+  obligationId: string | null;
+  alreadyPosted: boolean;
+}
+
+export interface StatementMember {
+  id: string;
+  full_name: string;
+  phone_number: string;
+}
+
+export interface StatementObligation {
+  id: string;
+  member_id: string;
+  amount: number;
+  amount_paid: number;
+  due_date: string | null;
+}
+
+// Internal helper functions
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+// Header names accepted for each column, compared lowercase with punctuation and spaces removed
+const MPESA_COLUMNS = {
+  reference: ['receiptno', 'receiptnumber', 'transactionid'],
+  date: ['completiontime', 'initiationtime', 'transactiondate'],
+  amount: ['paidin', 'amount'],
+  status: ['transactionstatus', 'status'],
+  party: ['otherpartyinfo', 'otherparty'],
+  account: ['acno', 'accountno', 'accountnumber', 'billrefnumber'],
+  details: ['details', 'description'],
+} as const;
+
+const BANK_COLUMNS = {
+  reference: ['reference', 'referenceno', 'refno', 'ref', 'transactionreference', 'bankreference', 'chequeno'],
+  date: ['transactiondate', 'trandate', 'postingdate', 'postdate', 'date', 'valuedate'],
+  credit: ['credit', 'credits', 'creditamount', 'moneyin', 'deposit', 'deposits', 'paidin', 'cr'],
+  amount: ['amount', 'transactionamount'],
+  details: ['description', 'narrative', 'narration', 'particulars', 'details', 'transactiondetails'],
+} as const;
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findColumn = (headers: string[], names: readonly string[]): number =>
+  headers.findIndex(header => names.includes(header));
+
+// RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+};
+
+const parseAmount = (value: string | undefined): number | null => {
+  if (!value) return null;
+
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith('-');
+  const amount = parseFloat(value.replace(/[^0-9.]/g, ''));
+
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+/**
+ * Read a statement date as Nairobi time; accepts 2024-03-15 10:22:11, 15/03/2024, 15-03-2024 and 15-Mar-2024 forms
+ */
+export const parseStatementDate = (value: string | undefined): string | null => {
+  if (!value) return null;
+
+  const text = value.trim();
+  const time = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  const named = text.match(/^(\d{1,2})[-\s]([a-z]{3})[a-z]*[-\s,]+(\d{2,4})/i);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+  } else if (named && MONTHS[named[2].toLowerCase()]) {
+    [day, month, year] = [Number(named[1]), MONTHS[named[2].toLowerCase()], Number(named[3])];
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  let hours = time ? Number(time[1]) : 0;
+  if (time?.[4]) {
+    hours = (hours % 12) + (time[4].toLowerCase() === 'pm' ? 12 : 0);
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = new Date(
+    `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${time ? time[2] : '00'}:${time?.[3] ?? '00'}+03:00`
+  );
+
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Stored member phones are 2547XXXXXXXX; masked digits are kept so they can still be compared
+const toStoredPhone = (value: string): string | null => {
+  const clean = value.replace(/[\s-]/g, '');
+
+  if (clean.includes('*')) {
+    const masked = clean.replace(/^\+?254/, '').replace(/^0/, '');
+    return /^[17][\d*]{8}$/.test(masked) ? '254' + masked : null;
+  }
+
+  const normalized = KenyanPhoneUtils.normalizeToInternational(clean.replace(/^254/, '+254'));
+  return /^\+254[17]\d{8}$/.test(normalized) ? normalized.substring(1) : null;
+};
+
+const findPhone = (text: string): string | null => {
+  const found = text.match(/(?:\+?254|0)[17][\d*]{8}/);
+  return found ? toStoredPhone(found[0]) : null;
+};
+
+const phoneMatches = (statementPhone: string, memberPhone: string): boolean => {
+  if (statementPhone.length !== memberPhone.length) return false;
+  return [...statementPhone].every((digit, i) => digit === '*' || digit === memberPhone[i]);
+};
+
+// Stable reference for bank lines without one, so re-importing the same statement is still detected
+const fallbackReference = (paidAt: string, amount: number, description: string): string => {
+  let hash = 5381;
+  for (const char of description) {
+    hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  }
+  return `BANK-${paidAt.substring(0, 10).replace(/-/g, '')}-${Math.round(amount * 100)}-${hash.toString(36)}`.toUpperCase();
+};
+
+const parseMpesaRows = (headers: string[], rows: string[][]): StatementLine[] => {
+  const columns = {
+    reference: findColumn(headers, MPESA_COLUMNS.reference),
+    date: findColumn(headers, MPESA_COLUMNS.date),
+    amount: findColumn(headers, MPESA_COLUMNS.amount),
+    status: findColumn(headers, MPESA_COLUMNS.status),
+    party: findColumn(headers, MPESA_COLUMNS.party),
+    account: findColumn(headers, MPESA_COLUMNS.account),
+    details: findColumn(headers, MPESA_COLUMNS.details),
+  };
+  const lines: StatementLine[] = [];
+
+  rows.forEach((row, index) => {
+    const amount = parseAmount(row[columns.amount]);
+    const paidAt = parseStatementDate(row[columns.date]);
+    const reference = row[columns.reference]?.toUpperCase();
+
+    // Only money received: withdrawals, charges and failed transactions have no Paid In amount
+    if (!amount || amount <= 0 || !paidAt || !reference) return;
+    if (columns.status >= 0 && row[columns.status] && !/^completed$/i.test(row[columns.status])) return;
+
+    // Other Party Info reads "254712345678 - JANE WANJIKU" (phone sometimes masked)
+    const party = columns.party >= 0 ? row[columns.party] || '' : '';
+    const [partyPhone, ...partyName] = party.split(/\s+-\s+/);
+    const details = columns.details >= 0 ? row[columns.details] || '' : '';
+
+    lines.push({
+      lineNumber: index + 1,
+      reference: reference.substring(0, SECURITY_CONFIG.MAX_REFERENCE_LENGTH),
+      paidAt,
+      amount,
+      phoneNumber: findPhone(partyPhone) ?? findPhone(details),
+      payerName: partyName.join(' - ').trim() || null,
+      accountReference: columns.account >= 0 ? row[columns.account] || null : null,
+      description: details || party,
+    });
+  });
+
+  return lines;
+};
+
+const parseBankRows = (headers: string[], rows: string[][]): StatementLine[] => {
+  const columns = {
+    reference: findColumn(headers, BANK_COLUMNS.reference),
+    date: findColumn(headers, BANK_COLUMNS.date),
+    credit: findColumn(headers, BANK_COLUMNS.credit),
+    amount: findColumn(headers, BANK_COLUMNS.amount),
+    details: findColumn(headers, BANK_COLUMNS.details),
+  };
+  const lines: StatementLine[] = [];
+
+  rows.forEach((row, index) => {
+    // Either a credit column, or a signed amount column where deposits are positive
+    const amount = parseAmount(row[columns.credit >= 0 ? columns.credit : columns.amount]);
+    const paidAt = parseStatementDate(row[columns.date]);
+    const description = columns.details >= 0 ? row[columns.details] || '' : '';
+
+    if (!amount || amount <= 0 || !paidAt) return;
+
+    const reference = (columns.reference >= 0 && row[columns.reference])
+      ? row[columns.reference].toUpperCase()
+      : fallbackReference(paidAt, amount, description);
+
+    lines.push({
+      lineNumber: index + 1,
+      reference: reference.substring(0, SECURITY_CONFIG.MAX_REFERENCE_LENGTH),
+      paidAt,
+      amount,
+      phoneNumber: findPhone(description),
+      payerName: null,
+      // Bank depositors put the member's phone or name in the narrative
+      accountReference: description || null,
+      description,
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * Read an M-Pesa paybill/till statement or bank statement CSV export into money-in lines
+ */
+export const parseStatement = (text: string): {
+  success: boolean;
+  source?: StatementSource;
+  lines?: StatementLine[];
+  error?: string;
+} => {
+  if (!text || text.length > SECURITY_CONFIG.MAX_FILE_LENGTH) {
+    return { success: false, error: 'The statement file is empty or too large' };
+  }
+
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+
+  // Portal exports start with a few summary rows; the header is the first row naming the columns we need
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const headers = rows[i].map(normalizeHeader);
+    const body = rows.slice(i + 1);
+
+    if (findColumn(headers, MPESA_COLUMNS.reference) >= 0 && findColumn(headers, MPESA_COLUMNS.amount) >= 0) {
+      const lines = parseMpesaRows(headers, body);
+      const source = findColumn(headers, MPESA_COLUMNS.account) >= 0 ? 'mpesa_paybill' : 'mpesa_till';
+      return lines.length > SECURITY_CONFIG.MAX_LINES
+        ? { success: false, error: `Import at most ${SECURITY_CONFIG.MAX_LINES} lines at a time` }
+        : { success: true, source, lines };
+    }
+
+    const hasBankAmount = findColumn(headers, BANK_COLUMNS.credit) >= 0 || findColumn(headers, BANK_COLUMNS.amount) >= 0;
+    if (findColumn(headers, BANK_COLUMNS.date) >= 0 && hasBankAmount) {
+      const lines = parseBankRows(headers, body);
+      return lines.length > SECURITY_CONFIG.MAX_LINES
+        ? { success: false, error: `Import at most ${SECURITY_CONFIG.MAX_LINES} lines at a time` }
+        : { success: true, source: 'bank', lines };
+    }
+  }
+
+  return { success: false, error: 'This does not look like an M-Pesa or bank statement export' };
+};
+
+/**
+ * Match statement lines to members by phone or account reference, then to an unpaid obligation of the same amount
+ */
+export const matchStatementLines = (
+  lines: StatementLine[],
+  members: StatementMember[],
+  obligations: StatementObligation[],
+  postedReferences: Set<string>
+): MatchedStatementLine[] => {
+  const usedObligations = new Set<string>();
+  const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+  return lines.map(line => {
+    let member: StatementMember | undefined;
+    let matchedBy: MatchedStatementLine['matchedBy'] = null;
+
+    if (line.phoneNumber) {
+      const candidates = members.filter(m => phoneMatches(line.phoneNumber!, m.phone_number));
+      // A masked number only counts when it fits exactly one member
+      if (candidates.length === 1) {
+        member = candidates[0];
+        matchedBy = 'phone';
+      }
+    }
+
+    if (!member && line.accountReference) {
+      const accountPhone = findPhone(line.accountReference);
+      const accountName = normalizeName(line.accountReference);
+      const candidates = members.filter(m =>
+        (accountPhone !== null && phoneMatches(accountPhone, m.phone_number)) ||
+        // Short names would match inside unrelated narratives
+        (normalizeName(m.full_name).length >= 5 && accountName.includes(normalizeName(m.full_name)))
+      );
+
+      if (candidates.length === 1) {
+        member = candidates[0];
+        matchedBy = 'account_reference';
+      }
+    }
+
+    // Obligations arrive oldest first, so each payment settles the earliest unpaid cycle whose balance it covers
+    const obligation = member && obligations.find(o =>
+      o.member_id === member!.id && Number(o.amount) - Number(o.amount_paid) === line.amount && !usedObligations.has(o.id)
+    );
+    if (obligation) usedObligations.add(obligation.id);
+
+    return {
+      ...line,
+      memberId: member?.id ?? null,
+      memberName: member?.full_name ?? null,
+      match: obligation ? 'exact' : member ? 'member' : 'none',
+      matchedBy,
+      obligationId: obligation ? obligation.id : null,
+      alreadyPosted: postedReferences.has(line.reference),
+    };
+  });
+};
+
+export const StatementService = {
+  /**
+   * Parse a statement export and match its lines against the chama's members and unpaid obligations
+   * (treasurer only)
+   */
+  async prepareImport(chamaId: string, text: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const parsed = parseStatement(text);
+      if (!parsed.success || !parsed.lines || !parsed.source) {
+        return { success: false, error: parsed.error };
+      }
+
+      const [membersResult, obligationsResult] = await Promise.all([
+        supabase
+          .from('chama_members')
+          .select('id, user:users(full_name, phone_number)')
+          .eq('chama_id', chamaId)
+          .eq('is_active', true),
+        supabase
+          .from('contributions')
+          .select('id, member_id, amount, amount_paid, due_date')
+          .eq('chama_id', chamaId)
+          .eq('is_paid', false)
+          .order('due_date', { ascending: true }),
+      ]);
+
+      if (membersResult.error || obligationsResult.error) {
+        console.error('Statement match data fetch error:', membersResult.error || obligationsResult.error);
+        return { success: false, error: 'Failed to load members and obligations' };
+      }
+
+      const members: StatementMember[] = (membersResult.data || []).flatMap((member: any) =>
+        member.user ? [{ id: member.id, full_name: member.user.full_name, phone_number: member.user.phone_number }] : []
+      );
+
+      // References already booked, by an earlier import or an STK payment
+      const references = parsed.lines.map(line => line.reference);
+      const postedReferences = new Set<string>();
+      for (let i = 0; i < references.length; i += SECURITY_CONFIG.REFERENCE_LOOKUP_BATCH) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('transaction_code')
+          .eq('chama_id', chamaId)
+          .in('transaction_code', references.slice(i, i + SECURITY_CONFIG.REFERENCE_LOOKUP_BATCH));
+
+        if (error) {
+          console.error('Posted references fetch error:', error);
+          return { success: false, error: 'Failed to check for lines already posted' };
+        }
+
+        (data || []).forEach(row => {
+          if (row.transaction_code) postedReferences.add(row.transaction_code);
+        });
+      }
+
+      return {
+        success: true,
+        source: parsed.source,
+        members,
+        lines: matchStatementLines(parsed.lines, members, obligationsResult.data || [], postedReferences),
+      };
+    } catch (error: any) {
+      console.error('Prepare statement import error:', error);
+      return { success: false, error: error.message || 'Failed to read statement' };
+    }
+  },
+
+  /**
+   * Post the allocated lines as completed contributions; lines already booked are skipped (treasurer only)
+   */
+  async postImport(
+    chamaId: string,
+    source: StatementSource,
+    fileName: string,
+    lineCount: number,
+    allocations: { line: StatementLine; memberId: string }[]
+  ) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      if (allocations.length === 0) {
+        return { success: false, error: 'Allocate at least one statement line to a member' };
+      }
+
+      if (allocations.some(allocation => !isValidUUID(allocation.memberId))) {
+        return { success: false, error: 'Invalid member ID' };
+      }
+
+      const { data, error } = await supabase.rpc('post_statement_import', {
+        p_chama_id: chamaId,
+        p_source: source,
+        p_file_name: fileName,
+        p_line_count: lineCount,
+        p_allocations: allocations.map(({ line, memberId }) => ({
+          reference: line.reference,
+          member_id: memberId,
+          amount: line.amount,
+          paid_at: line.paidAt,
+          description: line.description.substring(0, 500),
+        })),
+      });
+
+      if (error) {
+        console.error('Statement import error:', error);
+        return { success: false, error: error.message || 'Failed to post statement' };
+      }
+
+      return {
+        success: true,
+        result: data as { import_id: string; posted: number; duplicates: number; posted_amount: number },
+      };
+    } catch (error: any) {
+      console.error('Post statement import error:', error);
+      return { success: false, error: 'Failed to post statement' };
+    }
+  },
+
+  /**
+   * A chama's past statement imports, newest first (officers only)
+   */
+  async getImports(chamaId: string) {
+    try {
+      if (!isValidUUID(chamaId)) {
+        return { success: false, error: 'Invalid chama ID' };
+      }
+
+      const { data, error } = await supabase
+        .from('statement_imports')
+        .select('*')
+        .eq('chama_id', chamaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Statement imports fetch error:', error);
+        return { success: false, error: 'Failed to fetch statement imports' };
+      }
+
+      return { success: true, imports: data || [] };
+    } catch (error: any) {
+      console.error('Get statement imports error:', error);
+      return { success: false, error: 'Failed to fetch statement imports' };
+    }
+  },
+};
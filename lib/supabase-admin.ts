@@ -0,0 +1,51 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from './database.types';
+
+// Server-only: the service role bypasses RLS, so this module must never be imported by app screens, hooks or
+// client services. API routes use it for payment settlement and scheduled jobs.
+let adminClient: SupabaseClient<Database> | null = null;
+
+/**
+ * Service-role client for API routes; throws when the server is not configured with SUPABASE_SERVICE_ROLE_KEY
+ */
+export const getSupabaseAdmin = (): SupabaseClient<Database> => {
+  if (!adminClient) {
+    const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Supabase service role is not configured');
+    }
+
+    adminClient = createClient<Database>(supabaseUrl, serviceRoleKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+      global: {
+        headers: {
+          'x-application-name': 'wealthcircle-api',
+        },
+      },
+    });
+  }
+  return adminClient;
+};
+
+/**
+ * Signed-in user behind an API request's `Authorization: Bearer <access token>` header, or null
+ */
+export const getRequestUserId = async (request: Request): Promise<string | null> => {
+  const header = request.headers.get('Authorization') || '';
+  const accessToken = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!accessToken) return null;
+
+  try {
+    const { data, error } = await getSupabaseAdmin().auth.getUser(accessToken);
+    return error || !data.user ? null : data.user.id;
+  } catch (error) {
+    console.error('API request authentication error:', error);
+    return null;
+  }
+};
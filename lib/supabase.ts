@@ -79,6 +79,11 @@ export const KenyanPhoneUtils = {
       return cleanPhone;
     }
     
+    // Stored and M-Pesa MSISDNs carry the country code without the '+'
+    if (/^254\d{9}$/.test(cleanPhone)) {
+      return '+' + cleanPhone;
+    }
+
     // If starts with 0, replace with +254
     if (cleanPhone.startsWith('0')) {
       return '+254' + cleanPhone.substring(1);
@@ -114,26 +119,41 @@ export const KenyanPhoneUtils = {
    */
   getCarrier: (phone: string): string => {
     const cleanPhone = KenyanPhoneUtils.normalizeToInternational(phone);
-    const prefix = cleanPhone.substring(4, 6); // Get digits after +254
-    
-    const carriers: { [key: string]: string } = {
-      '70': 'Safaricom',
-      '71': 'Safaricom',
-      '72': 'Safaricom',
-      '74': 'Safaricom',
-      '75': 'Airtel', // Also used by Safaricom
-      '76': 'Airtel', // Also used by Safaricom
-      '77': 'Telkom',
-      '78': 'Airtel',
-      '79': 'Safaricom', // Also used by Airtel
-      '11': 'Landline', // Nairobi landlines
-      '20': 'Landline', // Eldoret
+    const mobilePrefix = cleanPhone.substring(4, 7); // First three digits after +254
+
+    // Mobile ranges as allocated by the Communications Authority; 75x, 76x and 79x are split between operators
+    const mobileRanges: [string, string, string][] = [
+      ['700', '729', 'Safaricom'],
+      ['730', '739', 'Airtel'],
+      ['740', '743', 'Safaricom'],
+      ['745', '746', 'Safaricom'],
+      ['748', '748', 'Safaricom'],
+      ['750', '756', 'Airtel'],
+      ['757', '759', 'Safaricom'],
+      ['762', '762', 'Airtel'],
+      ['763', '766', 'Equitel'],
+      ['768', '769', 'Safaricom'],
+      ['770', '779', 'Telkom'],
+      ['780', '789', 'Airtel'],
+      ['790', '799', 'Safaricom'],
+      ['100', '102', 'Airtel'],
+      ['110', '115', 'Safaricom'],
+    ];
+
+    const range = mobileRanges.find(([from, to]) => mobilePrefix >= from && mobilePrefix <= to);
+    if (range && /^\+254\d{9}$/.test(cleanPhone)) {
+      return range[2];
+    }
+
+    const landlines: { [key: string]: string } = {
+      '20': 'Landline', // Nairobi
       '40': 'Landline', // Mombasa
       '50': 'Landline', // Kakamega
+      '53': 'Landline', // Eldoret
       '60': 'Landline', // Meru
     };
-    
-    return carriers[prefix] || 'Unknown';
+
+    return landlines[cleanPhone.substring(4, 6)] || 'Unknown';
   },
 
   /**
@@ -480,6 +500,44 @@ export const validateInput = {
   },
 };
 
+export const isValidUUID = (id: string): boolean => {
+  if (!id) return false;
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(id);
+};
+
+/**
+ * POST to one of the app's API routes as the signed-in user; failures come back as `{ success: false, error }`
+ */
+export const callServerApi = async <T extends { success: boolean; error?: string }>(
+  path: string,
+  body: Record<string, unknown>
+): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Authentication required' } as T;
+  }
+
+  try {
+    const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL || ''}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.success) {
+      return { success: false, error: result?.error || 'Service unavailable. Please try again.' } as T;
+    }
+    return result as T;
+  } catch (error) {
+    return { success: false, error: 'Network error occurred. Please try again.' } as T;
+  }
+};
+
 // REMOVED: Conflicting rate limiting implementation from this file
 
 // Security: Data sanitization utilities
@@ -578,7 +636,7 @@ export const initializeSecureDatabase = async (): Promise<{ success: boolean; er
 // Security: User permission validation using database types
 export const validateUserPermissions = async (
   chamaId: string, 
-  requiredRole?: Database['public']['Enums']['member_role']
+  requiredRole?: Database['public']['Enums']['user_role']
 ): Promise<{ success: boolean; error?: string; role?: string }> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -703,7 +761,7 @@ export const DatabaseOperations = {
       );
     },
     
-    updateRole: async (memberId: string, role: Database['public']['Enums']['member_role']) => {
+    updateRole: async (memberId: string, role: Database['public']['Enums']['user_role']) => {
       return executeSecureQuery(
         supabase
           .from('chama_members')
@@ -714,6 +772,18 @@ export const DatabaseOperations = {
         'UPDATE_MEMBER_ROLE'
       );
     },
+
+    deactivate: async (memberId: string) => {
+      return executeSecureQuery(
+        supabase
+          .from('chama_members')
+          .update({ is_active: false })
+          .eq('id', memberId)
+          .select()
+          .single(),
+        'DEACTIVATE_MEMBER'
+      );
+    },
   },
   
   // Contribution operations
@@ -1,13 +1,37 @@
 import { useChama } from '@/contexts/ChamaContext';
+import { GuarantorService } from '@/lib/guarantors';
 import { PayoutService } from '@/lib/payouts';
 import { router } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { Alert, RefreshControl, ScrollView, View } from 'react-native';
-import { ActivityIndicator, Card, FAB, Text } from 'react-native-paper';
+import { ActivityIndicator, Button, Card, FAB, Text } from 'react-native-paper';
+
+type MemberName = { user: { full_name: string } | null } | null;
+
+type Payout = {
+  id: string;
+  amount: number;
+  purpose: string;
+  request_type: string;
+  status: string;
+  guarantee_required: number;
+  voting_deadline: string | null;
+  member: MemberName;
+  votes: { vote: string; member: MemberName }[];
+  guarantors: { pledged_amount: number; status: string }[];
+};
+
+type GuaranteeRequest = {
+  id: string;
+  pledged_amount: number;
+  loan: { amount: number; purpose: string; member: MemberName } | null;
+};
 
 export default function PayoutManagementScreen() {
   const { currentChama } = useChama();
-  const [payouts, setPayouts] = useState([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [guaranteeRequests, setGuaranteeRequests] = useState<GuaranteeRequest[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -19,14 +43,45 @@ export default function PayoutManagementScreen() {
     if (!currentChama) return;
     
     setLoading(true);
-    const result = await PayoutService.getChamaPayouts(currentChama.id);
+    const [result, guarantees] = await Promise.all([
+      PayoutService.getChamaPayouts(currentChama.id),
+      GuarantorService.getPendingGuaranteeRequests(currentChama.id),
+    ]);
     setLoading(false);
     
     if (result.success) {
-      setPayouts(result.payouts);
+      setPayouts((result.payouts || []) as Payout[]);
     } else {
       Alert.alert('Error', result.error);
     }
+
+    if (guarantees.success) {
+      setGuaranteeRequests((guarantees.requests || []) as GuaranteeRequest[]);
+    }
+  };
+
+  const respondToGuarantee = async (guaranteeId: string, accept: boolean) => {
+    setRespondingTo(guaranteeId);
+    const result = await GuarantorService.respondToGuarantee(guaranteeId, accept);
+    setRespondingTo(null);
+
+    if (result.success) {
+      await loadPayouts();
+    } else {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const acceptedPledges = (payout: Payout): number =>
+    (payout.guarantors || [])
+      .filter(guarantor => guarantor.status === 'accepted')
+      .reduce((total, guarantor) => total + Number(guarantor.pledged_amount), 0);
+
+  const votingCloses = (deadline: string): string => {
+    const hoursLeft = Math.ceil((new Date(deadline).getTime() - Date.now()) / (60 * 60 * 1000));
+    if (hoursLeft <= 0) return 'Voting closed, awaiting result';
+    if (hoursLeft < 24) return `Voting closes in ${hoursLeft}h`;
+    return `Voting closes ${new Date(deadline).toLocaleDateString()}`;
   };
 
   const onRefresh = async () => {
@@ -41,6 +96,7 @@ export default function PayoutManagementScreen() {
       case 'rejected': return '#EF4444';
       case 'pending': return '#F59E0B';
       case 'disbursed': return '#3B82F6';
+      case 'expired': return '#9CA3AF';
       default: return '#6B7280';
     }
   };
@@ -66,6 +122,43 @@ export default function PayoutManagementScreen() {
           Payouts & Loans
         </Text>
 
+        {guaranteeRequests.length > 0 && (
+          <View className="mb-6">
+            <Text variant="titleMedium" className="mb-2">
+              Guarantee requests
+            </Text>
+            {guaranteeRequests.map((request) => (
+              <Card key={request.id} className="mb-3">
+                <Card.Content>
+                  <Text variant="bodyMedium" className="mb-1">
+                    {request.loan?.member?.user?.full_name} asked you to guarantee KSh {request.pledged_amount} of a KSh {request.loan?.amount} loan
+                  </Text>
+                  <Text variant="bodySmall" className="text-gray-500 mb-3">
+                    {request.loan?.purpose}
+                  </Text>
+                  <View className="flex-row justify-end">
+                    <Button
+                      mode="text"
+                      onPress={() => respondToGuarantee(request.id, false)}
+                      disabled={respondingTo === request.id}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      mode="contained"
+                      onPress={() => respondToGuarantee(request.id, true)}
+                      loading={respondingTo === request.id}
+                      disabled={respondingTo === request.id}
+                    >
+                      Accept
+                    </Button>
+                  </View>
+                </Card.Content>
+              </Card>
+            ))}
+          </View>
+        )}
+
         {payouts.length === 0 ? (
           <View className="items-center py-12">
             <Text variant="bodyLarge" className="text-gray-500 text-center mb-4">
@@ -109,6 +202,26 @@ export default function PayoutManagementScreen() {
                   </Text>
                 </View>
 
+                {payout.guarantee_required > 0 && (
+                  <Text variant="bodySmall" className="text-gray-500 mt-1">
+                    {acceptedPledges(payout) >= payout.guarantee_required
+                      ? `Guaranteed: KSh ${acceptedPledges(payout)} pledged`
+                      : `Awaiting guarantors: KSh ${acceptedPledges(payout)} of ${payout.guarantee_required} pledged`}
+                  </Text>
+                )}
+
+                {payout.status === 'pending' && payout.voting_deadline && (
+                  <Text variant="bodySmall" className="text-gray-500 mt-1">
+                    {votingCloses(payout.voting_deadline)}
+                  </Text>
+                )}
+
+                {payout.status === 'expired' && (
+                  <Text variant="bodySmall" className="text-gray-500 mt-1">
+                    Voting closed without enough votes
+                  </Text>
+                )}
+
                 {payout.votes && payout.votes.length > 0 && (
                   <View className="mt-3 pt-3 border-t border-gray-200">
                     <Text variant="bodySmall" className="text-gray-500 mb-1">
@@ -2,7 +2,9 @@ import { useState, useEffect } from 'react';
 import { View, ScrollView, Alert, StyleSheet } from 'react-native';
 import { Button, TextInput, RadioButton, Text, SegmentedButtons } from 'react-native-paper';
 import { router } from 'expo-router';
-import { PayoutService } from '@/lib/payouts';
+import { GuarantorService } from '@/lib/guarantors';
+import { generateIdempotencyKey } from '@/lib/idempotency';
+import { LoanEligibility, PayoutService } from '@/lib/payouts';
 import { useChama } from '@/contexts/ChamaContext';
 
 // Security configuration
@@ -26,6 +28,44 @@ export default function RequestPayoutScreen() {
   });
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
+  // One key per screen visit so double-taps and retries cannot create duplicate requests
+  const [idempotencyKey] = useState(generateIdempotencyKey);
+  const [loanEligibility, setLoanEligibility] = useState<LoanEligibility | null>(null);
+  const [nominees, setNominees] = useState<{ id: string; name: string }[]>([]);
+  const [pledges, setPledges] = useState<{[memberId: string]: string}>({});
+
+  const requestedAmount = parseFloat(formData.amount) || 0;
+  const guaranteeShortfall = formData.request_type === 'loan' && loanEligibility
+    ? Math.max(requestedAmount - loanEligibility.max_loan, 0)
+    : 0;
+  const totalPledged = Object.values(pledges).reduce((total, pledge) => total + (parseFloat(pledge) || 0), 0);
+
+  // Show the borrowing limit up front so members do not submit loans that will be rejected
+  useEffect(() => {
+    if (formData.request_type !== 'loan' || !currentChama?.id) return;
+
+    let cancelled = false;
+    PayoutService.getLoanEligibility(currentChama.id).then(result => {
+      if (!cancelled && result.success && result.eligibility) {
+        setLoanEligibility(result.eligibility);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.request_type, currentChama?.id]);
+
+  // Co-members are only needed once the amount goes above the member's own limit
+  useEffect(() => {
+    if (guaranteeShortfall <= 0 || nominees.length > 0 || !currentChama?.id) return;
+
+    GuarantorService.getNominees(currentChama.id).then(result => {
+      if (result.success && result.members) {
+        setNominees(result.members.map((member: any) => ({ id: member.id, name: member.user?.full_name || 'Member' })));
+      }
+    });
+  }, [guaranteeShortfall, nominees.length, currentChama?.id]);
 
   // Input sanitization
   const sanitizeInput = (input: string, type: 'text' | 'number' | 'decimal' = 'text'): string => {
@@ -65,6 +105,8 @@ export default function RequestPayoutScreen() {
         newErrors.amount = `Amount must be at least ${SECURITY_CONFIG.MIN_AMOUNT} KES`;
       } else if (amount > SECURITY_CONFIG.MAX_AMOUNT) {
         newErrors.amount = `Amount cannot exceed ${SECURITY_CONFIG.MAX_AMOUNT} KES`;
+      } else if (guaranteeShortfall > 0 && totalPledged < guaranteeShortfall) {
+        newErrors.guarantors = `Guarantors must pledge at least ${guaranteeShortfall} KES above your limit`;
       }
     }
 
@@ -141,10 +183,20 @@ export default function RequestPayoutScreen() {
         purpose: formData.purpose,
         interest_rate: formData.interest_rate ? parseFloat(formData.interest_rate) : undefined,
         repayment_period: formData.repayment_period ? parseInt(formData.repayment_period) : undefined,
-      });
+        guarantors: guaranteeShortfall > 0
+          ? Object.entries(pledges)
+            .map(([member_id, pledge]) => ({ member_id, pledged_amount: parseFloat(pledge) || 0 }))
+            .filter(guarantor => guarantor.pledged_amount > 0)
+          : undefined,
+      }, idempotencyKey);
 
-      if (result.success) {
-        Alert.alert('Success', 'Payout request submitted successfully! It will now be voted on by chama members.');
+      if (result.success && 'guarantorError' in result && result.guarantorError) {
+        Alert.alert('Request submitted', `Your request was created but guarantors could not be nominated: ${result.guarantorError}`);
+        router.back();
+      } else if (result.success) {
+        Alert.alert('Success', guaranteeShortfall > 0
+          ? 'Loan request submitted! Voting opens once your guarantors accept.'
+          : 'Payout request submitted successfully! It will now be voted on by chama members.');
         router.back();
       } else {
         Alert.alert('Error', result.error || 'Failed to submit request');
@@ -211,6 +263,12 @@ export default function RequestPayoutScreen() {
       
       {formData.request_type === 'loan' && (
         <View style={styles.loanSection}>
+          {loanEligibility && (
+            <Text style={styles.limitText}>
+              You can borrow up to KSh {loanEligibility.max_loan.toLocaleString()} ({loanEligibility.multiplier}x your savings of KSh {loanEligibility.savings.toLocaleString()}, less KSh {loanEligibility.outstanding_loans.toLocaleString()} outstanding)
+            </Text>
+          )}
+
           <TextInput
             label="Interest Rate (%)"
             value={formData.interest_rate}
@@ -234,6 +292,34 @@ export default function RequestPayoutScreen() {
             left={<TextInput.Affix text="Months " />}
           />
           {errors.repayment_period && <Text style={styles.errorText}>{errors.repayment_period}</Text>}
+
+          {guaranteeShortfall > 0 && (
+            <View style={styles.guarantorSection}>
+              <Text style={styles.sectionTitle}>Guarantors</Text>
+              <Text style={styles.helperText}>
+                KSh {guaranteeShortfall.toLocaleString()} is above your limit. Ask co-members to pledge their savings to cover it (KSh {totalPledged.toLocaleString()} pledged).
+              </Text>
+              {nominees.map(nominee => (
+                <TextInput
+                  key={nominee.id}
+                  label={nominee.name}
+                  value={pledges[nominee.id] || ''}
+                  onChangeText={(text) => {
+                    setPledges(prev => ({ ...prev, [nominee.id]: sanitizeInput(text, 'decimal') }));
+                    if (errors.guarantors) {
+                      setErrors(prev => ({ ...prev, guarantors: '' }));
+                    }
+                  }}
+                  keyboardType="numeric"
+                  style={styles.input}
+                  mode="outlined"
+                  dense
+                  left={<TextInput.Affix text="KSh " />}
+                />
+              ))}
+              {errors.guarantors && <Text style={styles.errorText}>{errors.guarantors}</Text>}
+            </View>
+          )}
         </View>
       )}
       
@@ -249,7 +335,7 @@ export default function RequestPayoutScreen() {
       </Button>
 
       <Text style={styles.footerText}>
-        Your request will be voted on by chama members. Majority approval is required.
+        Your request will be voted on by chama members under your chama's approval threshold and quorum.
       </Text>
     </ScrollView>
   );
@@ -279,6 +365,24 @@ const styles = StyleSheet.create({
   loanSection: {
     marginBottom: 8,
   },
+  guarantorSection: {
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  helperText: {
+    color: '#6b7280', // gray-500
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  limitText: {
+    color: '#7c3aed', // purple-600
+    fontSize: 13,
+    marginBottom: 12,
+  },
   button: {
     marginTop: 16,
     backgroundColor: '#7c3aed', // purple-600
@@ -12,8 +12,8 @@ CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 -- =============================================
 
 CREATE TYPE user_role AS ENUM ('member', 'treasurer', 'chairperson', 'secretary');
-CREATE TYPE request_status AS ENUM ('pending', 'approved', 'rejected', 'paid', 'defaulted');
-CREATE TYPE transaction_type AS ENUM ('contribution', 'payout', 'loan', 'fine', 'dividend');
+CREATE TYPE request_status AS ENUM ('pending', 'approved', 'rejected', 'paid', 'defaulted', 'expired');
+CREATE TYPE transaction_type AS ENUM ('contribution', 'payout', 'loan', 'loan_repayment', 'fine', 'dividend', 'share_purchase', 'entry_fee');
 CREATE TYPE transaction_status AS ENUM ('pending', 'completed', 'failed', 'cancelled');
 CREATE TYPE vote_type AS ENUM ('approve', 'reject');
 CREATE TYPE contribution_cycle AS ENUM ('daily', 'weekly', 'monthly', 'quarterly');
@@ -52,12 +52,15 @@ CREATE TABLE chamas (
     name VARCHAR(100) NOT NULL,
     description TEXT,
     invite_code VARCHAR(10) UNIQUE NOT NULL,
+    paybill_code VARCHAR(10) UNIQUE NOT NULL,
     total_kitty DECIMAL(12,2) DEFAULT 0 CHECK (total_kitty >= 0),
     contribution_amount DECIMAL(10,2) NOT NULL CHECK (contribution_amount > 0),
     contribution_cycle contribution_cycle NOT NULL DEFAULT 'monthly',
     savings_goal DECIMAL(12,2) CHECK (savings_goal >= 0),
     max_loan_multiplier INTEGER DEFAULT 3 CHECK (max_loan_multiplier >= 1 AND max_loan_multiplier <= 10),
     min_approval_percentage INTEGER DEFAULT 51 CHECK (min_approval_percentage >= 51 AND min_approval_percentage <= 100),
+    chama_type VARCHAR(20) NOT NULL DEFAULT 'savings',
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
     is_active BOOLEAN DEFAULT TRUE,
     created_by UUID NOT NULL REFERENCES users(id),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -65,6 +68,7 @@ CREATE TABLE chamas (
     
     -- Security constraints
     CONSTRAINT valid_chama_name CHECK (length(name) >= 2 AND length(name) <= 100),
+    CONSTRAINT valid_chama_type CHECK (chama_type IN ('savings', 'rotating', 'table_banking')),
     CONSTRAINT valid_contribution_amount CHECK (contribution_amount <= 1000000)
 );
 
@@ -74,16 +78,40 @@ CREATE TABLE chama_members (
     chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     role user_role NOT NULL DEFAULT 'member',
+    member_number INTEGER NOT NULL,
     joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     is_active BOOLEAN DEFAULT TRUE,
     
     -- Security: One role per user per chama
     UNIQUE(chama_id, user_id),
+    UNIQUE(chama_id, member_number),
     
     -- Security constraints
     CONSTRAINT valid_member_role CHECK (role IN ('member', 'treasurer', 'chairperson', 'secretary'))
 );
 
+-- Chama Invites table (the chama's shared invite code and single-use personal invites tied to a phone number)
+CREATE TABLE chama_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    code VARCHAR(10) UNIQUE NOT NULL,
+    invite_type VARCHAR(20) NOT NULL DEFAULT 'shared',
+    phone_number VARCHAR(15),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    max_uses INTEGER CHECK (max_uses > 0),
+    use_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_invite_type CHECK (invite_type IN ('shared', 'personal')),
+    CONSTRAINT valid_invite_phone_number CHECK (phone_number ~ '^254[17]\d{8}$'),
+    CONSTRAINT personal_invite_has_phone CHECK ((invite_type = 'personal') = (phone_number IS NOT NULL)),
+    CONSTRAINT personal_invite_single_use CHECK (invite_type = 'shared' OR max_uses = 1),
+    CONSTRAINT invite_use_count_within_limit CHECK (use_count >= 0 AND (max_uses IS NULL OR use_count <= max_uses))
+);
+
 -- =============================================
 -- Financial Tables
 -- =============================================
@@ -98,7 +126,12 @@ CREATE TABLE payout_requests (
     purpose TEXT NOT NULL,
     interest_rate DECIMAL(5,2) CHECK (interest_rate >= 0 AND interest_rate <= 100),
     repayment_period INTEGER CHECK (repayment_period >= 1 AND repayment_period <= 36),
+    interest_method VARCHAR(20) CHECK (interest_method IN ('flat', 'reducing_balance')),
+    guarantee_required DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (guarantee_required >= 0),
     status request_status NOT NULL DEFAULT 'pending',
+    voting_deadline TIMESTAMP WITH TIME ZONE,
+    reminder_24h_sent_at TIMESTAMP WITH TIME ZONE,
+    reminder_1h_sent_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     approved_at TIMESTAMP WITH TIME ZONE,
@@ -155,9 +188,12 @@ CREATE TABLE contributions (
     chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
     member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
     amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0 AND amount_paid <= amount),
     contribution_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    due_date DATE,
     cycle_period VARCHAR(20) NOT NULL,
     is_paid BOOLEAN DEFAULT FALSE,
+    in_arrears BOOLEAN NOT NULL DEFAULT FALSE,
     paid_at TIMESTAMP WITH TIME ZONE,
     transaction_id UUID REFERENCES transactions(id),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -166,11 +202,22 @@ CREATE TABLE contributions (
     CONSTRAINT unique_contribution_per_member_per_cycle UNIQUE(chama_id, member_id, cycle_period)
 );
 
+-- Contribution Credits table (payments beyond a member's open obligations, applied as new ones are scheduled)
+CREATE TABLE contribution_credits (
+    member_id UUID PRIMARY KEY REFERENCES chama_members(id) ON DELETE CASCADE,
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    balance DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Loan Repayments table
 CREATE TABLE loan_repayments (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     payout_request_id UUID NOT NULL REFERENCES payout_requests(id) ON DELETE CASCADE,
+    installment_number INTEGER NOT NULL CHECK (installment_number >= 1),
     amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    principal_amount DECIMAL(10,2) NOT NULL CHECK (principal_amount >= 0),
+    interest_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (interest_amount >= 0),
     due_date DATE NOT NULL,
     paid_date DATE,
     is_paid BOOLEAN DEFAULT FALSE,
@@ -179,7 +226,424 @@ CREATE TABLE loan_repayments (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     -- Security constraints
-    CONSTRAINT valid_due_date CHECK (due_date >= CURRENT_DATE)
+    CONSTRAINT unique_installment_per_loan UNIQUE(payout_request_id, installment_number),
+    CONSTRAINT installment_amount_matches CHECK (amount = principal_amount + interest_amount)
+);
+
+-- Loan Guarantors table (co-members pledging savings behind a loan)
+CREATE TABLE loan_guarantors (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payout_request_id UUID NOT NULL REFERENCES payout_requests(id) ON DELETE CASCADE,
+    guarantor_member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    pledged_amount DECIMAL(12,2) NOT NULL CHECK (pledged_amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    responded_at TIMESTAMP WITH TIME ZONE,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT unique_guarantor_per_loan UNIQUE(payout_request_id, guarantor_member_id),
+    CONSTRAINT valid_loan_guarantor_status CHECK (status IN ('pending', 'accepted', 'declined', 'released'))
+);
+
+-- Resolutions table (general-purpose proposals and polls voted on by members)
+CREATE TABLE resolutions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    proposed_by UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    resolution_type VARCHAR(20) NOT NULL DEFAULT 'general',
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    rules JSONB NOT NULL,
+    action JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    voting_deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    executed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_resolution_type CHECK (resolution_type IN ('general', 'constitution', 'officer_change', 'investment', 'expel_member')),
+    CONSTRAINT valid_resolution_status CHECK (status IN ('open', 'passed', 'rejected', 'expired', 'executed')),
+    CONSTRAINT valid_resolution_title_length CHECK (length(title) >= 5 AND length(title) <= 200)
+);
+
+-- Resolution Options table (choices for polls; resolutions without options are approve/reject)
+CREATE TABLE resolution_options (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    resolution_id UUID NOT NULL REFERENCES resolutions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position >= 1),
+    label VARCHAR(200) NOT NULL CHECK (length(label) >= 1),
+    opportunity_id UUID,
+    action JSONB,
+    is_winner BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT unique_option_position UNIQUE(resolution_id, position)
+);
+
+-- Resolution Votes table
+CREATE TABLE resolution_votes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    resolution_id UUID NOT NULL REFERENCES resolutions(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    vote vote_type,
+    option_id UUID REFERENCES resolution_options(id) ON DELETE CASCADE,
+    voted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security: One vote per member per resolution
+    UNIQUE(resolution_id, member_id),
+    CONSTRAINT vote_or_option CHECK ((vote IS NULL) <> (option_id IS NULL))
+);
+
+-- Elections table (officer elections: nominations, then a secret ballot)
+CREATE TABLE elections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    role user_role NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'nominating',
+    called_by UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    nominations_close_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    voting_deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    term_months INTEGER NOT NULL CHECK (term_months >= 1 AND term_months <= 60),
+    winner_member_id UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_election_role CHECK (role IN ('chairperson', 'treasurer', 'secretary')),
+    CONSTRAINT valid_election_status CHECK (status IN ('nominating', 'voting', 'closed', 'failed', 'cancelled')),
+    CONSTRAINT voting_after_nominations CHECK (voting_deadline > nominations_close_at)
+);
+
+-- Election Candidates table
+CREATE TABLE election_candidates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    nominated_by UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT unique_candidate_per_election UNIQUE(election_id, member_id)
+);
+
+-- Election Voters table (who has voted, kept apart from the ballots themselves)
+CREATE TABLE election_voters (
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    voted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (election_id, member_id)
+);
+
+-- Election Ballots table (secret: no voter and no timestamp)
+CREATE TABLE election_ballots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    candidate_id UUID NOT NULL REFERENCES election_candidates(id) ON DELETE CASCADE
+);
+
+-- Officer Terms table (history of who held which office and until when)
+CREATE TABLE officer_terms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    role user_role NOT NULL,
+    election_id UUID REFERENCES elections(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+
+    -- Security constraints
+    CONSTRAINT valid_officer_term_role CHECK (role IN ('chairperson', 'treasurer', 'secretary'))
+);
+
+-- Rotation Slots table (merry-go-round order: one slot per member per round)
+CREATE TABLE rotation_slots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    round INTEGER NOT NULL CHECK (round >= 1),
+    position INTEGER NOT NULL CHECK (position >= 1),
+    bid_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (bid_amount >= 0),
+    cycle_period VARCHAR(20),
+    cycle_start DATE,
+    payout_request_id UUID REFERENCES payout_requests(id) ON DELETE SET NULL,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT unique_rotation_position UNIQUE(chama_id, round, position),
+    CONSTRAINT unique_rotation_member UNIQUE(chama_id, round, member_id),
+    CONSTRAINT unique_rotation_cycle UNIQUE(chama_id, cycle_period)
+);
+
+-- Rotation Bids table (bids for an earlier position in the next round; the bid is kept back from the payout)
+CREATE TABLE rotation_bids (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    round INTEGER NOT NULL CHECK (round >= 1),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT unique_bid_per_round UNIQUE(chama_id, round, member_id)
+);
+
+-- Transaction Logs table (audit trail for STK push requests)
+CREATE TABLE transaction_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    phone_number VARCHAR(16) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    request_id VARCHAR(50) NOT NULL UNIQUE,
+    purpose VARCHAR(20) NOT NULL DEFAULT 'contribution',
+    fine_transaction_id UUID REFERENCES transactions(id),
+    checkout_request_id VARCHAR(100) UNIQUE,
+    merchant_request_id VARCHAR(100),
+    transaction_code VARCHAR(50),
+    result_code INTEGER,
+    result_desc TEXT,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    provider VARCHAR(20) NOT NULL DEFAULT 'mpesa',
+    channel VARCHAR(10) NOT NULL DEFAULT 'stk',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_transaction_log_provider CHECK (provider IN ('mpesa', 'airtel_money', 'tkash')),
+    CONSTRAINT valid_transaction_log_channel CHECK (channel IN ('stk', 'c2b')),
+    CONSTRAINT valid_transaction_log_status CHECK (status IN ('pending', 'sent', 'verified', 'completed', 'failed', 'cancelled')),
+    CONSTRAINT valid_transaction_log_purpose CHECK (purpose IN ('contribution', 'fine', 'share_purchase', 'entry_fee')),
+    CONSTRAINT fine_payment_requires_fine CHECK (purpose NOT IN ('fine', 'entry_fee') OR fine_transaction_id IS NOT NULL)
+);
+
+-- Disbursement Logs table (B2C payments out of the chama)
+CREATE TABLE disbursement_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    payout_request_id UUID REFERENCES payout_requests(id) ON DELETE CASCADE,
+    initiated_by UUID NOT NULL REFERENCES users(id),
+    phone_number VARCHAR(16) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    reference VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempt INTEGER NOT NULL DEFAULT 1 CHECK (attempt >= 1),
+    request_id VARCHAR(50) UNIQUE,
+    conversation_id VARCHAR(100),
+    transaction_code VARCHAR(50),
+    result_code VARCHAR(20),
+    result_desc TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    provider VARCHAR(20) NOT NULL DEFAULT 'mpesa',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_disbursement_provider CHECK (provider IN ('mpesa', 'airtel_money', 'tkash')),
+    CONSTRAINT valid_disbursement_status CHECK (status IN ('pending', 'sent', 'completed', 'failed'))
+);
+
+-- Idempotency Keys table (replay protection for money-moving calls)
+CREATE TABLE idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    scope VARCHAR(50) NOT NULL,
+    idempotency_key VARCHAR(100) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress',
+    response JSONB,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (NOW() + INTERVAL '24 hours'),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- Compared on reclaim, so a takeover only succeeds against the row it read
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    -- Security: One stored result per key per user and operation
+    UNIQUE(user_id, scope, idempotency_key),
+
+    -- Security constraints
+    CONSTRAINT valid_idempotency_status CHECK (status IN ('in_progress', 'completed', 'failed')),
+    CONSTRAINT valid_idempotency_key_format CHECK (idempotency_key ~ '^[A-Za-z0-9_-]{8,100}$')
+);
+
+-- Ledger Accounts table (chart of accounts per chama; member_id set for per-member sub-accounts)
+CREATE TABLE ledger_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    member_id UUID REFERENCES chama_members(id) ON DELETE CASCADE,
+    account_type VARCHAR(30) NOT NULL,
+    normal_balance VARCHAR(6) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security: One account per type per member (chama-level when member_id is NULL)
+    UNIQUE NULLS NOT DISTINCT (chama_id, account_type, member_id),
+
+    -- Security constraints
+    CONSTRAINT valid_ledger_account_type CHECK (account_type IN ('kitty', 'member_savings', 'loans_receivable', 'interest_income', 'fines', 'share_capital', 'entry_fees')),
+    CONSTRAINT valid_normal_balance CHECK (normal_balance IN ('debit', 'credit'))
+);
+
+-- Journal Entries table (append-only; one entry per completed transaction)
+CREATE TABLE journal_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    transaction_id UUID UNIQUE REFERENCES transactions(id) ON DELETE RESTRICT,
+    entry_type VARCHAR(30) NOT NULL,
+    description TEXT,
+    posted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_journal_entry_type CHECK (entry_type IN ('contribution', 'payout', 'loan_disbursement', 'loan_repayment', 'fine', 'dividend', 'share_purchase', 'exit_settlement', 'entry_fee')),
+    CONSTRAINT valid_journal_description_length CHECK (length(description) <= 500)
+);
+
+-- Journal Lines table
+CREATE TABLE journal_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    journal_entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES ledger_accounts(id) ON DELETE CASCADE,
+    debit DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+    credit DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security: Each line moves money on exactly one side
+    CONSTRAINT one_sided_journal_line CHECK ((debit > 0 AND credit = 0) OR (credit > 0 AND debit = 0))
+);
+
+-- Dividend Declarations table (one per closed financial period of a table-banking chama)
+CREATE TABLE dividend_declarations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    interest_income DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (interest_income >= 0),
+    fine_income DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (fine_income >= 0),
+    total_distributed DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (total_distributed >= 0),
+    total_share_days DECIMAL(16,2) NOT NULL DEFAULT 0,
+    declared_by UUID NOT NULL REFERENCES users(id),
+    declared_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_dividend_period CHECK (period_end >= period_start),
+    CONSTRAINT unique_dividend_period UNIQUE(chama_id, period_start)
+);
+
+-- Dividend Allocations table (each member's time-weighted share of a declaration)
+CREATE TABLE dividend_allocations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    declaration_id UUID NOT NULL REFERENCES dividend_declarations(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    shares_at_period_end DECIMAL(12,2) NOT NULL DEFAULT 0,
+    share_days DECIMAL(16,2) NOT NULL CHECK (share_days > 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT unique_dividend_allocation UNIQUE(declaration_id, member_id)
+);
+
+-- Member Exits table (a member leaving and the settlement paid to them)
+CREATE TABLE member_exits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    reason TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    settlement JSONB NOT NULL,
+    payout_amount DECIMAL(12,2),
+    withheld_amount DECIMAL(12,2),
+    payout_request_id UUID REFERENCES payout_requests(id) ON DELETE SET NULL,
+    reviewed_by UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    review_notes TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_member_exit_status CHECK (status IN ('awaiting_handover', 'pending', 'approved', 'completed', 'rejected')),
+    CONSTRAINT valid_exit_reason_length CHECK (length(reason) <= 500),
+    CONSTRAINT valid_exit_notes_length CHECK (length(review_notes) <= 500)
+);
+
+-- Join Requests table (invite code redemptions waiting for officer approval)
+CREATE TABLE join_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    invite_id UUID REFERENCES chama_invites(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    member_id UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    entry_fee_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    reviewed_by UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    review_reason TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_join_request_status CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    CONSTRAINT rejected_join_request_has_reason CHECK (status <> 'rejected' OR review_reason IS NOT NULL),
+    CONSTRAINT valid_join_review_reason_length CHECK (length(review_reason) <= 500)
+);
+
+-- Manual Contributions table (cash and bank contributions held until a treasurer confirms them)
+CREATE TABLE manual_contributions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES chama_members(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    payment_method VARCHAR(10) NOT NULL,
+    reference VARCHAR(100),
+    paid_on DATE NOT NULL DEFAULT ((NOW() AT TIME ZONE 'Africa/Nairobi')::DATE),
+    status VARCHAR(25) NOT NULL DEFAULT 'pending_confirmation',
+    proof_path TEXT,
+    recorded_by UUID NOT NULL REFERENCES users(id),
+    confirmed_by UUID REFERENCES chama_members(id) ON DELETE SET NULL,
+    review_notes TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    transaction_id UUID REFERENCES transactions(id),
+    receipt_number INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_manual_payment_method CHECK (payment_method IN ('cash', 'bank')),
+    CONSTRAINT valid_manual_contribution_status CHECK (status IN ('pending_confirmation', 'confirmed', 'rejected')),
+    CONSTRAINT bank_contribution_has_reference CHECK (payment_method <> 'bank' OR reference IS NOT NULL),
+    CONSTRAINT confirmed_contribution_has_receipt CHECK (status <> 'confirmed' OR (transaction_id IS NOT NULL AND receipt_number IS NOT NULL)),
+    CONSTRAINT rejected_contribution_has_reason CHECK (status <> 'rejected' OR review_notes IS NOT NULL),
+    CONSTRAINT valid_manual_review_notes_length CHECK (length(review_notes) <= 500),
+    CONSTRAINT unique_receipt_number_per_chama UNIQUE(chama_id, receipt_number)
+);
+
+-- Statement Imports table (paybill, till and bank statements a treasurer matched and posted)
+CREATE TABLE statement_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chama_id UUID NOT NULL REFERENCES chamas(id) ON DELETE CASCADE,
+    source VARCHAR(20) NOT NULL,
+    file_name VARCHAR(255),
+    line_count INTEGER NOT NULL DEFAULT 0,
+    posted_count INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    posted_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    imported_by UUID NOT NULL REFERENCES chama_members(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Security constraints
+    CONSTRAINT valid_statement_source CHECK (source IN ('mpesa_paybill', 'mpesa_till', 'bank')),
+    CONSTRAINT valid_statement_counts CHECK (posted_count >= 0 AND duplicate_count >= 0 AND posted_count + duplicate_count <= line_count)
 );
 
 -- =============================================
@@ -297,12 +761,22 @@ CREATE INDEX idx_chama_members_user_id ON chama_members(user_id);
 CREATE INDEX idx_chama_members_chama_id ON chama_members(chama_id);
 CREATE INDEX idx_chama_members_role ON chama_members(role);
 CREATE INDEX idx_chama_members_is_active ON chama_members(is_active);
+-- Security: at most one active chairperson per chama (at least one is enforced by ensure_chama_chairperson)
+CREATE UNIQUE INDEX idx_one_chairperson_per_chama ON chama_members(chama_id) WHERE role = 'chairperson' AND is_active = true;
+
+-- Chama Invites indexes
+CREATE INDEX idx_chama_invites_chama_id ON chama_invites(chama_id, created_at DESC);
+CREATE INDEX idx_chama_invites_phone_number ON chama_invites(phone_number) WHERE phone_number IS NOT NULL;
+-- Security: a chama has one live shared code; rotating revokes the old one
+CREATE UNIQUE INDEX idx_one_shared_invite_per_chama ON chama_invites(chama_id)
+    WHERE invite_type = 'shared' AND revoked_at IS NULL;
 
 -- Payout Requests indexes
 CREATE INDEX idx_payout_requests_chama_id ON payout_requests(chama_id);
 CREATE INDEX idx_payout_requests_member_id ON payout_requests(member_id);
 CREATE INDEX idx_payout_requests_status ON payout_requests(status);
 CREATE INDEX idx_payout_requests_created_at ON payout_requests(created_at);
+CREATE INDEX idx_payout_requests_voting_deadline ON payout_requests(voting_deadline) WHERE status = 'pending';
 
 -- Payout Votes indexes
 CREATE INDEX idx_payout_votes_request_id ON payout_votes(payout_request_id);
@@ -316,11 +790,91 @@ CREATE INDEX idx_transactions_status ON transactions(status);
 CREATE INDEX idx_transactions_created_at ON transactions(created_at);
 CREATE INDEX idx_transactions_code ON transactions(transaction_code);
 
+-- Security: A missed obligation is fined at most once
+CREATE UNIQUE INDEX idx_transactions_one_fine_per_contribution ON transactions((metadata->>'contribution_id'))
+    WHERE transaction_type = 'fine';
+
 -- Contributions indexes
 CREATE INDEX idx_contributions_chama_id ON contributions(chama_id);
 CREATE INDEX idx_contributions_member_id ON contributions(member_id);
 CREATE INDEX idx_contributions_cycle_period ON contributions(cycle_period);
 CREATE INDEX idx_contributions_is_paid ON contributions(is_paid);
+CREATE INDEX idx_contributions_due_date ON contributions(due_date) WHERE is_paid = false;
+CREATE INDEX idx_contribution_credits_chama_id ON contribution_credits(chama_id);
+
+-- Loan Repayments indexes
+CREATE INDEX idx_loan_repayments_due_date ON loan_repayments(due_date) WHERE is_paid = false;
+
+-- Loan Guarantors indexes
+CREATE INDEX idx_loan_guarantors_payout_request_id ON loan_guarantors(payout_request_id);
+CREATE INDEX idx_loan_guarantors_guarantor_member_id ON loan_guarantors(guarantor_member_id);
+CREATE INDEX idx_loan_guarantors_status ON loan_guarantors(status);
+
+-- Resolutions indexes
+CREATE INDEX idx_resolutions_chama_id ON resolutions(chama_id);
+CREATE INDEX idx_resolutions_voting_deadline ON resolutions(voting_deadline) WHERE status = 'open';
+CREATE INDEX idx_resolution_options_resolution_id ON resolution_options(resolution_id);
+CREATE INDEX idx_resolution_votes_resolution_id ON resolution_votes(resolution_id);
+
+-- Elections indexes
+CREATE INDEX idx_elections_chama_id ON elections(chama_id);
+CREATE UNIQUE INDEX idx_one_open_election_per_role ON elections(chama_id, role) WHERE status IN ('nominating', 'voting');
+CREATE INDEX idx_election_candidates_election_id ON election_candidates(election_id);
+CREATE INDEX idx_election_ballots_election_id ON election_ballots(election_id);
+CREATE INDEX idx_officer_terms_member_id ON officer_terms(member_id);
+CREATE INDEX idx_officer_terms_open ON officer_terms(chama_id, role) WHERE ended_at IS NULL;
+
+-- Rotation indexes
+CREATE INDEX idx_rotation_slots_chama_round ON rotation_slots(chama_id, round, position);
+CREATE INDEX idx_rotation_bids_chama_round ON rotation_bids(chama_id, round);
+
+-- Transaction Logs indexes
+CREATE INDEX idx_transaction_logs_user_id ON transaction_logs(user_id);
+CREATE INDEX idx_transaction_logs_chama_id ON transaction_logs(chama_id);
+CREATE INDEX idx_transaction_logs_status ON transaction_logs(status);
+CREATE INDEX idx_transaction_logs_checkout_request_id ON transaction_logs(checkout_request_id);
+CREATE INDEX idx_transaction_logs_awaiting_callback ON transaction_logs(created_at) WHERE status IN ('pending', 'sent');
+CREATE INDEX idx_transaction_logs_fine_transaction_id ON transaction_logs(fine_transaction_id);
+
+-- Disbursement Logs indexes
+CREATE INDEX idx_disbursement_logs_chama_id ON disbursement_logs(chama_id);
+CREATE INDEX idx_disbursement_logs_payout_request_id ON disbursement_logs(payout_request_id);
+CREATE INDEX idx_disbursement_logs_status ON disbursement_logs(status);
+
+-- Security: At most one live or successful disbursement per payout request (retries only after failure)
+CREATE UNIQUE INDEX idx_disbursement_logs_one_active_per_request ON disbursement_logs(payout_request_id)
+    WHERE payout_request_id IS NOT NULL AND status IN ('pending', 'sent', 'completed');
+
+-- Idempotency Keys indexes
+CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Ledger indexes
+CREATE INDEX idx_ledger_accounts_chama_id ON ledger_accounts(chama_id);
+CREATE INDEX idx_ledger_accounts_member_id ON ledger_accounts(member_id);
+CREATE INDEX idx_journal_entries_chama_id ON journal_entries(chama_id);
+CREATE INDEX idx_journal_entries_posted_at ON journal_entries(posted_at);
+CREATE INDEX idx_journal_lines_entry_id ON journal_lines(journal_entry_id);
+CREATE INDEX idx_journal_lines_account_id ON journal_lines(account_id);
+
+-- Dividend indexes
+CREATE INDEX idx_dividend_declarations_chama_id ON dividend_declarations(chama_id, period_end DESC);
+CREATE INDEX idx_dividend_allocations_member_id ON dividend_allocations(member_id);
+
+-- Member exit indexes
+CREATE INDEX idx_member_exits_chama_id ON member_exits(chama_id, status);
+CREATE UNIQUE INDEX idx_one_open_exit_per_member ON member_exits(member_id)
+    WHERE status IN ('awaiting_handover', 'pending', 'approved');
+CREATE INDEX idx_member_exits_payout_request_id ON member_exits(payout_request_id) WHERE payout_request_id IS NOT NULL;
+
+-- Join request indexes
+CREATE INDEX idx_join_requests_chama_id ON join_requests(chama_id, status);
+CREATE INDEX idx_join_requests_user_id ON join_requests(user_id);
+CREATE UNIQUE INDEX idx_one_pending_join_request ON join_requests(chama_id, user_id) WHERE status = 'pending';
+
+-- Manual contribution indexes
+CREATE INDEX idx_manual_contributions_chama_id ON manual_contributions(chama_id, status);
+CREATE INDEX idx_manual_contributions_member_id ON manual_contributions(member_id);
+CREATE INDEX idx_statement_imports_chama_id ON statement_imports(chama_id, created_at DESC);
 
 -- Audit Log indexes
 CREATE INDEX idx_audit_logs_table_record ON audit_logs(table_name, record_id);
@@ -345,11 +899,36 @@ CREATE INDEX idx_notifications_created_at ON notifications(created_at);
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chamas ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chama_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chama_invites ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payout_requests ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payout_votes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE contributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contribution_credits ENABLE ROW LEVEL SECURITY;
 ALTER TABLE loan_repayments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loan_guarantors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resolutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resolution_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resolution_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE elections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE election_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE election_voters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE election_ballots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE officer_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rotation_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rotation_bids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE disbursement_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dividend_declarations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dividend_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_exits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE manual_contributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE statement_imports ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE meetings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE meeting_attendees ENABLE ROW LEVEL SECURITY;
@@ -396,6 +975,18 @@ CREATE POLICY "Members can view chama members" ON chama_members
         )
     );
 
+-- Chama Invites policies (officers only: personal invites carry phone numbers; invites are written by secure functions)
+CREATE POLICY "Officers can view their chamas' invites" ON chama_invites
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = chama_invites.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        )
+    );
+
 -- Payout Requests policies
 CREATE POLICY "Members can view payout requests in their chamas" ON payout_requests
     FOR SELECT USING (
@@ -407,115 +998,5461 @@ CREATE POLICY "Members can view payout requests in their chamas" ON payout_reque
         )
     );
 
+-- Security: requests start pending and unapproved, for the caller's own membership; votes decide the rest
 CREATE POLICY "Members can create payout requests in their chamas" ON payout_requests
     FOR INSERT WITH CHECK (
-        EXISTS (
+        status = 'pending'
+        AND approved_at IS NULL
+        AND approved_by IS NULL
+        AND EXISTS (
             SELECT 1 FROM chama_members 
-            WHERE chama_members.chama_id = payout_requests.chama_id 
+            WHERE chama_members.id = payout_requests.member_id
+            AND chama_members.chama_id = payout_requests.chama_id 
             AND chama_members.user_id = auth.uid()
             AND chama_members.is_active = true
         )
     );
 
--- =============================================
--- Secure Functions
--- =============================================
+-- Payout Votes policies (votes are cast through cast_payout_vote)
+CREATE POLICY "Members can view payout votes in their chamas" ON payout_votes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM payout_requests
+            JOIN chama_members ON chama_members.chama_id = payout_requests.chama_id
+            WHERE payout_requests.id = payout_votes.payout_request_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
 
--- Function to get chama statistics securely
-CREATE OR REPLACE FUNCTION get_chama_stats(chama_id UUID)
-RETURNS JSONB
-LANGUAGE plpgsql
-SECURITY DEFINER
-AS $$
-DECLARE
-    result JSONB;
-BEGIN
-    -- Security: Verify user is member of this chama
-    IF NOT EXISTS (
-        SELECT 1 FROM chama_members 
-        WHERE chama_members.chama_id = $1 
-        AND chama_members.user_id = auth.uid()
-        AND chama_members.is_active = true
-    ) THEN
-        RAISE EXCEPTION 'Access denied';
-    END IF;
+-- Loan Repayments policies (read-only; schedules are only written by secure functions)
+CREATE POLICY "Members can view loan repayments in their chamas" ON loan_repayments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM payout_requests
+            JOIN chama_members ON chama_members.chama_id = payout_requests.chama_id
+            WHERE payout_requests.id = loan_repayments.payout_request_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
 
-    SELECT jsonb_build_object(
-        'total_members', COUNT(DISTINCT cm.id),
-        'total_kitty', COALESCE(c.total_kitty, 0),
-        'active_loans', COUNT(pr.id) FILTER (WHERE pr.request_type = 'loan' AND pr.status IN ('approved', 'pending')),
-        'pending_requests', COUNT(pr.id) FILTER (WHERE pr.status = 'pending'),
-        'total_contributions', COALESCE(SUM(cont.amount) FILTER (WHERE cont.is_paid = true), 0),
-        'meetings_this_month', COUNT(m.id) FILTER (WHERE m.meeting_date >= date_trunc('month', CURRENT_DATE))
-    ) INTO result
-    FROM chamas c
-    LEFT JOIN chama_members cm ON c.id = cm.chama_id AND cm.is_active = true
-    LEFT JOIN payout_requests pr ON c.id = pr.chama_id
-    LEFT JOIN contributions cont ON c.id = cont.chama_id
-    LEFT JOIN meetings m ON c.id = m.chama_id AND m.meeting_date >= date_trunc('month', CURRENT_DATE)
+-- Loan Guarantors policies (read-only; nominations and responses go through secure functions)
+CREATE POLICY "Members can view loan guarantors in their chamas" ON loan_guarantors
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM payout_requests
+            JOIN chama_members ON chama_members.chama_id = payout_requests.chama_id
+            WHERE payout_requests.id = loan_guarantors.payout_request_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Resolutions policies (read-only; proposals and votes go through secure functions)
+CREATE POLICY "Members can view resolutions in their chamas" ON resolutions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = resolutions.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view resolution options in their chamas" ON resolution_options
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM resolutions
+            JOIN chama_members ON chama_members.chama_id = resolutions.chama_id
+            WHERE resolutions.id = resolution_options.resolution_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view resolution votes in their chamas" ON resolution_votes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM resolutions
+            JOIN chama_members ON chama_members.chama_id = resolutions.chama_id
+            WHERE resolutions.id = resolution_votes.resolution_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Elections policies (read-only; ballots have no SELECT policy and are only tallied by election_results)
+CREATE POLICY "Members can view elections in their chamas" ON elections
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = elections.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view election candidates in their chamas" ON election_candidates
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM elections
+            JOIN chama_members ON chama_members.chama_id = elections.chama_id
+            WHERE elections.id = election_candidates.election_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view election turnout in their chamas" ON election_voters
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM elections
+            JOIN chama_members ON chama_members.chama_id = elections.chama_id
+            WHERE elections.id = election_voters.election_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view officer terms in their chamas" ON officer_terms
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = officer_terms.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Rotation policies (read-only; the order and bids are written by secure functions)
+CREATE POLICY "Members can view rotation slots in their chamas" ON rotation_slots
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = rotation_slots.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view rotation bids in their chamas" ON rotation_bids
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = rotation_bids.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Member exit policies (read-only; exits are written by secure functions)
+CREATE POLICY "Members can view exits in their chamas" ON member_exits
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = member_exits.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Join request policies (read-only; requests are written by secure functions)
+CREATE POLICY "Users can view their own join requests" ON join_requests
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Officers can view join requests to their chamas" ON join_requests
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = join_requests.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Manual contribution policies (read-only; contributions are recorded and confirmed by secure functions)
+CREATE POLICY "Members can view manual contributions in their chamas" ON manual_contributions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = manual_contributions.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Contribution credit policies (read-only; credits are written by apply_contribution_payment)
+CREATE POLICY "Members can view contribution credits in their chamas" ON contribution_credits
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = contribution_credits.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Statement import policies (read-only; imports are posted by a secure function)
+CREATE POLICY "Officers can view statement imports" ON statement_imports
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = statement_imports.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Payment proof storage (photos of bank slips and cash receipts, filed under <chama_id>/)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Members can upload payment proofs to their chamas" ON storage.objects
+    FOR INSERT TO authenticated WITH CHECK (
+        bucket_id = 'payment-proofs'
+        AND EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id::TEXT = (storage.foldername(name))[1]
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view payment proofs in their chamas" ON storage.objects
+    FOR SELECT TO authenticated USING (
+        bucket_id = 'payment-proofs'
+        AND EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id::TEXT = (storage.foldername(name))[1]
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Transactions policies
+CREATE POLICY "Members can view transactions in their chamas" ON transactions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = transactions.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Transaction Logs policies
+CREATE POLICY "Users can view own transaction logs" ON transaction_logs
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own transaction logs" ON transaction_logs
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Security: no UPDATE policy; status changes go through the API routes and reconcile_stk_callback
+
+-- Disbursement Logs policies
+CREATE POLICY "Officers can view disbursements in their chamas" ON disbursement_logs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = disbursement_logs.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Officers can create disbursements in their chamas" ON disbursement_logs
+    FOR INSERT WITH CHECK (
+        auth.uid() = initiated_by
+        AND EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = disbursement_logs.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Security: no UPDATE policy; status changes go through the API routes and reconcile_b2c_result
+
+-- Idempotency Keys policies
+CREATE POLICY "Users can view own idempotency keys" ON idempotency_keys
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own idempotency keys" ON idempotency_keys
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own idempotency keys" ON idempotency_keys
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Ledger policies (read-only; entries are only posted by secure functions)
+CREATE POLICY "Members can view ledger accounts in their chamas" ON ledger_accounts
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = ledger_accounts.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view journal entries in their chamas" ON journal_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = journal_entries.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view journal lines in their chamas" ON journal_lines
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM journal_entries
+            JOIN chama_members ON chama_members.chama_id = journal_entries.chama_id
+            WHERE journal_entries.id = journal_lines.journal_entry_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- Dividend policies (read-only; declarations are written by declare_dividends)
+CREATE POLICY "Members can view dividend declarations in their chamas" ON dividend_declarations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = dividend_declarations.chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+CREATE POLICY "Members can view dividend allocations in their chamas" ON dividend_allocations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM dividend_declarations
+            JOIN chama_members ON chama_members.chama_id = dividend_declarations.chama_id
+            WHERE dividend_declarations.id = dividend_allocations.declaration_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.is_active = true
+        )
+    );
+
+-- =============================================
+-- Secure Functions
+-- =============================================
+
+-- Function to get chama statistics securely
+CREATE OR REPLACE FUNCTION get_chama_stats(chama_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    result JSONB;
+BEGIN
+    -- Security: Verify user is member of this chama
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members 
+        WHERE chama_members.chama_id = $1 
+        AND chama_members.user_id = auth.uid()
+        AND chama_members.is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Access denied';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'total_members', COUNT(DISTINCT cm.id),
+        'total_kitty', COALESCE(c.total_kitty, 0),
+        'active_loans', COUNT(pr.id) FILTER (WHERE pr.request_type = 'loan' AND pr.status IN ('approved', 'pending')),
+        'pending_requests', COUNT(pr.id) FILTER (WHERE pr.status = 'pending'),
+        'total_contributions', COALESCE(SUM(cont.amount) FILTER (WHERE cont.is_paid = true), 0),
+        'total_savings', (
+            SELECT COALESCE(SUM(balance), 0) FROM ledger_account_balances
+            WHERE ledger_account_balances.chama_id = $1 AND account_type = 'member_savings'
+        ),
+        'loans_outstanding', (
+            SELECT COALESCE(SUM(balance), 0) FROM ledger_account_balances
+            WHERE ledger_account_balances.chama_id = $1 AND account_type = 'loans_receivable'
+        ),
+        'meetings_this_month', COUNT(m.id) FILTER (WHERE m.meeting_date >= date_trunc('month', CURRENT_DATE))
+    ) INTO result
+    FROM chamas c
+    LEFT JOIN chama_members cm ON c.id = cm.chama_id AND cm.is_active = true
+    LEFT JOIN payout_requests pr ON c.id = pr.chama_id
+    LEFT JOIN contributions cont ON c.id = cont.chama_id
+    LEFT JOIN meetings m ON c.id = m.chama_id AND m.meeting_date >= date_trunc('month', CURRENT_DATE)
     WHERE c.id = $1
     GROUP BY c.id, c.total_kitty;
 
-    RETURN result;
+    RETURN result;
+END;
+$$;
+
+-- Function to automatically update timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to draw an unused 8-character invite code (no 0/O or 1/I look-alikes)
+CREATE OR REPLACE FUNCTION new_invite_code()
+RETURNS VARCHAR(10)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    v_bytes BYTEA;
+    v_code VARCHAR(10);
+BEGIN
+    LOOP
+        v_bytes := gen_random_bytes(8);
+        v_code := '';
+
+        -- 32 letters, so each random byte maps onto the alphabet without bias
+        FOR i IN 0..7 LOOP
+            v_code := v_code || substr(v_alphabet, get_byte(v_bytes, i) % 32 + 1, 1);
+        END LOOP;
+
+        -- Old codes stay reserved so a revoked invite can never start working for another chama
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM chamas WHERE invite_code = v_code)
+            AND NOT EXISTS (SELECT 1 FROM chama_invites WHERE code = v_code);
+    END LOOP;
+
+    RETURN v_code;
+END;
+$$;
+
+-- Function to generate secure invite codes (the first one doubles as the chama's permanent paybill code)
+CREATE OR REPLACE FUNCTION generate_invite_code()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.invite_code := new_invite_code();
+    NEW.paybill_code := NEW.invite_code;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to log security events
+CREATE OR REPLACE FUNCTION log_security_event(
+    p_user_id UUID,
+    p_event_type VARCHAR(50),
+    p_severity VARCHAR(10),
+    p_description TEXT,
+    p_ip_address INET DEFAULT NULL,
+    p_user_agent TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    INSERT INTO security_events (
+        user_id, event_type, severity, description, 
+        ip_address, user_agent, metadata
+    ) VALUES (
+        p_user_id, p_event_type, p_severity, p_description,
+        p_ip_address, p_user_agent, p_metadata
+    );
+END;
+$$;
+
+-- Function to find or open a ledger account
+CREATE OR REPLACE FUNCTION get_ledger_account(
+    p_chama_id UUID,
+    p_account_type VARCHAR(30),
+    p_member_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_account_id UUID;
+BEGIN
+    INSERT INTO ledger_accounts (chama_id, member_id, account_type, normal_balance)
+    VALUES (
+        p_chama_id, p_member_id, p_account_type,
+        CASE WHEN p_account_type IN ('kitty', 'loans_receivable') THEN 'debit' ELSE 'credit' END
+    )
+    ON CONFLICT (chama_id, account_type, member_id) DO NOTHING;
+
+    SELECT id INTO v_account_id
+    FROM ledger_accounts
+    WHERE chama_id = p_chama_id
+    AND account_type = p_account_type
+    AND member_id IS NOT DISTINCT FROM p_member_id;
+
+    RETURN v_account_id;
+END;
+$$;
+
+-- Function to keep chamas.total_kitty equal to the kitty account balance
+CREATE OR REPLACE FUNCTION sync_chama_total_kitty(p_chama_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- The total_kitty >= 0 check rejects any entry that would overdraw the kitty
+    UPDATE chamas
+    SET total_kitty = (
+        SELECT COALESCE(SUM(journal_lines.debit - journal_lines.credit), 0)
+        FROM journal_lines
+        JOIN ledger_accounts ON ledger_accounts.id = journal_lines.account_id
+        WHERE ledger_accounts.chama_id = p_chama_id
+        AND ledger_accounts.account_type = 'kitty'
+    )
+    WHERE id = p_chama_id;
+END;
+$$;
+
+-- Function to post a balanced journal entry; p_lines is [{account_type, member_id?, debit?, credit?}]
+CREATE OR REPLACE FUNCTION post_journal_entry(
+    p_chama_id UUID,
+    p_entry_type VARCHAR(30),
+    p_description TEXT,
+    p_lines JSONB,
+    p_transaction_id UUID DEFAULT NULL,
+    p_posted_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_entry_id UUID;
+    v_line JSONB;
+    v_debit DECIMAL(12,2);
+    v_credit DECIMAL(12,2);
+    v_total_debits DECIMAL(12,2) := 0;
+    v_total_credits DECIMAL(12,2) := 0;
+BEGIN
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        v_total_debits := v_total_debits + COALESCE((v_line->>'debit')::DECIMAL(12,2), 0);
+        v_total_credits := v_total_credits + COALESCE((v_line->>'credit')::DECIMAL(12,2), 0);
+    END LOOP;
+
+    -- Security: Double-entry invariant
+    IF v_total_debits <= 0 OR v_total_debits <> v_total_credits THEN
+        RAISE EXCEPTION 'Unbalanced journal entry (debits %, credits %)', v_total_debits, v_total_credits;
+    END IF;
+
+    INSERT INTO journal_entries (chama_id, transaction_id, entry_type, description, posted_at)
+    VALUES (p_chama_id, p_transaction_id, p_entry_type, p_description, COALESCE(p_posted_at, NOW()))
+    RETURNING id INTO v_entry_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        v_debit := COALESCE((v_line->>'debit')::DECIMAL(12,2), 0);
+        v_credit := COALESCE((v_line->>'credit')::DECIMAL(12,2), 0);
+
+        -- Zero lines (e.g. an interest-free repayment) carry no value
+        CONTINUE WHEN v_debit = 0 AND v_credit = 0;
+
+        INSERT INTO journal_lines (journal_entry_id, account_id, debit, credit)
+        VALUES (
+            v_entry_id,
+            get_ledger_account(p_chama_id, v_line->>'account_type', (v_line->>'member_id')::UUID),
+            v_debit,
+            v_credit
+        );
+    END LOOP;
+
+    PERFORM sync_chama_total_kitty(p_chama_id);
+
+    RETURN v_entry_id;
+END;
+$$;
+
+-- Function to post a completed transaction to the ledger
+CREATE OR REPLACE FUNCTION post_transaction_to_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member_id UUID;
+    v_interest DECIMAL(12,2) := COALESCE((NEW.metadata->>'interest_amount')::DECIMAL(12,2), 0);
+    v_entry_type VARCHAR(30);
+    v_lines JSONB;
+    v_funding JSONB;
+BEGIN
+    IF EXISTS (SELECT 1 FROM journal_entries WHERE transaction_id = NEW.id) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Producers may name the member explicitly (NULL for chama-level disbursements)
+    IF NEW.metadata ? 'member_id' THEN
+        v_member_id := (NEW.metadata->>'member_id')::UUID;
+    ELSE
+        SELECT id INTO v_member_id
+        FROM chama_members
+        WHERE chama_id = NEW.chama_id
+        AND user_id = NEW.user_id;
+    END IF;
+
+    -- Loans and fines settled out of a leaving member's savings never pass through the kitty
+    IF COALESCE((NEW.metadata->>'settled_from_savings')::BOOLEAN, false) THEN
+        v_funding := jsonb_build_object('account_type', 'member_savings', 'member_id', v_member_id);
+    ELSE
+        v_funding := jsonb_build_object('account_type', 'kitty');
+    END IF;
+
+    CASE NEW.transaction_type
+        WHEN 'contribution' THEN
+            v_entry_type := 'contribution';
+            v_lines := jsonb_build_array(
+                jsonb_build_object('account_type', 'kitty', 'debit', NEW.amount),
+                jsonb_build_object('account_type', 'member_savings', 'member_id', v_member_id, 'credit', NEW.amount)
+            );
+        WHEN 'payout' THEN
+            v_entry_type := 'payout';
+            v_lines := jsonb_build_array(
+                jsonb_build_object('account_type', 'member_savings', 'member_id', v_member_id, 'debit', NEW.amount),
+                jsonb_build_object('account_type', 'kitty', 'credit', NEW.amount)
+            );
+        WHEN 'loan' THEN
+            v_entry_type := 'loan_disbursement';
+            v_lines := jsonb_build_array(
+                jsonb_build_object('account_type', 'loans_receivable', 'member_id', v_member_id, 'debit', NEW.amount),
+                jsonb_build_object('account_type', 'kitty', 'credit', NEW.amount)
+            );
+        WHEN 'loan_repayment' THEN
+            v_entry_type := 'loan_repayment';
+            v_lines := jsonb_build_array(
+                v_funding || jsonb_build_object('debit', NEW.amount),
+                jsonb_build_object('account_type', 'loans_receivable', 'member_id', v_member_id, 'credit', NEW.amount - v_interest),
+                jsonb_build_object('account_type', 'interest_income', 'credit', v_interest)
+            );
+        WHEN 'fine' THEN
+            v_entry_type := 'fine';
+            v_lines := jsonb_build_array(
+                v_funding || jsonb_build_object('debit', NEW.amount),
+                jsonb_build_object('account_type', 'fines', 'credit', NEW.amount)
+            );
+        WHEN 'dividend' THEN
+            -- Dividends move interest and fine income into the member's savings; no cash leaves the kitty
+            v_entry_type := 'dividend';
+            v_lines := jsonb_build_array(
+                jsonb_build_object('account_type', 'interest_income', 'debit', NEW.amount - COALESCE((NEW.metadata->>'fine_amount')::DECIMAL(12,2), 0)),
+                jsonb_build_object('account_type', 'fines', 'debit', COALESCE((NEW.metadata->>'fine_amount')::DECIMAL(12,2), 0)),
+                jsonb_build_object('account_type', 'member_savings', 'member_id', v_member_id, 'credit', NEW.amount)
+            );
+        WHEN 'share_purchase' THEN
+            v_entry_type := 'share_purchase';
+            v_lines := jsonb_build_array(
+                jsonb_build_object('account_type', 'kitty', 'debit', NEW.amount),
+                jsonb_build_object('account_type', 'share_capital', 'member_id', v_member_id, 'credit', NEW.amount)
+            );
+        WHEN 'entry_fee' THEN
+            v_entry_type := 'entry_fee';
+            v_lines := jsonb_build_array(
+                jsonb_build_object('account_type', 'kitty', 'debit', NEW.amount),
+                jsonb_build_object('account_type', 'entry_fees', 'credit', NEW.amount)
+            );
+    END CASE;
+
+    PERFORM post_journal_entry(
+        NEW.chama_id, v_entry_type, NEW.description, v_lines, NEW.id, COALESCE(NEW.completed_at, NOW())
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+-- Security: Ledger writes only happen through the functions above, never directly from clients
+REVOKE EXECUTE ON FUNCTION get_ledger_account(UUID, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_chama_total_kitty(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_journal_entry(UUID, VARCHAR, TEXT, JSONB, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function to get the period key of a contribution cycle (2025-03-14, 2025-W11, 2025-03, 2025-Q1)
+CREATE OR REPLACE FUNCTION contribution_period_key(p_cycle contribution_cycle, p_date DATE)
+RETURNS VARCHAR(20)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_cycle
+        WHEN 'daily' THEN to_char(p_date, 'YYYY-MM-DD')
+        WHEN 'weekly' THEN to_char(p_date, 'IYYY-"W"IW')
+        WHEN 'monthly' THEN to_char(p_date, 'YYYY-MM')
+        WHEN 'quarterly' THEN to_char(p_date, 'YYYY-"Q"Q')
+    END;
+$$;
+
+-- Function to get the first day of the contribution period containing a date
+CREATE OR REPLACE FUNCTION contribution_period_start(p_cycle contribution_cycle, p_date DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_cycle
+        WHEN 'daily' THEN p_date
+        WHEN 'weekly' THEN date_trunc('week', p_date)::DATE
+        WHEN 'monthly' THEN date_trunc('month', p_date)::DATE
+        WHEN 'quarterly' THEN date_trunc('quarter', p_date)::DATE
+    END;
+$$;
+
+-- Function to get the length of a contribution cycle
+CREATE OR REPLACE FUNCTION contribution_cycle_interval(p_cycle contribution_cycle)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_cycle
+        WHEN 'daily' THEN INTERVAL '1 day'
+        WHEN 'weekly' THEN INTERVAL '1 week'
+        WHEN 'monthly' THEN INTERVAL '1 month'
+        WHEN 'quarterly' THEN INTERVAL '3 months'
+    END;
+$$;
+
+-- Function to spread a payment over a member's open obligations, oldest first; returns what is left over
+CREATE OR REPLACE FUNCTION allocate_contribution_payment(
+    p_member_id UUID,
+    p_amount DECIMAL(12,2),
+    p_transaction_id UUID,
+    p_paid_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS DECIMAL(12,2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_obligation RECORD;
+    v_remaining DECIMAL(12,2) := p_amount;
+    v_applied DECIMAL(12,2);
+BEGIN
+    FOR v_obligation IN
+        SELECT id, amount, amount_paid
+        FROM contributions
+        WHERE member_id = p_member_id
+        AND is_paid = false
+        ORDER BY contribution_date ASC
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+
+        v_applied := LEAST(v_remaining, v_obligation.amount - v_obligation.amount_paid);
+        v_remaining := v_remaining - v_applied;
+
+        -- An obligation only counts as paid once it is fully covered
+        UPDATE contributions
+        SET amount_paid = amount_paid + v_applied,
+            is_paid = amount_paid + v_applied >= amount,
+            paid_at = CASE WHEN amount_paid + v_applied >= amount THEN p_paid_at ELSE paid_at END,
+            transaction_id = COALESCE(p_transaction_id, transaction_id)
+        WHERE id = v_obligation.id;
+    END LOOP;
+
+    RETURN v_remaining;
+END;
+$$;
+
+-- Function to create a member's contribution obligations through the upcoming period
+CREATE OR REPLACE FUNCTION schedule_member_contributions(
+    p_member_id UUID,
+    p_periods_ahead INTEGER DEFAULT 1
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member RECORD;
+    v_interval INTERVAL;
+    v_period DATE;
+    v_through DATE;
+    v_last DATE;
+    v_rows INTEGER;
+    v_created INTEGER := 0;
+    v_credit DECIMAL(12,2);
+BEGIN
+    SELECT cm.id, cm.chama_id, cm.joined_at, c.contribution_cycle, c.contribution_amount
+    INTO v_member
+    FROM chama_members cm
+    JOIN chamas c ON c.id = cm.chama_id
+    WHERE cm.id = p_member_id
+    AND cm.is_active = true
+    AND c.is_active = true;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    v_interval := contribution_cycle_interval(v_member.contribution_cycle);
+    v_through := contribution_period_start(
+        v_member.contribution_cycle,
+        (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE
+    ) + v_interval * p_periods_ahead;
+
+    -- Obligations start in the period the member joined, resuming after the last one scheduled
+    v_period := contribution_period_start(
+        v_member.contribution_cycle,
+        (COALESCE(v_member.joined_at, NOW()) AT TIME ZONE 'Africa/Nairobi')::DATE
+    );
+
+    SELECT MAX(contribution_date) INTO v_last
+    FROM contributions
+    WHERE member_id = p_member_id;
+
+    IF v_last IS NOT NULL AND v_last >= v_period THEN
+        v_period := contribution_period_start(v_member.contribution_cycle, v_last) + v_interval;
+    END IF;
+
+    WHILE v_period <= v_through LOOP
+        INSERT INTO contributions (
+            chama_id, member_id, amount, contribution_date, due_date, cycle_period
+        ) VALUES (
+            v_member.chama_id, v_member.id, v_member.contribution_amount,
+            v_period,
+            (v_period + v_interval - INTERVAL '1 day')::DATE,
+            contribution_period_key(v_member.contribution_cycle, v_period)
+        )
+        ON CONFLICT (chama_id, member_id, cycle_period) DO NOTHING;
+
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_created := v_created + v_rows;
+        v_period := (v_period + v_interval)::DATE;
+    END LOOP;
+
+    -- Carried-forward overpayments settle the obligations just scheduled
+    SELECT balance INTO v_credit
+    FROM contribution_credits
+    WHERE member_id = p_member_id
+    FOR UPDATE;
+
+    IF v_credit > 0 THEN
+        UPDATE contribution_credits
+        SET balance = allocate_contribution_payment(p_member_id, v_credit, NULL, NOW()),
+            updated_at = NOW()
+        WHERE member_id = p_member_id;
+    END IF;
+
+    RETURN v_created;
+END;
+$$;
+
+-- Function to roll contribution schedules forward and flag arrears (run per chama or, as service role, for all)
+CREATE OR REPLACE FUNCTION generate_contribution_schedule(p_chama_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE;
+    v_member_id UUID;
+    v_created INTEGER := 0;
+    v_flagged INTEGER;
+BEGIN
+    -- Security: only the service role executes this (the jobs API route); a signed-in caller must still be an officer
+    IF auth.uid() IS NOT NULL THEN
+        IF p_chama_id IS NULL OR NOT EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = p_chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        ) THEN
+            RAISE EXCEPTION 'Access denied';
+        END IF;
+    END IF;
+
+    FOR v_member_id IN
+        SELECT cm.id
+        FROM chama_members cm
+        JOIN chamas c ON c.id = cm.chama_id
+        WHERE (p_chama_id IS NULL OR cm.chama_id = p_chama_id)
+        AND cm.is_active = true
+        AND c.is_active = true
+    LOOP
+        v_created := v_created + schedule_member_contributions(v_member_id);
+    END LOOP;
+
+    UPDATE contributions
+    SET in_arrears = true
+    WHERE is_paid = false
+    AND in_arrears = false
+    AND due_date < v_today
+    AND (p_chama_id IS NULL OR chama_id = p_chama_id);
+
+    GET DIAGNOSTICS v_flagged = ROW_COUNT;
+
+    RETURN jsonb_build_object('created', v_created, 'flagged_arrears', v_flagged);
+END;
+$$;
+
+-- Security: Schedules are rolled forward by the jobs API route, for all chamas or for an officer's own chama
+REVOKE EXECUTE ON FUNCTION generate_contribution_schedule(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to apply a contribution payment to a member's obligations, carrying any overpayment forward as credit
+CREATE OR REPLACE FUNCTION apply_contribution_payment(
+    p_chama_id UUID,
+    p_member_id UUID,
+    p_amount DECIMAL(10,2),
+    p_transaction_id UUID,
+    p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_remaining DECIMAL(12,2);
+    v_contribution_id UUID;
+BEGIN
+    -- Make sure the current and next period's obligations exist before paying against them
+    PERFORM schedule_member_contributions(p_member_id);
+
+    v_remaining := allocate_contribution_payment(p_member_id, p_amount, p_transaction_id, p_paid_at);
+
+    IF v_remaining > 0 THEN
+        INSERT INTO contribution_credits (member_id, chama_id, balance)
+        VALUES (p_member_id, p_chama_id, v_remaining)
+        ON CONFLICT (member_id) DO UPDATE
+        SET balance = contribution_credits.balance + EXCLUDED.balance,
+            updated_at = NOW();
+    END IF;
+
+    -- The latest obligation this payment went towards
+    SELECT id INTO v_contribution_id
+    FROM contributions
+    WHERE member_id = p_member_id
+    AND transaction_id = p_transaction_id
+    ORDER BY contribution_date DESC
+    LIMIT 1;
+
+    RETURN v_contribution_id;
+END;
+$$;
+
+-- Function to schedule obligations as soon as a member joins
+CREATE OR REPLACE FUNCTION schedule_new_member_contributions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM schedule_member_contributions(NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+-- Security: Schedules and settlements are only written by the functions above
+REVOKE EXECUTE ON FUNCTION allocate_contribution_payment(UUID, DECIMAL, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION schedule_member_contributions(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_contribution_payment(UUID, UUID, DECIMAL, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function to price a late fine from a chama's fine rules
+CREATE OR REPLACE FUNCTION calculate_late_fine(p_rules JSONB, p_base DECIMAL(10,2))
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_value DECIMAL(10,2) := COALESCE((p_rules->>'penalty_value')::DECIMAL(10,2), 0);
+    v_fine DECIMAL(10,2);
+BEGIN
+    IF p_rules->>'penalty_type' = 'percentage' THEN
+        v_fine := p_base * v_value / 100;
+    ELSE
+        v_fine := v_value;
+    END IF;
+
+    v_fine := LEAST(v_fine, COALESCE((p_rules->>'max_penalty')::DECIMAL(10,2), v_fine));
+
+    -- M-Pesa only moves whole shillings
+    RETURN ROUND(v_fine, 0);
+END;
+$$;
+
+-- Function to fine overdue obligations past the grace period (run per chama or, as service role, for all)
+CREATE OR REPLACE FUNCTION assess_late_fines(p_chama_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE;
+    v_overdue RECORD;
+    v_fine DECIMAL(10,2);
+    v_fine_id UUID;
+    v_assessed INTEGER := 0;
+BEGIN
+    -- Security: only the service role executes this (the jobs API route); a signed-in caller must still be an officer
+    IF auth.uid() IS NOT NULL THEN
+        IF p_chama_id IS NULL OR NOT EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_members.chama_id = p_chama_id
+            AND chama_members.user_id = auth.uid()
+            AND chama_members.role IN ('chairperson', 'treasurer')
+            AND chama_members.is_active = true
+        ) THEN
+            RAISE EXCEPTION 'Access denied';
+        END IF;
+    END IF;
+
+    FOR v_overdue IN
+        SELECT co.id, co.chama_id, co.member_id, co.amount, co.due_date, co.cycle_period,
+               cm.user_id, u.phone_number, c.settings->'fines' AS rules
+        FROM contributions co
+        JOIN chamas c ON c.id = co.chama_id
+        JOIN chama_members cm ON cm.id = co.member_id
+        JOIN users u ON u.id = cm.user_id
+        WHERE (p_chama_id IS NULL OR co.chama_id = p_chama_id)
+        AND c.is_active = true
+        AND cm.is_active = true
+        AND co.is_paid = false
+        AND co.due_date IS NOT NULL
+        AND COALESCE((c.settings->'fines'->>'enabled')::BOOLEAN, false)
+        AND co.due_date + COALESCE((c.settings->'fines'->>'grace_period_days')::INTEGER, 0) < v_today
+        AND NOT EXISTS (
+            SELECT 1 FROM transactions t
+            WHERE t.transaction_type = 'fine'
+            AND t.metadata->>'contribution_id' = co.id::TEXT
+        )
+    LOOP
+        v_fine := calculate_late_fine(v_overdue.rules, v_overdue.amount);
+        CONTINUE WHEN v_fine <= 0;
+
+        -- Pending until paid; the ledger trigger posts it on completion
+        INSERT INTO transactions (
+            chama_id, user_id, amount, transaction_type, status, phone_number, description, metadata
+        ) VALUES (
+            v_overdue.chama_id, v_overdue.user_id, v_fine, 'fine', 'pending',
+            v_overdue.phone_number,
+            'Late contribution fine for ' || v_overdue.cycle_period,
+            jsonb_build_object(
+                'contribution_id', v_overdue.id,
+                'member_id', v_overdue.member_id,
+                'due_date', v_overdue.due_date
+            )
+        )
+        ON CONFLICT DO NOTHING
+        RETURNING id INTO v_fine_id;
+
+        CONTINUE WHEN v_fine_id IS NULL;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            v_overdue.user_id,
+            'Late contribution fine',
+            'A fine of KES ' || v_fine || ' was charged for your unpaid ' || v_overdue.cycle_period || ' contribution.',
+            'warning',
+            'fine',
+            v_fine_id
+        );
+
+        v_assessed := v_assessed + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('assessed', v_assessed);
+END;
+$$;
+
+-- Security: Fines are assessed by the jobs API route, for all chamas or for an officer's own chama
+REVOKE EXECUTE ON FUNCTION assess_late_fines(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to name a mobile money provider in transaction descriptions
+CREATE OR REPLACE FUNCTION mobile_money_provider_name(p_provider VARCHAR(20))
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+    RETURN CASE p_provider
+        WHEN 'airtel_money' THEN 'Airtel Money'
+        WHEN 'tkash' THEN 'T-Kash'
+        ELSE 'M-Pesa'
+    END;
+END;
+$$;
+
+-- Function to reconcile a mobile money collection callback (M-Pesa STK, Airtel Money) in a single transaction
+CREATE OR REPLACE FUNCTION reconcile_stk_callback(
+    p_checkout_request_id VARCHAR(100),
+    p_result_code INTEGER,
+    p_result_desc TEXT,
+    p_amount DECIMAL(10,2) DEFAULT NULL,
+    p_mpesa_receipt VARCHAR(50) DEFAULT NULL,
+    p_phone_number VARCHAR(15) DEFAULT NULL,
+    p_transaction_date TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_log transaction_logs%ROWTYPE;
+    v_member_id UUID;
+    v_transaction_id UUID;
+    v_amount DECIMAL(10,2);
+    v_paid_at TIMESTAMP WITH TIME ZONE := COALESCE(p_transaction_date, NOW());
+BEGIN
+    -- Lock the log row so concurrent callback retries serialize here
+    SELECT * INTO v_log
+    FROM transaction_logs
+    WHERE checkout_request_id = p_checkout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN 'not_found';
+    END IF;
+
+    -- Daraja retries callbacks; a settled request is never applied twice
+    IF v_log.status IN ('completed', 'failed', 'cancelled') THEN
+        -- A status query settles M-Pesa requests under the CheckoutRequestID; a late callback swaps in the receipt
+        IF v_log.status = 'completed' AND p_result_code = 0
+            AND v_log.transaction_code = v_log.checkout_request_id
+            AND p_mpesa_receipt IS DISTINCT FROM v_log.checkout_request_id
+            AND p_mpesa_receipt IS NOT NULL THEN
+            UPDATE transactions
+            SET transaction_code = p_mpesa_receipt
+            WHERE transaction_code = v_log.checkout_request_id;
+
+            UPDATE transaction_logs
+            SET transaction_code = p_mpesa_receipt
+            WHERE id = v_log.id;
+        END IF;
+
+        RETURN 'duplicate';
+    END IF;
+
+    IF p_result_code <> 0 THEN
+        UPDATE transaction_logs
+        SET status = CASE WHEN p_result_code = 1032 THEN 'cancelled' ELSE 'failed' END,
+            result_code = p_result_code,
+            result_desc = p_result_desc
+        WHERE id = v_log.id;
+
+        RETURN 'failed';
+    END IF;
+
+    -- Airtel Money and T-Kash callbacks carry no amount; their collections are always for the amount requested
+    v_amount := CASE WHEN v_log.provider = 'mpesa' THEN p_amount ELSE COALESCE(p_amount, v_log.amount) END;
+
+    IF v_amount IS NULL OR v_amount <= 0 OR p_mpesa_receipt IS NULL THEN
+        RAISE EXCEPTION 'Successful callback requires amount and receipt';
+    END IF;
+
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = v_log.chama_id
+    AND user_id = v_log.user_id;
+
+    IF v_member_id IS NULL THEN
+        RAISE EXCEPTION 'Payer is not a member of this chama';
+    END IF;
+
+    -- Fine and entry fee payments settle the pending charge; anything that no longer matches is kept as a contribution
+    IF v_log.purpose IN ('fine', 'entry_fee') THEN
+        UPDATE transactions
+        SET status = 'completed',
+            transaction_code = p_mpesa_receipt,
+            metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+                'checkout_request_id', v_log.checkout_request_id,
+                'status_query_settled', v_log.channel = 'stk' AND p_mpesa_receipt = v_log.checkout_request_id
+            ),
+            completed_at = v_paid_at
+        WHERE id = v_log.fine_transaction_id
+        AND status = 'pending'
+        AND amount = v_amount
+        RETURNING id INTO v_transaction_id;
+    END IF;
+
+    IF v_transaction_id IS NOT NULL THEN
+        UPDATE transaction_logs
+        SET status = 'completed',
+            result_code = p_result_code,
+            result_desc = p_result_desc,
+            transaction_code = p_mpesa_receipt,
+            verified_at = NOW()
+        WHERE id = v_log.id;
+
+        RETURN 'completed';
+    END IF;
+
+    INSERT INTO transactions (
+        chama_id, user_id, amount, transaction_type, status,
+        transaction_code, phone_number, description, metadata, completed_at
+    ) VALUES (
+        v_log.chama_id, v_log.user_id, v_amount,
+        CASE WHEN v_log.purpose = 'share_purchase' THEN 'share_purchase'::transaction_type ELSE 'contribution'::transaction_type END,
+        'completed',
+        p_mpesa_receipt,
+        COALESCE(p_phone_number, ltrim(v_log.phone_number, '+')),
+        mobile_money_provider_name(v_log.provider)
+            || CASE WHEN v_log.channel = 'c2b' THEN ' paybill' ELSE ' STK' END
+            || CASE WHEN v_log.purpose = 'share_purchase' THEN ' share purchase' ELSE ' contribution' END,
+        jsonb_build_object(
+            'request_id', v_log.request_id,
+            'checkout_request_id', v_log.checkout_request_id,
+            'merchant_request_id', v_log.merchant_request_id,
+            'requested_amount', v_log.amount,
+            'member_id', v_member_id,
+            'provider', v_log.provider,
+            'channel', v_log.channel,
+            -- Settled from a status query, so transaction_code holds the CheckoutRequestID until the receipt turns up
+            'status_query_settled', v_log.channel = 'stk' AND p_mpesa_receipt = v_log.checkout_request_id
+        ),
+        v_paid_at
+    )
+    RETURNING id INTO v_transaction_id;
+
+    -- Share capital is held apart from savings and does not settle contribution obligations
+    IF v_log.purpose <> 'share_purchase' THEN
+        PERFORM apply_contribution_payment(v_log.chama_id, v_member_id, v_amount, v_transaction_id, v_paid_at);
+    END IF;
+
+    UPDATE transaction_logs
+    SET status = 'completed',
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        transaction_code = p_mpesa_receipt,
+        verified_at = NOW()
+    WHERE id = v_log.id;
+
+    RETURN 'completed';
+END;
+$$;
+
+-- Security: Collection callbacks are only reconciled by the API routes, through the service-role client
+REVOKE EXECUTE ON FUNCTION reconcile_stk_callback(VARCHAR, INTEGER, TEXT, DECIMAL, VARCHAR, VARCHAR, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function to give a payment settled from a status query its real M-Pesa receipt when the receipt turns up on a
+-- statement or paybill confirmation. Matches the payer (member or phone), amount and a request made within a day
+-- of the payment; returns the transaction it re-keyed, or NULL when no stand-in matches and the line is new money.
+CREATE OR REPLACE FUNCTION claim_status_query_receipt(
+    p_receipt VARCHAR(50),
+    p_amount DECIMAL(10,2),
+    p_paid_at TIMESTAMP WITH TIME ZONE,
+    p_chama_id UUID DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_phone_number VARCHAR(15) DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+BEGIN
+    IF p_user_id IS NULL AND p_phone_number IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT t.* INTO v_transaction
+    FROM transactions t
+    JOIN transaction_logs tl ON tl.checkout_request_id = t.transaction_code
+    WHERE (t.metadata->>'status_query_settled')::BOOLEAN
+    AND t.transaction_code = t.metadata->>'checkout_request_id'
+    AND t.status = 'completed'
+    AND t.amount = p_amount
+    AND tl.provider = 'mpesa'
+    AND tl.created_at BETWEEN p_paid_at - INTERVAL '1 day' AND p_paid_at + INTERVAL '1 day'
+    AND (p_chama_id IS NULL OR t.chama_id = p_chama_id)
+    AND (p_user_id IS NULL OR t.user_id = p_user_id)
+    AND (p_phone_number IS NULL OR ltrim(tl.phone_number, '+') = ltrim(p_phone_number, '+'))
+    ORDER BY abs(extract(epoch FROM tl.created_at - p_paid_at))
+    LIMIT 1
+    FOR UPDATE OF t;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE transactions
+    SET transaction_code = p_receipt,
+        metadata = metadata || jsonb_build_object('status_query_settled', false)
+    WHERE id = v_transaction.id;
+
+    UPDATE transaction_logs
+    SET transaction_code = p_receipt
+    WHERE checkout_request_id = v_transaction.transaction_code;
+
+    RETURN v_transaction.id;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION claim_status_query_receipt(VARCHAR, DECIMAL, TIMESTAMP WITH TIME ZONE, UUID, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- Function to reconcile a mobile money disbursement result (M-Pesa B2C, Airtel Money) in a single transaction
+CREATE OR REPLACE FUNCTION reconcile_b2c_result(
+    p_originator_conversation_id VARCHAR(50),
+    p_conversation_id VARCHAR(100),
+    p_result_code VARCHAR(20),
+    p_result_desc TEXT,
+    p_transaction_receipt VARCHAR(50) DEFAULT NULL,
+    p_amount DECIMAL(10,2) DEFAULT NULL,
+    p_completed_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_log disbursement_logs%ROWTYPE;
+    v_request payout_requests%ROWTYPE;
+    v_user_id UUID;
+    v_transaction_id UUID;
+    v_duplicate_payment BOOLEAN := false;
+    v_completed_at TIMESTAMP WITH TIME ZONE := COALESCE(p_completed_at, NOW());
+BEGIN
+    -- Lock the log row so result and timeout callbacks serialize here
+    SELECT * INTO v_log
+    FROM disbursement_logs
+    WHERE request_id = p_originator_conversation_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN 'not_found';
+    END IF;
+
+    IF v_log.status IN ('completed', 'failed') THEN
+        RETURN 'duplicate';
+    END IF;
+
+    IF p_result_code <> '0' THEN
+        UPDATE disbursement_logs
+        SET status = 'failed',
+            conversation_id = COALESCE(p_conversation_id, conversation_id),
+            result_code = p_result_code,
+            result_desc = p_result_desc
+        WHERE id = v_log.id;
+
+        RETURN 'failed';
+    END IF;
+
+    IF p_transaction_receipt IS NULL THEN
+        RAISE EXCEPTION 'Successful result requires a transaction receipt';
+    END IF;
+
+    IF v_log.payout_request_id IS NOT NULL THEN
+        SELECT * INTO v_request
+        FROM payout_requests
+        WHERE id = v_log.payout_request_id
+        FOR UPDATE;
+
+        -- A second payment against a settled request still left the float, so it is booked (and flagged) to keep
+        -- the kitty matching the float; the request itself is paid once
+        v_duplicate_payment := v_request.status = 'paid';
+
+        IF NOT v_duplicate_payment THEN
+            UPDATE payout_requests
+            SET status = 'paid'
+            WHERE id = v_request.id;
+        END IF;
+
+        SELECT user_id INTO v_user_id
+        FROM chama_members
+        WHERE id = v_request.member_id;
+    END IF;
+
+    INSERT INTO transactions (
+        chama_id, user_id, amount, transaction_type, status,
+        transaction_code, phone_number, description, metadata, completed_at
+    ) VALUES (
+        v_log.chama_id,
+        COALESCE(v_user_id, v_log.initiated_by),
+        COALESCE(p_amount, v_log.amount),
+        CASE WHEN v_request.request_type = 'loan' THEN 'loan'::transaction_type ELSE 'payout'::transaction_type END,
+        'completed',
+        p_transaction_receipt,
+        ltrim(v_log.phone_number, '+'),
+        mobile_money_provider_name(v_log.provider) || ' B2C disbursement',
+        jsonb_build_object(
+            'request_id', v_log.request_id,
+            'conversation_id', COALESCE(p_conversation_id, v_log.conversation_id),
+            'payout_request_id', v_log.payout_request_id,
+            'reference', v_log.reference,
+            'attempt', v_log.attempt,
+            'member_id', v_request.member_id,
+            'provider', v_log.provider,
+            'duplicate_payment', v_duplicate_payment
+        ),
+        v_completed_at
+    )
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE disbursement_logs
+    SET status = 'completed',
+        conversation_id = COALESCE(p_conversation_id, conversation_id),
+        result_code = p_result_code,
+        result_desc = p_result_desc,
+        transaction_code = p_transaction_receipt,
+        completed_at = v_completed_at
+    WHERE id = v_log.id;
+
+    IF v_duplicate_payment THEN
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        SELECT user_id, 'Duplicate disbursement',
+            'A request that was already paid was paid again: KES ' || COALESCE(p_amount, v_log.amount)
+                || ' (' || p_transaction_receipt || '). Recover it from the member.',
+            'warning', 'transaction', v_transaction_id
+        FROM chama_members
+        WHERE chama_id = v_log.chama_id
+        AND role = 'treasurer'
+        AND is_active = true;
+
+        RETURN 'duplicate_payment';
+    END IF;
+
+    RETURN 'completed';
+END;
+$$;
+
+-- Security: Disbursement results are only reconciled by the API routes, through the service-role client
+REVOKE EXECUTE ON FUNCTION reconcile_b2c_result(VARCHAR, VARCHAR, VARCHAR, TEXT, VARCHAR, DECIMAL, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function to write a loan's amortization schedule (interest_rate is a monthly percentage)
+CREATE OR REPLACE FUNCTION schedule_loan_repayments(p_payout_request_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_loan payout_requests%ROWTYPE;
+    v_method VARCHAR(20);
+    v_rate DECIMAL(12,8);
+    v_start DATE;
+    v_balance DECIMAL(12,2);
+    v_payment DECIMAL(12,2);
+    v_principal DECIMAL(12,2);
+    v_interest DECIMAL(12,2);
+    i INTEGER;
+BEGIN
+    SELECT * INTO v_loan
+    FROM payout_requests
+    WHERE id = p_payout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_loan.request_type <> 'loan' OR v_loan.status NOT IN ('approved', 'paid') THEN
+        RAISE EXCEPTION 'Only approved loans can be scheduled';
+    END IF;
+
+    -- Schedules are written once; later changes go through repayments, not regeneration
+    IF EXISTS (SELECT 1 FROM loan_repayments WHERE payout_request_id = p_payout_request_id) THEN
+        RETURN 0;
+    END IF;
+
+    SELECT COALESCE(settings->'loans'->>'interest_method', 'flat') INTO v_method
+    FROM chamas
+    WHERE id = v_loan.chama_id;
+
+    v_rate := v_loan.interest_rate / 100;
+    v_start := (COALESCE(v_loan.approved_at, NOW()) AT TIME ZONE 'Africa/Nairobi')::DATE;
+    v_balance := v_loan.amount;
+
+    -- Level payment for reducing balance; M-Pesa only moves whole shillings so the final installment absorbs rounding
+    IF v_rate > 0 THEN
+        v_payment := ROUND(v_loan.amount * v_rate / (1 - POWER(1 + v_rate, -v_loan.repayment_period)), 0);
+    ELSE
+        v_payment := ROUND(v_loan.amount / v_loan.repayment_period, 0);
+    END IF;
+
+    FOR i IN 1..v_loan.repayment_period LOOP
+        IF v_method = 'reducing_balance' THEN
+            v_interest := ROUND(v_balance * v_rate, 0);
+            v_principal := LEAST(v_payment - v_interest, v_balance);
+        ELSE
+            -- Spread principal evenly so no installment rounds down to nothing
+            v_interest := ROUND(v_loan.amount * v_rate, 0);
+            v_principal := ROUND(v_loan.amount * i / v_loan.repayment_period, 0)
+                - ROUND(v_loan.amount * (i - 1) / v_loan.repayment_period, 0);
+        END IF;
+
+        IF i = v_loan.repayment_period THEN
+            v_principal := v_balance;
+        END IF;
+
+        v_balance := v_balance - v_principal;
+
+        INSERT INTO loan_repayments (
+            payout_request_id, installment_number, amount, principal_amount, interest_amount, due_date
+        ) VALUES (
+            p_payout_request_id, i, v_principal + v_interest, v_principal, v_interest,
+            (v_start + make_interval(months => i))::DATE
+        );
+    END LOOP;
+
+    UPDATE payout_requests
+    SET interest_method = v_method
+    WHERE id = p_payout_request_id;
+
+    RETURN v_loan.repayment_period;
+END;
+$$;
+
+-- Function to (re)build a loan's schedule on demand, e.g. for loans approved before scheduling existed
+CREATE OR REPLACE FUNCTION generate_loan_schedule(p_payout_request_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- Security: officers of the loan's chama only (the service role may schedule any loan)
+    IF auth.uid() IS NULL THEN
+        IF auth.role() IS DISTINCT FROM 'service_role' THEN
+            RAISE EXCEPTION 'Access denied';
+        END IF;
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM payout_requests pr
+        JOIN chama_members cm ON cm.chama_id = pr.chama_id
+        WHERE pr.id = p_payout_request_id
+        AND cm.user_id = auth.uid()
+        AND cm.role IN ('chairperson', 'treasurer')
+        AND cm.is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Access denied';
+    END IF;
+
+    RETURN schedule_loan_repayments(p_payout_request_id);
+END;
+$$;
+
+-- Security: Schedules are rebuilt by signed-in officers, never with the anonymous key
+REVOKE EXECUTE ON FUNCTION generate_loan_schedule(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_loan_schedule(UUID) TO authenticated;
+
+-- Function for the treasurer to record a loan repayment received in cash, by bank or to the chama's M-Pesa. It
+-- settles the oldest unpaid installments through the ledger; settling the last one releases the loan's guarantors.
+CREATE OR REPLACE FUNCTION record_loan_repayment(
+    p_payout_request_id UUID,
+    p_installments INTEGER DEFAULT 1,
+    p_reference VARCHAR(50) DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_loan payout_requests%ROWTYPE;
+    v_member chama_members%ROWTYPE;
+    v_reference VARCHAR(50) := NULLIF(upper(trim(p_reference)), '');
+    v_installment_ids UUID[];
+    v_amount DECIMAL(12,2);
+    v_interest DECIMAL(12,2);
+    v_transaction_id UUID;
+BEGIN
+    SELECT * INTO v_loan
+    FROM payout_requests
+    WHERE id = p_payout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_loan.request_type <> 'loan' THEN
+        RAISE EXCEPTION 'Loan not found';
+    END IF;
+
+    -- Security: the chama's treasurer only (the service role may record any repayment)
+    IF auth.uid() IS NULL THEN
+        IF auth.role() IS DISTINCT FROM 'service_role' THEN
+            RAISE EXCEPTION 'Only the treasurer can record loan repayments';
+        END IF;
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = v_loan.chama_id
+        AND user_id = auth.uid()
+        AND role = 'treasurer'
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Only the treasurer can record loan repayments';
+    END IF;
+
+    IF v_loan.status <> 'paid' THEN
+        RAISE EXCEPTION 'Only disbursed loans can be repaid';
+    END IF;
+
+    IF p_installments IS NULL OR p_installments < 1 THEN
+        RAISE EXCEPTION 'Record at least one installment';
+    END IF;
+
+    IF v_reference IS NOT NULL AND EXISTS (SELECT 1 FROM transactions WHERE transaction_code = v_reference) THEN
+        RAISE EXCEPTION 'This payment reference has already been recorded';
+    END IF;
+
+    -- Penalties are income to the chama, like interest, so neither reduces the loan balance
+    SELECT array_agg(id), SUM(amount + COALESCE(penalty_amount, 0)), SUM(interest_amount + COALESCE(penalty_amount, 0))
+    INTO v_installment_ids, v_amount, v_interest
+    FROM (
+        SELECT id, amount, interest_amount, penalty_amount
+        FROM loan_repayments
+        WHERE payout_request_id = p_payout_request_id
+        AND is_paid IS NOT TRUE
+        ORDER BY installment_number ASC
+        LIMIT p_installments
+        FOR UPDATE
+    ) due;
+
+    IF v_installment_ids IS NULL THEN
+        RAISE EXCEPTION 'This loan has no unpaid installments';
+    END IF;
+
+    IF array_length(v_installment_ids, 1) < p_installments THEN
+        RAISE EXCEPTION 'Only % installments are still unpaid', array_length(v_installment_ids, 1);
+    END IF;
+
+    SELECT * INTO v_member FROM chama_members WHERE id = v_loan.member_id;
+
+    INSERT INTO transactions (
+        chama_id, user_id, amount, transaction_type, status, transaction_code, phone_number, description, metadata, completed_at
+    )
+    SELECT v_loan.chama_id, v_member.user_id, v_amount, 'loan_repayment', 'completed', v_reference,
+        u.phone_number,
+        'Loan repayment (' || array_length(v_installment_ids, 1) || ' installment'
+            || CASE WHEN array_length(v_installment_ids, 1) = 1 THEN '' ELSE 's' END || ')',
+        jsonb_build_object(
+            'member_id', v_member.id,
+            'payout_request_id', v_loan.id,
+            'interest_amount', v_interest,
+            'recorded_by', auth.uid()
+        ),
+        NOW()
+    FROM users u
+    WHERE u.id = v_member.user_id
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE loan_repayments
+    SET is_paid = true,
+        paid_date = (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE,
+        transaction_id = v_transaction_id
+    WHERE id = ANY(v_installment_ids);
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_member.user_id,
+        'Loan repayment recorded',
+        'Your loan repayment of KES ' || v_amount || ' has been recorded.'
+            || CASE
+                WHEN EXISTS (
+                    SELECT 1 FROM loan_repayments
+                    WHERE payout_request_id = v_loan.id
+                    AND is_paid IS NOT TRUE
+                ) THEN ''
+                ELSE ' Your loan is fully repaid and your guarantors have been released.'
+            END,
+        'success',
+        'transaction',
+        v_transaction_id
+    );
+
+    RETURN v_transaction_id;
+END;
+$$;
+
+-- Security: Repayments are recorded by signed-in treasurers, never with the anonymous key
+REVOKE EXECUTE ON FUNCTION record_loan_repayment(UUID, INTEGER, VARCHAR) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_loan_repayment(UUID, INTEGER, VARCHAR) TO authenticated;
+
+-- Function to schedule repayments as soon as a loan is approved
+CREATE OR REPLACE FUNCTION schedule_approved_loan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM schedule_loan_repayments(NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+-- Security: Schedules are only written by the functions above
+REVOKE EXECUTE ON FUNCTION schedule_loan_repayments(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to compute how much a member may borrow: unpledged savings times the chama multiplier, less loans still owed
+CREATE OR REPLACE FUNCTION member_loan_limit(p_member_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_chama_id UUID;
+    v_multiplier INTEGER;
+    v_savings DECIMAL(12,2);
+    v_pledged DECIMAL(12,2);
+    v_available DECIMAL(12,2);
+    v_receivable DECIMAL(12,2);
+    v_undisbursed DECIMAL(12,2);
+BEGIN
+    SELECT cm.chama_id, COALESCE(c.max_loan_multiplier, 1)
+    INTO v_chama_id, v_multiplier
+    FROM chama_members cm
+    JOIN chamas c ON c.id = cm.chama_id
+    WHERE cm.id = p_member_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Member not found';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(balance) FILTER (WHERE account_type = 'member_savings'), 0),
+        COALESCE(SUM(balance) FILTER (WHERE account_type = 'loans_receivable'), 0)
+    INTO v_savings, v_receivable
+    FROM ledger_account_balances
+    WHERE chama_id = v_chama_id
+    AND member_id = p_member_id;
+
+    -- Loans requested or approved but not yet disbursed are not on the ledger yet
+    SELECT COALESCE(SUM(amount), 0) INTO v_undisbursed
+    FROM payout_requests
+    WHERE member_id = p_member_id
+    AND request_type = 'loan'
+    AND status IN ('pending', 'approved');
+
+    -- Savings pledged behind other members' loans stay locked until those loans are settled
+    SELECT COALESCE(SUM(pledged_amount), 0) INTO v_pledged
+    FROM loan_guarantors
+    WHERE guarantor_member_id = p_member_id
+    AND status = 'accepted';
+
+    v_available := GREATEST(v_savings - v_pledged, 0);
+
+    RETURN jsonb_build_object(
+        'savings', v_savings,
+        'pledged_savings', v_pledged,
+        'available_savings', v_available,
+        'multiplier', v_multiplier,
+        'savings_limit', v_available * v_multiplier,
+        'outstanding_loans', v_receivable + v_undisbursed,
+        'max_loan', GREATEST(v_available * v_multiplier - v_receivable - v_undisbursed, 0)
+    );
+END;
+$$;
+
+-- Function to look up a loan limit before requesting (own limit, or any member's for officers)
+CREATE OR REPLACE FUNCTION get_loan_eligibility(p_chama_id UUID, p_member_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_caller chama_members%ROWTYPE;
+    v_member_id UUID := p_member_id;
+BEGIN
+    SELECT * INTO v_caller
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND user_id = auth.uid()
+    AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Access denied';
+    END IF;
+
+    IF v_member_id IS NULL THEN
+        v_member_id := v_caller.id;
+    END IF;
+
+    -- Security: members see their own limit; officers may check any member of their chama
+    IF v_member_id <> v_caller.id AND (
+        v_caller.role NOT IN ('chairperson', 'treasurer')
+        OR NOT EXISTS (SELECT 1 FROM chama_members WHERE id = v_member_id AND chama_id = p_chama_id)
+    ) THEN
+        RAISE EXCEPTION 'Access denied';
+    END IF;
+
+    RETURN member_loan_limit(v_member_id);
+END;
+$$;
+
+-- Function to record how much of a new loan must be guaranteed, whichever client submits it
+CREATE OR REPLACE FUNCTION enforce_loan_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_max_loan DECIMAL(12,2);
+BEGIN
+    -- Serialize a member's concurrent requests so they cannot both fit under the same limit
+    PERFORM 1 FROM chama_members WHERE id = NEW.member_id FOR UPDATE;
+
+    v_max_loan := (member_loan_limit(NEW.member_id)->>'max_loan')::DECIMAL(12,2);
+
+    -- Anything above the borrower's own limit must be covered by accepted guarantor pledges before voting
+    NEW.guarantee_required := GREATEST(NEW.amount - v_max_loan, 0);
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to let a borrower nominate (or re-nominate) guarantors while their loan request is pending
+CREATE OR REPLACE FUNCTION nominate_loan_guarantors(p_payout_request_id UUID, p_guarantors JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_request payout_requests%ROWTYPE;
+    v_borrower_name TEXT;
+    v_item JSONB;
+    v_guarantor_id UUID;
+    v_pledge DECIMAL(12,2);
+    v_guarantee_id UUID;
+    v_guarantor_user_id UUID;
+    v_count INTEGER := 0;
+BEGIN
+    SELECT * INTO v_request
+    FROM payout_requests
+    WHERE id = p_payout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_request.request_type <> 'loan' THEN
+        RAISE EXCEPTION 'Loan request not found';
+    END IF;
+
+    -- Security: only the borrower nominates their guarantors
+    SELECT u.full_name INTO v_borrower_name
+    FROM chama_members cm
+    JOIN users u ON u.id = cm.user_id
+    WHERE cm.id = v_request.member_id
+    AND cm.user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Access denied';
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'Guarantors can only be nominated while the request is pending';
+    END IF;
+
+    IF jsonb_typeof(p_guarantors) <> 'array' OR jsonb_array_length(p_guarantors) = 0 THEN
+        RAISE EXCEPTION 'At least one guarantor is required';
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_guarantors) LOOP
+        v_guarantor_id := (v_item->>'member_id')::UUID;
+        v_pledge := (v_item->>'pledged_amount')::DECIMAL(12,2);
+
+        IF v_guarantor_id = v_request.member_id THEN
+            RAISE EXCEPTION 'Borrowers cannot guarantee their own loan';
+        END IF;
+
+        IF v_pledge IS NULL OR v_pledge <= 0 THEN
+            RAISE EXCEPTION 'Pledged amount must be greater than zero';
+        END IF;
+
+        SELECT user_id INTO v_guarantor_user_id
+        FROM chama_members
+        WHERE id = v_guarantor_id
+        AND chama_id = v_request.chama_id
+        AND is_active = true;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Guarantors must be active members of this chama';
+        END IF;
+
+        -- Accepted pledges are binding; only open or declined nominations can be changed
+        INSERT INTO loan_guarantors (payout_request_id, guarantor_member_id, pledged_amount)
+        VALUES (p_payout_request_id, v_guarantor_id, v_pledge)
+        ON CONFLICT (payout_request_id, guarantor_member_id) DO UPDATE
+        SET pledged_amount = EXCLUDED.pledged_amount,
+            status = 'pending',
+            responded_at = NULL
+        WHERE loan_guarantors.status IN ('pending', 'declined')
+        RETURNING id INTO v_guarantee_id;
+
+        CONTINUE WHEN v_guarantee_id IS NULL;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            v_guarantor_user_id,
+            'Guarantee request',
+            v_borrower_name || ' asked you to guarantee KES ' || v_pledge || ' of their loan.',
+            'vote_required',
+            'loan_guarantor',
+            v_guarantee_id
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- Function for a nominated guarantor to accept or decline
+CREATE OR REPLACE FUNCTION respond_to_guarantee(p_guarantee_id UUID, p_accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_guarantee loan_guarantors%ROWTYPE;
+    v_request payout_requests%ROWTYPE;
+    v_guarantor_name TEXT;
+    v_borrower_user_id UUID;
+    v_available DECIMAL(12,2);
+    v_status VARCHAR(20) := CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END;
+BEGIN
+    SELECT * INTO v_guarantee
+    FROM loan_guarantors
+    WHERE id = p_guarantee_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Guarantee not found';
+    END IF;
+
+    -- Security: only the nominated guarantor can answer
+    SELECT u.full_name INTO v_guarantor_name
+    FROM chama_members cm
+    JOIN users u ON u.id = cm.user_id
+    WHERE cm.id = v_guarantee.guarantor_member_id
+    AND cm.user_id = auth.uid()
+    AND cm.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Access denied';
+    END IF;
+
+    IF v_guarantee.status <> 'pending' THEN
+        RAISE EXCEPTION 'This guarantee has already been answered';
+    END IF;
+
+    SELECT * INTO v_request FROM payout_requests WHERE id = v_guarantee.payout_request_id;
+
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'This loan request is no longer open';
+    END IF;
+
+    IF p_accept THEN
+        -- Serialize the guarantor's pledges so the same savings cannot back two loans at once
+        PERFORM 1 FROM chama_members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+
+        v_available := (member_loan_limit(v_guarantee.guarantor_member_id)->>'available_savings')::DECIMAL(12,2);
+
+        IF v_guarantee.pledged_amount > v_available THEN
+            RAISE EXCEPTION 'Pledge exceeds your available savings of KES %', v_available;
+        END IF;
+    END IF;
+
+    UPDATE loan_guarantors
+    SET status = v_status,
+        responded_at = NOW()
+    WHERE id = p_guarantee_id;
+
+    SELECT user_id INTO v_borrower_user_id FROM chama_members WHERE id = v_request.member_id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_borrower_user_id,
+        CASE WHEN p_accept THEN 'Guarantee accepted' ELSE 'Guarantee declined' END,
+        v_guarantor_name || ' ' || v_status || ' your request to guarantee KES ' || v_guarantee.pledged_amount || '.',
+        CASE WHEN p_accept THEN 'success' ELSE 'warning' END::notification_type,
+        'payout_request',
+        v_request.id
+    );
+
+    RETURN v_status;
+END;
+$$;
+
+-- Function to total the accepted pledges behind a loan request
+CREATE OR REPLACE FUNCTION loan_guarantee_coverage(p_payout_request_id UUID)
+RETURNS DECIMAL(12,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT COALESCE(SUM(pledged_amount), 0)
+    FROM loan_guarantors
+    WHERE payout_request_id = p_payout_request_id
+    AND status = 'accepted';
+$$;
+
+-- Function to keep loans that still need guarantors out of voting
+CREATE OR REPLACE FUNCTION enforce_guarantee_coverage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_required DECIMAL(12,2);
+    v_covered DECIMAL(12,2);
+BEGIN
+    SELECT guarantee_required INTO v_required
+    FROM payout_requests
+    WHERE id = NEW.payout_request_id;
+
+    IF v_required > 0 THEN
+        v_covered := loan_guarantee_coverage(NEW.payout_request_id);
+
+        IF v_covered < v_required THEN
+            RAISE EXCEPTION 'Voting opens once guarantors cover KES % (KES % accepted so far)', v_required, v_covered
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to unlock pledges once a loan is rejected, expires unapproved or is fully repaid
+CREATE OR REPLACE FUNCTION release_loan_guarantees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_request_id UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'payout_requests' THEN
+        v_request_id := NEW.id;
+    ELSE
+        v_request_id := NEW.payout_request_id;
+
+        IF EXISTS (
+            SELECT 1 FROM loan_repayments
+            WHERE payout_request_id = v_request_id
+            AND is_paid IS NOT TRUE
+        ) THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    UPDATE loan_guarantors
+    SET status = 'released',
+        released_at = NOW()
+    WHERE payout_request_id = v_request_id
+    AND status IN ('pending', 'accepted');
+
+    RETURN NEW;
+END;
+$$;
+
+-- Security: Limits and coverage are only read through the functions above
+REVOKE EXECUTE ON FUNCTION member_loan_limit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION loan_guarantee_coverage(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to resolve a chama's voting rules: chamas.min_approval_percentage plus settings.voting over defaults
+CREATE OR REPLACE FUNCTION chama_voting_rules(p_chama_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT jsonb_build_object(
+        'approval_threshold', COALESCE(c.min_approval_percentage, 51),
+        'quorum_percentage', 50,
+        'voting_period_hours', 72,
+        'allow_requester_vote', false,
+        'allow_guarantor_vote', true,
+        'cosign_above_amount', NULL,
+        'role_weights', NULL,
+        'officer_veto', false
+    ) || COALESCE(c.settings->'voting', '{}'::jsonb) - 'approval_threshold'
+    FROM chamas c
+    WHERE c.id = p_chama_id;
+$$;
+
+-- Function to decide a tally: early outcomes only when remaining votes cannot change them; at close, quorum applies
+-- and a vote that misses quorum (or a required co-signature) expires
+CREATE OR REPLACE FUNCTION evaluate_vote_tally(
+    p_rules JSONB,
+    p_eligible DECIMAL,
+    p_approvals DECIMAL,
+    p_rejections DECIMAL,
+    p_final BOOLEAN DEFAULT false,
+    p_vetoed BOOLEAN DEFAULT false,
+    p_cosign_missing INTEGER DEFAULT 0
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_threshold DECIMAL := (p_rules->>'approval_threshold')::DECIMAL;
+    v_quorum DECIMAL := (p_rules->>'quorum_percentage')::DECIMAL;
+    v_cast DECIMAL := p_approvals + p_rejections;
+    v_remaining DECIMAL := GREATEST(p_eligible - v_cast, 0);
+    v_outcome TEXT;
+BEGIN
+    IF p_vetoed THEN
+        RETURN 'rejected';
+    END IF;
+
+    IF p_eligible <= 0 THEN
+        RETURN CASE WHEN p_final THEN 'expired' ELSE 'pending' END;
+    END IF;
+
+    IF p_approvals * 100 >= v_threshold * p_eligible THEN
+        -- Approved even if everyone left votes against
+        v_outcome := 'approved';
+    ELSIF (p_approvals + v_remaining) * 100 < v_threshold * p_eligible THEN
+        -- Rejected even if everyone left votes in favour
+        RETURN 'rejected';
+    ELSIF NOT p_final THEN
+        RETURN 'pending';
+    ELSIF v_cast * 100 < v_quorum * p_eligible THEN
+        -- Too few votes by the deadline to decide either way
+        RETURN 'expired';
+    ELSIF p_approvals * 100 >= v_threshold * v_cast THEN
+        v_outcome := 'approved';
+    ELSE
+        RETURN 'rejected';
+    END IF;
+
+    -- Approval still waits on officers who must co-sign
+    IF p_cosign_missing > 0 THEN
+        RETURN CASE WHEN p_final THEN 'expired' ELSE 'pending' END;
+    END IF;
+
+    RETURN v_outcome;
+END;
+$$;
+
+-- Function to evaluate a ballot of eligible voters ([{"role", "vote"}], vote null when not yet cast) under the
+-- chama's voting modes: role weights, officer veto and officer co-signature above cosign_above_amount.
+-- When no officer is eligible to co-sign, the membership vote alone decides.
+CREATE OR REPLACE FUNCTION evaluate_ballot(
+    p_rules JSONB,
+    p_ballot JSONB,
+    p_amount DECIMAL DEFAULT NULL,
+    p_final BOOLEAN DEFAULT false
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_entry RECORD;
+    v_weight DECIMAL;
+    v_is_officer BOOLEAN;
+    v_eligible DECIMAL := 0;
+    v_approvals DECIMAL := 0;
+    v_rejections DECIMAL := 0;
+    v_vetoed BOOLEAN := false;
+    v_cosign_missing INTEGER := 0;
+    v_weights JSONB := p_rules->'role_weights';
+    v_officer_veto BOOLEAN := COALESCE((p_rules->>'officer_veto')::BOOLEAN, false);
+    v_needs_cosign BOOLEAN := p_amount IS NOT NULL
+        AND jsonb_typeof(p_rules->'cosign_above_amount') = 'number'
+        AND p_amount > (p_rules->>'cosign_above_amount')::DECIMAL;
+BEGIN
+    FOR v_entry IN
+        SELECT * FROM jsonb_to_recordset(p_ballot) AS ballot(role TEXT, vote TEXT)
+    LOOP
+        v_weight := CASE
+            WHEN jsonb_typeof(v_weights) = 'object' THEN COALESCE((v_weights->>v_entry.role)::DECIMAL, 1)
+            ELSE 1
+        END;
+        v_is_officer := v_entry.role IN ('chairperson', 'treasurer');
+
+        v_eligible := v_eligible + v_weight;
+        IF v_entry.vote = 'approve' THEN
+            v_approvals := v_approvals + v_weight;
+        ELSIF v_entry.vote = 'reject' THEN
+            v_rejections := v_rejections + v_weight;
+        END IF;
+
+        IF v_is_officer AND v_entry.vote = 'reject' AND (v_officer_veto OR v_needs_cosign) THEN
+            v_vetoed := true;
+        ELSIF v_is_officer AND v_needs_cosign AND v_entry.vote IS DISTINCT FROM 'approve' THEN
+            v_cosign_missing := v_cosign_missing + 1;
+        END IF;
+    END LOOP;
+
+    RETURN evaluate_vote_tally(p_rules, v_eligible, v_approvals, v_rejections, p_final, v_vetoed, v_cosign_missing);
+END;
+$$;
+
+-- Function to list the members entitled to vote on a payout request under the chama's rules
+CREATE OR REPLACE FUNCTION payout_request_voters(p_payout_request_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT cm.id
+    FROM payout_requests pr
+    JOIN chama_members cm ON cm.chama_id = pr.chama_id
+    CROSS JOIN LATERAL chama_voting_rules(pr.chama_id) AS rules
+    WHERE pr.id = p_payout_request_id
+    AND cm.is_active = true
+    AND (cm.id <> pr.member_id OR (rules->>'allow_requester_vote')::BOOLEAN)
+    AND (
+        (rules->>'allow_guarantor_vote')::BOOLEAN
+        OR NOT EXISTS (
+            SELECT 1 FROM loan_guarantors lg
+            WHERE lg.payout_request_id = pr.id
+            AND lg.guarantor_member_id = cm.id
+            AND lg.status IN ('pending', 'accepted')
+        )
+    );
+$$;
+
+-- Function to apply the chama's voting rules to a payout request; callers must hold the request row lock
+CREATE OR REPLACE FUNCTION process_payout_votes(request_id UUID, p_final BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_request payout_requests%ROWTYPE;
+    v_ballot JSONB;
+    v_outcome TEXT;
+    v_requester_user_id UUID;
+BEGIN
+    SELECT * INTO v_request
+    FROM payout_requests
+    WHERE id = request_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_request.status <> 'pending' THEN
+        RETURN COALESCE(v_request.status::TEXT, 'not_found');
+    END IF;
+
+    -- Only currently eligible voters are on the ballot
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('role', cm.role, 'vote', pv.vote)), '[]'::jsonb)
+    INTO v_ballot
+    FROM chama_members cm
+    LEFT JOIN payout_votes pv ON pv.payout_request_id = v_request.id AND pv.member_id = cm.id
+    WHERE cm.id IN (SELECT payout_request_voters(v_request.id));
+
+    v_outcome := evaluate_ballot(chama_voting_rules(v_request.chama_id), v_ballot, v_request.amount, p_final);
+
+    IF v_outcome = 'pending' THEN
+        RETURN v_outcome;
+    END IF;
+
+    UPDATE payout_requests
+    SET status = v_outcome::request_status,
+        approved_at = CASE WHEN v_outcome = 'approved' THEN NOW() ELSE approved_at END
+    WHERE id = v_request.id;
+
+    SELECT user_id INTO v_requester_user_id FROM chama_members WHERE id = v_request.member_id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_requester_user_id,
+        CASE v_outcome WHEN 'approved' THEN 'Request approved' WHEN 'rejected' THEN 'Request rejected' ELSE 'Request expired' END,
+        'Your ' || v_request.request_type || ' request for KES ' || v_request.amount || CASE
+            WHEN v_outcome = 'expired' THEN ' expired without enough votes.'
+            ELSE ' was ' || v_outcome || ' by the chama.'
+        END,
+        CASE WHEN v_outcome = 'approved' THEN 'success' ELSE 'warning' END::notification_type,
+        'payout_request',
+        v_request.id
+    );
+
+    RETURN v_outcome;
+END;
+$$;
+
+-- Function to cast a vote and re-evaluate the request in one transaction
+CREATE OR REPLACE FUNCTION cast_payout_vote(
+    p_payout_request_id UUID,
+    p_vote vote_type,
+    p_comments TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_request payout_requests%ROWTYPE;
+    v_member_id UUID;
+BEGIN
+    -- Lock the request so concurrent votes are evaluated one after another
+    SELECT * INTO v_request
+    FROM payout_requests
+    WHERE id = p_payout_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payout request not found';
+    END IF;
+
+    IF v_request.status <> 'pending' OR v_request.voting_deadline <= NOW() THEN
+        RAISE EXCEPTION 'Voting is closed for this request';
+    END IF;
+
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = v_request.chama_id
+    AND user_id = auth.uid()
+    AND is_active = true;
+
+    -- Security: only members the chama's rules allow to vote on this request
+    IF v_member_id IS NULL OR v_member_id NOT IN (SELECT payout_request_voters(v_request.id)) THEN
+        RAISE EXCEPTION 'You are not eligible to vote on this request';
+    END IF;
+
+    INSERT INTO payout_votes (payout_request_id, member_id, vote, comments)
+    VALUES (v_request.id, v_member_id, p_vote, p_comments);
+
+    RETURN process_payout_votes(v_request.id);
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'Already voted on this request';
+END;
+$$;
+
+-- Function to stamp a new request with its voting deadline from the chama's voting period
+CREATE OR REPLACE FUNCTION set_voting_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    NEW.voting_deadline := NOW() + make_interval(
+        hours => (chama_voting_rules(NEW.chama_id)->>'voting_period_hours')::INTEGER
+    );
+    RETURN NEW;
+END;
+$$;
+
+-- Function to close votes and resolutions past their deadline and remind non-voters 24h and 1h before close
+-- (run per chama or, as service role, for all)
+CREATE OR REPLACE FUNCTION process_voting_deadlines(p_chama_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_request RECORD;
+    v_outcome TEXT;
+    v_window TEXT;
+    v_closed JSONB := '{"approved": 0, "rejected": 0, "expired": 0}'::jsonb;
+    v_resolutions_closed JSONB := '{"passed": 0, "rejected": 0, "expired": 0}'::jsonb;
+    v_reminded INTEGER := 0;
+    v_count INTEGER;
+BEGIN
+    -- Security: only the service role executes this (the jobs API route); a signed-in caller must still be an officer
+    IF auth.uid() IS NOT NULL THEN
+        IF p_chama_id IS NULL OR NOT EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_id = p_chama_id
+            AND user_id = auth.uid()
+            AND role IN ('chairperson', 'treasurer')
+            AND is_active = true
+        ) THEN
+            RAISE EXCEPTION 'Unauthorized';
+        END IF;
+    END IF;
+
+    -- Close: apply the quorum rule as of the deadline
+    FOR v_request IN
+        SELECT id
+        FROM payout_requests
+        WHERE status = 'pending'
+        AND voting_deadline <= NOW()
+        AND (p_chama_id IS NULL OR chama_id = p_chama_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        v_outcome := process_payout_votes(v_request.id, true);
+        IF v_closed ? v_outcome THEN
+            v_closed := jsonb_set(v_closed, ARRAY[v_outcome], to_jsonb((v_closed->>v_outcome)::INTEGER + 1));
+        END IF;
+    END LOOP;
+
+    FOR v_request IN
+        SELECT id
+        FROM resolutions
+        WHERE status = 'open'
+        AND voting_deadline <= NOW()
+        AND (p_chama_id IS NULL OR chama_id = p_chama_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        v_outcome := process_resolution_votes(v_request.id, true);
+        IF v_resolutions_closed ? v_outcome THEN
+            v_resolutions_closed := jsonb_set(
+                v_resolutions_closed, ARRAY[v_outcome], to_jsonb((v_resolutions_closed->>v_outcome)::INTEGER + 1)
+            );
+        END IF;
+    END LOOP;
+
+    -- Remind: once per window, and only when the voting period was longer than the window
+    FOR v_request IN
+        SELECT pr.id, pr.request_type, pr.amount, pr.voting_deadline,
+            CASE WHEN pr.voting_deadline - NOW() <= INTERVAL '1 hour' THEN '1h' ELSE '24h' END AS reminder_window
+        FROM payout_requests pr
+        WHERE pr.status = 'pending'
+        AND pr.voting_deadline > NOW()
+        AND (p_chama_id IS NULL OR pr.chama_id = p_chama_id)
+        AND (
+            (pr.voting_deadline - NOW() <= INTERVAL '1 hour'
+                AND pr.reminder_1h_sent_at IS NULL
+                AND pr.voting_deadline - pr.created_at > INTERVAL '1 hour')
+            OR (pr.voting_deadline - NOW() > INTERVAL '1 hour'
+                AND pr.voting_deadline - NOW() <= INTERVAL '24 hours'
+                AND pr.reminder_24h_sent_at IS NULL
+                AND pr.voting_deadline - pr.created_at > INTERVAL '24 hours')
+        )
+        FOR UPDATE OF pr SKIP LOCKED
+    LOOP
+        v_window := v_request.reminder_window;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        SELECT
+            cm.user_id,
+            'Voting closes soon',
+            'Voting on a ' || v_request.request_type || ' request for KES ' || v_request.amount || ' closes in '
+                || CASE WHEN v_window = '1h' THEN 'less than an hour' ELSE 'less than 24 hours' END || '. Cast your vote.',
+            'vote_required',
+            'payout_request',
+            v_request.id
+        FROM chama_members cm
+        WHERE cm.id IN (SELECT payout_request_voters(v_request.id))
+        AND NOT EXISTS (
+            SELECT 1 FROM payout_votes pv
+            WHERE pv.payout_request_id = v_request.id
+            AND pv.member_id = cm.id
+        );
+
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_reminded := v_reminded + v_count;
+
+        UPDATE payout_requests
+        SET reminder_1h_sent_at = CASE WHEN v_window = '1h' THEN NOW() ELSE reminder_1h_sent_at END,
+            reminder_24h_sent_at = COALESCE(reminder_24h_sent_at, NOW())
+        WHERE id = v_request.id;
+    END LOOP;
+
+    RETURN jsonb_build_object('closed', v_closed, 'resolutions_closed', v_resolutions_closed, 'reminded', v_reminded);
+END;
+$$;
+
+-- Security: Deadlines are processed by the jobs API route, for all chamas or for an officer's own chama
+REVOKE EXECUTE ON FUNCTION process_voting_deadlines(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Security: Outcomes are only written through cast_payout_vote (or by the service role)
+REVOKE EXECUTE ON FUNCTION process_payout_votes(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION payout_request_voters(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to check a resolution action ({"type": "update_role", "member_id", "role"} or
+-- {"type": "expel_member", "member_id"}) names an active member of the chama
+CREATE OR REPLACE FUNCTION validate_resolution_action(p_chama_id UUID, p_action JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF p_action IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF p_action->>'type' NOT IN ('update_role', 'expel_member') THEN
+        RAISE EXCEPTION 'Unsupported resolution action';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE id::TEXT = p_action->>'member_id'
+        AND chama_id = p_chama_id
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Resolution action must name an active member of this chama';
+    END IF;
+
+    IF p_action->>'type' = 'update_role'
+        AND COALESCE(p_action->>'role', '') NOT IN ('member', 'treasurer', 'chairperson', 'secretary') THEN
+        RAISE EXCEPTION 'Invalid role';
+    END IF;
+
+    IF p_action->>'role' = 'chairperson' OR EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE id::TEXT = p_action->>'member_id'
+        AND role = 'chairperson'
+    ) THEN
+        RAISE EXCEPTION 'The chairperson changes through an election';
+    END IF;
+END;
+$$;
+
+-- Function to list the members entitled to vote on a resolution: active members who joined before it was
+-- proposed, other than the member its action names
+CREATE OR REPLACE FUNCTION resolution_voters(p_resolution_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT cm.id
+    FROM resolutions r
+    JOIN chama_members cm ON cm.chama_id = r.chama_id
+    WHERE r.id = p_resolution_id
+    AND cm.is_active = true
+    AND cm.joined_at <= r.created_at
+    AND cm.id::TEXT IS DISTINCT FROM r.action->>'member_id'
+    AND NOT EXISTS (
+        SELECT 1 FROM resolution_options ro
+        WHERE ro.resolution_id = r.id
+        AND ro.action->>'type' = 'expel_member'
+        AND ro.action->>'member_id' = cm.id::TEXT
+    );
+$$;
+
+-- Function to open a resolution or poll. p_options is [{"label", "opportunity_id"?, "action"?}] (2-10 choices)
+-- or null for approve/reject; p_rules may raise the chama's approval threshold or quorum, or change the voting period
+CREATE OR REPLACE FUNCTION propose_resolution(
+    p_chama_id UUID,
+    p_resolution_type TEXT,
+    p_title TEXT,
+    p_description TEXT DEFAULT NULL,
+    p_options JSONB DEFAULT NULL,
+    p_action JSONB DEFAULT NULL,
+    p_rules JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member_id UUID;
+    v_rules JSONB;
+    v_option JSONB;
+    v_position INTEGER := 0;
+    v_resolution_id UUID;
+BEGIN
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND user_id = auth.uid()
+    AND is_active = true;
+
+    -- Security: members propose in their own chama only
+    IF v_member_id IS NULL THEN
+        RAISE EXCEPTION 'Not a member of this chama';
+    END IF;
+
+    IF p_options IS NOT NULL THEN
+        IF jsonb_typeof(p_options) <> 'array' OR jsonb_array_length(p_options) NOT BETWEEN 2 AND 10 THEN
+            RAISE EXCEPTION 'Polls need between 2 and 10 options';
+        END IF;
+
+        IF p_action IS NOT NULL THEN
+            RAISE EXCEPTION 'Poll actions belong on their options';
+        END IF;
+    END IF;
+
+    PERFORM validate_resolution_action(p_chama_id, p_action);
+
+    IF p_resolution_type = 'officer_change' AND p_options IS NULL AND p_action->>'type' IS DISTINCT FROM 'update_role' THEN
+        RAISE EXCEPTION 'Officer changes must name the member and their new role';
+    END IF;
+
+    IF p_resolution_type = 'expel_member' AND p_action->>'type' IS DISTINCT FROM 'expel_member' THEN
+        RAISE EXCEPTION 'Expulsions must name the member to expel';
+    END IF;
+
+    -- Proposals can ask for more consensus than the chama's defaults, never less
+    v_rules := chama_voting_rules(p_chama_id);
+    IF p_rules IS NOT NULL THEN
+        v_rules := v_rules || jsonb_build_object(
+            'approval_threshold', LEAST(GREATEST((v_rules->>'approval_threshold')::INTEGER,
+                COALESCE((p_rules->>'approval_threshold')::INTEGER, 0)), 100),
+            'quorum_percentage', LEAST(GREATEST((v_rules->>'quorum_percentage')::INTEGER,
+                COALESCE((p_rules->>'quorum_percentage')::INTEGER, 0)), 100),
+            'voting_period_hours', LEAST(GREATEST(COALESCE((p_rules->>'voting_period_hours')::INTEGER,
+                (v_rules->>'voting_period_hours')::INTEGER), 1), 720)
+        );
+    END IF;
+
+    INSERT INTO resolutions (chama_id, proposed_by, resolution_type, title, description, rules, action, voting_deadline)
+    VALUES (
+        p_chama_id, v_member_id, p_resolution_type, p_title, p_description, v_rules, p_action,
+        NOW() + make_interval(hours => (v_rules->>'voting_period_hours')::INTEGER)
+    )
+    RETURNING id INTO v_resolution_id;
+
+    FOR v_option IN SELECT * FROM jsonb_array_elements(COALESCE(p_options, '[]'::jsonb))
+    LOOP
+        PERFORM validate_resolution_action(p_chama_id, v_option->'action');
+        v_position := v_position + 1;
+
+        INSERT INTO resolution_options (resolution_id, position, label, opportunity_id, action)
+        VALUES (
+            v_resolution_id,
+            v_position,
+            v_option->>'label',
+            (v_option->>'opportunity_id')::UUID,
+            v_option->'action'
+        );
+    END LOOP;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT cm.user_id, 'New resolution', p_title, 'vote_required', 'resolution', v_resolution_id
+    FROM chama_members cm
+    WHERE cm.id IN (SELECT resolution_voters(v_resolution_id))
+    AND cm.id <> v_member_id;
+
+    RETURN v_resolution_id;
+END;
+$$;
+
+-- Function to apply a resolution's rules through evaluate_ballot; polls evaluate each option as approve-vs-rest
+-- without officer veto, and pass with the option that reaches the threshold. Callers must hold the row lock.
+CREATE OR REPLACE FUNCTION process_resolution_votes(p_resolution_id UUID, p_final BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_resolution resolutions%ROWTYPE;
+    v_ballot JSONB;
+    v_option RECORD;
+    v_option_outcome TEXT;
+    v_winner resolution_options%ROWTYPE;
+    v_all_rejected BOOLEAN := true;
+    v_any_expired BOOLEAN := false;
+    v_outcome TEXT;
+    v_proposer_user_id UUID;
+BEGIN
+    SELECT * INTO v_resolution
+    FROM resolutions
+    WHERE id = p_resolution_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_resolution.status <> 'open' THEN
+        RETURN COALESCE(v_resolution.status, 'not_found');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM resolution_options WHERE resolution_id = v_resolution.id) THEN
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('role', cm.role, 'vote', rv.vote)), '[]'::jsonb)
+        INTO v_ballot
+        FROM chama_members cm
+        LEFT JOIN resolution_votes rv ON rv.resolution_id = v_resolution.id AND rv.member_id = cm.id
+        WHERE cm.id IN (SELECT resolution_voters(v_resolution.id));
+
+        v_outcome := evaluate_ballot(v_resolution.rules, v_ballot, NULL, p_final);
+        v_outcome := CASE v_outcome WHEN 'approved' THEN 'passed' ELSE v_outcome END;
+    ELSE
+        FOR v_option IN
+            SELECT * FROM resolution_options WHERE resolution_id = v_resolution.id ORDER BY position
+        LOOP
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'role', cm.role,
+                'vote', CASE
+                    WHEN rv.option_id = v_option.id THEN 'approve'
+                    WHEN rv.option_id IS NOT NULL THEN 'reject'
+                END
+            )), '[]'::jsonb)
+            INTO v_ballot
+            FROM chama_members cm
+            LEFT JOIN resolution_votes rv ON rv.resolution_id = v_resolution.id AND rv.member_id = cm.id
+            WHERE cm.id IN (SELECT resolution_voters(v_resolution.id));
+
+            v_option_outcome := evaluate_ballot(
+                v_resolution.rules || '{"officer_veto": false}'::jsonb, v_ballot, NULL, p_final
+            );
+
+            IF v_option_outcome = 'approved' THEN
+                SELECT * INTO v_winner FROM resolution_options WHERE id = v_option.id;
+                EXIT;
+            END IF;
+
+            v_all_rejected := v_all_rejected AND v_option_outcome = 'rejected';
+            v_any_expired := v_any_expired OR v_option_outcome = 'expired';
+        END LOOP;
+
+        v_outcome := CASE
+            WHEN v_winner.id IS NOT NULL THEN 'passed'
+            WHEN v_all_rejected THEN 'rejected'
+            WHEN NOT p_final THEN 'pending'
+            WHEN v_any_expired THEN 'expired'
+            ELSE 'rejected'
+        END;
+    END IF;
+
+    IF v_outcome = 'pending' THEN
+        RETURN v_outcome;
+    END IF;
+
+    IF v_winner.id IS NOT NULL THEN
+        UPDATE resolution_options SET is_winner = true WHERE id = v_winner.id;
+    END IF;
+
+    UPDATE resolutions
+    SET status = v_outcome,
+        action = COALESCE(v_winner.action, action),
+        closed_at = NOW()
+    WHERE id = v_resolution.id;
+
+    SELECT user_id INTO v_proposer_user_id FROM chama_members WHERE id = v_resolution.proposed_by;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_proposer_user_id,
+        'Resolution ' || v_outcome,
+        v_resolution.title || CASE
+            WHEN v_winner.id IS NOT NULL THEN ': ' || v_winner.label
+            ELSE ''
+        END,
+        CASE WHEN v_outcome = 'passed' THEN 'success' ELSE 'warning' END::notification_type,
+        'resolution',
+        v_resolution.id
+    );
+
+    RETURN v_outcome;
+END;
+$$;
+
+-- Function to vote on a resolution (p_vote) or poll (p_option_id) and re-evaluate it in one transaction
+CREATE OR REPLACE FUNCTION cast_resolution_vote(
+    p_resolution_id UUID,
+    p_vote vote_type DEFAULT NULL,
+    p_option_id UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_resolution resolutions%ROWTYPE;
+    v_member_id UUID;
+    v_is_poll BOOLEAN;
+BEGIN
+    -- Lock the resolution so concurrent votes are evaluated one after another
+    SELECT * INTO v_resolution
+    FROM resolutions
+    WHERE id = p_resolution_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Resolution not found';
+    END IF;
+
+    IF v_resolution.status <> 'open' OR v_resolution.voting_deadline <= NOW() THEN
+        RAISE EXCEPTION 'Voting is closed for this resolution';
+    END IF;
+
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = v_resolution.chama_id
+    AND user_id = auth.uid()
+    AND is_active = true;
+
+    -- Security: only members eligible for this resolution
+    IF v_member_id IS NULL OR v_member_id NOT IN (SELECT resolution_voters(v_resolution.id)) THEN
+        RAISE EXCEPTION 'You are not eligible to vote on this resolution';
+    END IF;
+
+    v_is_poll := EXISTS (SELECT 1 FROM resolution_options WHERE resolution_id = v_resolution.id);
+
+    IF v_is_poll AND NOT EXISTS (
+        SELECT 1 FROM resolution_options WHERE id = p_option_id AND resolution_id = v_resolution.id
+    ) THEN
+        RAISE EXCEPTION 'Choose one of the poll options';
+    END IF;
+
+    IF NOT v_is_poll AND p_vote IS NULL THEN
+        RAISE EXCEPTION 'Vote to approve or reject';
+    END IF;
+
+    INSERT INTO resolution_votes (resolution_id, member_id, vote, option_id)
+    VALUES (
+        v_resolution.id,
+        v_member_id,
+        CASE WHEN v_is_poll THEN NULL ELSE p_vote END,
+        CASE WHEN v_is_poll THEN p_option_id END
+    );
+
+    RETURN process_resolution_votes(v_resolution.id);
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'Already voted on this resolution';
+END;
+$$;
+
+-- Function backing the chama_members UPDATE policy: the caller may carry out a passed resolution naming this member
+-- if they proposed it or are an officer
+CREATE OR REPLACE FUNCTION resolution_authorizes_member_update(p_member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM resolutions r
+        JOIN chama_members caller ON caller.chama_id = r.chama_id
+        WHERE r.status = 'passed'
+        AND r.action->>'member_id' = p_member_id::TEXT
+        AND caller.user_id = auth.uid()
+        AND caller.is_active = true
+        AND (caller.id = r.proposed_by OR caller.role IN ('chairperson', 'treasurer'))
+    );
+$$;
+
+-- Function backing the chama_members UPDATE policy: the new row is exactly what the passed resolution decided
+CREATE OR REPLACE FUNCTION resolution_matches_member_update(p_member_id UUID, p_role user_role, p_is_active BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM resolutions r
+        WHERE r.status = 'passed'
+        AND r.action->>'member_id' = p_member_id::TEXT
+        AND (
+            (r.action->>'type' = 'update_role' AND p_role::TEXT = r.action->>'role' AND p_is_active)
+            OR (r.action->>'type' = 'expel_member' AND NOT p_is_active)
+        )
+    );
+$$;
+
+-- Function to keep client updates on chama_members to role and is_active
+CREATE OR REPLACE FUNCTION guard_member_identity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND (
+        NEW.id IS DISTINCT FROM OLD.id
+        OR NEW.chama_id IS DISTINCT FROM OLD.chama_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.joined_at IS DISTINCT FROM OLD.joined_at
+        OR NEW.member_number IS DISTINCT FROM OLD.member_number
+    ) THEN
+        RAISE EXCEPTION 'Only a member''s role and status can be changed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to keep the ledger-derived kitty and the codes payments and invites are matched on out of clients' hands.
+-- Not SECURITY DEFINER: inside the definer functions that own these columns current_user is the owner, not a client role.
+CREATE OR REPLACE FUNCTION guard_chama_managed_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF COALESCE(NEW.total_kitty, 0) <> 0 THEN
+            RAISE EXCEPTION 'A new chama starts with an empty kitty';
+        END IF;
+    ELSIF NEW.total_kitty IS DISTINCT FROM OLD.total_kitty
+        OR NEW.paybill_code IS DISTINCT FROM OLD.paybill_code
+        OR NEW.invite_code IS DISTINCT FROM OLD.invite_code THEN
+        RAISE EXCEPTION 'The kitty, paybill code and invite code can only be changed by the system';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to mark a passed resolution executed once its action has been applied to the member
+CREATE OR REPLACE FUNCTION complete_resolution_action(p_resolution_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_resolution resolutions%ROWTYPE;
+    v_applied BOOLEAN;
+BEGIN
+    SELECT * INTO v_resolution
+    FROM resolutions
+    WHERE id = p_resolution_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Resolution not found';
+    END IF;
+
+    IF v_resolution.status <> 'passed' THEN
+        RAISE EXCEPTION 'Only passed resolutions can be executed';
+    END IF;
+
+    -- Security: the proposer or an officer of the chama
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = v_resolution.chama_id
+        AND user_id = auth.uid()
+        AND is_active = true
+        AND (id = v_resolution.proposed_by OR role IN ('chairperson', 'treasurer'))
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized';
+    END IF;
+
+    IF v_resolution.action IS NOT NULL THEN
+        SELECT CASE v_resolution.action->>'type'
+            WHEN 'update_role' THEN role::TEXT = v_resolution.action->>'role' AND is_active
+            WHEN 'expel_member' THEN NOT is_active
+        END
+        INTO v_applied
+        FROM chama_members
+        WHERE id::TEXT = v_resolution.action->>'member_id';
+
+        IF NOT COALESCE(v_applied, false) THEN
+            RAISE EXCEPTION 'Resolution action has not been applied';
+        END IF;
+    END IF;
+
+    UPDATE resolutions
+    SET status = 'executed',
+        executed_at = NOW()
+    WHERE id = v_resolution.id;
+
+    RETURN 'executed';
+END;
+$$;
+
+-- Security: Outcomes are only written through cast_resolution_vote (or by the service role)
+REVOKE EXECUTE ON FUNCTION process_resolution_votes(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolution_voters(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION validate_resolution_action(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Chama Members: role changes and expulsions only as a passed resolution names them
+-- (created here because the policy depends on the functions above)
+CREATE POLICY "Passed resolutions can update the members they name" ON chama_members
+    FOR UPDATE USING (resolution_authorizes_member_update(id))
+    WITH CHECK (resolution_matches_member_update(id, role, is_active));
+
+-- Function to resolve a chama's election rules: settings.elections over defaults
+CREATE OR REPLACE FUNCTION chama_election_rules(p_chama_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT jsonb_build_object(
+        'term_months', 12,
+        'max_consecutive_terms', 2,
+        'nomination_hours', 48,
+        'voting_hours', 72
+    ) || COALESCE(c.settings->'elections', '{}'::jsonb)
+    FROM chamas c
+    WHERE c.id = p_chama_id;
+$$;
+
+-- Function to open an election for an office and invite nominations
+CREATE OR REPLACE FUNCTION start_election(p_chama_id UUID, p_role user_role, p_called_by UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_rules JSONB := chama_election_rules(p_chama_id);
+    v_nominations_close_at TIMESTAMP WITH TIME ZONE;
+    v_election_id UUID;
+BEGIN
+    v_nominations_close_at := NOW() + make_interval(hours => (v_rules->>'nomination_hours')::INTEGER);
+
+    INSERT INTO elections (chama_id, role, called_by, nominations_close_at, voting_deadline, term_months)
+    VALUES (
+        p_chama_id,
+        p_role,
+        p_called_by,
+        v_nominations_close_at,
+        v_nominations_close_at + make_interval(hours => (v_rules->>'voting_hours')::INTEGER),
+        (v_rules->>'term_months')::INTEGER
+    )
+    RETURNING id INTO v_election_id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT user_id, 'Election called', 'Nominations are open for ' || p_role || '.', 'info', 'election', v_election_id
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND is_active = true;
+
+    RETURN v_election_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'An election for % is already under way', p_role;
+END;
+$$;
+
+-- Function for officers to call an election
+CREATE OR REPLACE FUNCTION call_election(p_chama_id UUID, p_role user_role)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member_id UUID;
+BEGIN
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND user_id = auth.uid()
+    AND role IN ('chairperson', 'treasurer')
+    AND is_active = true;
+
+    -- Security: officers of the chama only
+    IF v_member_id IS NULL THEN
+        RAISE EXCEPTION 'Unauthorized';
+    END IF;
+
+    IF p_role NOT IN ('chairperson', 'treasurer', 'secretary') THEN
+        RAISE EXCEPTION 'Elections are for officer roles only';
+    END IF;
+
+    RETURN start_election(p_chama_id, p_role, v_member_id);
+END;
+$$;
+
+-- Function to count a member's consecutive terms in an office (terms since someone else last held it)
+CREATE OR REPLACE FUNCTION consecutive_officer_terms(p_member_id UUID, p_role user_role)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM officer_terms t
+    WHERE t.member_id = p_member_id
+    AND t.role = p_role
+    AND t.started_at >= COALESCE((
+        SELECT MAX(COALESCE(other.ended_at, other.started_at))
+        FROM officer_terms other
+        WHERE other.chama_id = t.chama_id
+        AND other.role = p_role
+        AND other.member_id <> p_member_id
+    ), '-infinity'::TIMESTAMP WITH TIME ZONE);
+$$;
+
+-- Function to nominate a candidate (yourself by default) while nominations are open
+CREATE OR REPLACE FUNCTION nominate_candidate(p_election_id UUID, p_member_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_election elections%ROWTYPE;
+    v_nominator_id UUID;
+    v_nominee chama_members%ROWTYPE;
+    v_candidate_id UUID;
+BEGIN
+    SELECT * INTO v_election
+    FROM elections
+    WHERE id = p_election_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status <> 'nominating' OR v_election.nominations_close_at <= NOW() THEN
+        RAISE EXCEPTION 'Nominations are closed';
+    END IF;
+
+    SELECT id INTO v_nominator_id
+    FROM chama_members
+    WHERE chama_id = v_election.chama_id
+    AND user_id = auth.uid()
+    AND is_active = true;
+
+    -- Security: members nominate within their own chama only
+    IF v_nominator_id IS NULL THEN
+        RAISE EXCEPTION 'Not a member of this chama';
+    END IF;
+
+    SELECT * INTO v_nominee
+    FROM chama_members
+    WHERE id = COALESCE(p_member_id, v_nominator_id)
+    AND chama_id = v_election.chama_id
+    AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Nominee must be an active member of this chama';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM member_exits
+        WHERE member_id = v_nominee.id
+        AND status IN ('awaiting_handover', 'pending', 'approved')
+    ) THEN
+        RAISE EXCEPTION 'Members who are leaving cannot stand for office';
+    END IF;
+
+    -- Officers may only stand for the office they already hold, so no office is left empty
+    IF v_nominee.role NOT IN ('member', v_election.role) THEN
+        RAISE EXCEPTION 'Officers can only stand for re-election to their own office';
+    END IF;
+
+    IF consecutive_officer_terms(v_nominee.id, v_election.role)
+        >= (chama_election_rules(v_election.chama_id)->>'max_consecutive_terms')::INTEGER THEN
+        RAISE EXCEPTION 'Nominee has reached the term limit for %', v_election.role;
+    END IF;
+
+    INSERT INTO election_candidates (election_id, member_id, nominated_by)
+    VALUES (v_election.id, v_nominee.id, v_nominator_id)
+    RETURNING id INTO v_candidate_id;
+
+    IF v_nominee.id <> v_nominator_id THEN
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            v_nominee.user_id, 'You were nominated', 'You have been nominated for ' || v_election.role || '.',
+            'info', 'election', v_election.id
+        );
+    END IF;
+
+    RETURN v_candidate_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'Already nominated';
+END;
+$$;
+
+-- Function to hand an office to the winner: other holders step down first, so there is never a second chairperson
+CREATE OR REPLACE FUNCTION assign_elected_officer(p_election_id UUID, p_winner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_election elections%ROWTYPE;
+BEGIN
+    SELECT * INTO v_election FROM elections WHERE id = p_election_id;
+
+    UPDATE chama_members
+    SET role = 'member'
+    WHERE chama_id = v_election.chama_id
+    AND role = v_election.role
+    AND id <> p_winner_id;
+
+    IF EXISTS (SELECT 1 FROM chama_members WHERE id = p_winner_id AND role = v_election.role) THEN
+        -- Re-elected: the role does not change, so roll the term over here
+        UPDATE officer_terms SET ended_at = NOW() WHERE member_id = p_winner_id AND ended_at IS NULL;
+        INSERT INTO officer_terms (chama_id, member_id, role, ends_at)
+        VALUES (v_election.chama_id, p_winner_id, v_election.role, NOW() + make_interval(months => v_election.term_months));
+    ELSE
+        UPDATE chama_members SET role = v_election.role WHERE id = p_winner_id;
+    END IF;
+
+    UPDATE officer_terms
+    SET election_id = v_election.id,
+        ends_at = NOW() + make_interval(months => v_election.term_months)
+    WHERE member_id = p_winner_id
+    AND ended_at IS NULL;
+END;
+$$;
+
+-- Function to move an election along once its nomination or voting window has passed. A sole candidate is
+-- elected unopposed; the most votes wins, ties going to the longest-standing member; without candidates or
+-- quorum the incumbent holds over for another term. Callers must hold the election row lock.
+CREATE OR REPLACE FUNCTION advance_election(p_election_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_election elections%ROWTYPE;
+    v_candidates INTEGER;
+    v_winner_id UUID;
+    v_eligible INTEGER;
+    v_turnout INTEGER;
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_election
+    FROM elections
+    WHERE id = p_election_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_election.status NOT IN ('nominating', 'voting') THEN
+        RETURN v_election.status;
+    END IF;
+
+    IF v_election.status = 'nominating' THEN
+        IF v_election.nominations_close_at > NOW() THEN
+            RETURN v_election.status;
+        END IF;
+
+        SELECT COUNT(*) INTO v_candidates FROM election_candidates WHERE election_id = v_election.id;
+
+        IF v_candidates = 0 THEN
+            v_status := 'cancelled';
+        ELSIF v_candidates = 1 THEN
+            SELECT member_id INTO v_winner_id FROM election_candidates WHERE election_id = v_election.id;
+            v_status := 'closed';
+        ELSE
+            UPDATE elections SET status = 'voting' WHERE id = v_election.id;
+
+            INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+            SELECT user_id, 'Voting open', 'Cast your secret ballot for ' || v_election.role || '.',
+                'vote_required', 'election', v_election.id
+            FROM chama_members
+            WHERE chama_id = v_election.chama_id
+            AND is_active = true;
+
+            RETURN 'voting';
+        END IF;
+    ELSE
+        IF v_election.voting_deadline > NOW() THEN
+            RETURN v_election.status;
+        END IF;
+
+        SELECT COUNT(*) INTO v_eligible
+        FROM chama_members
+        WHERE chama_id = v_election.chama_id
+        AND is_active = true
+        AND joined_at <= v_election.created_at;
+
+        SELECT COUNT(*) INTO v_turnout FROM election_voters WHERE election_id = v_election.id;
+
+        IF v_turnout * 100 < (chama_voting_rules(v_election.chama_id)->>'quorum_percentage')::DECIMAL * v_eligible THEN
+            v_status := 'failed';
+        ELSE
+            SELECT ec.member_id INTO v_winner_id
+            FROM election_candidates ec
+            JOIN chama_members cm ON cm.id = ec.member_id
+            LEFT JOIN election_ballots eb ON eb.candidate_id = ec.id
+            WHERE ec.election_id = v_election.id
+            AND cm.is_active = true
+            GROUP BY ec.member_id, cm.joined_at
+            ORDER BY COUNT(eb.id) DESC, cm.joined_at ASC
+            LIMIT 1;
+
+            v_status := CASE WHEN v_winner_id IS NULL THEN 'failed' ELSE 'closed' END;
+        END IF;
+    END IF;
+
+    IF v_winner_id IS NOT NULL THEN
+        PERFORM assign_elected_officer(v_election.id, v_winner_id);
+    ELSE
+        UPDATE officer_terms
+        SET ends_at = GREATEST(ends_at, NOW()) + make_interval(months => v_election.term_months)
+        WHERE chama_id = v_election.chama_id
+        AND role = v_election.role
+        AND ended_at IS NULL;
+    END IF;
+
+    UPDATE elections
+    SET status = v_status,
+        winner_member_id = v_winner_id,
+        closed_at = NOW()
+    WHERE id = v_election.id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT
+        cm.user_id,
+        'Election ' || v_status,
+        CASE
+            WHEN v_winner_id IS NOT NULL THEN winner_user.full_name || ' is the new ' || v_election.role || '.'
+            ELSE 'No ' || v_election.role || ' was elected; the current holder stays on.'
+        END,
+        'info',
+        'election',
+        v_election.id
+    FROM chama_members cm
+    LEFT JOIN chama_members winner ON winner.id = v_winner_id
+    LEFT JOIN users winner_user ON winner_user.id = winner.user_id
+    WHERE cm.chama_id = v_election.chama_id
+    AND cm.is_active = true;
+
+    RETURN v_status;
+END;
+$$;
+
+-- Function to cast a secret ballot: turnout and ballot are written separately so votes cannot be traced
+CREATE OR REPLACE FUNCTION cast_election_vote(p_election_id UUID, p_candidate_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_election elections%ROWTYPE;
+    v_member_id UUID;
+BEGIN
+    SELECT * INTO v_election
+    FROM elections
+    WHERE id = p_election_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF advance_election(v_election.id) <> 'voting' OR v_election.voting_deadline <= NOW() THEN
+        RAISE EXCEPTION 'Voting is not open for this election';
+    END IF;
+
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = v_election.chama_id
+    AND user_id = auth.uid()
+    AND is_active = true
+    AND joined_at <= v_election.created_at;
+
+    -- Security: members who belonged to the chama when the election was called
+    IF v_member_id IS NULL THEN
+        RAISE EXCEPTION 'You are not eligible to vote in this election';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM election_candidates WHERE id = p_candidate_id AND election_id = v_election.id
+    ) THEN
+        RAISE EXCEPTION 'Choose one of the candidates';
+    END IF;
+
+    INSERT INTO election_voters (election_id, member_id) VALUES (v_election.id, v_member_id);
+    INSERT INTO election_ballots (election_id, candidate_id) VALUES (v_election.id, p_candidate_id);
+
+    RETURN 'voted';
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'Already voted in this election';
+END;
+$$;
+
+-- Function to tally an election for its members once it has closed
+CREATE OR REPLACE FUNCTION election_results(p_election_id UUID)
+RETURNS TABLE(candidate_id UUID, member_id UUID, votes INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- Security: members of the chama, and only after voting has closed
+    IF NOT EXISTS (
+        SELECT 1 FROM elections e
+        JOIN chama_members cm ON cm.chama_id = e.chama_id
+        WHERE e.id = p_election_id
+        AND e.status IN ('closed', 'failed')
+        AND cm.user_id = auth.uid()
+        AND cm.is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Results are available once the election has closed';
+    END IF;
+
+    RETURN QUERY
+    SELECT ec.id, ec.member_id, COUNT(eb.id)::INTEGER
+    FROM election_candidates ec
+    LEFT JOIN election_ballots eb ON eb.candidate_id = ec.id
+    WHERE ec.election_id = p_election_id
+    GROUP BY ec.id, ec.member_id
+    ORDER BY COUNT(eb.id) DESC;
+END;
+$$;
+
+-- Function to advance due elections and call elections for terms about to end
+-- (run per chama or, as service role, for all)
+CREATE OR REPLACE FUNCTION process_elections(p_chama_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_election RECORD;
+    v_term RECORD;
+    v_advanced INTEGER := 0;
+    v_called INTEGER := 0;
+BEGIN
+    -- Security: only the service role executes this (the jobs API route); a signed-in caller must still be an officer
+    IF auth.uid() IS NOT NULL THEN
+        IF p_chama_id IS NULL OR NOT EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_id = p_chama_id
+            AND user_id = auth.uid()
+            AND role IN ('chairperson', 'treasurer')
+            AND is_active = true
+        ) THEN
+            RAISE EXCEPTION 'Unauthorized';
+        END IF;
+    END IF;
+
+    FOR v_election IN
+        SELECT id, status
+        FROM elections
+        WHERE (
+            (status = 'nominating' AND nominations_close_at <= NOW())
+            OR (status = 'voting' AND voting_deadline <= NOW())
+        )
+        AND (p_chama_id IS NULL OR chama_id = p_chama_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF advance_election(v_election.id) <> v_election.status THEN
+            v_advanced := v_advanced + 1;
+        END IF;
+    END LOOP;
+
+    -- Call elections early enough that they close as the current term ends
+    FOR v_term IN
+        SELECT DISTINCT t.chama_id, t.role
+        FROM officer_terms t
+        CROSS JOIN LATERAL chama_election_rules(t.chama_id) AS rules
+        WHERE t.ended_at IS NULL
+        AND (p_chama_id IS NULL OR t.chama_id = p_chama_id)
+        AND t.ends_at <= NOW() + make_interval(
+            hours => (rules->>'nomination_hours')::INTEGER + (rules->>'voting_hours')::INTEGER
+        )
+        AND NOT EXISTS (
+            SELECT 1 FROM elections e
+            WHERE e.chama_id = t.chama_id
+            AND e.role = t.role
+            AND e.status IN ('nominating', 'voting')
+        )
+    LOOP
+        PERFORM start_election(v_term.chama_id, v_term.role);
+        v_called := v_called + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('advanced', v_advanced, 'called', v_called);
+END;
+$$;
+
+-- Security: Elections are advanced by the jobs API route, for all chamas or for an officer's own chama
+REVOKE EXECUTE ON FUNCTION process_elections(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to keep officer_terms in step with role changes, whether by election, resolution or chama creation
+CREATE OR REPLACE FUNCTION track_officer_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF OLD.role IS NOT DISTINCT FROM NEW.role AND OLD.is_active IS NOT DISTINCT FROM NEW.is_active THEN
+            RETURN NEW;
+        END IF;
+
+        UPDATE officer_terms SET ended_at = NOW() WHERE member_id = NEW.id AND ended_at IS NULL;
+    END IF;
+
+    IF NEW.is_active AND NEW.role IN ('chairperson', 'treasurer', 'secretary') THEN
+        INSERT INTO officer_terms (chama_id, member_id, role, ends_at)
+        VALUES (
+            NEW.chama_id,
+            NEW.id,
+            NEW.role,
+            NOW() + make_interval(months => (chama_election_rules(NEW.chama_id)->>'term_months')::INTEGER)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to refuse any change that leaves an existing chama without an active chairperson
+CREATE OR REPLACE FUNCTION ensure_chama_chairperson()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF OLD.role = 'chairperson' AND OLD.is_active
+        AND EXISTS (SELECT 1 FROM chamas WHERE id = OLD.chama_id)
+        AND NOT EXISTS (
+            SELECT 1 FROM chama_members
+            WHERE chama_id = OLD.chama_id
+            AND role = 'chairperson'
+            AND is_active = true
+        ) THEN
+        RAISE EXCEPTION 'A chama must always have a chairperson; hand over through an election';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Security: Elections only move through call_election, nominate_candidate, cast_election_vote and process_elections
+REVOKE EXECUTE ON FUNCTION start_election(UUID, user_role, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assign_elected_officer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION advance_election(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to get the round still being paid out (slots left for active members), if any
+CREATE OR REPLACE FUNCTION current_rotation_round(p_chama_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT MIN(rs.round)
+    FROM rotation_slots rs
+    JOIN chama_members cm ON cm.id = rs.member_id
+    WHERE rs.chama_id = p_chama_id
+    AND rs.payout_request_id IS NULL
+    AND cm.is_active = true;
+$$;
+
+-- Function to bid for an earlier position in the next round of a bid-ordered merry-go-round
+CREATE OR REPLACE FUNCTION place_rotation_bid(p_chama_id UUID, p_amount DECIMAL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_chama chamas%ROWTYPE;
+    v_member_id UUID;
+    v_round INTEGER;
+BEGIN
+    SELECT * INTO v_chama FROM chamas WHERE id = p_chama_id;
+
+    IF NOT FOUND OR v_chama.chama_type <> 'rotating'
+        OR COALESCE(v_chama.settings->'rotation'->>'order_method', 'manual') <> 'bid' THEN
+        RAISE EXCEPTION 'This chama does not order its rotation by bids';
+    END IF;
+
+    SELECT id INTO v_member_id
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND user_id = auth.uid()
+    AND is_active = true;
+
+    -- Security: members bid in their own chama only
+    IF v_member_id IS NULL THEN
+        RAISE EXCEPTION 'Not a member of this chama';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < 0 OR p_amount >= v_chama.contribution_amount THEN
+        RAISE EXCEPTION 'Bids must be less than one contribution';
+    END IF;
+
+    SELECT COALESCE(MAX(round), 0) + 1 INTO v_round FROM rotation_slots WHERE chama_id = p_chama_id;
+
+    INSERT INTO rotation_bids (chama_id, member_id, round, amount)
+    VALUES (p_chama_id, v_member_id, v_round, p_amount)
+    ON CONFLICT (chama_id, round, member_id)
+    DO UPDATE SET amount = EXCLUDED.amount, updated_at = NOW();
+
+    RETURN v_round;
+END;
+$$;
+
+-- Function to set the order of a new merry-go-round round: p_order (member ids) for manual chamas, a random
+-- draw, or highest bid first. A round nobody has been paid from yet can be re-ordered.
+CREATE OR REPLACE FUNCTION start_rotation(p_chama_id UUID, p_order UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_chama chamas%ROWTYPE;
+    v_method TEXT;
+    v_current INTEGER;
+    v_round INTEGER;
+    v_active INTEGER;
+BEGIN
+    -- Serialise rotation changes per chama
+    SELECT * INTO v_chama FROM chamas WHERE id = p_chama_id FOR UPDATE;
+
+    IF NOT FOUND OR v_chama.chama_type <> 'rotating' THEN
+        RAISE EXCEPTION 'This chama is not a merry-go-round';
+    END IF;
+
+    -- Security: officers of the chama only
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized';
+    END IF;
+
+    v_current := current_rotation_round(p_chama_id);
+    IF v_current IS NOT NULL THEN
+        IF EXISTS (
+            SELECT 1 FROM rotation_slots
+            WHERE chama_id = p_chama_id AND round = v_current AND payout_request_id IS NOT NULL
+        ) THEN
+            RAISE EXCEPTION 'The current rotation is under way';
+        END IF;
+
+        DELETE FROM rotation_slots WHERE chama_id = p_chama_id AND round = v_current;
+    END IF;
+
+    SELECT COALESCE(MAX(round), 0) + 1 INTO v_round FROM rotation_slots WHERE chama_id = p_chama_id;
+    SELECT COUNT(*) INTO v_active FROM chama_members WHERE chama_id = p_chama_id AND is_active = true;
+    v_method := COALESCE(v_chama.settings->'rotation'->>'order_method', 'manual');
+
+    IF v_method = 'manual' THEN
+        IF p_order IS NULL
+            OR cardinality(p_order) <> v_active
+            OR (SELECT COUNT(DISTINCT member_id) FROM unnest(p_order) AS member_id) <> v_active
+            OR EXISTS (
+                SELECT 1 FROM unnest(p_order) AS member_id
+                WHERE NOT EXISTS (
+                    SELECT 1 FROM chama_members
+                    WHERE id = member_id AND chama_id = p_chama_id AND is_active = true
+                )
+            ) THEN
+            RAISE EXCEPTION 'The order must list every active member exactly once';
+        END IF;
+
+        INSERT INTO rotation_slots (chama_id, member_id, round, position)
+        SELECT p_chama_id, ordered.member_id, v_round, ordered.position
+        FROM unnest(p_order) WITH ORDINALITY AS ordered(member_id, position);
+    ELSE
+        INSERT INTO rotation_slots (chama_id, member_id, round, position, bid_amount)
+        SELECT p_chama_id, cm.id, v_round,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    CASE WHEN v_method = 'bid' THEN COALESCE(rb.amount, -1) END DESC,
+                    CASE WHEN v_method = 'random' THEN random() END,
+                    cm.joined_at
+            ),
+            CASE WHEN v_method = 'bid' THEN COALESCE(rb.amount, 0) ELSE 0 END
+        FROM chama_members cm
+        LEFT JOIN rotation_bids rb ON rb.chama_id = p_chama_id AND rb.round = v_round AND rb.member_id = cm.id
+        WHERE cm.chama_id = p_chama_id
+        AND cm.is_active = true;
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT cm.user_id, 'Rotation order set', 'You are number ' || rs.position || ' in round ' || v_round || '.',
+        'info', 'chama', p_chama_id
+    FROM rotation_slots rs
+    JOIN chama_members cm ON cm.id = rs.member_id
+    WHERE rs.chama_id = p_chama_id
+    AND rs.round = v_round;
+
+    RETURN v_round;
+END;
+$$;
+
+-- Function to pay a completed cycle's pot to the next member in the rotation (approved, awaiting disbursement)
+CREATE OR REPLACE FUNCTION pay_rotation_cycle(p_chama_id UUID, p_cycle_period VARCHAR, p_cycle_start DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_slot rotation_slots%ROWTYPE;
+    v_pot DECIMAL(12,2);
+    v_payout_id UUID;
+    v_user_id UUID;
+BEGIN
+    -- Serialise with other payments and re-orders for this chama
+    PERFORM 1 FROM chamas WHERE id = p_chama_id FOR UPDATE;
+
+    IF EXISTS (SELECT 1 FROM rotation_slots WHERE chama_id = p_chama_id AND cycle_period = p_cycle_period) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT rs.* INTO v_slot
+    FROM rotation_slots rs
+    JOIN chama_members cm ON cm.id = rs.member_id
+    WHERE rs.chama_id = p_chama_id
+    AND rs.round = current_rotation_round(p_chama_id)
+    AND rs.payout_request_id IS NULL
+    AND cm.is_active = true
+    ORDER BY rs.position
+    LIMIT 1
+    FOR UPDATE OF rs;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_pot
+    FROM contributions
+    WHERE chama_id = p_chama_id
+    AND cycle_period = p_cycle_period
+    AND is_paid = true;
+
+    IF v_pot - v_slot.bid_amount <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO payout_requests (chama_id, member_id, amount, request_type, purpose, status, approved_at)
+    VALUES (
+        p_chama_id, v_slot.member_id, v_pot - v_slot.bid_amount, 'payout',
+        'Merry-go-round payout for ' || p_cycle_period, 'approved', NOW()
+    )
+    RETURNING id INTO v_payout_id;
+
+    UPDATE rotation_slots
+    SET payout_request_id = v_payout_id,
+        cycle_period = p_cycle_period,
+        cycle_start = p_cycle_start,
+        assigned_at = NOW()
+    WHERE id = v_slot.id;
+
+    SELECT user_id INTO v_user_id FROM chama_members WHERE id = v_slot.member_id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_user_id, 'Your merry-go-round turn',
+        'Everyone has contributed for ' || p_cycle_period || '. KES ' || (v_pot - v_slot.bid_amount) || ' is on its way to you.',
+        'success', 'payout_request', v_payout_id
+    );
+
+    RETURN v_payout_id;
+END;
+$$;
+
+-- Function to pay out a merry-go-round cycle once every member due for it has contributed
+CREATE OR REPLACE FUNCTION check_rotation_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_cycle contribution_cycle;
+    v_period_end DATE;
+BEGIN
+    SELECT contribution_cycle INTO v_cycle
+    FROM chamas
+    WHERE id = NEW.chama_id
+    AND chama_type = 'rotating';
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    v_period_end := (NEW.contribution_date + contribution_cycle_interval(v_cycle))::DATE;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members cm
+        WHERE cm.chama_id = NEW.chama_id
+        AND cm.is_active = true
+        AND (cm.joined_at AT TIME ZONE 'Africa/Nairobi')::DATE < v_period_end
+        AND NOT EXISTS (
+            SELECT 1 FROM contributions c
+            WHERE c.member_id = cm.id
+            AND c.cycle_period = NEW.cycle_period
+            AND c.is_paid = true
+        )
+    ) THEN
+        PERFORM pay_rotation_cycle(NEW.chama_id, NEW.cycle_period, NEW.contribution_date);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to give members who join mid-rotation the last place in the current round
+CREATE OR REPLACE FUNCTION add_member_to_rotation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_round INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM chamas WHERE id = NEW.chama_id AND chama_type = 'rotating') THEN
+        RETURN NEW;
+    END IF;
+
+    v_round := current_rotation_round(NEW.chama_id);
+    IF v_round IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO rotation_slots (chama_id, member_id, round, position)
+    SELECT NEW.chama_id, NEW.id, v_round, COALESCE(MAX(position), 0) + 1
+    FROM rotation_slots
+    WHERE chama_id = NEW.chama_id
+    AND round = v_round
+    ON CONFLICT (chama_id, round, member_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to lay out the rotation calendar: paid turns at their cycle, upcoming turns one cycle apart after the
+-- last paid one, and members who left marked skipped
+CREATE OR REPLACE FUNCTION get_rotation_calendar(p_chama_id UUID)
+RETURNS TABLE(
+    round INTEGER,
+    "position" INTEGER,
+    member_id UUID,
+    full_name VARCHAR,
+    bid_amount DECIMAL,
+    cycle_period VARCHAR,
+    expected_date DATE,
+    status TEXT,
+    payout_request_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_cycle contribution_cycle;
+    v_interval INTERVAL;
+    v_next DATE;
+BEGIN
+    -- Security: members of the chama only
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND user_id = auth.uid()
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Not a member of this chama';
+    END IF;
+
+    SELECT contribution_cycle INTO v_cycle FROM chamas WHERE id = p_chama_id;
+    v_interval := contribution_cycle_interval(v_cycle);
+
+    SELECT COALESCE(
+        (MAX(rs.cycle_start) + v_interval)::DATE,
+        contribution_period_start(v_cycle, (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE)
+    )
+    INTO v_next
+    FROM rotation_slots rs
+    WHERE rs.chama_id = p_chama_id;
+
+    RETURN QUERY
+    WITH upcoming AS (
+        SELECT rs.id, ROW_NUMBER() OVER (ORDER BY rs.round, rs.position) - 1 AS turns_away
+        FROM rotation_slots rs
+        JOIN chama_members cm ON cm.id = rs.member_id
+        WHERE rs.chama_id = p_chama_id
+        AND rs.payout_request_id IS NULL
+        AND cm.is_active = true
+    )
+    SELECT
+        rs.round,
+        rs.position,
+        rs.member_id,
+        u.full_name,
+        rs.bid_amount,
+        rs.cycle_period,
+        COALESCE(rs.cycle_start, (v_next + v_interval * up.turns_away)::DATE),
+        CASE
+            WHEN rs.payout_request_id IS NOT NULL THEN 'paid'
+            WHEN up.id IS NULL THEN 'skipped'
+            WHEN up.turns_away = 0 THEN 'next'
+            ELSE 'upcoming'
+        END,
+        rs.payout_request_id
+    FROM rotation_slots rs
+    JOIN chama_members cm ON cm.id = rs.member_id
+    JOIN users u ON u.id = cm.user_id
+    LEFT JOIN upcoming up ON up.id = rs.id
+    WHERE rs.chama_id = p_chama_id
+    ORDER BY rs.round, rs.position;
+END;
+$$;
+
+-- Security: Rotation payouts are only created by the contribution trigger
+REVOKE EXECUTE ON FUNCTION pay_rotation_cycle(UUID, VARCHAR, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Function to get each member's share capital at the end of a period and its share-days within the period
+CREATE OR REPLACE FUNCTION member_share_days(p_chama_id UUID, p_period_start DATE, p_period_end DATE)
+RETURNS TABLE(member_id UUID, shares DECIMAL, share_days DECIMAL)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT *
+    FROM (
+        SELECT
+            la.member_id,
+            SUM(jl.credit - jl.debit),
+            SUM((jl.credit - jl.debit)
+                * (p_period_end + 1 - GREATEST((je.posted_at AT TIME ZONE 'Africa/Nairobi')::DATE, p_period_start)))
+        FROM journal_lines jl
+        JOIN journal_entries je ON je.id = jl.journal_entry_id
+        JOIN ledger_accounts la ON la.id = jl.account_id
+        WHERE la.chama_id = p_chama_id
+        AND la.account_type = 'share_capital'
+        AND je.posted_at < (p_period_end + 1)::TIMESTAMP AT TIME ZONE 'Africa/Nairobi'
+        GROUP BY la.member_id
+    ) AS holdings(member_id, shares, share_days)
+    WHERE share_days > 0;
+$$;
+
+-- Function to declare a table-banking chama's dividends for a closed period (the last calendar year by default).
+-- Interest and fine income earned by the end of the period is shared in proportion to share-days: each shilling
+-- of share capital counts for every day of the period it was held.
+CREATE OR REPLACE FUNCTION declare_dividends(p_chama_id UUID, p_period_end DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_chama chamas%ROWTYPE;
+    v_today DATE := (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE;
+    v_period_start DATE;
+    v_period_end DATE;
+    v_cutoff TIMESTAMP WITH TIME ZONE;
+    v_interest DECIMAL(12,2);
+    v_fines DECIMAL(12,2);
+    v_total_share_days DECIMAL(16,2);
+    v_declaration_id UUID;
+    v_holder RECORD;
+    v_interest_part DECIMAL(10,2);
+    v_fine_part DECIMAL(10,2);
+    v_transaction_id UUID;
+    v_distributed DECIMAL(12,2) := 0;
+BEGIN
+    -- Serialise declarations per chama
+    SELECT * INTO v_chama FROM chamas WHERE id = p_chama_id FOR UPDATE;
+
+    IF NOT FOUND OR v_chama.chama_type <> 'table_banking' THEN
+        RAISE EXCEPTION 'Dividends are declared by table-banking chamas only';
+    END IF;
+
+    -- Security: officers of the chama only
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized';
+    END IF;
+
+    v_period_end := COALESCE(p_period_end, make_date(EXTRACT(YEAR FROM v_today)::INTEGER - 1, 12, 31));
+
+    SELECT COALESCE(MAX(period_end) + 1, (v_chama.created_at AT TIME ZONE 'Africa/Nairobi')::DATE)
+    INTO v_period_start
+    FROM dividend_declarations
+    WHERE chama_id = p_chama_id;
+
+    IF v_period_end >= v_today THEN
+        RAISE EXCEPTION 'Dividends can only be declared for a period that has ended';
+    END IF;
+
+    IF v_period_end < v_period_start THEN
+        RAISE EXCEPTION 'Dividends have already been declared up to %', v_period_start - 1;
+    END IF;
+
+    v_cutoff := (v_period_end + 1)::TIMESTAMP AT TIME ZONE 'Africa/Nairobi';
+
+    -- Income earned by the cutoff, less everything already distributed (dividends are the only debits)
+    SELECT
+        GREATEST(COALESCE(SUM(CASE WHEN la.account_type = 'interest_income' AND je.posted_at < v_cutoff THEN jl.credit ELSE 0 END), 0)
+            - COALESCE(SUM(CASE WHEN la.account_type = 'interest_income' THEN jl.debit ELSE 0 END), 0), 0),
+        GREATEST(COALESCE(SUM(CASE WHEN la.account_type = 'fines' AND je.posted_at < v_cutoff THEN jl.credit ELSE 0 END), 0)
+            - COALESCE(SUM(CASE WHEN la.account_type = 'fines' THEN jl.debit ELSE 0 END), 0), 0)
+    INTO v_interest, v_fines
+    FROM journal_lines jl
+    JOIN journal_entries je ON je.id = jl.journal_entry_id
+    JOIN ledger_accounts la ON la.id = jl.account_id
+    WHERE la.chama_id = p_chama_id
+    AND la.account_type IN ('interest_income', 'fines');
+
+    SELECT COALESCE(SUM(share_days), 0) INTO v_total_share_days
+    FROM member_share_days(p_chama_id, v_period_start, v_period_end);
+
+    IF v_total_share_days = 0 THEN
+        RAISE EXCEPTION 'No shares were held during this period';
+    END IF;
+
+    INSERT INTO dividend_declarations (
+        chama_id, period_start, period_end, interest_income, fine_income, total_share_days, declared_by
+    ) VALUES (
+        p_chama_id, v_period_start, v_period_end, v_interest, v_fines, v_total_share_days, auth.uid()
+    )
+    RETURNING id INTO v_declaration_id;
+
+    FOR v_holder IN
+        SELECT dh.*, cm.user_id, u.phone_number
+        FROM member_share_days(p_chama_id, v_period_start, v_period_end) dh
+        JOIN chama_members cm ON cm.id = dh.member_id
+        JOIN users u ON u.id = cm.user_id
+    LOOP
+        -- Truncate each pool separately so the shares never add up to more than was earned
+        v_interest_part := TRUNC(v_interest * v_holder.share_days / v_total_share_days, 2);
+        v_fine_part := TRUNC(v_fines * v_holder.share_days / v_total_share_days, 2);
+        v_transaction_id := NULL;
+
+        IF v_interest_part + v_fine_part > 0 THEN
+            INSERT INTO transactions (
+                chama_id, user_id, amount, transaction_type, status,
+                phone_number, description, metadata, completed_at
+            ) VALUES (
+                p_chama_id, v_holder.user_id, v_interest_part + v_fine_part, 'dividend', 'completed',
+                v_holder.phone_number,
+                'Dividend for ' || v_period_start || ' to ' || v_period_end,
+                jsonb_build_object(
+                    'member_id', v_holder.member_id,
+                    'dividend_declaration_id', v_declaration_id,
+                    'interest_amount', v_interest_part,
+                    'fine_amount', v_fine_part
+                ),
+                NOW()
+            )
+            RETURNING id INTO v_transaction_id;
+
+            INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+            VALUES (
+                v_holder.user_id, 'Dividends declared',
+                'KES ' || (v_interest_part + v_fine_part) || ' in dividends for ' || v_period_start || ' to ' || v_period_end
+                    || ' has been added to your savings.',
+                'success', 'dividend_declaration', v_declaration_id
+            );
+        END IF;
+
+        INSERT INTO dividend_allocations (declaration_id, member_id, shares_at_period_end, share_days, amount, transaction_id)
+        VALUES (
+            v_declaration_id, v_holder.member_id, v_holder.shares, v_holder.share_days,
+            v_interest_part + v_fine_part, v_transaction_id
+        );
+
+        v_distributed := v_distributed + v_interest_part + v_fine_part;
+    END LOOP;
+
+    UPDATE dividend_declarations
+    SET total_distributed = v_distributed
+    WHERE id = v_declaration_id;
+
+    RETURN v_declaration_id;
+END;
+$$;
+
+-- Security: Share-days are only read through declare_dividends
+REVOKE EXECUTE ON FUNCTION member_share_days(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Function to work out what a member would be paid on leaving: savings, share capital and (table banking) their
+-- share of income not yet declared as dividends, less unpaid loan installments and fines. Pledges still backing
+-- other members' loans are withheld from the payout.
+CREATE OR REPLACE FUNCTION member_exit_settlement(p_member_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member chama_members%ROWTYPE;
+    v_chama chamas%ROWTYPE;
+    v_yesterday DATE := (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE - 1;
+    v_period_start DATE;
+    v_savings DECIMAL(12,2);
+    v_shares DECIMAL(12,2);
+    v_interest_pool DECIMAL(12,2);
+    v_fine_pool DECIMAL(12,2);
+    v_total_share_days DECIMAL(16,2);
+    v_member_share_days DECIMAL(16,2);
+    v_dividend_interest DECIMAL(12,2) := 0;
+    v_dividend_fines DECIMAL(12,2) := 0;
+    v_loan_principal DECIMAL(12,2);
+    v_loan_interest DECIMAL(12,2);
+    v_fines DECIMAL(12,2);
+    v_exposure DECIMAL(12,2);
+    v_net DECIMAL(12,2);
+BEGIN
+    SELECT * INTO v_member FROM chama_members WHERE id = p_member_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Member not found';
+    END IF;
+
+    -- Security: the member themselves or an officer of their chama (or the service role)
+    IF auth.uid() IS NULL THEN
+        IF auth.role() IS DISTINCT FROM 'service_role' THEN
+            RAISE EXCEPTION 'Unauthorized';
+        END IF;
+    ELSIF v_member.user_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = v_member.chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized';
+    END IF;
+
+    SELECT * INTO v_chama FROM chamas WHERE id = v_member.chama_id;
+
+    SELECT
+        COALESCE(SUM(balance) FILTER (WHERE account_type = 'member_savings'), 0),
+        COALESCE(SUM(balance) FILTER (WHERE account_type = 'share_capital'), 0)
+    INTO v_savings, v_shares
+    FROM ledger_account_balances
+    WHERE member_id = p_member_id;
+
+    SELECT COALESCE(SUM(lr.principal_amount), 0), COALESCE(SUM(lr.interest_amount), 0)
+    INTO v_loan_principal, v_loan_interest
+    FROM loan_repayments lr
+    JOIN payout_requests pr ON pr.id = lr.payout_request_id
+    WHERE pr.member_id = p_member_id
+    AND pr.request_type = 'loan'
+    AND pr.status = 'paid'
+    AND lr.is_paid IS NOT TRUE;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_fines
+    FROM transactions
+    WHERE chama_id = v_member.chama_id
+    AND user_id = v_member.user_id
+    AND transaction_type = 'fine'
+    AND status = 'pending';
+
+    SELECT COALESCE(SUM(pledged_amount), 0) INTO v_exposure
+    FROM loan_guarantors
+    WHERE guarantor_member_id = p_member_id
+    AND status = 'accepted';
+
+    IF v_chama.chama_type = 'table_banking' AND v_shares > 0 THEN
+        SELECT COALESCE(MAX(period_end) + 1, (v_chama.created_at AT TIME ZONE 'Africa/Nairobi')::DATE)
+        INTO v_period_start
+        FROM dividend_declarations
+        WHERE chama_id = v_chama.id;
+
+        IF v_yesterday >= v_period_start THEN
+            SELECT
+                COALESCE(SUM(balance) FILTER (WHERE account_type = 'interest_income'), 0),
+                COALESCE(SUM(balance) FILTER (WHERE account_type = 'fines'), 0)
+            INTO v_interest_pool, v_fine_pool
+            FROM ledger_account_balances
+            WHERE chama_id = v_chama.id
+            AND member_id IS NULL;
+
+            SELECT COALESCE(SUM(share_days), 0), COALESCE(SUM(share_days) FILTER (WHERE member_id = p_member_id), 0)
+            INTO v_total_share_days, v_member_share_days
+            FROM member_share_days(v_chama.id, v_period_start, v_yesterday);
+
+            IF v_total_share_days > 0 THEN
+                v_dividend_interest := TRUNC(GREATEST(v_interest_pool, 0) * v_member_share_days / v_total_share_days, 2);
+                v_dividend_fines := TRUNC(GREATEST(v_fine_pool, 0) * v_member_share_days / v_total_share_days, 2);
+            END IF;
+        END IF;
+    END IF;
+
+    v_net := v_savings + v_shares + v_dividend_interest + v_dividend_fines - v_loan_principal - v_loan_interest - v_fines;
+
+    RETURN jsonb_build_object(
+        'savings', v_savings,
+        'share_capital', v_shares,
+        'dividend_share', v_dividend_interest + v_dividend_fines,
+        'dividend_fine_share', v_dividend_fines,
+        'loans_outstanding', v_loan_principal + v_loan_interest,
+        'fines_outstanding', v_fines,
+        'guarantee_exposure', v_exposure,
+        'net_settlement', v_net,
+        'payout_amount', GREATEST(v_net - v_exposure, 0),
+        'withheld_amount', LEAST(GREATEST(v_net, 0), v_exposure)
+    );
+END;
+$$;
+
+-- Security: Settlements are only read by signed-in members and officers, never with the anonymous key
+REVOKE EXECUTE ON FUNCTION member_exit_settlement(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION member_exit_settlement(UUID) TO authenticated;
+
+-- Function to ask to leave a chama. A leaving chairperson waits for a successor: an election is called and the
+-- exit goes to the officers once someone else holds the chair.
+CREATE OR REPLACE FUNCTION request_member_exit(p_chama_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member chama_members%ROWTYPE;
+    v_status VARCHAR(20) := 'pending';
+    v_exit_id UUID;
+BEGIN
+    SELECT * INTO v_member
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND user_id = auth.uid()
+    AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this chama';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM payout_requests
+        WHERE member_id = v_member.id
+        AND status IN ('pending', 'approved')
+    ) THEN
+        RAISE EXCEPTION 'Withdraw or wait out your open payout and loan requests before leaving';
+    END IF;
+
+    IF v_member.role = 'chairperson' THEN
+        v_status := 'awaiting_handover';
+
+        IF NOT EXISTS (
+            SELECT 1 FROM elections
+            WHERE chama_id = p_chama_id
+            AND role = 'chairperson'
+            AND status IN ('nominating', 'voting')
+        ) THEN
+            PERFORM start_election(p_chama_id, 'chairperson', v_member.id);
+        END IF;
+    END IF;
+
+    INSERT INTO member_exits (chama_id, member_id, reason, status, settlement)
+    VALUES (p_chama_id, v_member.id, NULLIF(trim(p_reason), ''), v_status, member_exit_settlement(v_member.id))
+    RETURNING id INTO v_exit_id;
+
+    IF v_status = 'pending' THEN
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        SELECT user_id, 'Member exit request', 'A member has asked to leave the chama and is waiting for approval.',
+            'vote_required', 'member_exit', v_exit_id
+        FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+        AND id <> v_member.id;
+    END IF;
+
+    RETURN v_exit_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'You have already asked to leave this chama';
+END;
+$$;
+
+-- Function to close a leaving member's membership once they have been paid; the membership row, ledger and
+-- history stay for audit
+CREATE OR REPLACE FUNCTION complete_member_exit(p_exit_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_exit member_exits%ROWTYPE;
+    v_member chama_members%ROWTYPE;
+BEGIN
+    SELECT * INTO v_exit FROM member_exits WHERE id = p_exit_id FOR UPDATE;
+
+    IF NOT FOUND OR v_exit.status <> 'approved' THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_member FROM chama_members WHERE id = v_exit.member_id FOR UPDATE;
+
+    UPDATE chama_members SET is_active = false WHERE id = v_member.id;
+
+    -- Obligations for periods that have not started go with the membership
+    DELETE FROM contributions
+    WHERE member_id = v_member.id
+    AND is_paid = false
+    AND amount_paid = 0
+    AND contribution_date > (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE;
+
+    UPDATE member_exits
+    SET status = 'completed',
+        completed_at = NOW()
+    WHERE id = v_exit.id;
+
+    INSERT INTO audit_logs (table_name, record_id, action, old_data, new_data, changed_by)
+    VALUES (
+        'chama_members', v_member.id, 'UPDATE',
+        jsonb_build_object('is_active', v_member.is_active),
+        jsonb_build_object('is_active', false, 'member_exit_id', v_exit.id),
+        auth.uid()
+    );
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_member.user_id, 'You have left the chama',
+        CASE WHEN COALESCE(v_exit.withheld_amount, 0) > 0
+            THEN 'Your settlement has been paid. KES ' || v_exit.withheld_amount || ' stays with the chama until the loans you guarantee are repaid.'
+            ELSE 'Your settlement has been paid.'
+        END,
+        'success', 'member_exit', v_exit.id
+    );
+END;
+$$;
+
+-- Function for an officer to approve or reject an exit. Approval settles unpaid loan installments, fines and share
+-- capital against the member's savings, credits their share of undeclared income, and queues the payout for B2C
+-- disbursement; the membership closes when the payout is paid.
+CREATE OR REPLACE FUNCTION review_member_exit(p_exit_id UUID, p_approve BOOLEAN, p_notes TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_exit member_exits%ROWTYPE;
+    v_member chama_members%ROWTYPE;
+    v_reviewer_id UUID;
+    v_phone VARCHAR(15);
+    v_settlement JSONB;
+    v_loan RECORD;
+    v_transaction_id UUID;
+    v_payout_id UUID;
+BEGIN
+    SELECT * INTO v_exit FROM member_exits WHERE id = p_exit_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exit request not found';
+    END IF;
+
+    SELECT id INTO v_reviewer_id
+    FROM chama_members
+    WHERE chama_id = v_exit.chama_id
+    AND user_id = auth.uid()
+    AND role IN ('chairperson', 'treasurer')
+    AND is_active = true;
+
+    -- Security: another officer of the chama must review the exit
+    IF v_reviewer_id IS NULL OR v_reviewer_id = v_exit.member_id THEN
+        RAISE EXCEPTION 'Unauthorized';
+    END IF;
+
+    IF v_exit.status <> 'pending' THEN
+        RAISE EXCEPTION 'This exit request is not awaiting review';
+    END IF;
+
+    SELECT * INTO v_member FROM chama_members WHERE id = v_exit.member_id FOR UPDATE;
+
+    IF NOT p_approve THEN
+        UPDATE member_exits
+        SET status = 'rejected',
+            reviewed_by = v_reviewer_id,
+            review_notes = NULLIF(trim(p_notes), ''),
+            reviewed_at = NOW()
+        WHERE id = v_exit.id;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (v_member.user_id, 'Exit request declined', COALESCE(NULLIF(trim(p_notes), ''), 'Speak to your officers.'),
+            'warning', 'member_exit', v_exit.id);
+
+        RETURN 'rejected';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM payout_requests
+        WHERE member_id = v_member.id
+        AND status IN ('pending', 'approved')
+    ) THEN
+        RAISE EXCEPTION 'The member has open payout or loan requests';
+    END IF;
+
+    v_settlement := member_exit_settlement(v_member.id);
+
+    IF (v_settlement->>'net_settlement')::DECIMAL < 0 THEN
+        RAISE EXCEPTION 'The member owes KES %; it must be paid before the exit can be approved',
+            -(v_settlement->>'net_settlement')::DECIMAL;
+    END IF;
+
+    SELECT phone_number INTO v_phone FROM users WHERE id = v_member.user_id;
+
+    IF (v_settlement->>'share_capital')::DECIMAL > 0 THEN
+        PERFORM post_journal_entry(
+            v_exit.chama_id, 'exit_settlement', 'Share capital returned to savings on exit',
+            jsonb_build_array(
+                jsonb_build_object('account_type', 'share_capital', 'member_id', v_member.id, 'debit', v_settlement->'share_capital'),
+                jsonb_build_object('account_type', 'member_savings', 'member_id', v_member.id, 'credit', v_settlement->'share_capital')
+            )
+        );
+    END IF;
+
+    IF (v_settlement->>'dividend_share')::DECIMAL > 0 THEN
+        INSERT INTO transactions (
+            chama_id, user_id, amount, transaction_type, status, phone_number, description, metadata, completed_at
+        ) VALUES (
+            v_exit.chama_id, v_member.user_id, (v_settlement->>'dividend_share')::DECIMAL, 'dividend', 'completed',
+            v_phone, 'Share of undeclared income on exit',
+            jsonb_build_object(
+                'member_id', v_member.id,
+                'member_exit_id', v_exit.id,
+                'fine_amount', v_settlement->'dividend_fine_share'
+            ),
+            NOW()
+        );
+    END IF;
+
+    -- Outstanding fines are paid from savings
+    UPDATE transactions
+    SET status = 'completed',
+        completed_at = NOW(),
+        metadata = COALESCE(metadata, '{}'::jsonb)
+            || jsonb_build_object('member_id', v_member.id, 'settled_from_savings', true, 'member_exit_id', v_exit.id)
+    WHERE chama_id = v_exit.chama_id
+    AND user_id = v_member.user_id
+    AND transaction_type = 'fine'
+    AND status = 'pending';
+
+    -- Unpaid installments are repaid from savings; repaying the last one releases the loan's guarantors
+    FOR v_loan IN
+        SELECT lr.payout_request_id, SUM(lr.amount) AS amount, SUM(lr.interest_amount) AS interest
+        FROM loan_repayments lr
+        JOIN payout_requests pr ON pr.id = lr.payout_request_id
+        WHERE pr.member_id = v_member.id
+        AND pr.request_type = 'loan'
+        AND pr.status = 'paid'
+        AND lr.is_paid IS NOT TRUE
+        GROUP BY lr.payout_request_id
+    LOOP
+        INSERT INTO transactions (
+            chama_id, user_id, amount, transaction_type, status, phone_number, description, metadata, completed_at
+        ) VALUES (
+            v_exit.chama_id, v_member.user_id, v_loan.amount, 'loan_repayment', 'completed',
+            v_phone, 'Loan repaid from savings on exit',
+            jsonb_build_object(
+                'member_id', v_member.id,
+                'payout_request_id', v_loan.payout_request_id,
+                'interest_amount', v_loan.interest,
+                'settled_from_savings', true,
+                'member_exit_id', v_exit.id
+            ),
+            NOW()
+        )
+        RETURNING id INTO v_transaction_id;
+
+        UPDATE loan_repayments
+        SET is_paid = true,
+            paid_date = (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE,
+            transaction_id = v_transaction_id
+        WHERE payout_request_id = v_loan.payout_request_id
+        AND is_paid IS NOT TRUE;
+    END LOOP;
+
+    IF (v_settlement->>'payout_amount')::DECIMAL > 0 THEN
+        INSERT INTO payout_requests (chama_id, member_id, amount, request_type, purpose, status, approved_at, approved_by)
+        VALUES (
+            v_exit.chama_id, v_member.id, (v_settlement->>'payout_amount')::DECIMAL, 'payout',
+            'Exit settlement', 'approved', NOW(), v_reviewer_id
+        )
+        RETURNING id INTO v_payout_id;
+    END IF;
+
+    UPDATE member_exits
+    SET status = 'approved',
+        settlement = v_settlement,
+        payout_amount = (v_settlement->>'payout_amount')::DECIMAL,
+        withheld_amount = (v_settlement->>'withheld_amount')::DECIMAL,
+        payout_request_id = v_payout_id,
+        reviewed_by = v_reviewer_id,
+        review_notes = NULLIF(trim(p_notes), ''),
+        reviewed_at = NOW()
+    WHERE id = v_exit.id;
+
+    -- Nothing to pay out: the membership closes now
+    IF v_payout_id IS NULL THEN
+        PERFORM complete_member_exit(v_exit.id);
+        RETURN 'completed';
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_member.user_id, 'Exit approved',
+        'Your settlement of KES ' || (v_settlement->>'payout_amount') || ' has been approved and will be sent to you.',
+        'success', 'member_exit', v_exit.id
+    );
+
+    RETURN 'approved';
+END;
+$$;
+
+-- Function to close an exit when its settlement payout is paid
+CREATE OR REPLACE FUNCTION complete_paid_member_exit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM complete_member_exit(id)
+    FROM member_exits
+    WHERE payout_request_id = NEW.id
+    AND status = 'approved';
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to send a leaving chairperson's exit to the officers once a successor holds the chair
+CREATE OR REPLACE FUNCTION release_exit_after_handover()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_exit_id UUID;
+BEGIN
+    UPDATE member_exits
+    SET status = 'pending',
+        settlement = member_exit_settlement(NEW.id)
+    WHERE member_id = NEW.id
+    AND status = 'awaiting_handover'
+    RETURNING id INTO v_exit_id;
+
+    IF v_exit_id IS NOT NULL THEN
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        SELECT user_id, 'Member exit request', 'The former chairperson has asked to leave the chama and is waiting for approval.',
+            'vote_required', 'member_exit', v_exit_id
+        FROM chama_members
+        WHERE chama_id = NEW.chama_id
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+        AND id <> NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Security: Memberships only close through an approved exit
+REVOKE EXECUTE ON FUNCTION complete_member_exit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to register a new chama's generated invite code as its shared invite
+CREATE OR REPLACE FUNCTION open_initial_invite()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    INSERT INTO chama_invites (chama_id, code, invite_type, expires_at, created_by)
+    VALUES (NEW.id, NEW.invite_code, 'shared', NOW() + INTERVAL '30 days', NEW.created_by);
+
+    RETURN NEW;
+END;
+$$;
+
+-- Function to replace a chama's shared invite code; the old code stops working at once (officers only)
+CREATE OR REPLACE FUNCTION rotate_invite_code(
+    p_chama_id UUID,
+    p_expires_in_days INTEGER DEFAULT 30,
+    p_max_uses INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_invite chama_invites%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Only officers can manage invites';
+    END IF;
+
+    IF p_expires_in_days IS NULL OR p_expires_in_days NOT BETWEEN 1 AND 90 THEN
+        RAISE EXCEPTION 'Invites must expire within 1 to 90 days';
+    END IF;
+
+    IF p_max_uses IS NOT NULL AND p_max_uses NOT BETWEEN 1 AND 500 THEN
+        RAISE EXCEPTION 'An invite can be used between 1 and 500 times';
+    END IF;
+
+    -- Lock the chama so two officers rotating at once cannot both open a shared invite
+    PERFORM 1 FROM chamas WHERE id = p_chama_id AND is_active = true FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Chama not found';
+    END IF;
+
+    UPDATE chama_invites
+    SET revoked_at = NOW()
+    WHERE chama_id = p_chama_id
+    AND invite_type = 'shared'
+    AND revoked_at IS NULL;
+
+    INSERT INTO chama_invites (chama_id, code, invite_type, expires_at, max_uses, created_by)
+    VALUES (p_chama_id, new_invite_code(), 'shared', NOW() + make_interval(days => p_expires_in_days), p_max_uses, auth.uid())
+    RETURNING * INTO v_invite;
+
+    UPDATE chamas SET invite_code = v_invite.code WHERE id = p_chama_id;
+
+    RETURN to_jsonb(v_invite);
+END;
+$$;
+
+-- Function to invite one person by phone number; only the user registered with that number can redeem the
+-- code, once (officers only)
+CREATE OR REPLACE FUNCTION create_personal_invite(
+    p_chama_id UUID,
+    p_phone_number VARCHAR(15),
+    p_expires_in_days INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_chama chamas%ROWTYPE;
+    v_invite chama_invites%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Only officers can manage invites';
+    END IF;
+
+    IF p_phone_number IS NULL OR p_phone_number !~ '^254[17]\d{8}$' THEN
+        RAISE EXCEPTION 'Invalid phone number';
+    END IF;
+
+    IF p_expires_in_days IS NULL OR p_expires_in_days NOT BETWEEN 1 AND 90 THEN
+        RAISE EXCEPTION 'Invites must expire within 1 to 90 days';
+    END IF;
+
+    SELECT * INTO v_chama FROM chamas WHERE id = p_chama_id AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Chama not found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM chama_members cm
+        JOIN users u ON u.id = cm.user_id
+        WHERE cm.chama_id = p_chama_id
+        AND u.phone_number = p_phone_number
+        AND cm.is_active = true
+    ) THEN
+        RAISE EXCEPTION 'That phone number already belongs to a member';
+    END IF;
+
+    -- A fresh invite replaces any earlier one still open for the same number
+    UPDATE chama_invites
+    SET revoked_at = NOW()
+    WHERE chama_id = p_chama_id
+    AND invite_type = 'personal'
+    AND phone_number = p_phone_number
+    AND revoked_at IS NULL
+    AND use_count = 0;
+
+    INSERT INTO chama_invites (chama_id, code, invite_type, phone_number, expires_at, max_uses, created_by)
+    VALUES (p_chama_id, new_invite_code(), 'personal', p_phone_number,
+        NOW() + make_interval(days => p_expires_in_days), 1, auth.uid())
+    RETURNING * INTO v_invite;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT id, 'Chama invitation',
+        format('You have been invited to join %s. Use invite code %s before it expires.', v_chama.name, v_invite.code),
+        'info', 'chama_invite', v_invite.id
+    FROM users
+    WHERE phone_number = p_phone_number;
+
+    RETURN to_jsonb(v_invite);
+END;
+$$;
+
+-- Function to stop an invite from being used (officers only)
+CREATE OR REPLACE FUNCTION revoke_chama_invite(p_invite_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_invite chama_invites%ROWTYPE;
+BEGIN
+    SELECT * INTO v_invite FROM chama_invites WHERE id = p_invite_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = v_invite.chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Invite not found';
+    END IF;
+
+    IF v_invite.revoked_at IS NULL THEN
+        UPDATE chama_invites SET revoked_at = NOW() WHERE id = p_invite_id;
+    END IF;
+END;
+$$;
+
+-- Function to make a user a member of a chama, charging the chama's entry fee (settings.membership.entry_fee)
+-- as a pending obligation. Returns the new membership and the fee.
+CREATE OR REPLACE FUNCTION admit_chama_member(p_chama_id UUID, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_chama chamas%ROWTYPE;
+    v_member_id UUID;
+    v_entry_fee DECIMAL(10,2);
+    v_fee_id UUID;
+BEGIN
+    SELECT * INTO v_chama FROM chamas WHERE id = p_chama_id;
+
+    INSERT INTO chama_members (chama_id, user_id, role, joined_at)
+    VALUES (p_chama_id, p_user_id, 'member', NOW())
+    RETURNING id INTO v_member_id;
+
+    v_entry_fee := COALESCE((v_chama.settings->'membership'->>'entry_fee')::DECIMAL(10,2), 0);
+
+    IF v_entry_fee > 0 THEN
+        -- Pending until paid; the ledger trigger posts it on completion
+        INSERT INTO transactions (
+            chama_id, user_id, amount, transaction_type, status, phone_number, description, metadata
+        )
+        SELECT p_chama_id, p_user_id, v_entry_fee, 'entry_fee', 'pending', phone_number,
+            'Entry fee for ' || v_chama.name,
+            jsonb_build_object('member_id', v_member_id)
+        FROM users
+        WHERE id = p_user_id
+        RETURNING id INTO v_fee_id;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            p_user_id,
+            'Entry fee due',
+            'Welcome to ' || v_chama.name || '. Your entry fee of KES ' || v_entry_fee || ' is due.',
+            'warning',
+            'entry_fee',
+            v_fee_id
+        );
+    END IF;
+
+    RETURN jsonb_build_object('member_id', v_member_id, 'entry_fee_transaction_id', v_fee_id);
+END;
+$$;
+
+-- Function to join a chama with an invite code. Expired, revoked and used-up codes all read as invalid so the
+-- response does not reveal which codes once existed. Chamas that vet new members (settings.membership.requires_approval)
+-- get a pending join request instead of a membership.
+CREATE OR REPLACE FUNCTION join_chama_with_invite(p_code VARCHAR(10))
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_invite chama_invites%ROWTYPE;
+    v_chama chamas%ROWTYPE;
+    v_member chama_members%ROWTYPE;
+    v_full_name VARCHAR(100);
+    v_request_id UUID;
+BEGIN
+    SELECT full_name INTO v_full_name FROM users WHERE id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Authentication required';
+    END IF;
+
+    SELECT * INTO v_invite
+    FROM chama_invites
+    WHERE code = upper(trim(p_code))
+    FOR UPDATE;
+
+    IF NOT FOUND
+        OR v_invite.revoked_at IS NOT NULL
+        OR v_invite.expires_at <= NOW()
+        OR (v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses) THEN
+        RAISE EXCEPTION 'Invalid or expired invite code';
+    END IF;
+
+    SELECT * INTO v_chama FROM chamas WHERE id = v_invite.chama_id AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid or expired invite code';
+    END IF;
+
+    IF v_invite.invite_type = 'personal' AND NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE id = auth.uid()
+        AND phone_number = v_invite.phone_number
+    ) THEN
+        RAISE EXCEPTION 'This invite was sent to a different phone number';
+    END IF;
+
+    SELECT * INTO v_member
+    FROM chama_members
+    WHERE chama_id = v_chama.id
+    AND user_id = auth.uid();
+
+    IF FOUND THEN
+        IF v_member.is_active THEN
+            RAISE EXCEPTION 'You are already a member of this chama';
+        END IF;
+
+        RAISE EXCEPTION 'Former members cannot rejoin with an invite code';
+    END IF;
+
+    -- The code is spent when it is redeemed, whether or not the officers go on to approve the request
+    UPDATE chama_invites
+    SET use_count = use_count + 1
+    WHERE id = v_invite.id;
+
+    IF COALESCE((v_chama.settings->'membership'->>'requires_approval')::BOOLEAN, false) THEN
+        BEGIN
+            INSERT INTO join_requests (chama_id, user_id, invite_id)
+            VALUES (v_chama.id, auth.uid(), v_invite.id)
+            RETURNING id INTO v_request_id;
+        EXCEPTION
+            WHEN unique_violation THEN
+                RAISE EXCEPTION 'You have already asked to join this chama';
+        END;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        SELECT cm.user_id, 'Join request',
+            format('%s has asked to join %s and is waiting for approval.', v_full_name, v_chama.name),
+            'vote_required', 'join_request', v_request_id
+        FROM chama_members cm
+        WHERE cm.chama_id = v_chama.id
+        AND cm.role IN ('chairperson', 'treasurer')
+        AND cm.is_active = true;
+
+        RETURN jsonb_build_object('id', v_chama.id, 'name', v_chama.name, 'status', 'pending', 'request_id', v_request_id);
+    END IF;
+
+    PERFORM admit_chama_member(v_chama.id, auth.uid());
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT cm.user_id, 'New member',
+        format('%s joined %s with an invite code.', v_full_name, v_chama.name),
+        'info', 'chama', v_chama.id
+    FROM chama_members cm
+    WHERE cm.chama_id = v_chama.id
+    AND cm.role IN ('chairperson', 'treasurer')
+    AND cm.is_active = true
+    AND cm.user_id <> auth.uid();
+
+    RETURN jsonb_build_object('id', v_chama.id, 'name', v_chama.name, 'status', 'joined');
 END;
 $$;
 
--- Function to automatically update timestamps
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
+-- Function to approve or reject a join request (officers only). Rejections need a reason, which is sent to the
+-- applicant; approval admits them and charges any entry fee.
+CREATE OR REPLACE FUNCTION review_join_request(
+    p_request_id UUID,
+    p_approve BOOLEAN,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_request join_requests%ROWTYPE;
+    v_chama_name VARCHAR(100);
+    v_reviewer_id UUID;
+    v_admission JSONB;
+    v_reason TEXT := NULLIF(trim(p_reason), '');
 BEGIN
-    NEW.updated_at = NOW();
-    RETURN NEW;
+    SELECT * INTO v_request FROM join_requests WHERE id = p_request_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Join request not found';
+    END IF;
+
+    SELECT id INTO v_reviewer_id
+    FROM chama_members
+    WHERE chama_id = v_request.chama_id
+    AND user_id = auth.uid()
+    AND role IN ('chairperson', 'treasurer')
+    AND is_active = true;
+
+    IF v_reviewer_id IS NULL THEN
+        RAISE EXCEPTION 'Only officers can review join requests';
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'This join request has already been %', v_request.status;
+    END IF;
+
+    IF length(v_reason) > 500 THEN
+        RAISE EXCEPTION 'Reason must be at most 500 characters';
+    END IF;
+
+    SELECT name INTO v_chama_name FROM chamas WHERE id = v_request.chama_id;
+
+    IF NOT p_approve THEN
+        IF v_reason IS NULL THEN
+            RAISE EXCEPTION 'Give a reason for rejecting the request';
+        END IF;
+
+        UPDATE join_requests
+        SET status = 'rejected',
+            reviewed_by = v_reviewer_id,
+            review_reason = v_reason,
+            reviewed_at = NOW()
+        WHERE id = p_request_id;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            v_request.user_id,
+            'Join request declined',
+            'Your request to join ' || v_chama_name || ' was declined: ' || v_reason,
+            'error',
+            'join_request',
+            p_request_id
+        );
+
+        RETURN 'rejected';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = v_request.chama_id
+        AND user_id = v_request.user_id
+    ) THEN
+        RAISE EXCEPTION 'The applicant is already a member of this chama';
+    END IF;
+
+    v_admission := admit_chama_member(v_request.chama_id, v_request.user_id);
+
+    UPDATE join_requests
+    SET status = 'approved',
+        member_id = (v_admission->>'member_id')::UUID,
+        entry_fee_transaction_id = (v_admission->>'entry_fee_transaction_id')::UUID,
+        reviewed_by = v_reviewer_id,
+        review_reason = v_reason,
+        reviewed_at = NOW()
+    WHERE id = p_request_id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_request.user_id,
+        'Join request approved',
+        'You are now a member of ' || v_chama_name || '.',
+        'success',
+        'chama',
+        v_request.chama_id
+    );
+
+    RETURN 'approved';
 END;
-$$ LANGUAGE plpgsql;
+$$;
 
--- Function to generate secure invite codes
-CREATE OR REPLACE FUNCTION generate_invite_code()
-RETURNS TRIGGER AS $$
+-- Function to withdraw your own pending join request
+CREATE OR REPLACE FUNCTION cancel_join_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE join_requests
+    SET status = 'cancelled'
+    WHERE id = p_request_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No pending join request to cancel';
+    END IF;
+END;
+$$;
+
+-- Security: Invite codes are only drawn for chamas and invites created through the functions above
+REVOKE EXECUTE ON FUNCTION new_invite_code() FROM PUBLIC, anon, authenticated;
+
+-- Security: Members are only admitted through an invite or an approved join request
+REVOKE EXECUTE ON FUNCTION admit_chama_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to record a cash or bank contribution for a treasurer to confirm. Members record their own;
+-- officers may record on a member's behalf.
+CREATE OR REPLACE FUNCTION record_manual_contribution(
+    p_chama_id UUID,
+    p_member_id UUID,
+    p_amount DECIMAL(10,2),
+    p_payment_method VARCHAR(10),
+    p_reference VARCHAR(100) DEFAULT NULL,
+    p_paid_on DATE DEFAULT NULL,
+    p_proof_path TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_member chama_members%ROWTYPE;
+    v_today DATE := (NOW() AT TIME ZONE 'Africa/Nairobi')::DATE;
+    v_reference VARCHAR(100) := NULLIF(trim(p_reference), '');
+    v_id UUID;
+BEGIN
+    SELECT * INTO v_member
+    FROM chama_members
+    WHERE id = p_member_id
+    AND chama_id = p_chama_id
+    AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Member not found';
+    END IF;
+
+    IF v_member.user_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM chama_members
+        WHERE chama_id = p_chama_id
+        AND user_id = auth.uid()
+        AND role IN ('chairperson', 'treasurer')
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Only officers can record contributions for other members';
+    END IF;
+
+    IF p_payment_method NOT IN ('cash', 'bank') THEN
+        RAISE EXCEPTION 'Cash and bank contributions only; pay M-Pesa contributions through the app';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 OR p_amount > 1000000 THEN
+        RAISE EXCEPTION 'Invalid amount';
+    END IF;
+
+    IF p_payment_method = 'bank' AND v_reference IS NULL THEN
+        RAISE EXCEPTION 'Enter the bank deposit reference';
+    END IF;
+
+    IF p_paid_on IS NOT NULL AND (p_paid_on > v_today OR p_paid_on < v_today - 90) THEN
+        RAISE EXCEPTION 'The payment date must be within the last 90 days';
+    END IF;
+
+    IF p_proof_path IS NOT NULL AND p_proof_path NOT LIKE p_chama_id::TEXT || '/%' THEN
+        RAISE EXCEPTION 'Invalid proof of payment';
+    END IF;
+
+    INSERT INTO manual_contributions (
+        chama_id, member_id, amount, payment_method, reference, paid_on, proof_path, recorded_by
+    ) VALUES (
+        p_chama_id, p_member_id, p_amount, p_payment_method, v_reference, COALESCE(p_paid_on, v_today),
+        p_proof_path, auth.uid()
+    )
+    RETURNING id INTO v_id;
+
+    -- The chairperson confirms the treasurer's own contributions
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    SELECT user_id, 'Contribution to confirm',
+        'A ' || p_payment_method || ' contribution of KES ' || p_amount || ' is waiting for your confirmation.',
+        'vote_required', 'manual_contribution', v_id
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND role = CASE WHEN v_member.role = 'treasurer' THEN 'chairperson' ELSE 'treasurer' END::user_role
+    AND is_active = true
+    AND id <> p_member_id;
+
+    RETURN v_id;
+END;
+$$;
+
+-- Function for the treasurer to confirm or reject a cash or bank contribution, or the chairperson when the payer is
+-- the treasurer. Confirmation books the contribution, settles the member's oldest obligation and issues the chama's
+-- next receipt number.
+CREATE OR REPLACE FUNCTION confirm_manual_contribution(
+    p_manual_contribution_id UUID,
+    p_confirm BOOLEAN,
+    p_notes TEXT DEFAULT NULL,
+    p_proof_path TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_contribution manual_contributions%ROWTYPE;
+    v_member chama_members%ROWTYPE;
+    v_reviewer_id UUID;
+    v_notes TEXT := NULLIF(trim(p_notes), '');
+    v_receipt_number INTEGER;
+    v_transaction_id UUID;
+BEGIN
+    SELECT * INTO v_contribution
+    FROM manual_contributions
+    WHERE id = p_manual_contribution_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Contribution not found';
+    END IF;
+
+    SELECT * INTO v_member FROM chama_members WHERE id = v_contribution.member_id;
+
+    -- Security: nobody confirms money they say they paid themselves
+    IF v_member.user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot confirm your own contribution';
+    END IF;
+
+    SELECT id INTO v_reviewer_id
+    FROM chama_members
+    WHERE chama_id = v_contribution.chama_id
+    AND user_id = auth.uid()
+    AND role = CASE WHEN v_member.role = 'treasurer' THEN 'chairperson' ELSE 'treasurer' END::user_role
+    AND is_active = true;
+
+    IF v_reviewer_id IS NULL THEN
+        RAISE EXCEPTION '%', CASE WHEN v_member.role = 'treasurer'
+            THEN 'Only the chairperson can confirm the treasurer''s cash and bank contributions'
+            ELSE 'Only the treasurer can confirm cash and bank contributions' END;
+    END IF;
+
+    IF v_contribution.status <> 'pending_confirmation' THEN
+        RAISE EXCEPTION 'This contribution has already been %', v_contribution.status;
+    END IF;
+
+    IF length(v_notes) > 500 THEN
+        RAISE EXCEPTION 'Notes must be at most 500 characters';
+    END IF;
+
+    IF p_proof_path IS NOT NULL AND p_proof_path NOT LIKE v_contribution.chama_id::TEXT || '/%' THEN
+        RAISE EXCEPTION 'Invalid proof of payment';
+    END IF;
+
+    IF NOT p_confirm THEN
+        IF v_notes IS NULL THEN
+            RAISE EXCEPTION 'Give a reason for rejecting the contribution';
+        END IF;
+
+        UPDATE manual_contributions
+        SET status = 'rejected',
+            confirmed_by = v_reviewer_id,
+            review_notes = v_notes,
+            proof_path = COALESCE(p_proof_path, proof_path),
+            reviewed_at = NOW()
+        WHERE id = p_manual_contribution_id;
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            v_member.user_id,
+            'Contribution not confirmed',
+            'Your ' || v_contribution.payment_method || ' contribution of KES ' || v_contribution.amount
+                || ' was not confirmed: ' || v_notes,
+            'error',
+            'manual_contribution',
+            p_manual_contribution_id
+        );
+
+        RETURN NULL;
+    END IF;
+
+    -- Lock the chama so receipt numbers are issued one at a time, without gaps
+    PERFORM 1 FROM chamas WHERE id = v_contribution.chama_id FOR UPDATE;
+
+    SELECT COALESCE(MAX(receipt_number), 0) + 1 INTO v_receipt_number
+    FROM manual_contributions
+    WHERE chama_id = v_contribution.chama_id;
+
+    INSERT INTO transactions (
+        chama_id, user_id, amount, transaction_type, status, phone_number, description, metadata, completed_at
+    )
+    SELECT v_contribution.chama_id, v_member.user_id, v_contribution.amount, 'contribution', 'completed',
+        u.phone_number,
+        initcap(v_contribution.payment_method) || ' contribution, receipt ' || v_receipt_number,
+        jsonb_build_object(
+            'member_id', v_member.id,
+            'payment_method', v_contribution.payment_method,
+            'reference', v_contribution.reference,
+            'manual_contribution_id', v_contribution.id,
+            'receipt_number', v_receipt_number
+        ),
+        NOW()
+    FROM users u
+    WHERE u.id = v_member.user_id
+    RETURNING id INTO v_transaction_id;
+
+    PERFORM apply_contribution_payment(v_contribution.chama_id, v_member.id, v_contribution.amount, v_transaction_id, NOW());
+
+    UPDATE manual_contributions
+    SET status = 'confirmed',
+        confirmed_by = v_reviewer_id,
+        review_notes = v_notes,
+        proof_path = COALESCE(p_proof_path, proof_path),
+        reviewed_at = NOW(),
+        transaction_id = v_transaction_id,
+        receipt_number = v_receipt_number
+    WHERE id = p_manual_contribution_id;
+
+    INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+    VALUES (
+        v_member.user_id,
+        'Contribution confirmed',
+        'Your ' || v_contribution.payment_method || ' contribution of KES ' || v_contribution.amount
+            || ' was confirmed. Receipt number ' || v_receipt_number || '.',
+        'success',
+        'manual_contribution',
+        p_manual_contribution_id
+    );
+
+    RETURN v_receipt_number;
+END;
+$$;
+
+-- Function for the treasurer to post statement lines they matched to members as completed contributions.
+-- Lines whose reference (M-Pesa receipt or bank reference) is already booked are skipped, so re-importing an
+-- overlapping statement, or one containing STK payments, never counts money twice.
+CREATE OR REPLACE FUNCTION post_statement_import(
+    p_chama_id UUID,
+    p_source VARCHAR(20),
+    p_file_name VARCHAR(255),
+    p_line_count INTEGER,
+    p_allocations JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
 DECLARE
-    new_code VARCHAR(10);
-    code_exists BOOLEAN;
+    v_treasurer_id UUID;
+    v_import_id UUID;
+    v_allocation JSONB;
+    v_member chama_members%ROWTYPE;
+    v_reference VARCHAR(50);
+    v_amount DECIMAL(10,2);
+    v_paid_at TIMESTAMP WITH TIME ZONE;
+    v_transaction_id UUID;
+    v_posted INTEGER := 0;
+    v_duplicates INTEGER := 0;
+    v_posted_amount DECIMAL(12,2) := 0;
 BEGIN
+    SELECT id INTO v_treasurer_id
+    FROM chama_members
+    WHERE chama_id = p_chama_id
+    AND user_id = auth.uid()
+    AND role = 'treasurer'
+    AND is_active = true;
+
+    IF v_treasurer_id IS NULL THEN
+        RAISE EXCEPTION 'Only the treasurer can import statements';
+    END IF;
+
+    IF p_source NOT IN ('mpesa_paybill', 'mpesa_till', 'bank') THEN
+        RAISE EXCEPTION 'Unsupported statement source';
+    END IF;
+
+    IF jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+        RAISE EXCEPTION 'Allocate at least one statement line to a member';
+    END IF;
+
+    IF jsonb_array_length(p_allocations) > 1000 THEN
+        RAISE EXCEPTION 'Import at most 1000 lines at a time';
+    END IF;
+
+    INSERT INTO statement_imports (chama_id, source, file_name, line_count, imported_by)
+    VALUES (
+        p_chama_id,
+        p_source,
+        left(p_file_name, 255),
+        GREATEST(COALESCE(p_line_count, 0), jsonb_array_length(p_allocations)),
+        v_treasurer_id
+    )
+    RETURNING id INTO v_import_id;
+
+    FOR v_allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
     LOOP
-        -- Generate 8-character alphanumeric code
-        new_code := upper(substring(md5(random()::text) from 1 for 8));
-        
-        -- Check if code already exists
-        SELECT EXISTS(SELECT 1 FROM chamas WHERE invite_code = new_code) INTO code_exists;
-        
-        EXIT WHEN NOT code_exists;
+        v_reference := upper(NULLIF(trim(v_allocation->>'reference'), ''));
+        v_amount := (v_allocation->>'amount')::DECIMAL(10,2);
+        v_paid_at := COALESCE((v_allocation->>'paid_at')::TIMESTAMP WITH TIME ZONE, NOW());
+
+        IF v_reference IS NULL THEN
+            RAISE EXCEPTION 'Every statement line needs its transaction reference';
+        END IF;
+
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Line % has an invalid amount', v_reference;
+        END IF;
+
+        IF v_paid_at > NOW() THEN
+            RAISE EXCEPTION 'Line % is dated in the future', v_reference;
+        END IF;
+
+        SELECT * INTO v_member
+        FROM chama_members
+        WHERE id = (v_allocation->>'member_id')::UUID
+        AND chama_id = p_chama_id
+        AND is_active = true;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is allocated to someone who is not a member', v_reference;
+        END IF;
+
+        -- Security: a reference is booked once, however many statements it appears on, including an STK payment
+        -- booked under its CheckoutRequestID before its receipt was known
+        IF EXISTS (SELECT 1 FROM transactions WHERE transaction_code = v_reference)
+            OR claim_status_query_receipt(v_reference, v_amount, v_paid_at, p_chama_id, v_member.user_id) IS NOT NULL THEN
+            v_duplicates := v_duplicates + 1;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO transactions (
+            chama_id, user_id, amount, transaction_type, status,
+            transaction_code, phone_number, description, metadata, completed_at
+        )
+        SELECT p_chama_id, v_member.user_id, v_amount, 'contribution', 'completed',
+            v_reference, u.phone_number,
+            left(COALESCE(NULLIF(trim(v_allocation->>'description'), ''), 'Statement contribution ' || v_reference), 500),
+            jsonb_build_object(
+                'member_id', v_member.id,
+                'payment_method', p_source,
+                'statement_import_id', v_import_id
+            ),
+            v_paid_at
+        FROM users u
+        WHERE u.id = v_member.user_id
+        RETURNING id INTO v_transaction_id;
+
+        PERFORM apply_contribution_payment(p_chama_id, v_member.id, v_amount, v_transaction_id, v_paid_at);
+
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        VALUES (
+            v_member.user_id,
+            'Contribution received',
+            'Your payment of KES ' || v_amount || ' (' || v_reference || ') has been recorded as a contribution.',
+            'success',
+            'transaction',
+            v_transaction_id
+        );
+
+        v_posted := v_posted + 1;
+        v_posted_amount := v_posted_amount + v_amount;
     END LOOP;
-    
-    NEW.invite_code := new_code;
+
+    UPDATE statement_imports
+    SET posted_count = v_posted,
+        duplicate_count = v_duplicates,
+        posted_amount = v_posted_amount
+    WHERE id = v_import_id;
+
+    RETURN jsonb_build_object(
+        'import_id', v_import_id,
+        'posted', v_posted,
+        'duplicates', v_duplicates,
+        'posted_amount', v_posted_amount
+    );
+END;
+$$;
+
+-- Function to number members in joining order; the number is part of their paybill account reference
+CREATE OR REPLACE FUNCTION assign_member_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- Lock the chama so members joining at the same time draw distinct numbers
+    PERFORM 1 FROM chamas WHERE id = NEW.chama_id FOR UPDATE;
+
+    SELECT COALESCE(MAX(member_number), 0) + 1 INTO NEW.member_number
+    FROM chama_members
+    WHERE chama_id = NEW.chama_id;
+
     RETURN NEW;
 END;
-$$ LANGUAGE plpgsql;
+$$;
 
--- Function to log security events
-CREATE OR REPLACE FUNCTION log_security_event(
-    p_user_id UUID,
-    p_event_type VARCHAR(50),
-    p_severity VARCHAR(10),
-    p_description TEXT,
-    p_ip_address INET DEFAULT NULL,
-    p_user_agent TEXT DEFAULT NULL,
-    p_metadata JSONB DEFAULT NULL
+-- Function to resolve a paybill account reference (paybill code followed by member number) to an active member
+CREATE OR REPLACE FUNCTION resolve_paybill_reference(p_account_reference TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_reference TEXT := upper(regexp_replace(COALESCE(p_account_reference, ''), '[^A-Za-z0-9]', '', 'g'));
+    v_number TEXT;
+    v_member_id UUID;
+BEGIN
+    -- Paybill codes are always 8 characters; whatever follows is the member number,
+    -- where an O, I or L can only be a mistyped digit
+    v_number := translate(substr(v_reference, 9), 'OIL', '011');
+
+    IF length(v_reference) < 9 OR v_number !~ '^[0-9]{1,6}$' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT chama_members.id INTO v_member_id
+    FROM chama_members
+    JOIN chamas ON chamas.id = chama_members.chama_id
+    WHERE chamas.paybill_code = left(v_reference, 8)
+    AND chamas.is_active = true
+    AND chama_members.member_number = v_number::INTEGER
+    AND chama_members.is_active = true;
+
+    RETURN v_member_id;
+END;
+$$;
+
+-- Function to record a member-initiated paybill (C2B) payment through the STK reconciliation path
+CREATE OR REPLACE FUNCTION reconcile_c2b_payment(
+    p_trans_id VARCHAR(50),
+    p_account_reference TEXT,
+    p_amount DECIMAL(10,2),
+    p_phone_number VARCHAR(15) DEFAULT NULL,
+    p_paid_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
 )
-RETURNS VOID
+RETURNS TEXT
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
+DECLARE
+    v_member chama_members%ROWTYPE;
+    v_phone VARCHAR(16);
+    v_outcome TEXT;
 BEGIN
-    INSERT INTO security_events (
-        user_id, event_type, severity, description, 
-        ip_address, user_agent, metadata
+    IF p_trans_id IS NULL OR p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Paybill payment requires a transaction ID and amount';
+    END IF;
+
+    -- Daraja retries confirmations, and a statement import may already have posted the receipt
+    IF EXISTS (SELECT 1 FROM transaction_logs WHERE checkout_request_id = p_trans_id)
+        OR EXISTS (SELECT 1 FROM transactions WHERE transaction_code = p_trans_id) THEN
+        RETURN 'duplicate';
+    END IF;
+
+    SELECT * INTO v_member
+    FROM chama_members
+    WHERE id = resolve_paybill_reference(p_account_reference);
+
+    -- An STK payment a status query already booked under its CheckoutRequestID takes this receipt instead
+    IF claim_status_query_receipt(p_trans_id, p_amount, COALESCE(p_paid_at, NOW()), v_member.chama_id,
+        v_member.user_id, p_phone_number) IS NOT NULL THEN
+        RETURN 'duplicate';
+    END IF;
+
+    -- Validation rejects unknown references; if it was bypassed the payment is left for a statement import
+    IF v_member.id IS NULL THEN
+        RETURN 'unmatched';
+    END IF;
+
+    -- Daraja masks the payer's MSISDN on confirmations, so fall back to the member's registered number
+    SELECT COALESCE(p_phone_number, phone_number) INTO v_phone
+    FROM users
+    WHERE id = v_member.user_id;
+
+    INSERT INTO transaction_logs (
+        user_id, chama_id, phone_number, amount, status, request_id,
+        purpose, checkout_request_id, provider, channel
     ) VALUES (
-        p_user_id, p_event_type, p_severity, p_description,
-        p_ip_address, p_user_agent, p_metadata
+        v_member.user_id, v_member.chama_id, v_phone, p_amount, 'sent', 'C2B-' || p_trans_id,
+        'contribution', p_trans_id, 'mpesa', 'c2b'
     );
+
+    v_outcome := reconcile_stk_callback(p_trans_id, 0, 'Paybill payment', p_amount, p_trans_id, p_phone_number, p_paid_at);
+
+    IF v_outcome = 'completed' THEN
+        INSERT INTO notifications (user_id, title, message, notification_type, related_entity_type, related_entity_id)
+        SELECT
+            v_member.user_id,
+            'Contribution received',
+            'Your paybill payment of KES ' || p_amount || ' (' || p_trans_id || ') has been recorded as a contribution.',
+            'success',
+            'transaction',
+            id
+        FROM transactions
+        WHERE transaction_code = p_trans_id;
+    END IF;
+
+    RETURN v_outcome;
+END;
+$$;
+
+-- Security: Paybill payments are only resolved and recorded by the C2B API routes, through the service-role client
+REVOKE EXECUTE ON FUNCTION resolve_paybill_reference(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_c2b_payment(VARCHAR, TEXT, DECIMAL, VARCHAR, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function to list STK requests still waiting for a callback, for the status-query reconciler
+CREATE OR REPLACE FUNCTION stale_stk_requests(
+    p_older_than_seconds INTEGER DEFAULT 120,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    request_id VARCHAR(50),
+    checkout_request_id VARCHAR(100),
+    amount DECIMAL(10,2),
+    provider VARCHAR(20),
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT tl.request_id, tl.checkout_request_id, tl.amount, tl.provider, tl.created_at
+    FROM transaction_logs tl
+    WHERE tl.status IN ('pending', 'sent')
+    AND tl.channel = 'stk'
+    AND tl.checkout_request_id IS NOT NULL
+    AND tl.created_at < NOW() - make_interval(secs => GREATEST(p_older_than_seconds, 0))
+    -- Requests the provider has not answered for are touched after each query, so they rotate to the back
+    ORDER BY tl.updated_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
 END;
 $$;
 
+-- Security: Every member's pending requests are only listed for the scheduled reconciler (service role)
+REVOKE EXECUTE ON FUNCTION stale_stk_requests(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
 -- =============================================
 -- Triggers
 -- =============================================
@@ -530,6 +6467,139 @@ CREATE TRIGGER update_chamas_updated_at BEFORE UPDATE ON chamas
 CREATE TRIGGER update_payout_requests_updated_at BEFORE UPDATE ON payout_requests
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_transaction_logs_updated_at BEFORE UPDATE ON transaction_logs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_disbursement_logs_updated_at BEFORE UPDATE ON disbursement_logs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_idempotency_keys_updated_at BEFORE UPDATE ON idempotency_keys
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_loan_guarantors_updated_at BEFORE UPDATE ON loan_guarantors
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_resolutions_updated_at BEFORE UPDATE ON resolutions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Member identity guard trigger
+CREATE TRIGGER guard_chama_member_identity
+    BEFORE UPDATE ON chama_members
+    FOR EACH ROW EXECUTE FUNCTION guard_member_identity();
+
+-- Chama managed columns guard trigger
+CREATE TRIGGER guard_chama_managed_columns
+    BEFORE INSERT OR UPDATE ON chamas
+    FOR EACH ROW EXECUTE FUNCTION guard_chama_managed_columns();
+
+CREATE TRIGGER update_elections_updated_at BEFORE UPDATE ON elections
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Merry-go-round triggers
+CREATE TRIGGER pay_rotation_on_contribution
+    AFTER INSERT OR UPDATE OF is_paid ON contributions
+    FOR EACH ROW
+    WHEN (NEW.is_paid = true)
+    EXECUTE FUNCTION check_rotation_cycle();
+
+CREATE TRIGGER add_new_member_to_rotation
+    AFTER INSERT ON chama_members
+    FOR EACH ROW EXECUTE FUNCTION add_member_to_rotation();
+
+CREATE TRIGGER update_rotation_bids_updated_at BEFORE UPDATE ON rotation_bids
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Member exit triggers
+CREATE TRIGGER complete_exit_on_payout
+    AFTER UPDATE OF status ON payout_requests
+    FOR EACH ROW
+    WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION complete_paid_member_exit();
+
+CREATE TRIGGER release_exit_on_chair_handover
+    AFTER UPDATE OF role ON chama_members
+    FOR EACH ROW
+    WHEN (OLD.role = 'chairperson' AND NEW.role <> 'chairperson')
+    EXECUTE FUNCTION release_exit_after_handover();
+
+CREATE TRIGGER update_member_exits_updated_at BEFORE UPDATE ON member_exits
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_join_requests_updated_at BEFORE UPDATE ON join_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_manual_contributions_updated_at BEFORE UPDATE ON manual_contributions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Chama invite triggers
+CREATE TRIGGER open_chama_initial_invite
+    AFTER INSERT ON chamas
+    FOR EACH ROW EXECUTE FUNCTION open_initial_invite();
+
+-- Officer term triggers
+CREATE TRIGGER track_chama_officer_terms
+    AFTER INSERT OR UPDATE OF role, is_active ON chama_members
+    FOR EACH ROW EXECUTE FUNCTION track_officer_terms();
+
+-- Chairperson guarantee trigger (deferred so a handover can demote and promote in one transaction)
+CREATE CONSTRAINT TRIGGER ensure_chama_has_chairperson
+    AFTER UPDATE OF role, is_active OR DELETE ON chama_members
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION ensure_chama_chairperson();
+
+-- Member number trigger
+CREATE TRIGGER assign_chama_member_number
+    BEFORE INSERT ON chama_members
+    FOR EACH ROW EXECUTE FUNCTION assign_member_number();
+
+-- Contribution schedule trigger
+CREATE TRIGGER schedule_chama_member_contributions
+    AFTER INSERT ON chama_members
+    FOR EACH ROW EXECUTE FUNCTION schedule_new_member_contributions();
+
+-- Voting deadline trigger
+CREATE TRIGGER set_payout_voting_deadline
+    BEFORE INSERT ON payout_requests
+    FOR EACH ROW EXECUTE FUNCTION set_voting_deadline();
+
+-- Loan limit trigger
+CREATE TRIGGER enforce_loan_request_limit
+    BEFORE INSERT ON payout_requests
+    FOR EACH ROW
+    WHEN (NEW.request_type = 'loan')
+    EXECUTE FUNCTION enforce_loan_limit();
+
+-- Guarantor triggers
+CREATE TRIGGER enforce_payout_vote_guarantee_coverage
+    BEFORE INSERT ON payout_votes
+    FOR EACH ROW EXECUTE FUNCTION enforce_guarantee_coverage();
+
+CREATE TRIGGER release_guarantees_on_rejection
+    AFTER UPDATE OF status ON payout_requests
+    FOR EACH ROW
+    WHEN (NEW.request_type = 'loan' AND NEW.status IN ('rejected', 'expired') AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION release_loan_guarantees();
+
+CREATE TRIGGER release_guarantees_on_repayment
+    AFTER UPDATE OF is_paid ON loan_repayments
+    FOR EACH ROW
+    WHEN (NEW.is_paid = true)
+    EXECUTE FUNCTION release_loan_guarantees();
+
+-- Loan schedule trigger
+CREATE TRIGGER schedule_loan_on_approval
+    AFTER UPDATE OF status ON payout_requests
+    FOR EACH ROW
+    WHEN (NEW.request_type = 'loan' AND NEW.status = 'approved' AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION schedule_approved_loan();
+
+-- Ledger posting trigger
+CREATE TRIGGER post_completed_transaction_to_ledger
+    AFTER INSERT OR UPDATE OF status ON transactions
+    FOR EACH ROW
+    WHEN (NEW.status = 'completed')
+    EXECUTE FUNCTION post_transaction_to_ledger();
+
 -- Generate invite code trigger
 CREATE TRIGGER generate_chama_invite_code BEFORE INSERT ON chamas
     FOR EACH ROW EXECUTE FUNCTION generate_invite_code();
@@ -578,6 +6648,21 @@ LEFT JOIN transactions t ON u.id = t.user_id
 WHERE u.id = auth.uid()
 GROUP BY u.id, u.full_name, u.phone_number;
 
+-- View for ledger balances, signed by each account's normal balance
+CREATE VIEW ledger_account_balances WITH (security_invoker = true) AS
+SELECT
+    a.id as account_id,
+    a.chama_id,
+    a.member_id,
+    a.account_type,
+    a.normal_balance,
+    COALESCE(SUM(
+        CASE WHEN a.normal_balance = 'debit' THEN l.debit - l.credit ELSE l.credit - l.debit END
+    ), 0) as balance
+FROM ledger_accounts a
+LEFT JOIN journal_lines l ON l.account_id = a.id
+GROUP BY a.id;
+
 -- =============================================
 -- Initial Data (Optional - for testing)
 -- =============================================
@@ -662,13 +6747,49 @@ COMMENT ON TABLE chamas IS 'Stores chama groups and their configurations';
 COMMENT ON TABLE chama_members IS 'Junction table for chama membership and roles';
 COMMENT ON TABLE payout_requests IS 'Stores loan and payout requests with voting system';
 COMMENT ON TABLE payout_votes IS 'Stores member votes on payout requests';
+COMMENT ON TABLE resolutions IS 'General-purpose proposals and polls; rules is the chama voting rules snapshot they are decided under';
+COMMENT ON COLUMN resolutions.action IS 'What a passed resolution does: {"type": "update_role", "member_id", "role"} or {"type": "expel_member", "member_id"}';
+COMMENT ON COLUMN resolution_options.opportunity_id IS 'investment_opportunities entry this poll option stands for';
+COMMENT ON TABLE election_ballots IS 'Secret ballots: deliberately no voter or timestamp; turnout is recorded in election_voters';
+COMMENT ON COLUMN chamas.chama_type IS 'savings (pooled savings and loans), rotating (merry-go-round: each cycle''s pot goes to the next member) or table_banking (share capital, loans and yearly dividends)';
+COMMENT ON COLUMN transaction_logs.fine_transaction_id IS 'The pending fine or entry fee a fine or entry_fee payment settles';
+COMMENT ON COLUMN transaction_logs.provider IS 'Mobile money provider the collection was requested through (mpesa, airtel_money, tkash)';
+COMMENT ON COLUMN transaction_logs.channel IS 'stk for app-initiated prompts, c2b for payments members made to the paybill themselves';
+COMMENT ON COLUMN disbursement_logs.provider IS 'Mobile money provider the disbursement was sent through';
+COMMENT ON COLUMN manual_contributions.proof_path IS 'Photo of the bank slip or cash receipt in the payment-proofs storage bucket';
+COMMENT ON COLUMN manual_contributions.receipt_number IS 'Sequential per chama, issued on confirmation';
+COMMENT ON TABLE statement_imports IS 'Statement imports; each posted line is a contribution transaction whose transaction_code is the statement reference and whose metadata carries statement_import_id';
+COMMENT ON COLUMN member_exits.settlement IS 'Settlement breakdown (savings, share capital, dividend share, loans, fines, guarantee exposure), refreshed on approval';
+COMMENT ON TABLE dividend_allocations IS 'Each member''s dividend: share_days is share capital (KES) multiplied by the days it was held in the period';
+COMMENT ON TABLE rotation_slots IS 'Merry-go-round order; cycle_period and payout_request_id are set when the slot''s turn is paid';
+COMMENT ON TABLE officer_terms IS 'Officer term history; ends_at is when the next election should have closed';
 COMMENT ON TABLE transactions IS 'Audit trail for all financial transactions';
+COMMENT ON TABLE transaction_logs IS 'Mobile money collection requests (M-Pesa STK push, Airtel Money) and their checkout identifiers';
+COMMENT ON TABLE disbursement_logs IS 'Mobile money disbursements, one row per attempt, reconciled from provider results';
+COMMENT ON TABLE idempotency_keys IS 'Client idempotency keys and the stored result returned on replay';
+COMMENT ON COLUMN idempotency_keys.expires_at IS 'Minutes ahead while a claim is in progress, so an abandoned one can be retaken; a day ahead once the result is stored or unknown';
+COMMENT ON TABLE ledger_accounts IS 'Double-entry chart of accounts per chama and member';
+COMMENT ON TABLE journal_entries IS 'Balanced ledger postings, one per completed transaction';
+COMMENT ON TABLE journal_lines IS 'Debit and credit lines of each journal entry';
+COMMENT ON COLUMN contributions.cycle_period IS 'Period key for the chama cycle, e.g. 2025-03-14, 2025-W11, 2025-03 or 2025-Q1';
+COMMENT ON COLUMN contributions.in_arrears IS 'Set once an obligation passes its due date unpaid; kept after late payment';
+COMMENT ON COLUMN contributions.amount_paid IS 'Paid towards the obligation so far; is_paid flips once it reaches amount';
+COMMENT ON TABLE contribution_credits IS 'Overpayments carried forward and applied to a member''s next scheduled obligations';
+COMMENT ON COLUMN chamas.total_kitty IS 'Kitty account balance, maintained from the ledger';
+COMMENT ON COLUMN chamas.invite_code IS 'The live shared invite code, mirrored from chama_invites; rotate_invite_code replaces it';
+COMMENT ON COLUMN chamas.paybill_code IS 'The chama''s first invite code, kept when invites rotate; prefixes members'' paybill account references';
+COMMENT ON COLUMN chama_members.member_number IS 'Joining order within the chama; paybill account reference is paybill_code followed by this number';
 COMMENT ON TABLE audit_logs IS 'Comprehensive audit trail for all data changes';
 COMMENT ON TABLE security_events IS 'Security monitoring and incident logging';
 
 COMMENT ON COLUMN users.risk_score IS 'Risk assessment score (0-100) for creditworthiness';
 COMMENT ON COLUMN chamas.max_loan_multiplier IS 'Maximum loan amount multiplier based on contributions';
 COMMENT ON COLUMN chamas.min_approval_percentage IS 'Minimum percentage of votes required for approval';
+COMMENT ON COLUMN payout_requests.interest_rate IS 'Monthly interest rate (percent) for loans';
+COMMENT ON COLUMN payout_requests.guarantee_required IS 'Portion of a loan above the borrower''s own limit that accepted guarantor pledges must cover before voting';
+COMMENT ON COLUMN payout_requests.interest_method IS 'Interest method the repayment schedule was generated with';
+COMMENT ON COLUMN payout_requests.voting_deadline IS 'When voting closes; set from settings.voting.voting_period_hours at creation';
+COMMENT ON COLUMN chamas.settings IS 'Configurable chama rules, e.g. {"fines": {"enabled", "grace_period_days", "penalty_type", "penalty_value", "max_penalty"}, "loans": {"interest_method"}, "voting": {"quorum_percentage", "voting_period_hours", "allow_requester_vote", "allow_guarantor_vote", "cosign_above_amount", "role_weights", "officer_veto"}, "elections": {"term_months", "max_consecutive_terms", "nomination_hours", "voting_hours"}, "rotation": {"order_method"}, "membership": {"requires_approval", "entry_fee"}}';
 
 -- =============================================
 -- Database Security Configuration